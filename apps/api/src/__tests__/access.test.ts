@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { accessRoutes, redactCredentials } from '../routes/access';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { BoardEventBus } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Access API', () => {
+  let app: FastifyInstance;
+  let boardId: string;
+  let editToken: string;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    const events = new BoardEventBus();
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+    await app.register(accessRoutes, { prisma });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    ({ id: boardId, editToken } = JSON.parse(createResponse.body).data);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const createToken = async (role: 'view' | 'edit') =>
+    JSON.parse((await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/tokens`,
+      headers: { 'x-board-token': editToken },
+      payload: { role }
+    })).body).data;
+
+  const rename = (token: string | null) =>
+    app.inject({
+      method: 'PUT',
+      url: `/api/boards/${boardId}`,
+      headers: { 'if-match': '"1"', ...(token && { 'x-board-token': token }) },
+      payload: { title: 'Renamed', columns: [] }
+    });
+
+  it('should let a view link read the board but not change it', async () => {
+    // Arrange
+    const { token } = await createToken('view');
+
+    // Act
+    const read = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`,
+      headers: { 'x-board-token': token }
+    });
+    const write = await rename(token);
+
+    // Assert
+    expect(read.statusCode).toBe(200);
+    expect(write.statusCode).toBe(403);
+    expect(JSON.parse(write.body).error).toBe('This link can only view the board');
+  });
+
+  it('should reject requests without a valid link', async () => {
+    // Act
+    const read = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`
+    });
+    const write = await rename('not-a-token');
+
+    // Assert
+    expect(read.statusCode).toBe(403);
+    expect(write.statusCode).toBe(403);
+  });
+
+  it('should ignore links in the query outside of streams and downloads', async () => {
+    // Act
+    const read = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}?token=${editToken}`
+    });
+
+    // Assert
+    expect(read.statusCode).toBe(403);
+  });
+
+  it('should mask links and sessions in logged URLs', () => {
+    // Act
+    const url = redactCredentials(`/api/boards/${boardId}/events?token=secret&session=signed.value`);
+
+    // Assert
+    expect(url).toBe(`/api/boards/${boardId}/events?token=[redacted]&session=[redacted]`);
+  });
+
+  it('should report the role a link grants', async () => {
+    // Arrange
+    const { token } = await createToken('view');
+
+    // Act
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/access`,
+      headers: { 'x-board-token': token }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toEqual({ role: 'view', passwordProtected: false });
+  });
+
+  it('should list and revoke links', async () => {
+    // Arrange
+    const view = await createToken('view');
+
+    // Act
+    const revoke = await app.inject({
+      method: 'DELETE',
+      url: `/api/boards/${boardId}/tokens/${view.id}`,
+      headers: { 'x-board-token': editToken }
+    });
+    const list = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/tokens`,
+      headers: { 'x-board-token': editToken }
+    });
+
+    // Assert
+    expect(revoke.statusCode).toBe(204);
+    expect(JSON.parse(list.body).data).toEqual([
+      expect.objectContaining({ role: 'edit', token: editToken })
+    ]);
+  });
+
+  it('should not revoke the last edit link', async () => {
+    // Arrange
+    const [edit] = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/tokens`,
+      headers: { 'x-board-token': editToken }
+    })).body).data;
+
+    // Act
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/boards/${boardId}/tokens/${edit.id}`,
+      headers: { 'x-board-token': editToken }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(409);
+  });
+
+  it('should keep boards created before share links open', async () => {
+    // Arrange
+    await prisma.boardToken.deleteMany({ where: { boardId } });
+
+    // Act
+    const response = await rename(null);
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+  });
+
+  describe('passwords', () => {
+    const setPassword = (password: string | null, headers: Record<string, string> = {}) =>
+      app.inject({
+        method: 'PUT',
+        url: `/api/boards/${boardId}/password`,
+        headers: { 'x-board-token': editToken, ...headers },
+        payload: { password }
+      });
+
+    const getBoard = (session?: string) =>
+      app.inject({
+        method: 'GET',
+        url: `/api/boards/${boardId}`,
+        headers: { 'x-board-token': editToken, ...(session && { 'x-board-session': session }) }
+      });
+
+    const unlock = (password: string) =>
+      app.inject({
+        method: 'POST',
+        url: `/api/boards/${boardId}/session`,
+        headers: { 'x-board-token': editToken },
+        payload: { password }
+      });
+
+    it('should require a board session once a password is set', async () => {
+      // Arrange
+      await setPassword('correct horse');
+
+      // Act
+      const locked = await getBoard();
+      const session = await unlock('correct horse');
+      const unlocked = await getBoard(JSON.parse(session.body).data.token);
+
+      // Assert
+      expect(locked.statusCode).toBe(401);
+      expect(session.statusCode).toBe(201);
+      expect(unlocked.statusCode).toBe(200);
+
+      const board = await prisma.board.findUnique({ where: { id: boardId } });
+      expect(board?.passwordHash).toMatch(/^scrypt\$/);
+    });
+
+    it('should reject a wrong password', async () => {
+      // Arrange
+      await setPassword('correct horse');
+
+      // Act
+      const response = await unlock('wrong horse');
+
+      // Assert
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.body).error).toBe('Wrong password');
+    });
+
+    it('should keep the owner unlocked and end other sessions when the password changes', async () => {
+      // Arrange
+      const first = JSON.parse((await setPassword('correct horse')).body).data.session;
+
+      // Act
+      const second = JSON.parse(
+        (await setPassword('battery staple', { 'x-board-session': first.token })).body
+      ).data.session;
+
+      // Assert
+      expect((await getBoard(first.token)).statusCode).toBe(401);
+      expect((await getBoard(second.token)).statusCode).toBe(200);
+    });
+
+    it('should open the board again when the password is removed', async () => {
+      // Arrange
+      const { session } = JSON.parse((await setPassword('correct horse')).body).data;
+
+      // Act
+      const response = await setPassword(null, { 'x-board-session': session.token });
+
+      // Assert
+      expect(JSON.parse(response.body).data).toEqual({ session: null });
+      expect((await getBoard()).statusCode).toBe(200);
+    });
+
+    it('should not tell visitors without a link that the board has a password', async () => {
+      // Arrange
+      await setPassword('correct horse');
+
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/boards/${boardId}/session`,
+        payload: { password: 'correct horse' }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { activityRoutes } from '../routes/activity';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { BoardEventBus } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Activity API', () => {
+  let app: FastifyInstance;
+  let boardId: string;
+  let editToken: string;
+  let columnId: string;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    const events = new BoardEventBus();
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+    await app.register(activityRoutes, { prisma });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    ({ id: boardId, editToken } = JSON.parse(createResponse.body).data);
+
+    const boardResponse = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`,
+      headers: { 'x-board-token': editToken }
+    });
+    columnId = JSON.parse(boardResponse.body).data.columns[0].id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const ifMatch = async () => {
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    return { 'if-match': `"${board?.version ?? 1}"`, 'x-board-token': editToken };
+  };
+
+  const addCard = async (content: string) =>
+    app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: await ifMatch(),
+      payload: { columnId, content }
+    });
+
+  const getActivity = (query = '') =>
+    app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/activity${query}`,
+      headers: { 'x-board-token': editToken }
+    });
+
+  it('should record who made each change with before and after state', async () => {
+    // Arrange
+    const created = JSON.parse((await addCard('Draft')).body).data;
+
+    // Act
+    await app.inject({
+      method: 'PATCH',
+      url: `/api/boards/${boardId}/cards/${created.id}`,
+      headers: { ...(await ifMatch()), 'x-actor-name': encodeURIComponent('Zoë Otter') },
+      payload: { content: 'Final' }
+    });
+    const response = await getActivity();
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+
+    const [latest] = JSON.parse(response.body).data.activities;
+    expect(latest).toMatchObject({
+      action: 'card.updated',
+      actorName: 'Zoë Otter',
+      before: { id: created.id, content: 'Draft' },
+      after: { id: created.id, content: 'Final' }
+    });
+    expect(latest.ipHash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should not record writes that were rejected', async () => {
+    // Act
+    await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: { 'if-match': '"99"', 'x-board-token': editToken },
+      payload: { columnId, content: 'Stale' }
+    });
+    const response = await getActivity();
+
+    // Assert
+    const actions = JSON.parse(response.body).data.activities.map(
+      (activity: { action: string }) => activity.action
+    );
+    expect(actions).toEqual(['board.created']);
+  });
+
+  it('should page through activity newest first', async () => {
+    // Arrange
+    await addCard('One');
+    await addCard('Two');
+
+    // Act
+    const first = JSON.parse((await getActivity('?limit=2')).body).data;
+    const second = JSON.parse((await getActivity(`?limit=2&cursor=${first.nextCursor}`)).body).data;
+
+    // Assert
+    expect(first.activities.map((activity: { after: { content?: string } }) => activity.after.content))
+      .toEqual(['Two', 'One']);
+    expect(second.activities.map((activity: { action: string }) => activity.action))
+      .toEqual(['board.created']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should reject an unknown cursor', async () => {
+    // Act
+    const response = await getActivity('?cursor=999999');
+
+    // Assert
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should return 404 for non-existent board', async () => {
+    // Act
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/boards/non-existent-id/activity'
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(404);
+  });
+});
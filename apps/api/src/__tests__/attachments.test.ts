@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { attachmentRoutes } from '../routes/attachments';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { LocalAttachmentStorage } from '../services/attachment-storage';
+import { AttachmentService, BOARD_ATTACHMENT_QUOTA } from '../services/attachment.service';
+import { BoardEventBus, type BoardEvent } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+interface FilePart {
+  field: string;
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+// Builds a multipart/form-data body from file parts
+const multipart = (parts: FilePart[]) => {
+  const boundary = '----attachment-test';
+  const body = Buffer.concat([
+    ...parts.flatMap(part => [
+      Buffer.from(
+        `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="${part.field}"; filename="${part.fileName}"\r\n` +
+        `Content-Type: ${part.contentType}\r\n\r\n`
+      ),
+      part.data,
+      Buffer.from('\r\n'),
+    ]),
+    Buffer.from(`--${boundary}--\r\n`),
+  ]);
+  return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+};
+
+describe('Attachment API', () => {
+  let app: FastifyInstance;
+  let events: BoardEventBus;
+  let storage: LocalAttachmentStorage;
+  let boardId: string;
+  let editToken: string;
+  let cardId: string;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    events = new BoardEventBus();
+    storage = new LocalAttachmentStorage(await mkdtemp(join(tmpdir(), 'attachments-')));
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(import('@fastify/static'), { root: storage.root, serve: false });
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+    await app.register(attachmentRoutes, { prisma, events, storage });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    ({ id: boardId, editToken } = JSON.parse(createResponse.body).data);
+
+    const column = await prisma.column.findFirstOrThrow({ where: { boardId } });
+    cardId = JSON.parse((await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: await ifMatch(),
+      payload: { columnId: column.id, content: 'Release' }
+    })).body).data.id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await rm(storage.root, { recursive: true, force: true });
+  });
+
+  // Writes carry the edit link and the current board version
+  const ifMatch = async () => {
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    return { 'if-match': `"${board?.version ?? 1}"`, 'x-board-token': editToken };
+  };
+
+  const attachmentsUrl = () => `/api/boards/${boardId}/cards/${cardId}/attachments`;
+
+  const upload = async (parts: FilePart[]) => {
+    const { body, contentType } = multipart(parts);
+    return app.inject({
+      method: 'POST',
+      url: attachmentsUrl(),
+      headers: { ...(await ifMatch()), 'content-type': contentType },
+      payload: body
+    });
+  };
+
+  const uploadImage = async (fileName = 'screenshot.png') =>
+    JSON.parse((await upload([
+      { field: 'file', fileName, contentType: 'image/png', data: PNG },
+      { field: 'thumbnail', fileName: 'thumbnail.jpg', contentType: 'image/jpeg', data: JPEG },
+    ])).body).data;
+
+  it('should store an image with its thumbnail and make it the cover', async () => {
+    // Arrange
+    const received: BoardEvent[] = [];
+    events.subscribe(boardId, event => received.push(event));
+
+    // Act
+    const card = await uploadImage();
+
+    // Assert
+    expect(card.attachments).toEqual([
+      expect.objectContaining({
+        fileName: 'screenshot.png',
+        contentType: 'image/png',
+        size: PNG.length,
+        hasThumbnail: true,
+        cover: true,
+      }),
+    ]);
+    expect(received[0]).toMatchObject({ type: 'card.updated', card: { id: cardId } });
+
+    const attachmentUrl = `${attachmentsUrl()}/${card.attachments[0].id}`;
+    const file = await app.inject({ method: 'GET', url: `${attachmentUrl}/file?token=${editToken}` });
+    expect(file.statusCode).toBe(200);
+    expect(file.headers['content-type']).toBe('image/png');
+    expect(file.rawPayload.equals(PNG)).toBe(true);
+
+    const thumbnail = await app.inject({ method: 'GET', url: `${attachmentUrl}/thumbnail?token=${editToken}` });
+    expect(thumbnail.headers['content-type']).toBe('image/jpeg');
+    expect(thumbnail.rawPayload.equals(JPEG)).toBe(true);
+  });
+
+  it('should sniff the content type instead of trusting the upload', async () => {
+    // Act
+    const response = await upload([
+      { field: 'file', fileName: 'page.html', contentType: 'text/html', data: Buffer.from('<script>alert(1)</script>') },
+    ]);
+
+    // Assert
+    const [attachment] = JSON.parse(response.body).data.attachments;
+    expect(attachment).toMatchObject({ contentType: 'text/plain; charset=utf-8', cover: false });
+
+    const file = await app.inject({
+      method: 'GET',
+      url: `${attachmentsUrl()}/${attachment.id}/file?token=${editToken}`
+    });
+    expect(file.headers['content-type']).toMatch(/^text\/plain/);
+  });
+
+  it('should reject uploads beyond the board quota', async () => {
+    // Arrange
+    await prisma.attachment.create({
+      data: {
+        cardId,
+        fileName: 'archive.zip',
+        contentType: 'application/zip',
+        size: BOARD_ATTACHMENT_QUOTA,
+        storageKey: `${boardId}/archive`,
+      }
+    });
+
+    // Act
+    const response = await upload([{ field: 'file', fileName: 'one-more.png', contentType: 'image/png', data: PNG }]);
+
+    // Assert
+    expect(response.statusCode).toBe(413);
+    expect(await storage.list(`${boardId}/`)).toEqual([]);
+  });
+
+  it('should switch the cover to another image', async () => {
+    // Arrange
+    await uploadImage('first.png');
+    const second = (await uploadImage('second.png')).attachments[1];
+
+    // Act
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `${attachmentsUrl()}/${second.id}`,
+      headers: await ifMatch(),
+      payload: { cover: true }
+    });
+
+    // Assert
+    const { attachments } = JSON.parse(response.body).data;
+    expect(attachments.map((attachment: { fileName: string; cover: boolean }) => [attachment.fileName, attachment.cover]))
+      .toEqual([['first.png', false], ['second.png', true]]);
+  });
+
+  it('should delete an attachment along with its files', async () => {
+    // Arrange
+    const [attachment] = (await uploadImage()).attachments;
+
+    // Act
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `${attachmentsUrl()}/${attachment.id}`,
+      headers: await ifMatch()
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(204);
+    expect(await storage.list(`${boardId}/`)).toEqual([]);
+  });
+
+  it('should remove the files of a deleted card without waiting for another upload', async () => {
+    // Arrange
+    await uploadImage();
+
+    // Act
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/boards/${boardId}/cards/${cardId}`,
+      headers: await ifMatch()
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(204);
+    await vi.waitFor(async () => expect(await storage.list(`${boardId}/`)).toEqual([]));
+  });
+
+  it('should prune the files of deleted boards', async () => {
+    // Arrange
+    await uploadImage();
+    await prisma.board.delete({ where: { id: boardId } });
+
+    // Act
+    const removed = await new AttachmentService(prisma, storage).pruneAllFiles();
+
+    // Assert
+    expect(removed).toBe(2);
+    expect(await storage.list('')).toEqual([]);
+  });
+});
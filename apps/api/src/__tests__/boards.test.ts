@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Fastify, { type FastifyInstance } from 'fastify';
 import { PrismaClient } from '@prisma/client';
 import { boardRoutes } from '../routes/boards';
+import { BoardEventBus } from '../services/board-events';
 
 const prisma = new PrismaClient({
   datasources: {
@@ -13,17 +14,19 @@ const prisma = new PrismaClient({
 
 describe('Board API', () => {
   let app: FastifyInstance;
+  let events: BoardEventBus;
 
   beforeEach(async () => {
     // Set up fresh Fastify instance for each test
     app = Fastify({ logger: false });
+    events = new BoardEventBus();
     
     // Register plugins (same as main app)
     await app.register(import('@fastify/sensible'));
     await app.register(import('@fastify/helmet'));
     
     // Register board routes with test database
-    await app.register(boardRoutes, { prisma });
+    await app.register(boardRoutes, { prisma, events });
     
     // Clean database for each test
     await prisma.card.deleteMany();
@@ -51,6 +54,7 @@ describe('Board API', () => {
       expect(body.data).toHaveProperty('id');
       expect(body.data.id).toMatch(/^[A-Za-z0-9_-]{21}$/); // nanoid format
       expect(body.data.title).toBe('My Kanban Board');
+      expect(body.data.editToken).toMatch(/^[A-Za-z0-9_-]{32}$/);
     });
 
     it('should create a board with custom title', async () => {
@@ -88,7 +92,8 @@ describe('Board API', () => {
       // Fetch the full board to check columns
       const boardResponse = await app.inject({
         method: 'GET',
-        url: `/api/boards/${boardId}`
+        url: `/api/boards/${boardId}`,
+        headers: { 'x-board-token': body.data.editToken }
       });
 
       const board = JSON.parse(boardResponse.body);
@@ -127,12 +132,13 @@ describe('Board API', () => {
         url: '/api/boards',
         payload: { title: 'Test Board' }
       });
-      const boardId = JSON.parse(createResponse.body).data.id;
+      const { id: boardId, editToken } = JSON.parse(createResponse.body).data;
 
       // Act
       const response = await app.inject({
         method: 'GET',
-        url: `/api/boards/${boardId}`
+        url: `/api/boards/${boardId}`,
+        headers: { 'x-board-token': editToken }
       });
 
       // Assert
@@ -168,12 +174,13 @@ describe('Board API', () => {
         url: '/api/boards',
         payload: {}
       });
-      const boardId = JSON.parse(createResponse.body).data.id;
+      const { id: boardId, editToken } = JSON.parse(createResponse.body).data;
 
       // Act
       const response = await app.inject({
         method: 'GET',
-        url: `/api/boards/${boardId}`
+        url: `/api/boards/${boardId}`,
+        headers: { 'x-board-token': editToken }
       });
 
       // Assert
@@ -195,7 +202,7 @@ describe('Board API', () => {
         url: '/api/boards',
         payload: {}
       });
-      const boardId = JSON.parse(createResponse.body).data.id;
+      const { id: boardId, editToken } = JSON.parse(createResponse.body).data;
 
       const updatedBoard = {
         title: 'Updated Board Title',
@@ -216,16 +223,19 @@ describe('Board API', () => {
       const response = await app.inject({
         method: 'PUT',
         url: `/api/boards/${boardId}`,
+        headers: { 'if-match': '"1"', 'x-board-token': editToken },
         payload: updatedBoard
       });
 
       // Assert
       expect(response.statusCode).toBe(204);
+      expect(response.headers['etag']).toBe('"2"');
 
       // Verify the update by fetching the board
       const fetchResponse = await app.inject({
         method: 'GET',
-        url: `/api/boards/${boardId}`
+        url: `/api/boards/${boardId}`,
+        headers: { 'x-board-token': editToken }
       });
 
       const body = JSON.parse(fetchResponse.body);
@@ -254,12 +264,13 @@ describe('Board API', () => {
         url: '/api/boards',
         payload: {}
       });
-      const boardId = JSON.parse(createResponse.body).data.id;
+      const { id: boardId, editToken } = JSON.parse(createResponse.body).data;
 
       // Act - Send invalid structure
       const response = await app.inject({
         method: 'PUT',
         url: `/api/boards/${boardId}`,
+        headers: { 'x-board-token': editToken },
         payload: { invalidField: 'test' }
       });
 
@@ -268,6 +279,176 @@ describe('Board API', () => {
     });
   });
 
+  describe('POST /api/boards/:id/clone', () => {
+    const createScrumBoard = async () =>
+      JSON.parse((await app.inject({
+        method: 'POST',
+        url: '/api/boards',
+        payload: { title: 'Sprint 12', templateId: 'scrum' }
+      })).body).data;
+
+    const cloneBoard = async (board: { id: string; editToken: string }, payload: Record<string, unknown>) =>
+      app.inject({
+        method: 'POST',
+        url: `/api/boards/${board.id}/clone`,
+        headers: { 'x-board-token': board.editToken },
+        payload
+      });
+
+    const getBoard = async (board: { id: string; editToken: string }) =>
+      JSON.parse((await app.inject({
+        method: 'GET',
+        url: `/api/boards/${board.id}`,
+        headers: { 'x-board-token': board.editToken }
+      })).body).data;
+
+    it('should copy everything under new IDs by default', async () => {
+      // Arrange
+      const source = await createScrumBoard();
+
+      // Act
+      const response = await cloneBoard(source, {});
+
+      // Assert
+      expect(response.statusCode).toBe(201);
+      const created = JSON.parse(response.body).data;
+      expect(created.id).not.toBe(source.id);
+      expect(created.title).toBe('Sprint 12 (copy)');
+      expect(created.editToken).not.toBe(source.editToken);
+
+      const [original, clone] = [await getBoard(source), await getBoard(created)];
+      const cardsOf = (board: { columns: Array<{ cards: Array<{ id: string; content: string; estimate: number | null }> }> }) =>
+        board.columns.flatMap(column => column.cards);
+      expect(clone.columns.map((column: { title: string }) => column.title))
+        .toEqual(original.columns.map((column: { title: string }) => column.title));
+      expect(cardsOf(clone).map(({ content, estimate }) => ({ content, estimate })))
+        .toEqual(cardsOf(original).map(({ content, estimate }) => ({ content, estimate })));
+      expect(cardsOf(clone).some(card => cardsOf(original).some(({ id }) => id === card.id))).toBe(false);
+    });
+
+    it('should leave the cards behind when copying columns only', async () => {
+      // Arrange
+      const source = await createScrumBoard();
+
+      // Act
+      const created = JSON.parse((await cloneBoard(source, { scope: 'columns', title: 'Sprint 13' })).body).data;
+
+      // Assert
+      const clone = await getBoard(created);
+      expect(clone.title).toBe('Sprint 13');
+      expect(clone.columns).toHaveLength(5);
+      expect(clone.columns.every((column: { cards: unknown[] }) => column.cards.length === 0)).toBe(true);
+    });
+
+    it('should copy card titles without their details', async () => {
+      // Arrange
+      const source = await createScrumBoard();
+
+      // Act
+      const created = JSON.parse((await cloneBoard(source, { scope: 'cards' })).body).data;
+
+      // Assert
+      const cards = (await getBoard(created)).columns.flatMap((column: { cards: unknown[] }) => column.cards);
+      expect(cards.length).toBeGreaterThan(0);
+      expect(cards.every((card: { estimate: unknown; labelIds: unknown[]; checklists: unknown[] }) =>
+        card.estimate === null && card.labelIds.length === 0 && card.checklists.length === 0
+      )).toBe(true);
+    });
+
+    it('should answer 403 without a link and 400 for unknown scopes', async () => {
+      // Arrange
+      const source = await createScrumBoard();
+
+      // Act
+      const anonymous = await app.inject({ method: 'POST', url: `/api/boards/${source.id}/clone`, payload: {} });
+      const invalid = await cloneBoard(source, { scope: 'labels' });
+
+      // Assert
+      expect(anonymous.statusCode).toBe(403);
+      expect(invalid.statusCode).toBe(400);
+    });
+  });
+
+  describe('Board versions', () => {
+    let editToken: string;
+
+    const createBoard = async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/boards',
+        payload: {}
+      });
+      const board = JSON.parse(response.body).data;
+      editToken = board.editToken;
+      return board.id as string;
+    };
+
+    const putTitle = (boardId: string, title: string, headers: Record<string, string> = {}) =>
+      app.inject({
+        method: 'PUT',
+        url: `/api/boards/${boardId}`,
+        headers: { 'x-board-token': editToken, ...headers },
+        payload: { title, columns: [] }
+      });
+
+    it('should return the board version as an ETag', async () => {
+      // Arrange
+      const boardId = await createBoard();
+
+      // Act
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/boards/${boardId}`,
+        headers: { 'x-board-token': editToken }
+      });
+
+      // Assert
+      expect(response.headers['etag']).toBe('"1"');
+      expect(JSON.parse(response.body).data.version).toBe(1);
+    });
+
+    it('should require If-Match on writes', async () => {
+      // Arrange
+      const boardId = await createBoard();
+
+      // Act
+      const response = await putTitle(boardId, 'No precondition');
+
+      // Assert
+      expect(response.statusCode).toBe(428);
+      expect(JSON.parse(response.body).error).toBe('If-Match header is required');
+    });
+
+    it('should reject a stale version with 409 and the current board', async () => {
+      // Arrange
+      const boardId = await createBoard();
+      await putTitle(boardId, 'Theirs', { 'if-match': '"1"' });
+
+      // Act
+      const response = await putTitle(boardId, 'Mine', { 'if-match': '"1"' });
+
+      // Assert
+      expect(response.statusCode).toBe(409);
+      expect(response.headers['etag']).toBe('"2"');
+
+      const body = JSON.parse(response.body);
+      expect(body.error).toBe('Board has been changed by someone else');
+      expect(body.data.title).toBe('Theirs');
+      expect(body.data.version).toBe(2);
+    });
+
+    it('should reject a malformed If-Match header', async () => {
+      // Arrange
+      const boardId = await createBoard();
+
+      // Act
+      const response = await putTitle(boardId, 'Mine', { 'if-match': 'latest' });
+
+      // Assert
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
   describe('Rate Limiting', () => {
     it('should limit board creation requests', async () => {
       // This test drives implementation of rate limiting
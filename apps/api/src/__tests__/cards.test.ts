@@ -0,0 +1,402 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { BoardEventBus, type BoardEvent } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Card API', () => {
+  let app: FastifyInstance;
+  let events: BoardEventBus;
+  let boardId: string;
+  let columnIds: string[];
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    events = new BoardEventBus();
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    // Every test works against a fresh board with the default columns
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    boardId = JSON.parse(createResponse.body).data.id;
+
+    const boardResponse = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`,
+      headers: await withToken(boardId)
+    });
+    columnIds = JSON.parse(boardResponse.body).data.columns.map(
+      (column: { id: string }) => column.id
+    );
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  // Requests carry the board's edit link
+  const withToken = async (id: string) => {
+    const token = await prisma.boardToken.findFirst({ where: { boardId: id, role: 'edit' } });
+    return token ? { 'x-board-token': token.token } : {};
+  };
+
+  // Writes must name the board version they are based on
+  const ifMatch = async (id: string) => {
+    const board = await prisma.board.findUnique({ where: { id } });
+    return { 'if-match': `"${board?.version ?? 1}"`, ...(await withToken(id)) };
+  };
+
+  const addCard = async (columnId: string, content: string) =>
+    app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: await ifMatch(boardId),
+      payload: { columnId, content }
+    });
+
+  describe('POST /api/boards/:id/cards', () => {
+    it('should create a card with a server-issued id at the end of the column', async () => {
+      // Act
+      await addCard(columnIds[0]!, 'First');
+      const response = await addCard(columnIds[0]!, 'Second');
+
+      // Assert
+      expect(response.statusCode).toBe(201);
+
+      const body = JSON.parse(response.body);
+      expect(body.data.id).toMatch(/^[A-Za-z0-9_-]{21}$/);
+      expect(body.data.content).toBe('Second');
+      expect(body.data.columnId).toBe(columnIds[0]);
+      expect(body.data.order).toBe(1);
+      expect(body.data).toMatchObject({ description: '', priority: null, estimate: null, coverColor: null });
+    });
+
+    it('should publish the new card to board subscribers', async () => {
+      // Arrange
+      const received: BoardEvent[] = [];
+      events.subscribe(boardId, event => received.push(event));
+
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/boards/${boardId}/cards`,
+        headers: { ...(await ifMatch(boardId)), 'x-client-id': 'client-a' },
+        payload: { columnId: columnIds[0], content: 'Shared' }
+      });
+
+      // Assert
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({
+        type: 'card.created',
+        card: JSON.parse(response.body).data,
+        version: 2,
+        clientId: 'client-a'
+      });
+    });
+
+    it('should reject empty content', async () => {
+      // Act
+      const response = await addCard(columnIds[0]!, '   ');
+
+      // Assert
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 404 for a column of another board', async () => {
+      // Arrange
+      const otherBoard = await app.inject({
+        method: 'POST',
+        url: '/api/boards',
+        payload: {}
+      });
+      const otherBoardId = JSON.parse(otherBoard.body).data.id;
+
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/boards/${otherBoardId}/cards`,
+        headers: await ifMatch(otherBoardId),
+        payload: { columnId: columnIds[0], content: 'Sneaky' }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(response.body).error).toBe('Column not found');
+    });
+
+    it('should return 404 for non-existent board', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/boards/non-existent-id/cards',
+        headers: await ifMatch('non-existent-id'),
+        payload: { columnId: columnIds[0], content: 'Task' }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(response.body).error).toBe('Board not found');
+    });
+  });
+
+  describe('PATCH /api/boards/:id/cards/:cardId', () => {
+    it('should update card content', async () => {
+      // Arrange
+      const created = JSON.parse((await addCard(columnIds[0]!, 'Draft')).body).data;
+
+      // Act
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/cards/${created.id}`,
+        headers: await ifMatch(boardId),
+        payload: { content: 'Final' }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data.content).toBe('Final');
+    });
+
+    it('should update card details and keep the ones left out', async () => {
+      // Arrange
+      const created = JSON.parse((await addCard(columnIds[0]!, 'Draft')).body).data;
+
+      // Act
+      await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/cards/${created.id}`,
+        headers: await ifMatch(boardId),
+        payload: { description: '**Why** it matters', priority: 'high' }
+      });
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/cards/${created.id}`,
+        headers: await ifMatch(boardId),
+        payload: { estimate: 3, coverColor: '#22c55e' }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data).toMatchObject({
+        content: 'Draft',
+        description: '**Why** it matters',
+        priority: 'high',
+        estimate: 3,
+        coverColor: '#22c55e'
+      });
+    });
+
+    it('should reject invalid card details', async () => {
+      // Arrange
+      const created = JSON.parse((await addCard(columnIds[0]!, 'Draft')).body).data;
+
+      // Act
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/cards/${created.id}`,
+        headers: await ifMatch(boardId),
+        payload: { priority: 'someday', coverColor: 'green' }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 404 for non-existent card', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/cards/non-existent-id`,
+        headers: await ifMatch(boardId),
+        payload: { content: 'Final' }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/boards/:id/cards/:cardId', () => {
+    it('should delete the card and keep the column order contiguous', async () => {
+      // Arrange
+      await addCard(columnIds[0]!, 'A');
+      const middle = JSON.parse((await addCard(columnIds[0]!, 'B')).body).data;
+      await addCard(columnIds[0]!, 'C');
+
+      // Act
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/boards/${boardId}/cards/${middle.id}`,
+        headers: await ifMatch(boardId)
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(204);
+
+      const boardResponse = await app.inject({
+        method: 'GET',
+        url: `/api/boards/${boardId}`,
+        headers: await withToken(boardId)
+      });
+      const cards = JSON.parse(boardResponse.body).data.columns[0].cards;
+      expect(cards.map((card: { content: string }) => card.content)).toEqual(['A', 'C']);
+      expect(cards.map((card: { order: number }) => card.order)).toEqual([0, 1]);
+    });
+  });
+
+  describe('PATCH /api/boards/:id/cards/:cardId/move', () => {
+    const moveCard = async (
+      cardId: string,
+      payload: { sourceColumnId: string; targetColumnId: string; targetOrder: number }
+    ) =>
+      app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/cards/${cardId}/move`,
+        headers: await ifMatch(boardId),
+        payload
+      });
+
+    it('should reorder a card within its column', async () => {
+      // Arrange
+      const first = JSON.parse((await addCard(columnIds[0]!, 'A')).body).data;
+      await addCard(columnIds[0]!, 'B');
+      await addCard(columnIds[0]!, 'C');
+
+      // Act
+      const response = await moveCard(first.id, {
+        sourceColumnId: columnIds[0]!,
+        targetColumnId: columnIds[0]!,
+        targetOrder: 2
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+
+      const { columns } = JSON.parse(response.body).data;
+      expect(columns).toHaveLength(1);
+      expect(columns[0].cards.map((card: { content: string }) => card.content)).toEqual(['B', 'C', 'A']);
+      expect(columns[0].cards.map((card: { order: number }) => card.order)).toEqual([0, 1, 2]);
+    });
+
+    it('should move a card across columns and shift both columns', async () => {
+      // Arrange
+      await addCard(columnIds[0]!, 'A');
+      const moving = JSON.parse((await addCard(columnIds[0]!, 'B')).body).data;
+      await addCard(columnIds[0]!, 'C');
+      await addCard(columnIds[1]!, 'X');
+      await addCard(columnIds[1]!, 'Y');
+
+      // Act
+      const response = await moveCard(moving.id, {
+        sourceColumnId: columnIds[0]!,
+        targetColumnId: columnIds[1]!,
+        targetOrder: 1
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+
+      const [source, target] = JSON.parse(response.body).data.columns;
+      expect(source.id).toBe(columnIds[0]);
+      expect(source.cards.map((card: { content: string }) => card.content)).toEqual(['A', 'C']);
+      expect(source.cards.map((card: { order: number }) => card.order)).toEqual([0, 1]);
+      expect(target.id).toBe(columnIds[1]);
+      expect(target.cards.map((card: { content: string }) => card.content)).toEqual(['X', 'B', 'Y']);
+      expect(target.cards.map((card: { order: number }) => card.order)).toEqual([0, 1, 2]);
+    });
+
+    it('should clamp the target order to the end of the column', async () => {
+      // Arrange
+      const card = JSON.parse((await addCard(columnIds[0]!, 'A')).body).data;
+
+      // Act
+      const response = await moveCard(card.id, {
+        sourceColumnId: columnIds[0]!,
+        targetColumnId: columnIds[2]!,
+        targetOrder: 99
+      });
+
+      // Assert
+      const [, target] = JSON.parse(response.body).data.columns;
+      expect(target.cards[0].order).toBe(0);
+    });
+
+    it('should reject a target column from another board', async () => {
+      // Arrange
+      const card = JSON.parse((await addCard(columnIds[0]!, 'A')).body).data;
+      const otherBoard = JSON.parse(
+        (await app.inject({ method: 'POST', url: '/api/boards', payload: {} })).body
+      ).data;
+      const otherColumns = JSON.parse(
+        (
+          await app.inject({
+            method: 'GET',
+            url: `/api/boards/${otherBoard.id}`,
+            headers: await withToken(otherBoard.id)
+          })
+        ).body
+      ).data.columns;
+
+      // Act
+      const response = await moveCard(card.id, {
+        sourceColumnId: columnIds[0]!,
+        targetColumnId: otherColumns[0].id,
+        targetOrder: 0
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(response.body).error).toBe('Column not found');
+    });
+
+    it('should return 409 when the card is no longer in the source column', async () => {
+      // Arrange
+      const card = JSON.parse((await addCard(columnIds[0]!, 'A')).body).data;
+
+      // Act
+      const response = await moveCard(card.id, {
+        sourceColumnId: columnIds[1]!,
+        targetColumnId: columnIds[2]!,
+        targetOrder: 0
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should validate the move payload', async () => {
+      // Arrange
+      const card = JSON.parse((await addCard(columnIds[0]!, 'A')).body).data;
+
+      // Act
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/cards/${card.id}/move`,
+        headers: await ifMatch(boardId),
+        payload: { targetColumnId: columnIds[1], targetOrder: -1 }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
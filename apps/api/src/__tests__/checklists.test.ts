@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { checklistRoutes } from '../routes/checklists';
+import { BoardEventBus, type BoardEvent } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Checklist API', () => {
+  let app: FastifyInstance;
+  let events: BoardEventBus;
+  let boardId: string;
+  let editToken: string;
+  let cardId: string;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    events = new BoardEventBus();
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+    await app.register(checklistRoutes, { prisma, events });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    ({ id: boardId, editToken } = JSON.parse(createResponse.body).data);
+
+    const column = await prisma.column.findFirstOrThrow({ where: { boardId } });
+    cardId = JSON.parse((await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: await ifMatch(),
+      payload: { columnId: column.id, content: 'Release' }
+    })).body).data.id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  // Writes carry the edit link and the current board version
+  const ifMatch = async () => {
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    return { 'if-match': `"${board?.version ?? 1}"`, 'x-board-token': editToken };
+  };
+
+  const checklistsUrl = () => `/api/boards/${boardId}/cards/${cardId}/checklists`;
+
+  const createChecklist = async (title = 'Steps') =>
+    JSON.parse((await app.inject({
+      method: 'POST',
+      url: checklistsUrl(),
+      headers: await ifMatch(),
+      payload: { title }
+    })).body).data;
+
+  const addItems = async (checklistId: string, texts: string[]) => {
+    let checklist;
+    for (const text of texts) {
+      checklist = JSON.parse((await app.inject({
+        method: 'POST',
+        url: `${checklistsUrl()}/${checklistId}/items`,
+        headers: await ifMatch(),
+        payload: { text }
+      })).body).data;
+    }
+    return checklist;
+  };
+
+  it('should add items in order and include checklists in the board', async () => {
+    // Arrange
+    const checklist = await createChecklist();
+
+    // Act
+    const updated = await addItems(checklist.id, ['Tag', 'Build', 'Ship']);
+
+    // Assert
+    expect(updated.items.map((item: { text: string; order: number }) => [item.text, item.order])).toEqual([
+      ['Tag', 0],
+      ['Build', 1],
+      ['Ship', 2],
+    ]);
+    const board = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`,
+      headers: { 'x-board-token': editToken }
+    })).body).data;
+    expect(board.columns[0].cards[0].checklists).toEqual([updated]);
+  });
+
+  it('should toggle an item and publish the checklist', async () => {
+    // Arrange
+    const checklist = await addItems((await createChecklist()).id, ['Tag']);
+    const received: BoardEvent[] = [];
+    events.subscribe(boardId, event => received.push(event));
+
+    // Act
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `${checklistsUrl()}/${checklist.id}/items/${checklist.items[0].id}`,
+      headers: await ifMatch(),
+      payload: { done: true }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data.items[0].done).toBe(true);
+    expect(received[0]).toMatchObject({ type: 'checklist.updated', cardId, checklist: { id: checklist.id } });
+  });
+
+  it('should reorder items', async () => {
+    // Arrange
+    const checklist = await addItems((await createChecklist()).id, ['Tag', 'Build', 'Ship']);
+
+    // Act
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `${checklistsUrl()}/${checklist.id}/items/${checklist.items[2].id}/move`,
+      headers: await ifMatch(),
+      payload: { targetOrder: 0 }
+    });
+
+    // Assert
+    const items = JSON.parse(response.body).data.items;
+    expect(items.map((item: { text: string }) => item.text)).toEqual(['Ship', 'Tag', 'Build']);
+    expect(items.map((item: { order: number }) => item.order)).toEqual([0, 1, 2]);
+  });
+
+  it('should close the gap when an item is deleted', async () => {
+    // Arrange
+    const checklist = await addItems((await createChecklist()).id, ['Tag', 'Build', 'Ship']);
+
+    // Act
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `${checklistsUrl()}/${checklist.id}/items/${checklist.items[0].id}`,
+      headers: await ifMatch()
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(204);
+    const items = await prisma.checklistItem.findMany({ where: { checklistId: checklist.id }, orderBy: { order: 'asc' } });
+    expect(items.map(item => [item.text, item.order])).toEqual([['Build', 0], ['Ship', 1]]);
+  });
+
+  it('should delete a checklist with its items', async () => {
+    // Arrange
+    const checklist = await addItems((await createChecklist()).id, ['Tag']);
+
+    // Act
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `${checklistsUrl()}/${checklist.id}`,
+      headers: await ifMatch()
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(204);
+    expect(await prisma.checklistItem.count({ where: { checklistId: checklist.id } })).toBe(0);
+  });
+
+  it('should not find a checklist through another card', async () => {
+    // Arrange
+    const checklist = await createChecklist();
+    const column = await prisma.column.findFirstOrThrow({ where: { boardId } });
+    const other = await prisma.card.create({ data: { content: 'Other', order: 1, columnId: column.id } });
+
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards/${other.id}/checklists/${checklist.id}/items`,
+      headers: await ifMatch(),
+      payload: { text: 'Sneaky' }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,349 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { columnRoutes } from '../routes/columns';
+import { BoardEventBus } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Column API', () => {
+  let app: FastifyInstance;
+  let events: BoardEventBus;
+  let boardId: string;
+  let columnIds: string[];
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    events = new BoardEventBus();
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+    await app.register(columnRoutes, { prisma, events });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    boardId = JSON.parse(createResponse.body).data.id;
+    columnIds = (await getBoard()).columns.map((column: { id: string }) => column.id);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  // Requests carry the board's edit link
+  const withToken = async (id: string) => {
+    const token = await prisma.boardToken.findFirst({ where: { boardId: id, role: 'edit' } });
+    return token ? { 'x-board-token': token.token } : {};
+  };
+
+  // Writes must name the board version they are based on
+  const ifMatch = async (id: string) => {
+    const board = await prisma.board.findUnique({ where: { id } });
+    return { 'if-match': `"${board?.version ?? 1}"`, ...(await withToken(id)) };
+  };
+
+  const getBoard = async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`,
+      headers: await withToken(boardId)
+    });
+    return JSON.parse(response.body).data;
+  };
+
+  const addCard = async (columnId: string, content: string) =>
+    app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: await ifMatch(boardId),
+      payload: { columnId, content }
+    });
+
+  describe('POST /api/boards/:id/columns', () => {
+    it('should append a column to the right', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/boards/${boardId}/columns`,
+        headers: await ifMatch(boardId),
+        payload: { title: 'Review' }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(201);
+
+      const body = JSON.parse(response.body);
+      expect(body.data.id).toMatch(/^[A-Za-z0-9_-]{21}$/);
+      expect(body.data.title).toBe('Review');
+      expect(body.data.order).toBe(3);
+    });
+
+    it('should reject a blank title', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/boards/${boardId}/columns`,
+        headers: await ifMatch(boardId),
+        payload: { title: '' }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('PATCH /api/boards/:id/columns/:columnId', () => {
+    it('should rename the column', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/columns/${columnIds[0]}`,
+        headers: await ifMatch(boardId),
+        payload: { title: 'Backlog' }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+      expect((await getBoard()).columns[0].title).toBe('Backlog');
+    });
+
+    it('should set and remove a WIP limit', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/columns/${columnIds[1]}`,
+        headers: await ifMatch(boardId),
+        payload: { wipLimit: 3 }
+      });
+
+      // Assert
+      expect(JSON.parse(response.body).data.wipLimit).toBe(3);
+
+      await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/columns/${columnIds[1]}`,
+        headers: await ifMatch(boardId),
+        payload: { wipLimit: null }
+      });
+      expect((await getBoard()).columns[1].wipLimit).toBeNull();
+    });
+
+    it('should reject a WIP limit below one', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/columns/${columnIds[1]}`,
+        headers: await ifMatch(boardId),
+        payload: { wipLimit: 0 }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('PATCH /api/boards/:id/columns/:columnId/move', () => {
+    it('should reorder columns', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/columns/${columnIds[2]}/move`,
+        headers: await ifMatch(boardId),
+        payload: { targetOrder: 0 }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+
+      const { columns } = JSON.parse(response.body).data;
+      expect(columns.map((column: { title: string }) => column.title)).toEqual(['Done', 'Todo', 'In Progress']);
+      expect(columns.map((column: { order: number }) => column.order)).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('DELETE /api/boards/:id/columns/:columnId', () => {
+    it('should delete the column together with its cards', async () => {
+      // Arrange
+      await addCard(columnIds[0]!, 'Doomed');
+
+      // Act
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/boards/${boardId}/columns/${columnIds[0]}?cards=delete`,
+        headers: await ifMatch(boardId)
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(204);
+
+      const board = await getBoard();
+      expect(board.columns.map((column: { title: string }) => column.title)).toEqual(['In Progress', 'Done']);
+      expect(board.columns.map((column: { order: number }) => column.order)).toEqual([0, 1]);
+      expect(await prisma.card.count()).toBe(0);
+    });
+
+    it('should relocate cards to the bottom of another column', async () => {
+      // Arrange
+      await addCard(columnIds[0]!, 'A');
+      await addCard(columnIds[0]!, 'B');
+      await addCard(columnIds[2]!, 'Already done');
+
+      // Act
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/boards/${boardId}/columns/${columnIds[0]}?cards=move&targetColumnId=${columnIds[2]}`,
+        headers: await ifMatch(boardId)
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(204);
+
+      const done = (await getBoard()).columns.find((column: { id: string }) => column.id === columnIds[2]);
+      expect(done.cards.map((card: { content: string }) => card.content)).toEqual(['Already done', 'A', 'B']);
+      expect(done.cards.map((card: { order: number }) => card.order)).toEqual([0, 1, 2]);
+    });
+
+    it('should require a target column when relocating cards', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/boards/${boardId}/columns/${columnIds[0]}?cards=move`,
+        headers: await ifMatch(boardId)
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 404 for a column of another board', async () => {
+      // Arrange
+      const otherBoard = await app.inject({ method: 'POST', url: '/api/boards', payload: {} });
+      const otherBoardId = JSON.parse(otherBoard.body).data.id;
+
+      // Act
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/boards/${otherBoardId}/columns/${columnIds[0]}?cards=delete`,
+        headers: await ifMatch(otherBoardId)
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(404);
+    });
+  });
+  describe('WIP limits', () => {
+    const setWipMode = async (wipMode: 'warn' | 'block') =>
+      app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}`,
+        headers: await ifMatch(boardId),
+        payload: { wipMode }
+      });
+
+    beforeEach(async () => {
+      await prisma.column.update({ where: { id: columnIds[1]! }, data: { wipLimit: 1 } });
+      await addCard(columnIds[1]!, 'In flight');
+    });
+
+    it('should let cards past the limit in warn mode', async () => {
+      // Act
+      const response = await addCard(columnIds[1]!, 'One more');
+
+      // Assert
+      expect(response.statusCode).toBe(201);
+      expect((await getBoard()).wipMode).toBe('warn');
+    });
+
+    it('should refuse new cards for a full column in block mode', async () => {
+      // Arrange
+      await setWipMode('block');
+
+      // Act
+      const response = await addCard(columnIds[1]!, 'One more');
+
+      // Assert
+      expect(response.statusCode).toBe(422);
+      expect(JSON.parse(response.body).error).toBe('Column "In Progress" is at its WIP limit of 1');
+    });
+
+    it('should refuse moves into a full column in block mode', async () => {
+      // Arrange
+      await setWipMode('block');
+      const card = JSON.parse((await addCard(columnIds[0]!, 'Next up')).body).data;
+
+      // Act
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/cards/${card.id}/move`,
+        headers: await ifMatch(boardId),
+        payload: { sourceColumnId: columnIds[0], targetColumnId: columnIds[1], targetOrder: 0 }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(422);
+      expect((await getBoard()).columns[0].cards).toHaveLength(1);
+    });
+
+    it('should refuse board updates that overfill a column in block mode', async () => {
+      // Arrange
+      await setWipMode('block');
+      await addCard(columnIds[0]!, 'Next up');
+      const board = await getBoard();
+      const [todo, inProgress, ...rest] = board.columns;
+
+      // Act
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/boards/${boardId}`,
+        headers: await ifMatch(boardId),
+        payload: {
+          title: board.title,
+          columns: [
+            { ...todo, cards: [] },
+            { ...inProgress, cards: [...inProgress.cards, { ...todo.cards[0], order: 1 }] },
+            ...rest
+          ]
+        }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(422);
+      expect((await getBoard()).columns[1].cards).toHaveLength(1);
+    });
+
+    it('should still reorder cards within a full column in block mode', async () => {
+      // Arrange
+      await prisma.column.update({ where: { id: columnIds[1]! }, data: { wipLimit: 2 } });
+      await addCard(columnIds[1]!, 'Second');
+      await setWipMode('block');
+      const [first] = (await getBoard()).columns[1].cards;
+
+      // Act
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/boards/${boardId}/cards/${first.id}/move`,
+        headers: await ifMatch(boardId),
+        payload: { sourceColumnId: columnIds[1], targetColumnId: columnIds[1], targetOrder: 1 }
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+    });
+  });
+});
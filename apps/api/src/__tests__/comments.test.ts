@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { commentRoutes } from '../routes/comments';
+import { BoardEventBus, type BoardEvent } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Comment API', () => {
+  let app: FastifyInstance;
+  let events: BoardEventBus;
+  let boardId: string;
+  let editToken: string;
+  let cardId: string;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    events = new BoardEventBus();
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+    await app.register(commentRoutes, { prisma, events });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    ({ id: boardId, editToken } = JSON.parse(createResponse.body).data);
+
+    const column = await prisma.column.findFirstOrThrow({ where: { boardId } });
+    cardId = JSON.parse((await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: await ifMatch(),
+      payload: { columnId: column.id, content: 'Release' }
+    })).body).data.id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  // Writes carry the edit link, the current board version and a display name
+  const ifMatch = async (actorName = 'Ada') => {
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    return { 'if-match': `"${board?.version ?? 1}"`, 'x-board-token': editToken, 'x-actor-name': actorName };
+  };
+
+  const commentsUrl = () => `/api/boards/${boardId}/cards/${cardId}/comments`;
+
+  const postComment = async (body: string, actorName?: string) =>
+    JSON.parse((await app.inject({
+      method: 'POST',
+      url: commentsUrl(),
+      headers: await ifMatch(actorName),
+      payload: { body }
+    })).body).data;
+
+  it('should sign comments with the display name and list them oldest first', async () => {
+    // Arrange
+    await postComment('Ship **Friday**?');
+    await postComment('Monday is safer', 'Grace');
+
+    // Act
+    const response = await app.inject({
+      method: 'GET',
+      url: commentsUrl(),
+      headers: { 'x-board-token': editToken }
+    });
+
+    // Assert
+    const comments = JSON.parse(response.body).data;
+    expect(comments.map((comment: { authorName: string; body: string }) => [comment.authorName, comment.body])).toEqual([
+      ['Ada', 'Ship **Friday**?'],
+      ['Grace', 'Monday is safer'],
+    ]);
+    expect(comments[0].edited).toBe(false);
+  });
+
+  it('should count comments on the card and publish the count', async () => {
+    // Arrange
+    const received: BoardEvent[] = [];
+    events.subscribe(boardId, event => received.push(event));
+
+    // Act
+    const comment = await postComment('First');
+
+    // Assert
+    expect(received[0]).toMatchObject({ type: 'comment.created', cardId, comment: { id: comment.id }, commentCount: 1 });
+    const board = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`,
+      headers: { 'x-board-token': editToken }
+    })).body).data;
+    expect(board.columns[0].cards[0].commentCount).toBe(1);
+  });
+
+  it('should mark an edited comment', async () => {
+    // Arrange
+    const comment = await postComment('Frist');
+
+    // Act
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `${commentsUrl()}/${comment.id}`,
+      headers: await ifMatch(),
+      payload: { body: 'First' }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toMatchObject({ body: 'First', edited: true });
+  });
+
+  it("should not let others edit someone's comment", async () => {
+    // Arrange
+    const comment = await postComment('Mine');
+
+    // Act
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `${commentsUrl()}/${comment.id}`,
+      headers: await ifMatch('Grace'),
+      payload: { body: 'Yours now' }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should delete a comment and report the remaining count', async () => {
+    // Arrange
+    const comment = await postComment('Oops');
+    await postComment('Keep');
+    const received: BoardEvent[] = [];
+    events.subscribe(boardId, event => received.push(event));
+
+    // Act
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `${commentsUrl()}/${comment.id}`,
+      headers: await ifMatch('Grace')
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(204);
+    expect(received[0]).toMatchObject({ type: 'comment.deleted', commentId: comment.id, commentCount: 1 });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { eventRoutes } from '../routes/events';
+import { BoardEventBus } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Board events API', () => {
+  let app: FastifyInstance;
+  let events: BoardEventBus;
+  let baseUrl: string;
+  let boardId: string;
+  let editToken: string;
+  let columnId: string;
+  let abort: AbortController;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    events = new BoardEventBus();
+    abort = new AbortController();
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+    await app.register(eventRoutes, { prisma, events });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    // Streams need a real socket, inject() waits for the response to end
+    baseUrl = await app.listen({ port: 0, host: '127.0.0.1' });
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    ({ id: boardId, editToken } = JSON.parse(createResponse.body).data);
+
+    const boardResponse = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`,
+      headers: { 'x-board-token': editToken }
+    });
+    columnId = JSON.parse(boardResponse.body).data.columns[0].id;
+  });
+
+  afterEach(async () => {
+    abort.abort();
+    await app.close();
+  });
+
+  const addCard = async (content: string) => {
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    return app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: { 'if-match': `"${board!.version}"`, 'x-board-token': editToken },
+      payload: { columnId, content }
+    });
+  };
+
+  const connect = (headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/api/boards/${boardId}/events?token=${editToken}`, {
+      headers,
+      signal: abort.signal
+    });
+
+  // Reads the stream until `count` data messages have arrived
+  const readMessages = async (response: Response, count: number) => {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    const messages: Array<{ id: string | null; data: Record<string, unknown> }> = [];
+    let buffer = '';
+
+    while (messages.length < count) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const lines = block.split('\n');
+        const data = lines.find(line => line.startsWith('data: '));
+        if (!data) continue;
+        const id = lines.find(line => line.startsWith('id: '));
+        messages.push({
+          id: id ? id.slice(4) : null,
+          data: JSON.parse(data.slice(6))
+        });
+      }
+    }
+
+    return messages;
+  };
+
+  it('should return 404 for non-existent board', async () => {
+    // Act
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/boards/non-existent-id/events'
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should stream changes made after connecting', async () => {
+    // Arrange
+    const stream = await connect();
+    expect(stream.headers.get('content-type')).toBe('text/event-stream');
+
+    // Act
+    await addCard('Live');
+    const [message] = await readMessages(stream, 1);
+
+    // Assert
+    expect(message!.data).toMatchObject({
+      type: 'card.created',
+      card: { content: 'Live', columnId },
+      version: 2
+    });
+  });
+
+  it('should replay events missed since Last-Event-ID', async () => {
+    // Arrange
+    const publishedIds: string[] = [];
+    events.subscribe(boardId, event => publishedIds.push(event.id));
+    await addCard('Seen');
+    await addCard('Missed');
+
+    // Act
+    const stream = await connect({ 'last-event-id': publishedIds[0]! });
+    const [message] = await readMessages(stream, 1);
+
+    // Assert
+    expect(message!.id).toBe(publishedIds[1]);
+    expect(message!.data).toMatchObject({
+      type: 'card.created',
+      card: { content: 'Missed' }
+    });
+  });
+
+  it('should ask the client to resync when it is too far behind', async () => {
+    // Act
+    const stream = await connect({ 'last-event-id': 'stale-42' });
+    const [message] = await readMessages(stream, 1);
+
+    // Assert
+    expect(message!.data).toEqual({ type: 'resync' });
+  });
+});
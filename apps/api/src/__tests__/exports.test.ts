@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { boardRoutes } from '../routes/boards';
+import { exportRoutes } from '../routes/exports';
+import { BoardEventBus } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Export API', () => {
+  let app: FastifyInstance;
+  let boardId: string;
+  let editToken: string;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events: new BoardEventBus() });
+    await app.register(exportRoutes, { prisma });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: { title: 'Roadmap' }
+    });
+    ({ id: boardId, editToken } = JSON.parse(createResponse.body).data);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should download the board as a versioned JSON document by default', async () => {
+    // Act
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/export?token=${editToken}`
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-disposition']).toBe("attachment; filename*=UTF-8''roadmap.json");
+    expect(JSON.parse(response.body)).toMatchObject({
+      format: 'kanban-board',
+      version: 2,
+      board: { id: boardId, title: 'Roadmap' }
+    });
+  });
+
+  it('should download Markdown with a heading per column', async () => {
+    // Act
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/export?format=markdown`,
+      headers: { 'x-board-token': editToken }
+    });
+
+    // Assert
+    expect(response.headers['content-type']).toBe('text/markdown; charset=utf-8');
+    expect(response.body).toContain('## In Progress');
+  });
+
+  it('should reject unknown formats', async () => {
+    // Act
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/export?format=xlsx`,
+      headers: { 'x-board-token': editToken }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should need a link to the board', async () => {
+    // Act
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/export`
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(403);
+  });
+});
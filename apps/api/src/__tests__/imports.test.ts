@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { boardRoutes } from '../routes/boards';
+import { exportRoutes } from '../routes/exports';
+import { importRoutes } from '../routes/imports';
+import { BoardEventBus } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+const trello = {
+  name: 'Launch',
+  lists: [
+    { id: 'todo', name: 'To Do', pos: 1 },
+    { id: 'done', name: 'Done', pos: 2 },
+  ],
+  cards: [
+    { id: 'c1', name: 'Write copy', idList: 'todo', pos: 1, idLabels: ['l1'] },
+    { id: 'c2', name: 'Shelved', idList: 'todo', pos: 2, closed: true },
+  ],
+  labels: [{ id: 'l1', name: 'Marketing', color: 'green' }],
+  checklists: [
+    { id: 'k1', name: 'Steps', idCard: 'c1', pos: 1, checkItems: [{ name: 'Draft', state: 'complete', pos: 1 }] },
+  ],
+  actions: [
+    { type: 'commentCard', date: '2025-05-01T10:00:00.000Z', data: { text: 'Looks good', card: { id: 'c1' } } },
+  ],
+};
+
+describe('Import API', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events: new BoardEventBus() });
+    await app.register(importRoutes, { prisma });
+    await app.register(exportRoutes, { prisma });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should create a board from a Trello export', async () => {
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/boards/import/trello',
+      payload: trello
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(201);
+    const { data } = JSON.parse(response.body);
+    expect(data).toMatchObject({ title: 'Launch', editToken: expect.any(String) });
+    expect(data.skipped).toEqual([expect.objectContaining({ field: 'cards.closed', count: 1 })]);
+
+    const board = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${data.id}`,
+      headers: { 'x-board-token': data.editToken }
+    })).body).data;
+    expect(board.columns.map((column: { title: string }) => column.title)).toEqual(['To Do', 'Done']);
+    expect(board.labels).toEqual([expect.objectContaining({ name: 'Marketing', color: '#22c55e' })]);
+    expect(board.columns[0].cards).toEqual([
+      expect.objectContaining({
+        content: 'Write copy',
+        labelIds: [board.labels[0].id],
+        commentCount: 1,
+        checklists: [expect.objectContaining({ title: 'Steps', items: [expect.objectContaining({ text: 'Draft', done: true })] })],
+      }),
+    ]);
+  });
+
+  // Exports the board, then imports the document
+  const roundTrip = async (query = '') => {
+    const created = JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: { title: 'Roadmap' }
+    })).body).data;
+    const exported = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${created.id}/export?token=${created.editToken}`
+    });
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/boards/import${query}`,
+      payload: JSON.parse(exported.body)
+    });
+    return { created, response };
+  };
+
+  it('should re-create an exported board under fresh IDs', async () => {
+    // Act
+    const { created, response } = await roundTrip();
+
+    // Assert
+    expect(response.statusCode).toBe(201);
+    const { data } = JSON.parse(response.body);
+    expect(data.id).not.toBe(created.id);
+    expect(data.summary).toMatchObject({ sourceVersion: 2, title: 'Roadmap', columns: 3, cards: 0 });
+
+    const [original, copy] = await Promise.all([created, data].map(async board => JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${board.id}`,
+      headers: { 'x-board-token': board.editToken }
+    })).body).data));
+    expect(copy.columns.map((column: { title: string }) => column.title))
+      .toEqual(original.columns.map((column: { title: string }) => column.title));
+    expect(copy.columns[0].id).not.toBe(original.columns[0].id);
+  });
+
+  it('should only report what would be created on a dry run', async () => {
+    // Act
+    const { response } = await roundTrip('?dryRun=true');
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toMatchObject({ dryRun: true, summary: { columns: 3 } });
+    expect(await prisma.board.count()).toBe(1);
+  });
+
+  it('should refuse exports from a newer release', async () => {
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/boards/import',
+      payload: { format: 'kanban-board', version: 99, board: {} }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toMatch(/version 99/);
+  });
+
+  it('should reject something that is not a Trello export', async () => {
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/boards/import/trello',
+      payload: { title: 'Not Trello' }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(400);
+    expect(await prisma.board.count()).toBe(0);
+  });
+});
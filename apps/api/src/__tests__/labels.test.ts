@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { labelRoutes } from '../routes/labels';
+import { BoardEventBus, type BoardEvent } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Label API', () => {
+  let app: FastifyInstance;
+  let events: BoardEventBus;
+  let boardId: string;
+  let editToken: string;
+  let cardId: string;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    events = new BoardEventBus();
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+    await app.register(labelRoutes, { prisma, events });
+
+    await prisma.label.deleteMany();
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    ({ id: boardId, editToken } = JSON.parse(createResponse.body).data);
+
+    const column = await prisma.column.findFirstOrThrow({ where: { boardId } });
+    cardId = JSON.parse((await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: await ifMatch(),
+      payload: { columnId: column.id, content: 'Fix login' }
+    })).body).data.id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  // Writes carry the edit link and the current board version
+  const ifMatch = async () => {
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    return { 'if-match': `"${board?.version ?? 1}"`, 'x-board-token': editToken };
+  };
+
+  const createLabel = async (name: string, color = '#ef4444') =>
+    app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/labels`,
+      headers: await ifMatch(),
+      payload: { name, color }
+    });
+
+  const setCardLabels = async (labelIds: string[]) =>
+    app.inject({
+      method: 'PATCH',
+      url: `/api/boards/${boardId}/cards/${cardId}`,
+      headers: await ifMatch(),
+      payload: { labelIds }
+    });
+
+  const getBoard = async () =>
+    JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`,
+      headers: { 'x-board-token': editToken }
+    })).body).data;
+
+  it('should create labels and list them by name', async () => {
+    // Act
+    const created = await createLabel('Urgent');
+    await createLabel('Bug', '#3b82f6');
+    const list = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/labels`,
+      headers: { 'x-board-token': editToken }
+    });
+
+    // Assert
+    expect(created.statusCode).toBe(201);
+    expect(JSON.parse(list.body).data.map((label: { name: string }) => label.name)).toEqual(['Bug', 'Urgent']);
+  });
+
+  it('should reject duplicate names and invalid colors', async () => {
+    // Arrange
+    await createLabel('Bug');
+
+    // Act
+    const duplicate = await createLabel('Bug');
+    const invalid = await createLabel('Feature', 'blue');
+
+    // Assert
+    expect(duplicate.statusCode).toBe(409);
+    expect(invalid.statusCode).toBe(400);
+  });
+
+  it('should put labels on cards and include them in the board', async () => {
+    // Arrange
+    const label = JSON.parse((await createLabel('Bug')).body).data;
+
+    // Act
+    const response = await setCardLabels([label.id]);
+
+    // Assert
+    expect(JSON.parse(response.body).data.labelIds).toEqual([label.id]);
+    const board = await getBoard();
+    expect(board.labels).toEqual([{ id: label.id, name: 'Bug', color: '#ef4444' }]);
+    expect(board.columns[0].cards[0].labelIds).toEqual([label.id]);
+  });
+
+  it('should reject labels of another board', async () => {
+    // Arrange
+    const otherBoard = await prisma.board.create({ data: { title: 'Other' } });
+    const foreign = await prisma.label.create({
+      data: { boardId: otherBoard.id, name: 'Foreign', color: '#000000' }
+    });
+
+    // Act
+    const response = await setCardLabels([foreign.id]);
+
+    // Assert
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should rename a label and publish the change', async () => {
+    // Arrange
+    const label = JSON.parse((await createLabel('Bug')).body).data;
+    const received: BoardEvent[] = [];
+    events.subscribe(boardId, event => received.push(event));
+
+    // Act
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/boards/${boardId}/labels/${label.id}`,
+      headers: await ifMatch(),
+      payload: { name: 'Defect' }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+    expect(received[0]).toMatchObject({
+      type: 'label.updated',
+      label: { id: label.id, name: 'Defect', color: '#ef4444' }
+    });
+  });
+
+  it('should take a deleted label off its cards', async () => {
+    // Arrange
+    const label = JSON.parse((await createLabel('Bug')).body).data;
+    await setCardLabels([label.id]);
+
+    // Act
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/boards/${boardId}/labels/${label.id}`,
+      headers: await ifMatch()
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(204);
+    const board = await getBoard();
+    expect(board.labels).toEqual([]);
+    expect(board.columns[0].cards[0].labelIds).toEqual([]);
+  });
+
+  it('should merge a label into another, moving its cards over', async () => {
+    // Arrange
+    const source = JSON.parse((await createLabel('Bugs')).body).data;
+    const target = JSON.parse((await createLabel('Bug')).body).data;
+    await setCardLabels([source.id]);
+
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/labels/${source.id}/merge`,
+      headers: await ifMatch(),
+      payload: { targetLabelId: target.id }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+    const board = await getBoard();
+    expect(board.labels.map((label: { id: string }) => label.id)).toEqual([target.id]);
+    expect(board.columns[0].cards[0].labelIds).toEqual([target.id]);
+  });
+
+  it('should not merge a label into itself', async () => {
+    // Arrange
+    const label = JSON.parse((await createLabel('Bug')).body).data;
+
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/labels/${label.id}/merge`,
+      headers: await ifMatch(),
+      payload: { targetLabelId: label.id }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(400);
+  });
+});
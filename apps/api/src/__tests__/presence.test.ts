@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import type WebSocket from 'ws';
+import { presenceRoutes } from '../routes/presence';
+import { issueToken } from '../services/access.service';
+import { PresenceHub, type PresenceMember } from '../services/presence';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+type PresenceMessage = { type: string; members?: PresenceMember[] };
+
+// Resolves with the first message that matches, ignoring earlier ones
+const waitForMessage = (socket: WebSocket, matches: (message: PresenceMessage) => boolean) =>
+  new Promise<PresenceMessage>(resolve => {
+    const onMessage = (data: WebSocket.RawData) => {
+      const message = JSON.parse(data.toString()) as PresenceMessage;
+      if (matches(message)) {
+        socket.off('message', onMessage);
+        resolve(message);
+      }
+    };
+    socket.on('message', onMessage);
+  });
+
+describe('Presence API', () => {
+  let app: FastifyInstance;
+  let presence: PresenceHub;
+  let boardId: string;
+  const sockets: WebSocket[] = [];
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    presence = new PresenceHub();
+
+    await app.register(import('@fastify/websocket'));
+    await app.register(presenceRoutes, { prisma, presence });
+    await app.ready();
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const board = await prisma.board.create({ data: { title: 'Presence' } });
+    boardId = board.id;
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach(socket => socket.terminate());
+    await app.close();
+  });
+
+  const join = async (name: string, color: string, token?: string) => {
+    const socket = await app.injectWS(`/api/boards/${boardId}/presence${token ? `?token=${token}` : ''}`);
+    sockets.push(socket);
+    const joined = waitForMessage(socket, message =>
+      message.type === 'presence' && !!message.members?.some(member => member.name === name)
+    );
+    socket.send(JSON.stringify({ type: 'hello', name, color }));
+    await joined;
+    return socket;
+  };
+
+  it('should close the connection for non-existent board', async () => {
+    // Arrange
+    const socket = await app.injectWS('/api/boards/non-existent-id/presence');
+    sockets.push(socket);
+
+    // Act
+    const code = await new Promise<number>(resolve => socket.on('close', resolve));
+
+    // Assert
+    expect(code).toBe(4404);
+  });
+
+  it('should close the connection without a valid link', async () => {
+    // Arrange
+    await issueToken(prisma, boardId, 'edit');
+    const socket = await app.injectWS(`/api/boards/${boardId}/presence?token=wrong`);
+    sockets.push(socket);
+
+    // Act
+    const code = await new Promise<number>(resolve => socket.on('close', resolve));
+
+    // Assert
+    expect(code).toBe(4403);
+  });
+
+  it('should tell members who else is on the board', async () => {
+    // Arrange
+    const ann = await join('Ann', '#112233');
+    const update = waitForMessage(ann, message => message.members?.length === 2);
+
+    // Act
+    await join('Bob', '#445566');
+
+    // Assert
+    const { members } = await update;
+    expect(members?.map(member => member.name)).toEqual(['Ann', 'Bob']);
+  });
+
+  it('should share the card a member is editing', async () => {
+    // Arrange
+    const ann = await join('Ann', '#112233');
+    const bob = await join('Bob', '#445566');
+    const update = waitForMessage(bob, message =>
+      !!message.members?.some(member => member.editingCardId === 'card-1')
+    );
+
+    // Act
+    ann.send(JSON.stringify({ type: 'editing', cardId: 'card-1' }));
+
+    // Assert
+    const { members } = await update;
+    expect(members?.find(member => member.name === 'Ann')?.editingCardId).toBe('card-1');
+  });
+
+  it('should not let view-only links lock cards', async () => {
+    // Arrange
+    await issueToken(prisma, boardId, 'edit');
+    const { token } = await issueToken(prisma, boardId, 'view');
+    const viewer = await join('Vic', '#778899', token);
+    const reply = waitForMessage(viewer, message => message.type === 'error');
+
+    // Act
+    viewer.send(JSON.stringify({ type: 'editing', cardId: 'card-1' }));
+
+    // Assert
+    await expect(reply).resolves.toEqual({ type: 'error', error: 'This link can only view the board' });
+    expect(presence.members(boardId).find(member => member.name === 'Vic')?.editingCardId).toBeNull();
+  });
+
+  it('should drop members when their connection closes', async () => {
+    // Arrange
+    const ann = await join('Ann', '#112233');
+    const bob = await join('Bob', '#445566');
+    const update = waitForMessage(ann, message => message.members?.length === 1);
+
+    // Act
+    bob.close();
+
+    // Assert
+    const { members } = await update;
+    expect(members?.map(member => member.name)).toEqual(['Ann']);
+  });
+
+  it('should reject malformed messages', async () => {
+    // Arrange
+    const socket = await join('Ann', '#112233');
+    const reply = waitForMessage(socket, message => message.type === 'error');
+
+    // Act
+    socket.send(JSON.stringify({ type: 'hello', name: '', color: 'red' }));
+
+    // Assert
+    await expect(reply).resolves.toEqual({ type: 'error', error: 'Invalid message' });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { sniffContentType } from '../../services/attachment.service';
+
+describe('sniffContentType', () => {
+  it('should recognize images and documents by their first bytes', () => {
+    // Assert
+    expect(sniffContentType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+    expect(sniffContentType(Buffer.from([0xff, 0xd8, 0xff, 0xdb]))).toBe('image/jpeg');
+    expect(sniffContentType(Buffer.from('GIF89a'))).toBe('image/gif');
+    expect(sniffContentType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+    expect(sniffContentType(Buffer.from('%PDF-1.7'))).toBe('application/pdf');
+  });
+
+  it('should treat UTF-8 as plain text, including markup', () => {
+    // Assert
+    expect(sniffContentType(Buffer.from('Grüße'))).toBe('text/plain; charset=utf-8');
+    expect(sniffContentType(Buffer.from('<svg onload="alert(1)"/>'))).toBe('text/plain; charset=utf-8');
+  });
+
+  it('should fall back to an opaque type for anything else', () => {
+    // Assert
+    expect(sniffContentType(Buffer.from([0x00, 0x01, 0x02]))).toBe('application/octet-stream');
+    expect(sniffContentType(Buffer.from([0xc3, 0x28]))).toBe('application/octet-stream');
+    expect(sniffContentType(Buffer.from('RIFF\0\0\0\0WAVEfmt '))).toBe('application/octet-stream');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { cloneTitle, selectCloneContent } from '../../services/board-clone';
+import type { BoardImport } from '../../services/import.service';
+
+const board: BoardImport = {
+  title: 'Sprint 12',
+  wipMode: 'block',
+  labels: [{ name: 'Bug', color: '#ef4444' }],
+  swimlanes: [{ title: 'Frontend' }],
+  columns: [
+    {
+      title: 'Todo',
+      wipLimit: 3,
+      cards: [
+        {
+          content: 'Fix login',
+          description: 'Steps to reproduce',
+          priority: 'high',
+          estimate: 3,
+          coverColor: '#22c55e',
+          labelNames: ['Bug'],
+          swimlane: 0,
+          checklists: [{ title: 'Done when', items: [{ text: 'Tested', done: true }] }],
+          comments: [{ authorName: 'Sam', body: 'On it', createdAt: new Date('2025-01-01') }],
+        },
+      ],
+    },
+  ],
+};
+
+describe('selectCloneContent', () => {
+  it('should keep the board structure but no cards for columns only', () => {
+    // Act
+    const clone = selectCloneContent(board, 'columns');
+
+    // Assert
+    expect(clone).toMatchObject({ wipMode: 'block', labels: board.labels, swimlanes: board.swimlanes });
+    expect(clone.columns).toEqual([{ title: 'Todo', wipLimit: 3, cards: [] }]);
+  });
+
+  it('should keep card titles and lanes but no details for cards', () => {
+    // Act
+    const [card] = selectCloneContent(board, 'cards').columns[0]!.cards;
+
+    // Assert
+    expect(card).toEqual({
+      content: 'Fix login',
+      description: '',
+      priority: null,
+      estimate: null,
+      coverColor: null,
+      labelNames: [],
+      swimlane: 0,
+      checklists: [],
+      comments: [],
+    });
+  });
+
+  it('should keep every card detail but the comments for everything', () => {
+    // Act
+    const [card] = selectCloneContent(board, 'everything').columns[0]!.cards;
+
+    // Assert
+    expect(card).toEqual({ ...board.columns[0]!.cards[0], comments: [] });
+  });
+});
+
+describe('cloneTitle', () => {
+  it('should mark the title as a copy within the length limit', () => {
+    expect(cloneTitle('Sprint 12')).toBe('Sprint 12 (copy)');
+    expect(cloneTitle('x'.repeat(100))).toHaveLength(100);
+  });
+});
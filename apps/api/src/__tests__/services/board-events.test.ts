@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BoardEventBus, type BoardChange } from '../../services/board-events';
+
+const cardDeleted = (cardId: string): BoardChange => ({ type: 'card.deleted', cardId });
+const meta = (version: number) => ({ version, clientId: null });
+
+describe('BoardEventBus', () => {
+  let bus: BoardEventBus;
+
+  beforeEach(() => {
+    bus = new BoardEventBus(3);
+  });
+
+  it('should deliver events only to subscribers of the same board', () => {
+    // Arrange
+    const received: string[] = [];
+    bus.subscribe('board-1', event => received.push(event.type));
+    const unsubscribe = bus.subscribe('board-2', () => received.push('wrong board'));
+
+    // Act
+    bus.publish('board-1', cardDeleted('card-1'), meta(2));
+    unsubscribe();
+    bus.publish('board-2', cardDeleted('card-2'), meta(2));
+
+    // Assert
+    expect(received).toEqual(['card.deleted']);
+  });
+
+  it('should deliver the events of every board to subscribers of all boards', () => {
+    // Arrange
+    const received: string[] = [];
+    const unsubscribe = bus.subscribeAll((boardId, event) => received.push(`${boardId} ${event.type}`));
+
+    // Act
+    bus.publish('board-1', cardDeleted('card-1'), meta(2));
+    bus.publish('board-2', cardDeleted('card-2'), meta(2));
+    unsubscribe();
+    bus.publish('board-1', cardDeleted('card-3'), meta(3));
+
+    // Assert
+    expect(received).toEqual(['board-1 card.deleted', 'board-2 card.deleted']);
+  });
+
+  it('should replay events published after the last seen ID', () => {
+    // Arrange
+    const first = bus.publish('board-1', cardDeleted('card-1'), meta(2));
+    bus.publish('board-1', cardDeleted('card-2'), meta(3));
+    bus.publish('board-1', cardDeleted('card-3'), meta(4));
+
+    // Act
+    const missed = bus.eventsSince('board-1', first.id);
+
+    // Assert
+    expect(missed?.map(event => event.version)).toEqual([3, 4]);
+  });
+
+  it('should return an empty replay when the client is up to date', () => {
+    // Arrange
+    const latest = bus.publish('board-1', cardDeleted('card-1'), meta(2));
+
+    // Act & Assert
+    expect(bus.eventsSince('board-1', latest.id)).toEqual([]);
+  });
+
+  it('should refuse to replay once events have left the buffer', () => {
+    // Arrange
+    const first = bus.publish('board-1', cardDeleted('card-1'), meta(2));
+    for (let version = 3; version <= 6; version++) {
+      bus.publish('board-1', cardDeleted(`card-${version}`), meta(version));
+    }
+
+    // Act & Assert
+    expect(bus.eventsSince('board-1', first.id)).toBeNull();
+  });
+
+  it('should refuse to replay IDs from another process', () => {
+    // Arrange
+    const other = new BoardEventBus();
+    const foreign = other.publish('board-1', cardDeleted('card-1'), meta(2));
+    bus.publish('board-1', cardDeleted('card-1'), meta(2));
+
+    // Act & Assert
+    expect(bus.eventsSince('board-1', 'not-an-id')).toBeNull();
+    expect(bus.eventsSince('board-1', foreign.id.replace(/^[^-]+/, 'old'))).toBeNull();
+  });
+
+  describe('idle boards', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 0;
+      bus = new BoardEventBus(3, 1000, () => now);
+    });
+
+    it('should drop the events of boards nobody watches and ask clients to reload', () => {
+      // Arrange
+      const last = bus.publish('board-1', cardDeleted('card-1'), meta(2));
+      now = 1000;
+
+      // Act
+      const replacement = bus.publish('board-2', cardDeleted('card-2'), meta(2));
+      bus.subscribe('board-1', () => {});
+
+      // Assert
+      expect(bus.eventsSince('board-1', last.id)).toBeNull();
+      expect(bus.eventsSince('board-2', replacement.id)).toEqual([]);
+    });
+
+    it('should keep boards that are still watched', () => {
+      // Arrange
+      bus.subscribe('board-1', () => {});
+      const last = bus.publish('board-1', cardDeleted('card-1'), meta(2));
+      now = 5000;
+
+      // Act
+      bus.publish('board-2', cardDeleted('card-2'), meta(2));
+
+      // Assert
+      expect(bus.eventsSince('board-1', last.id)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { exportBoard, toCsvExport, toMarkdownExport } from '../../services/board-export';
+import { EMPTY_CARD_DETAILS, type BoardData } from '../../services/board.service';
+
+type ExportCard = BoardData['columns'][number]['cards'][number];
+
+const board: BoardData = {
+  id: 'board-1',
+  title: 'Q3 Roadmap!',
+  createdAt: new Date('2025-06-01T00:00:00.000Z'),
+  version: 4,
+  wipMode: 'warn',
+  labels: [{ id: 'bug', name: 'Bug', color: '#ef4444' }],
+  swimlanes: [{ id: 'web', title: 'Web', order: 0 }],
+  columns: [
+    { id: 'done', title: 'Done', order: 1, wipLimit: null, cards: [] },
+    {
+      id: 'todo',
+      title: 'Todo',
+      order: 0,
+      wipLimit: 3,
+      cards: [
+        {
+          id: 'b',
+          content: 'Fix "login", again',
+          order: 1,
+          ...EMPTY_CARD_DETAILS,
+          priority: 'high',
+          swimlaneId: 'web',
+          labelIds: ['bug'],
+          checklists: [
+            {
+              id: 'k',
+              title: 'Steps',
+              order: 0,
+              items: [
+                { id: 'i2', text: 'Test', done: false, order: 1 },
+                { id: 'i1', text: 'Reproduce', done: true, order: 0 },
+              ],
+            },
+          ],
+          commentCount: 2,
+          attachments: [],
+        },
+        {
+          id: 'a',
+          content: '=SUM(A1)',
+          order: 0,
+          ...EMPTY_CARD_DETAILS,
+          description: 'Line one\nLine two',
+          swimlaneId: null,
+          labelIds: [],
+          checklists: [],
+          commentCount: 0,
+          attachments: [],
+        },
+      ],
+    },
+  ],
+};
+
+describe('exportBoard()', () => {
+  it('should wrap the board and its comments in a versioned JSON document', () => {
+    // Arrange
+    const comments = new Map([
+      ['b', [{
+        id: 'c1',
+        authorName: 'Sam',
+        body: 'On it',
+        edited: false,
+        createdAt: new Date('2025-06-02T00:00:00.000Z'),
+        updatedAt: new Date('2025-06-02T00:00:00.000Z'),
+      }]],
+    ]);
+
+    // Act
+    const file = exportBoard(board, comments, 'json', new Date('2025-07-01T12:00:00.000Z'));
+
+    // Assert
+    expect(file.fileName).toBe('q3-roadmap.json');
+    const document = JSON.parse(file.body);
+    expect(document).toMatchObject({
+      format: 'kanban-board',
+      version: 2,
+      exportedAt: '2025-07-01T12:00:00.000Z',
+      board: { id: 'board-1', title: 'Q3 Roadmap!' },
+    });
+    expect(document.board.columns[1].cards.map((card: { comments: unknown[] }) => card.comments)).toEqual([
+      [{ authorName: 'Sam', body: 'On it', createdAt: '2025-06-02T00:00:00.000Z' }],
+      [],
+    ]);
+  });
+
+  it('should name files after the format', () => {
+    expect(exportBoard(board, new Map(), 'csv').fileName).toBe('q3-roadmap.csv');
+    expect(exportBoard(board, new Map(), 'markdown').fileName).toBe('q3-roadmap.md');
+  });
+});
+
+describe('toCsvExport()', () => {
+  it('should list cards in board order, quoting where needed', () => {
+    // Act
+    const lines = toCsvExport(board).split('\r\n');
+
+    // Assert
+    expect(lines[0]).toBe(
+      'Column,Column order,Card order,Card,Description,Priority,Estimate,Labels,Swimlane,Checklist items done,Checklist items,Comments,Attachments'
+    );
+    expect(lines[1]).toBe(`Todo,0,0,'=SUM(A1),"Line one\nLine two",,,,,0,0,0,0`);
+    expect(lines[2]).toBe('Todo,0,1,"Fix ""login"", again",,high,,Bug,Web,1,2,2,0');
+    expect(lines).toHaveLength(4);
+  });
+});
+
+describe('toMarkdownExport()', () => {
+  it('should list the cards of each column as a checklist with their items nested', () => {
+    // Act
+    const markdown = toMarkdownExport(board);
+
+    // Assert
+    expect(markdown).toBe(
+      [
+        '# Q3 Roadmap!',
+        '',
+        '## Todo',
+        '',
+        '- [ ] =SUM(A1)',
+        '  Line one',
+        '  Line two',
+        '- [ ] Fix "login", again _Priority: high · Labels: Bug_',
+        '  - [x] Reproduce',
+        '  - [ ] Test',
+        '',
+        '## Done',
+        '',
+        '_No cards_',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should tick cards once every checklist item is done', () => {
+    // Arrange
+    const [done, todo] = board.columns as [BoardData['columns'][number], BoardData['columns'][number]];
+    const [fix, formula] = todo.cards as [ExportCard, ExportCard];
+    const finished: BoardData = {
+      ...board,
+      columns: [
+        { ...done, cards: [{ ...formula, order: 0 }] },
+        {
+          ...todo,
+          cards: [
+            {
+              ...fix,
+              checklists: fix.checklists.map(checklist => ({
+                ...checklist,
+                items: checklist.items.map(item => ({ ...item, done: true })),
+              })),
+            },
+          ],
+        },
+      ],
+    };
+
+    // Act
+    const tasks = toMarkdownExport(finished).split('\n').filter(line => line.startsWith('- ['));
+
+    // Assert
+    expect(tasks).toEqual(['- [x] Fix "login", again _Priority: high · Labels: Bug_', '- [ ] =SUM(A1)']);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { mapExportedBoard, readBoardExport, summarizeImport } from '../../services/board-import';
+import { ValidationError } from '../../services/errors';
+
+const card = (id: string, content: string, order: number) => ({
+  id,
+  content,
+  order,
+  description: '',
+  priority: null,
+  estimate: null,
+  coverColor: null,
+  swimlaneId: null,
+  labelIds: [] as string[],
+  checklists: [],
+  commentCount: 0,
+  attachments: [],
+});
+
+// As written by GET /api/boards/:id/export before comments were included
+const versionOne = {
+  format: 'kanban-board',
+  version: 1,
+  exportedAt: '2025-06-01T00:00:00.000Z',
+  board: {
+    id: 'board-1',
+    title: 'Roadmap',
+    createdAt: '2025-05-01T00:00:00.000Z',
+    version: 7,
+    wipMode: 'block',
+    labels: [{ id: 'bug', name: 'Bug', color: '#ef4444' }],
+    swimlanes: [
+      { id: 'api', title: 'API', order: 1 },
+      { id: 'web', title: 'Web', order: 0 },
+    ],
+    columns: [
+      { id: 'done', title: 'Done', order: 1, wipLimit: null, cards: [] },
+      {
+        id: 'todo',
+        title: 'Todo',
+        order: 0,
+        wipLimit: 2,
+        cards: [
+          { ...card('b', 'Second', 1), swimlaneId: 'api' },
+          {
+            ...card('a', 'First', 0),
+            labelIds: ['bug'],
+            checklists: [{ id: 'k', title: 'Steps', order: 0, items: [{ id: 'i', text: 'Do it', done: true, order: 0 }] }],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+const versionTwo = {
+  ...versionOne,
+  version: 2,
+  board: {
+    ...versionOne.board,
+    columns: versionOne.board.columns.map(column => ({
+      ...column,
+      cards: column.cards.map(exported => ({
+        ...exported,
+        comments: exported.id === 'a' ? [{ authorName: 'Sam', body: 'On it', createdAt: '2025-05-02T00:00:00.000Z' }] : [],
+      })),
+    })),
+  },
+};
+
+describe('readBoardExport()', () => {
+  it('should migrate older versions forward', () => {
+    // Act
+    const { document, sourceVersion } = readBoardExport(versionOne);
+
+    // Assert
+    expect(sourceVersion).toBe(1);
+    expect(document.version).toBe(2);
+    expect(document.board.columns[1]!.cards.map(exported => exported.comments)).toEqual([[], []]);
+  });
+
+  it('should refuse documents from a newer release', () => {
+    expect(() => readBoardExport({ ...versionTwo, version: 99 })).toThrow(ValidationError);
+  });
+
+  it('should refuse cards that refer to labels the board does not have', () => {
+    // Arrange
+    const dangling = structuredClone(versionTwo);
+    dangling.board.columns[1]!.cards[0]!.labelIds = ['missing'];
+
+    // Act & Assert
+    expect(() => readBoardExport(dangling)).toThrow(/Unknown label/);
+  });
+});
+
+describe('mapExportedBoard()', () => {
+  it('should keep order and tie cards to their labels and lanes without the old IDs', () => {
+    // Act
+    const board = mapExportedBoard(readBoardExport(versionTwo).document.board);
+
+    // Assert
+    expect(board).toMatchObject({
+      title: 'Roadmap',
+      wipMode: 'block',
+      labels: [{ name: 'Bug', color: '#ef4444' }],
+      swimlanes: [{ title: 'Web' }, { title: 'API' }],
+    });
+    expect(board.columns.map(column => [column.title, column.wipLimit])).toEqual([['Todo', 2], ['Done', null]]);
+    expect(board.columns[0]!.cards).toEqual([
+      expect.objectContaining({
+        content: 'First',
+        labelNames: ['Bug'],
+        swimlane: null,
+        checklists: [{ title: 'Steps', items: [{ text: 'Do it', done: true }] }],
+        comments: [{ authorName: 'Sam', body: 'On it', createdAt: new Date('2025-05-02T00:00:00.000Z') }],
+      }),
+      expect.objectContaining({ content: 'Second', labelNames: [], swimlane: 1 }),
+    ]);
+  });
+});
+
+describe('summarizeImport()', () => {
+  it('should count what the import creates', () => {
+    // Arrange
+    const { document, sourceVersion } = readBoardExport(versionTwo);
+
+    // Act
+    const summary = summarizeImport(mapExportedBoard(document.board), sourceVersion);
+
+    // Assert
+    expect(summary).toEqual({
+      sourceVersion: 2,
+      title: 'Roadmap',
+      columns: 2,
+      cards: 2,
+      labels: 1,
+      swimlanes: 2,
+      checklists: 1,
+      comments: 1,
+    });
+  });
+});
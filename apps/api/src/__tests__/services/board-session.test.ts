@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SESSION_TTL_MS,
+  hashPassword,
+  signSession,
+  verifyPassword,
+  verifySession,
+} from '../../services/board-session';
+
+describe('board sessions', () => {
+  it('should hash passwords with a salt and verify them', async () => {
+    // Act
+    const first = await hashPassword('correct horse');
+    const second = await hashPassword('correct horse');
+
+    // Assert
+    expect(first).toMatch(/^scrypt\$/);
+    expect(first).not.toBe(second);
+    expect(await verifyPassword('correct horse', first)).toBe(true);
+    expect(await verifyPassword('wrong horse', first)).toBe(false);
+  });
+
+  it('should accept a session only for its board and password until it expires', () => {
+    // Arrange
+    const now = Date.now();
+    const { token, expiresAt } = signSession('board-1', 'hash-1', now);
+
+    // Assert
+    expect(expiresAt.getTime()).toBe(now + SESSION_TTL_MS);
+    expect(verifySession(token, 'board-1', 'hash-1', now)).toBe(true);
+    expect(verifySession(token, 'board-2', 'hash-1', now)).toBe(false);
+    expect(verifySession(token, 'board-1', 'hash-2', now)).toBe(false);
+    expect(verifySession(token, 'board-1', 'hash-1', now + SESSION_TTL_MS)).toBe(false);
+  });
+
+  it('should reject tampered sessions', () => {
+    // Arrange
+    const now = Date.now();
+    const { token } = signSession('board-1', 'hash-1', now);
+    const [, signature] = token.split('.');
+
+    // Assert
+    expect(verifySession(`${now + 10 * SESSION_TTL_MS}.${signature}`, 'board-1', 'hash-1', now)).toBe(false);
+    expect(verifySession('garbage', 'board-1', 'hash-1', now)).toBe(false);
+  });
+});
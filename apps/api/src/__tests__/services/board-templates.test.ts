@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { BUILT_IN_TEMPLATES } from '../../services/board-templates';
+
+describe('BUILT_IN_TEMPLATES', () => {
+  it('should offer the built-in templates under unique IDs', () => {
+    expect(BUILT_IN_TEMPLATES.map(template => template.id)).toEqual([
+      'scrum',
+      'bug-triage',
+      'retrospective',
+      'personal-gtd',
+    ]);
+  });
+
+  it.each(BUILT_IN_TEMPLATES.map(template => [template.name, template] as const))(
+    '%s should only use its own labels and stay within the board limits',
+    (_name, template) => {
+      const labelNames = template.content.labels.map(label => label.name);
+      const cards = template.content.columns.flatMap(column => column.cards);
+
+      expect(new Set(labelNames).size).toBe(labelNames.length);
+      expect(cards.flatMap(card => card.labelNames).every(name => labelNames.includes(name))).toBe(true);
+      expect(template.content.columns.every(column => column.title.length <= 50)).toBe(true);
+      expect(cards.every(card => card.content.length <= 500)).toBe(true);
+    }
+  );
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { PrismaClient } from '@prisma/client';
-import { BoardService } from '../../services/board.service';
+import { BoardService, EMPTY_CARD_DETAILS } from '../../services/board.service';
+import { VersionConflictError } from '../../services/errors';
 
 const prisma = new PrismaClient({
   datasources: {
@@ -197,7 +198,7 @@ describe('BoardService', () => {
       };
 
       // Act
-      await boardService.updateBoard(createdBoard.id, updateData);
+      await boardService.updateBoard(createdBoard.id, updateData, 1);
 
       // Assert
       const updatedBoard = await boardService.getBoardById(createdBoard.id);
@@ -215,14 +216,14 @@ describe('BoardService', () => {
             title: 'New Column',
             order: 0,
             cards: [
-              { id: 'new-card-1', content: 'New Card', order: 0 }
+              { id: 'new-card-1', content: 'New Card', order: 0, ...EMPTY_CARD_DETAILS }
             ]
           }
         ]
       };
 
       // Act
-      await boardService.updateBoard(createdBoard.id, updateData);
+      await boardService.updateBoard(createdBoard.id, updateData, 1);
 
       // Assert
       const updatedBoard = await boardService.getBoardById(createdBoard.id);
@@ -243,16 +244,16 @@ describe('BoardService', () => {
             title: 'Test Column',
             order: 0,
             cards: [
-              { id: 'card-1', content: 'Card A', order: 1 },
-              { id: 'card-2', content: 'Card B', order: 0 },
-              { id: 'card-3', content: 'Card C', order: 2 }
+              { id: 'card-1', content: 'Card A', order: 1, ...EMPTY_CARD_DETAILS },
+              { id: 'card-2', content: 'Card B', order: 0, ...EMPTY_CARD_DETAILS },
+              { id: 'card-3', content: 'Card C', order: 2, ...EMPTY_CARD_DETAILS }
             ]
           }
         ]
       };
 
       // Act
-      await boardService.updateBoard(createdBoard.id, updateData);
+      await boardService.updateBoard(createdBoard.id, updateData, 1);
 
       // Assert
       const updatedBoard = await boardService.getBoardById(createdBoard.id);
@@ -275,7 +276,7 @@ describe('BoardService', () => {
             title: 'Column 1',
             order: 0,
             cards: [
-              { id: 'card-1', content: 'Moved Card', order: 0 }
+              { id: 'card-1', content: 'Moved Card', order: 0, ...EMPTY_CARD_DETAILS }
             ]
           },
           {
@@ -288,7 +289,7 @@ describe('BoardService', () => {
       };
 
       // Act
-      await boardService.updateBoard(createdBoard.id, updateData);
+      await boardService.updateBoard(createdBoard.id, updateData, 1);
 
       // Assert
       const updatedBoard = await boardService.getBoardById(createdBoard.id);
@@ -303,7 +304,7 @@ describe('BoardService', () => {
 
       // Act & Assert
       await expect(
-        boardService.updateBoard('non-existent-id', updateData)
+        boardService.updateBoard('non-existent-id', updateData, 1)
       ).rejects.toThrow('Board not found');
     });
 
@@ -318,7 +319,7 @@ describe('BoardService', () => {
       };
 
       // Act
-      await boardService.updateBoard(createdBoard.id, updateData);
+      await boardService.updateBoard(createdBoard.id, updateData, 1);
 
       // Assert
       const updatedBoard = await boardService.getBoardById(createdBoard.id);
@@ -326,6 +327,166 @@ describe('BoardService', () => {
     });
   });
 
+  describe('updateBoard() diffing', () => {
+    it('should keep existing column IDs and update changed titles', async () => {
+      // Arrange
+      const createdBoard = await boardService.createBoard({});
+      const fullBoard = await boardService.getBoardById(createdBoard.id);
+      const [todo, inProgress, done] = fullBoard!.columns;
+
+      // Act
+      await boardService.updateBoard(createdBoard.id, {
+        title: fullBoard!.title,
+        columns: [
+          { ...todo!, title: 'Backlog' },
+          inProgress!,
+          done!,
+        ],
+      }, 1);
+
+      // Assert
+      const updatedBoard = await boardService.getBoardById(createdBoard.id);
+      expect(updatedBoard!.columns.map(column => column.id)).toEqual([
+        todo!.id,
+        inProgress!.id,
+        done!.id,
+      ]);
+      expect(updatedBoard!.columns[0]!.title).toBe('Backlog');
+    });
+
+    it('should delete columns and cards missing from the payload', async () => {
+      // Arrange
+      const createdBoard = await boardService.createBoard({});
+      const fullBoard = await boardService.getBoardById(createdBoard.id);
+      const [todo, inProgress] = fullBoard!.columns;
+      await prisma.card.create({
+        data: { id: 'kept-card', content: 'Kept', order: 0, columnId: todo!.id },
+      });
+      await prisma.card.create({
+        data: { id: 'dropped-card', content: 'Dropped', order: 1, columnId: todo!.id },
+      });
+
+      // Act
+      await boardService.updateBoard(createdBoard.id, {
+        title: fullBoard!.title,
+        columns: [
+          {
+            ...todo!,
+            cards: [{ id: 'kept-card', content: 'Kept', order: 0, ...EMPTY_CARD_DETAILS }],
+          },
+          inProgress!,
+        ],
+      }, 1);
+
+      // Assert
+      const updatedBoard = await boardService.getBoardById(createdBoard.id);
+      expect(updatedBoard!.columns).toHaveLength(2);
+      expect(updatedBoard!.columns[0]!.cards.map(card => card.id)).toEqual(['kept-card']);
+      expect(await prisma.card.findUnique({ where: { id: 'dropped-card' } })).toBeNull();
+    });
+
+    it('should keep cards that move out of a deleted column', async () => {
+      // Arrange
+      const createdBoard = await boardService.createBoard({});
+      const fullBoard = await boardService.getBoardById(createdBoard.id);
+      const [todo, inProgress] = fullBoard!.columns;
+      await prisma.card.create({
+        data: { id: 'moving-card', content: 'Moving', order: 0, columnId: todo!.id },
+      });
+
+      // Act - drop the Todo column but keep its card in In Progress
+      await boardService.updateBoard(createdBoard.id, {
+        title: fullBoard!.title,
+        columns: [
+          {
+            ...inProgress!,
+            order: 0,
+            cards: [{ id: 'moving-card', content: 'Moving', order: 0, ...EMPTY_CARD_DETAILS }],
+          },
+        ],
+      }, 1);
+
+      // Assert
+      const updatedBoard = await boardService.getBoardById(createdBoard.id);
+      expect(updatedBoard!.columns).toHaveLength(1);
+      expect(updatedBoard!.columns[0]!.cards[0]!.id).toBe('moving-card');
+    });
+
+    it('should reject IDs that belong to another board', async () => {
+      // Arrange
+      const board = await boardService.createBoard({});
+      const otherBoard = await boardService.createBoard({});
+      const otherFullBoard = await boardService.getBoardById(otherBoard.id);
+      const foreignColumn = otherFullBoard!.columns[0]!;
+
+      // Act & Assert
+      await expect(
+        boardService.updateBoard(board.id, {
+          title: 'Hijack',
+          columns: [foreignColumn],
+        }, 1)
+      ).rejects.toThrow('Payload references columns or cards from another board');
+
+      // The other board is left untouched
+      const untouched = await boardService.getBoardById(otherBoard.id);
+      expect(untouched!.columns).toHaveLength(3);
+    });
+
+    it('should reject duplicate card IDs', async () => {
+      // Arrange
+      const board = await boardService.createBoard({});
+
+      // Act & Assert
+      await expect(
+        boardService.updateBoard(board.id, {
+          title: 'Duplicates',
+          columns: [
+            {
+              id: 'col-1',
+              title: 'Column',
+              order: 0,
+              cards: [
+                { id: 'same', content: 'A', order: 0, ...EMPTY_CARD_DETAILS },
+                { id: 'same', content: 'B', order: 1, ...EMPTY_CARD_DETAILS },
+              ],
+            },
+          ],
+        }, 1)
+      ).rejects.toThrow('Duplicate column or card IDs');
+    });
+  });
+
+  describe('board versions', () => {
+    it('should start at version 1 and bump it on every write', async () => {
+      // Arrange
+      const createdBoard = await boardService.createBoard({});
+
+      // Act
+      await boardService.updateBoard(createdBoard.id, { title: 'First', columns: [] }, 1);
+      await boardService.updateBoard(createdBoard.id, { title: 'Second', columns: [] }, 2);
+
+      // Assert
+      const updatedBoard = await boardService.getBoardById(createdBoard.id);
+      expect(updatedBoard!.version).toBe(3);
+      expect(updatedBoard!.title).toBe('Second');
+    });
+
+    it('should reject a stale version with the current board', async () => {
+      // Arrange
+      const createdBoard = await boardService.createBoard({});
+      await boardService.updateBoard(createdBoard.id, { title: 'Theirs', columns: [] }, 1);
+
+      // Act
+      const error = await boardService
+        .updateBoard(createdBoard.id, { title: 'Mine', columns: [] }, 1)
+        .catch((caught: unknown) => caught);
+
+      // Assert
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect((error as VersionConflictError).board).toMatchObject({ title: 'Theirs', version: 2 });
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle database connection errors gracefully', async () => {
       // This test drives implementation of proper error handling
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PresenceHub } from '../../services/presence';
+
+const ann = { name: 'Ann', color: '#112233' };
+const bob = { name: 'Bob', color: '#445566' };
+
+describe('PresenceHub', () => {
+  let hub: PresenceHub;
+
+  beforeEach(() => {
+    hub = new PresenceHub();
+  });
+
+  it('should broadcast the member list when members join and leave', () => {
+    // Arrange
+    const received: string[][] = [];
+    hub.subscribe('board-1', members => received.push(members.map(member => member.name)));
+
+    // Act
+    hub.join('board-1', 'member-1', ann);
+    hub.join('board-1', 'member-2', bob);
+    hub.leave('board-1', 'member-1');
+
+    // Assert
+    expect(received).toEqual([['Ann'], ['Ann', 'Bob'], ['Bob']]);
+  });
+
+  it('should keep boards apart', () => {
+    // Arrange
+    hub.join('board-1', 'member-1', ann);
+
+    // Act
+    hub.join('board-2', 'member-2', bob);
+
+    // Assert
+    expect(hub.members('board-1').map(member => member.id)).toEqual(['member-1']);
+    expect(hub.members('board-2').map(member => member.id)).toEqual(['member-2']);
+  });
+
+  it('should refuse to lock a card another member is editing', () => {
+    // Arrange
+    hub.join('board-1', 'member-1', ann);
+    hub.join('board-1', 'member-2', bob);
+    hub.setEditing('board-1', 'member-1', 'card-1');
+
+    // Act
+    const locked = hub.setEditing('board-1', 'member-2', 'card-1');
+
+    // Assert
+    expect(locked).toBe(false);
+    expect(hub.members('board-1').map(member => member.editingCardId)).toEqual(['card-1', null]);
+  });
+
+  it('should release the lock when the editor leaves', () => {
+    // Arrange
+    hub.join('board-1', 'member-1', ann);
+    hub.join('board-1', 'member-2', bob);
+    hub.setEditing('board-1', 'member-1', 'card-1');
+
+    // Act
+    hub.leave('board-1', 'member-1');
+    const locked = hub.setEditing('board-1', 'member-2', 'card-1');
+
+    // Assert
+    expect(locked).toBe(true);
+  });
+
+  it('should track the card a member is dragging', () => {
+    // Arrange
+    hub.join('board-1', 'member-1', ann);
+
+    // Act
+    hub.setDragging('board-1', 'member-1', 'card-1');
+
+    // Assert
+    expect(hub.members('board-1')[0]).toMatchObject({ draggingCardId: 'card-1', editingCardId: null });
+  });
+});
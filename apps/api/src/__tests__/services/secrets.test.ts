@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { readSecret } from '../../services/secrets';
+
+describe('readSecret', () => {
+  it('should use the configured secret', () => {
+    expect(readSecret('BOARD_SESSION_SECRET', { BOARD_SESSION_SECRET: 'configured' })).toBe('configured');
+  });
+
+  it('should refuse to run in production without one', () => {
+    expect(() => readSecret('BOARD_SESSION_SECRET', { NODE_ENV: 'production' }))
+      .toThrow('BOARD_SESSION_SECRET must be set in production');
+  });
+
+  it('should make up a different one per process elsewhere', () => {
+    // Act
+    const first = readSecret('BOARD_SESSION_SECRET', { NODE_ENV: 'development' });
+    const second = readSecret('BOARD_SESSION_SECRET', { NODE_ENV: 'development' });
+
+    // Assert
+    expect(first).toHaveLength(43);
+    expect(first).not.toBe(second);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { diffBoards } from '../../services/snapshot.service';
+import { EMPTY_CARD_DETAILS } from '../../services/board.service';
+
+const board = {
+  title: 'Roadmap',
+  columns: [
+    {
+      id: 'todo',
+      title: 'Todo',
+      order: 0,
+      wipLimit: null,
+      cards: [
+        { id: 'a', content: 'Write spec', order: 0, ...EMPTY_CARD_DETAILS, swimlaneId: null, labelIds: [], checklists: [], commentCount: 0, attachments: [] },
+        { id: 'b', content: 'Review spec', order: 1, ...EMPTY_CARD_DETAILS, swimlaneId: null, labelIds: [], checklists: [], commentCount: 0, attachments: [] },
+      ],
+    },
+    { id: 'done', title: 'Done', order: 1, wipLimit: null, cards: [] },
+  ],
+};
+
+describe('diffBoards()', () => {
+  it('should report nothing for identical boards', () => {
+    // Act
+    const diff = diffBoards(board, board);
+
+    // Assert
+    expect(diff).toEqual({
+      title: null,
+      columns: { added: [], removed: [], changed: [] },
+      cards: { added: [], removed: [], changed: [] },
+    });
+  });
+
+  it('should report added, removed and changed columns', () => {
+    // Arrange
+    const current = {
+      title: 'Roadmap 2',
+      columns: [
+        { id: 'todo', title: 'Backlog', order: 0, wipLimit: 3, cards: board.columns[0]!.cards },
+        { id: 'doing', title: 'Doing', order: 1, wipLimit: null, cards: [] },
+      ],
+    };
+
+    // Act
+    const diff = diffBoards(board, current);
+
+    // Assert
+    expect(diff.title).toEqual({ from: 'Roadmap', to: 'Roadmap 2' });
+    expect(diff.columns).toEqual({
+      added: [{ id: 'doing', title: 'Doing' }],
+      removed: [{ id: 'done', title: 'Done' }],
+      changed: [{ id: 'todo', title: 'Backlog', fields: ['title', 'wipLimit'] }],
+    });
+  });
+
+  it('should match cards by ID across columns', () => {
+    // Arrange
+    const current = {
+      title: 'Roadmap',
+      columns: [
+        {
+          id: 'todo',
+          title: 'Todo',
+          order: 0,
+          wipLimit: null,
+          cards: [{ id: 'c', content: 'Ship it', order: 0, ...EMPTY_CARD_DETAILS, swimlaneId: null, labelIds: [], checklists: [], commentCount: 0, attachments: [] }],
+        },
+        {
+          id: 'done',
+          title: 'Done',
+          order: 1,
+          wipLimit: null,
+          cards: [{ id: 'a', content: 'Write the spec', order: 0, ...EMPTY_CARD_DETAILS, swimlaneId: null, labelIds: [], checklists: [], commentCount: 0, attachments: [] }],
+        },
+      ],
+    };
+
+    // Act
+    const diff = diffBoards(board, current);
+
+    // Assert
+    expect(diff.cards).toEqual({
+      added: [{ id: 'c', content: 'Ship it', columnId: 'todo' }],
+      removed: [{ id: 'b', content: 'Review spec', columnId: 'todo' }],
+      changed: [{ id: 'a', content: 'Write the spec', columnId: 'done', fields: ['content', 'column'] }],
+    });
+  });
+
+  it('should report changed card details', () => {
+    // Arrange
+    const [todo, done] = board.columns;
+    const current = {
+      title: 'Roadmap',
+      columns: [
+        { ...todo!, cards: todo!.cards.map(card => ({ ...card, priority: 'high' as const })) },
+        done!,
+      ],
+    };
+
+    // Act
+    const diff = diffBoards(board, current);
+
+    // Assert
+    expect(diff.cards.changed).toEqual([
+      { id: 'a', content: 'Write spec', columnId: 'todo', fields: ['details'] },
+      { id: 'b', content: 'Review spec', columnId: 'todo', fields: ['details'] },
+    ]);
+  });
+
+  it('should report changed card labels', () => {
+    // Arrange
+    const [todo, done] = board.columns;
+    const current = {
+      title: 'Roadmap',
+      columns: [
+        { ...todo!, cards: [{ ...todo!.cards[0]!, labelIds: ['bug'] }, todo!.cards[1]!] },
+        done!,
+      ],
+    };
+
+    // Act
+    const diff = diffBoards(board, current);
+
+    // Assert
+    expect(diff.cards.changed).toEqual([
+      { id: 'a', content: 'Write spec', columnId: 'todo', fields: ['labels'] },
+    ]);
+  });
+
+  it('should report a checked checklist item', () => {
+    // Arrange
+    const [todo, done] = board.columns;
+    const checklist = { id: 'steps', title: 'Steps', order: 0, items: [{ id: 's1', text: 'Draft', done: false, order: 0 }] };
+    const before = {
+      title: 'Roadmap',
+      columns: [{ ...todo!, cards: [{ ...todo!.cards[0]!, checklists: [checklist] }, todo!.cards[1]!] }, done!],
+    };
+    const after = {
+      title: 'Roadmap',
+      columns: [
+        {
+          ...todo!,
+          cards: [
+            { ...todo!.cards[0]!, checklists: [{ ...checklist, items: [{ ...checklist.items[0]!, done: true }] }] },
+            todo!.cards[1]!,
+          ],
+        },
+        done!,
+      ],
+    };
+
+    // Act
+    const diff = diffBoards(before, after);
+
+    // Assert
+    expect(diff.cards.changed).toEqual([
+      { id: 'a', content: 'Write spec', columnId: 'todo', fields: ['checklists'] },
+    ]);
+  });
+});
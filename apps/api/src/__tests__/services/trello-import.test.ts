@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { mapTrelloBoard, type TrelloBoard } from '../../services/trello-import';
+
+const trello: TrelloBoard = {
+  name: 'Launch',
+  lists: [
+    { id: 'doing', name: 'Doing', pos: 2048 },
+    { id: 'todo', name: 'To Do', pos: 1024 },
+    { id: 'old', name: 'Old ideas', pos: 4096, closed: true },
+  ],
+  cards: [
+    { id: 'c2', name: 'Write copy', idList: 'todo', pos: 200, idLabels: ['l1'] },
+    { id: 'c1', name: 'Pick a date', idList: 'todo', pos: 100, desc: 'Before **June**', cover: { color: 'red' } },
+    { id: 'c3', name: 'Shelved', idList: 'todo', pos: 300, closed: true },
+    { id: 'c4', name: 'Press kit', idList: 'doing', pos: 100, due: '2025-06-01T00:00:00.000Z', idMembers: ['m1', 'm2'] },
+    { id: 'c5', name: 'Mascot', idList: 'old', pos: 100 },
+  ],
+  labels: [
+    { id: 'l1', name: 'Marketing', color: 'green_dark' },
+    { id: 'l2', name: '', color: 'sky' },
+    { id: 'l3', name: 'Marketing', color: null },
+  ],
+  checklists: [
+    {
+      id: 'k1',
+      name: 'Steps',
+      idCard: 'c2',
+      pos: 1,
+      checkItems: [
+        { name: 'Proofread', state: 'incomplete', pos: 2 },
+        { name: 'Draft', state: 'complete', pos: 1 },
+      ],
+    },
+  ],
+  actions: [
+    {
+      type: 'commentCard',
+      date: '2025-05-02T10:00:00.000Z',
+      data: { text: 'Second', card: { id: 'c1' } },
+      memberCreator: { fullName: 'Sam Lee' },
+    },
+    {
+      type: 'commentCard',
+      date: '2025-05-01T10:00:00.000Z',
+      data: { text: 'First', card: { id: 'c1' } },
+    },
+    { type: 'updateCard', data: { card: { id: 'c1' } } },
+  ],
+};
+
+describe('mapTrelloBoard()', () => {
+  it('should map open lists to columns and cards in position order', () => {
+    // Act
+    const { board } = mapTrelloBoard(trello);
+
+    // Assert
+    expect(board.title).toBe('Launch');
+    expect(board.columns.map(column => [column.title, column.cards.map(card => card.content)])).toEqual([
+      ['To Do', ['Pick a date', 'Write copy']],
+      ['Doing', ['Press kit']],
+    ]);
+  });
+
+  it('should keep descriptions, cover colors, labels, checklists and comments', () => {
+    // Act
+    const { board } = mapTrelloBoard(trello);
+    const [pickDate, writeCopy] = board.columns[0]!.cards;
+
+    // Assert
+    expect(board.labels).toEqual([
+      { name: 'Marketing', color: '#22c55e' },
+      { name: 'Sky', color: '#0ea5e9' },
+      { name: 'Marketing (2)', color: '#9ca3af' },
+    ]);
+    expect(pickDate).toMatchObject({ description: 'Before **June**', coverColor: '#ef4444' });
+    expect(pickDate!.comments.map(comment => [comment.authorName, comment.body])).toEqual([
+      ['Trello user', 'First'],
+      ['Sam Lee', 'Second'],
+    ]);
+    expect(writeCopy).toMatchObject({
+      labelNames: ['Marketing'],
+      checklists: [{ title: 'Steps', items: [{ text: 'Draft', done: true }, { text: 'Proofread', done: false }] }],
+    });
+  });
+
+  it('should report what was left out', () => {
+    // Act
+    const { skipped } = mapTrelloBoard(trello);
+
+    // Assert
+    expect(skipped).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'lists.closed', count: 1 }),
+      expect.objectContaining({ field: 'cards.closed', count: 1 }),
+      expect.objectContaining({ field: 'cards.due', count: 1 }),
+      expect.objectContaining({ field: 'cards.idMembers', count: 2 }),
+    ]));
+    expect(skipped).toHaveLength(4);
+  });
+
+  it('should shorten text longer than the board allows', () => {
+    // Arrange
+    const long: TrelloBoard = {
+      name: 'Long',
+      lists: [{ id: 'l', name: 'List', pos: 1 }],
+      cards: [{ id: 'c', name: 'x'.repeat(600), idList: 'l', pos: 1 }],
+    };
+
+    // Act
+    const { board, skipped } = mapTrelloBoard(long);
+
+    // Assert
+    expect(board.columns[0]!.cards[0]!.content).toHaveLength(500);
+    expect(skipped).toEqual([{ field: 'cards.name', count: 1, reason: 'Shortened to 500 characters' }]);
+  });
+
+  it('should keep repeated label names within the label limit', () => {
+    // Arrange
+    const repeated: TrelloBoard = {
+      name: 'Labels',
+      lists: [],
+      cards: [],
+      labels: Array.from({ length: 12 }, (_, index) => ({ id: `l${index}`, name: 'y'.repeat(30), color: 'red' })),
+    };
+
+    // Act
+    const { board } = mapTrelloBoard(repeated);
+
+    // Assert
+    expect(board.labels.at(-1)?.name).toBe(`${'y'.repeat(25)} (12)`);
+    expect(board.labels.every(label => label.name.length <= 30)).toBe(true);
+    expect(new Set(board.labels.map(label => label.name)).size).toBe(12);
+  });
+
+  it('should replace unreadable comment dates', () => {
+    // Arrange
+    const malformed: TrelloBoard = {
+      name: 'Dates',
+      lists: [{ id: 'l', name: 'List', pos: 1 }],
+      cards: [{ id: 'c', name: 'Card', idList: 'l', pos: 1 }],
+      actions: [{ type: 'commentCard', date: 'yesterday', data: { text: 'Hi', card: { id: 'c' } } }],
+    };
+
+    // Act
+    const { board, skipped } = mapTrelloBoard(malformed);
+
+    // Assert
+    expect(Number.isNaN(board.columns[0]!.cards[0]!.comments[0]!.createdAt.getTime())).toBe(false);
+    expect(skipped).toEqual([
+      { field: 'actions.date', count: 1, reason: 'Unreadable comment dates were replaced with the import time' },
+    ]);
+  });
+});
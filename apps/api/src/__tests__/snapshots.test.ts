@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { activityRoutes } from '../routes/activity';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { snapshotRoutes } from '../routes/snapshots';
+import { BoardEventBus } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Snapshots API', () => {
+  let app: FastifyInstance;
+  let boardId: string;
+  let editToken: string;
+  let columnId: string;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    const events = new BoardEventBus();
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+    await app.register(activityRoutes, { prisma });
+    await app.register(snapshotRoutes, { prisma, events });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    ({ id: boardId, editToken } = JSON.parse(createResponse.body).data);
+
+    const boardResponse = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`,
+      headers: { 'x-board-token': editToken }
+    });
+    columnId = JSON.parse(boardResponse.body).data.columns[0].id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const ifMatch = async () => {
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    return { 'if-match': `"${board?.version ?? 1}"`, 'x-board-token': editToken };
+  };
+
+  const addCard = async (content: string) =>
+    app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: await ifMatch(),
+      payload: { columnId, content }
+    });
+
+  const takeSnapshot = async () =>
+    JSON.parse((await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/snapshots`,
+      headers: { 'x-board-token': editToken }
+    })).body).data;
+
+  it('should snapshot the board before its first write', async () => {
+    // Act
+    await addCard('First');
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/snapshots`,
+      headers: { 'x-board-token': editToken }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+
+    const snapshots = JSON.parse(response.body).data;
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).toMatchObject({ reason: 'auto', version: 1 });
+  });
+
+  it('should return the stored board and its diff against the current board', async () => {
+    // Arrange
+    await addCard('Kept');
+    const snapshot = await takeSnapshot();
+    await addCard('Added later');
+
+    // Act
+    const detail = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/snapshots/${snapshot.id}`,
+      headers: { 'x-board-token': editToken }
+    })).body).data;
+    const diff = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/snapshots/${snapshot.id}/diff`,
+      headers: { 'x-board-token': editToken }
+    })).body).data;
+
+    // Assert
+    expect(detail).toMatchObject({ id: snapshot.id, reason: 'manual', version: 2 });
+    expect(detail.board.columns[0].cards.map((card: { content: string }) => card.content))
+      .toEqual(['Kept']);
+    expect(diff.cards.added.map((card: { content: string }) => card.content))
+      .toEqual(['Added later']);
+    expect(diff.cards.removed).toEqual([]);
+  });
+
+  it('should restore a snapshot and keep the replaced state as a new snapshot', async () => {
+    // Arrange
+    const snapshot = await takeSnapshot();
+    await addCard('Bad edit');
+
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/snapshots/${snapshot.id}/restore`,
+      headers: await ifMatch()
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+    expect(response.headers.etag).toBe('"3"');
+
+    const board = JSON.parse(response.body).data;
+    expect(board.columns[0].cards).toEqual([]);
+
+    const snapshots = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/snapshots`,
+      headers: { 'x-board-token': editToken }
+    })).body).data;
+    expect(snapshots[0]).toMatchObject({ reason: 'restore', version: 2 });
+
+    const activity = JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}/activity`,
+      headers: { 'x-board-token': editToken }
+    })).body).data;
+    expect(activity.activities[0]).toMatchObject({
+      action: 'board.restored',
+      after: { snapshotId: snapshot.id, version: 1 }
+    });
+  });
+
+  it('should restore snapshots that overfill a column in block mode', async () => {
+    // Arrange
+    await prisma.column.update({ where: { id: columnId }, data: { wipLimit: 1 } });
+    await addCard('First');
+    await addCard('Past the limit, allowed in warn mode');
+    const snapshot = await takeSnapshot();
+    await prisma.card.deleteMany({ where: { content: 'First' } });
+    await prisma.board.update({ where: { id: boardId }, data: { wipMode: 'block' } });
+
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/snapshots/${snapshot.id}/restore`,
+      headers: await ifMatch()
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data.columns[0].cards).toHaveLength(2);
+  });
+
+  it('should reject a restore based on an outdated version', async () => {
+    // Arrange
+    const snapshot = await takeSnapshot();
+    await addCard('Newer');
+
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/snapshots/${snapshot.id}/restore`,
+      headers: { 'if-match': '"1"', 'x-board-token': editToken }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(409);
+
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    expect(board?.version).toBe(2);
+  });
+
+  it('should require If-Match to restore', async () => {
+    // Arrange
+    const snapshot = await takeSnapshot();
+
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/snapshots/${snapshot.id}/restore`,
+      headers: { 'x-board-token': editToken }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(428);
+  });
+
+  it('should return 404 for a snapshot of another board', async () => {
+    // Arrange
+    const snapshot = await takeSnapshot();
+    const other = JSON.parse((await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    })).body).data;
+
+    // Act
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${other.id}/snapshots/${snapshot.id}`,
+      headers: { 'x-board-token': other.editToken }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { boardRoutes } from '../routes/boards';
+import { cardRoutes } from '../routes/cards';
+import { swimlaneRoutes } from '../routes/swimlanes';
+import { BoardEventBus, type BoardEvent } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Swimlane API', () => {
+  let app: FastifyInstance;
+  let events: BoardEventBus;
+  let boardId: string;
+  let editToken: string;
+  let columnIds: string[];
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    events = new BoardEventBus();
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events });
+    await app.register(cardRoutes, { prisma, events });
+    await app.register(swimlaneRoutes, { prisma, events });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: '/api/boards',
+      payload: {}
+    });
+    ({ id: boardId, editToken } = JSON.parse(createResponse.body).data);
+    columnIds = (await getBoard()).columns.map((column: { id: string }) => column.id);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  // Writes carry the edit link and the current board version
+  const ifMatch = async () => {
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    return { 'if-match': `"${board?.version ?? 1}"`, 'x-board-token': editToken };
+  };
+
+  const getBoard = async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/boards/${boardId}`,
+      headers: { 'x-board-token': editToken }
+    });
+    return JSON.parse(response.body).data;
+  };
+
+  const addSwimlane = async (title: string) =>
+    JSON.parse((await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/swimlanes`,
+      headers: await ifMatch(),
+      payload: { title }
+    })).body).data;
+
+  const addCard = async (content: string, swimlaneId?: string) =>
+    JSON.parse((await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: await ifMatch(),
+      payload: { columnId: columnIds[0], content, swimlaneId }
+    })).body).data;
+
+  it('should add lanes at the bottom and list them with the board', async () => {
+    // Arrange
+    const received: BoardEvent[] = [];
+    events.subscribe(boardId, event => received.push(event));
+
+    // Act
+    await addSwimlane('Frontend');
+    await addSwimlane('Backend');
+
+    // Assert
+    const board = await getBoard();
+    expect(board.swimlanes.map((lane: { title: string; order: number }) => [lane.title, lane.order]))
+      .toEqual([['Frontend', 0], ['Backend', 1]]);
+    expect(received[0]).toMatchObject({ type: 'swimlane.created', swimlane: { title: 'Frontend' } });
+  });
+
+  it('should create cards in a lane', async () => {
+    // Arrange
+    const lane = await addSwimlane('Frontend');
+
+    // Act
+    const card = await addCard('Navbar', lane.id);
+
+    // Assert
+    expect(card.swimlaneId).toBe(lane.id);
+    expect((await getBoard()).columns[0].cards[0].swimlaneId).toBe(lane.id);
+  });
+
+  it('should move a card to another column and lane at once', async () => {
+    // Arrange
+    const frontend = await addSwimlane('Frontend');
+    const backend = await addSwimlane('Backend');
+    const card = await addCard('API client', frontend.id);
+
+    // Act
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/boards/${boardId}/cards/${card.id}/move`,
+      headers: await ifMatch(),
+      payload: {
+        sourceColumnId: columnIds[0],
+        targetColumnId: columnIds[1],
+        targetOrder: 0,
+        targetSwimlaneId: backend.id
+      }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(200);
+    const board = await getBoard();
+    expect(board.columns[1].cards).toEqual([expect.objectContaining({ id: card.id, swimlaneId: backend.id })]);
+  });
+
+  it('should keep a card in its lane when a move leaves the lane out', async () => {
+    // Arrange
+    const lane = await addSwimlane('Frontend');
+    const card = await addCard('Navbar', lane.id);
+
+    // Act
+    await app.inject({
+      method: 'PATCH',
+      url: `/api/boards/${boardId}/cards/${card.id}/move`,
+      headers: await ifMatch(),
+      payload: { sourceColumnId: columnIds[0], targetColumnId: columnIds[2], targetOrder: 0 }
+    });
+
+    // Assert
+    expect((await getBoard()).columns[2].cards[0].swimlaneId).toBe(lane.id);
+  });
+
+  it('should reject a lane of another board', async () => {
+    // Arrange
+    const otherBoard = JSON.parse((await app.inject({ method: 'POST', url: '/api/boards', payload: {} })).body).data;
+    const otherLane = await prisma.swimlane.create({ data: { boardId: otherBoard.id, title: 'Elsewhere', order: 0 } });
+
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/boards/${boardId}/cards`,
+      headers: await ifMatch(),
+      payload: { columnId: columnIds[0], content: 'Lost', swimlaneId: otherLane.id }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should reorder lanes', async () => {
+    // Arrange
+    await addSwimlane('Frontend');
+    const backend = await addSwimlane('Backend');
+
+    // Act
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/boards/${boardId}/swimlanes/${backend.id}/move`,
+      headers: await ifMatch(),
+      payload: { targetOrder: 0 }
+    });
+
+    // Assert
+    expect(JSON.parse(response.body).data.swimlanes.map((lane: { title: string }) => lane.title))
+      .toEqual(['Backend', 'Frontend']);
+  });
+
+  it('should rename a lane', async () => {
+    // Arrange
+    const lane = await addSwimlane('Frontend');
+
+    // Act
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/boards/${boardId}/swimlanes/${lane.id}`,
+      headers: await ifMatch(),
+      payload: { title: 'Web' }
+    });
+
+    // Assert
+    expect(JSON.parse(response.body).data.title).toBe('Web');
+  });
+
+  it('should keep the cards of a deleted lane outside any lane', async () => {
+    // Arrange
+    const frontend = await addSwimlane('Frontend');
+    const backend = await addSwimlane('Backend');
+    await addCard('Navbar', frontend.id);
+
+    // Act
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/boards/${boardId}/swimlanes/${frontend.id}`,
+      headers: await ifMatch()
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(204);
+    const board = await getBoard();
+    expect(board.columns[0].cards[0].swimlaneId).toBeNull();
+    expect(board.swimlanes).toEqual([{ id: backend.id, title: 'Backend', order: 0 }]);
+  });
+});
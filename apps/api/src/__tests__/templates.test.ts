@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { boardRoutes } from '../routes/boards';
+import { templateRoutes } from '../routes/templates';
+import { BoardEventBus } from '../services/board-events';
+
+const prisma = new PrismaClient({
+  datasources: {
+    db: {
+      url: 'file:./test.db'
+    }
+  }
+});
+
+describe('Template API', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+
+    await app.register(import('@fastify/sensible'));
+    await app.register(boardRoutes, { prisma, events: new BoardEventBus() });
+    await app.register(templateRoutes, { prisma });
+
+    await prisma.card.deleteMany();
+    await prisma.column.deleteMany();
+    await prisma.board.deleteMany();
+    await prisma.boardTemplate.deleteMany();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const createBoard = async (payload: Record<string, unknown>) =>
+    app.inject({ method: 'POST', url: '/api/boards', payload });
+
+  const getBoard = async (board: { id: string; editToken: string }) =>
+    JSON.parse((await app.inject({
+      method: 'GET',
+      url: `/api/boards/${board.id}`,
+      headers: { 'x-board-token': board.editToken }
+    })).body).data;
+
+  it('should list the built-in templates', async () => {
+    // Act
+    const response = await app.inject({ method: 'GET', url: '/api/templates' });
+
+    // Assert
+    expect(JSON.parse(response.body).data.map((template: { name: string }) => template.name))
+      .toEqual(['Scrum', 'Bug triage', 'Retrospective', 'Personal GTD']);
+  });
+
+  it('should create a board from a built-in template', async () => {
+    // Act
+    const response = await createBoard({ templateId: 'retrospective' });
+
+    // Assert
+    expect(response.statusCode).toBe(201);
+    const created = JSON.parse(response.body).data;
+    expect(created.title).toBe('Retrospective');
+    const board = await getBoard(created);
+    expect(board.columns.map((column: { title: string }) => column.title))
+      .toEqual(['Went well', 'To improve', 'Ideas', 'Action items']);
+    expect(board.columns[0].cards).toHaveLength(1);
+  });
+
+  it('should still create Todo / In Progress / Done without a template', async () => {
+    // Act
+    const created = JSON.parse((await createBoard({ title: 'Plain' })).body).data;
+
+    // Assert
+    expect((await getBoard(created)).columns.map((column: { title: string }) => column.title))
+      .toEqual(['Todo', 'In Progress', 'Done']);
+  });
+
+  it('should answer 404 for unknown templates', async () => {
+    // Act
+    const response = await createBoard({ templateId: 'missing' });
+
+    // Assert
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should save a board as a template and create boards from it', async () => {
+    // Arrange
+    const source = JSON.parse((await createBoard({ templateId: 'scrum', title: 'Sprint 12' })).body).data;
+
+    // Act
+    const saved = await app.inject({
+      method: 'POST',
+      url: `/api/boards/${source.id}/templates`,
+      headers: { 'x-board-token': source.editToken },
+      payload: { name: 'Our sprint', description: 'How the team runs sprints' }
+    });
+    const template = JSON.parse(saved.body).data;
+    const copy = JSON.parse((await createBoard({ templateId: template.id })).body).data;
+
+    // Assert
+    expect(saved.statusCode).toBe(201);
+    expect(template).toMatchObject({ name: 'Our sprint', builtIn: false });
+    expect(copy.title).toBe('Our sprint');
+    const [original, board] = [await getBoard(source), await getBoard(copy)];
+    expect(board.labels.map((label: { name: string }) => label.name))
+      .toEqual(original.labels.map((label: { name: string }) => label.name));
+    expect(board.columns.map((column: { cards: unknown[] }) => column.cards.length))
+      .toEqual(original.columns.map((column: { cards: unknown[] }) => column.cards.length));
+  });
+
+  it('should only let edit links save templates', async () => {
+    // Arrange
+    const source = JSON.parse((await createBoard({})).body).data;
+
+    // Act
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/boards/${source.id}/templates`,
+      payload: { name: 'Mine now' }
+    });
+
+    // Assert
+    expect(response.statusCode).toBe(403);
+  });
+});
@@ -1,20 +1,55 @@
 import Fastify from 'fastify';
 import { PrismaClient } from '@prisma/client';
+import { accessRoutes, redactCredentials } from './routes/access';
+import { activityRoutes } from './routes/activity';
+import { attachmentRoutes } from './routes/attachments';
 import { boardRoutes } from './routes/boards';
+import { cardRoutes } from './routes/cards';
+import { checklistRoutes } from './routes/checklists';
+import { commentRoutes } from './routes/comments';
+import { columnRoutes } from './routes/columns';
+import { eventRoutes } from './routes/events';
+import { exportRoutes } from './routes/exports';
+import { importRoutes } from './routes/imports';
+import { labelRoutes } from './routes/labels';
+import { presenceRoutes } from './routes/presence';
+import { snapshotRoutes } from './routes/snapshots';
+import { swimlaneRoutes } from './routes/swimlanes';
+import { templateRoutes } from './routes/templates';
+import { LocalAttachmentStorage } from './services/attachment-storage';
+import { BoardEventBus } from './services/board-events';
+import { PresenceHub } from './services/presence';
 
 const fastify = Fastify({
   logger: {
     level: process.env['NODE_ENV'] === 'production' ? 'info' : 'debug',
+    serializers: {
+      // Fastify's default, with link tokens and board sessions masked
+      req: request => ({
+        method: request.method,
+        url: redactCredentials(request.url),
+        hostname: request.hostname,
+        remoteAddress: request.ip,
+        ...(request.socket.remotePort !== undefined && { remotePort: request.socket.remotePort }),
+      }),
+    },
   },
 });
 
 // Initialize database
 const prisma = new PrismaClient();
 
+// Board changes fan out to SSE subscribers from here
+const events = new BoardEventBus();
+const presence = new PresenceHub();
+const storage = new LocalAttachmentStorage(process.env['ATTACHMENTS_DIR'] ?? 'uploads');
+
 // Register plugins
 await fastify.register(import('@fastify/cors'), {
   origin: ['http://localhost:5173', 'http://localhost:5174', 'http://127.0.0.1:5173', 'http://127.0.0.1:5174'],
   credentials: true,
+  // The board version travels in the ETag header
+  exposedHeaders: ['ETag'],
 });
 await fastify.register(import('@fastify/sensible'));
 await fastify.register(import('@fastify/helmet'));
@@ -22,6 +57,9 @@ await fastify.register(import('@fastify/rate-limit'), {
   max: 100,
   timeWindow: '1 minute',
 });
+await fastify.register(import('@fastify/websocket'));
+// Only used to send attachment files; nothing is served from the directory directly
+await fastify.register(import('@fastify/static'), { root: storage.root, serve: false });
 
 // Health check route
 fastify.get('/health', async () => {
@@ -29,7 +67,22 @@ fastify.get('/health', async () => {
 });
 
 // Register board routes
-await fastify.register(boardRoutes, { prisma });
+await fastify.register(boardRoutes, { prisma, events });
+await fastify.register(importRoutes, { prisma });
+await fastify.register(exportRoutes, { prisma });
+await fastify.register(templateRoutes, { prisma });
+await fastify.register(cardRoutes, { prisma, events });
+await fastify.register(checklistRoutes, { prisma, events });
+await fastify.register(commentRoutes, { prisma, events });
+await fastify.register(attachmentRoutes, { prisma, events, storage });
+await fastify.register(columnRoutes, { prisma, events });
+await fastify.register(swimlaneRoutes, { prisma, events });
+await fastify.register(eventRoutes, { prisma, events });
+await fastify.register(labelRoutes, { prisma, events });
+await fastify.register(presenceRoutes, { prisma, presence });
+await fastify.register(activityRoutes, { prisma });
+await fastify.register(snapshotRoutes, { prisma, events });
+await fastify.register(accessRoutes, { prisma });
 
 // Start server
 const start = async () => {
@@ -0,0 +1,145 @@
+import type { FastifyInstance, FastifyPluginOptions, FastifyRequest } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService, type BoardCredentials } from '../services/access.service';
+import { handleRouteError } from './error-handler';
+import { z } from 'zod';
+
+const CreateTokenSchema = z.object({
+  role: z.enum(['view', 'edit']),
+});
+
+const SetPasswordSchema = z.object({
+  // null removes the password
+  password: z.string().min(8).max(200).nullable(),
+});
+
+const CreateSessionSchema = z.object({
+  password: z.string().min(1).max(200),
+});
+
+/**
+ * Reads the board link token and board session of a request from
+ * X-Board-Token and X-Board-Session. Routes that EventSource, WebSocket or
+ * plain links open, which cannot set headers, also take `?token=` and
+ * `?session=`; elsewhere they are ignored so secrets stay out of URLs.
+ */
+export function getBoardCredentials(
+  request: FastifyRequest,
+  { fromQuery = false }: { fromQuery?: boolean } = {}
+): BoardCredentials {
+  const query = fromQuery ? (request.query as { token?: unknown; session?: unknown }) : {};
+  return {
+    token: readCredential(request.headers['x-board-token'], query.token),
+    session: readCredential(request.headers['x-board-session'], query.session),
+  };
+}
+
+function readCredential(header: unknown, query: unknown): string | null {
+  if (typeof header === 'string' && header) return header;
+  return typeof query === 'string' && query ? query : null;
+}
+
+const QUERY_CREDENTIALS = /([?&](?:token|session)=)[^&#]*/g;
+
+// Masks query credentials so request URLs can be logged
+export function redactCredentials(url: string): string {
+  return url.replace(QUERY_CREDENTIALS, '$1[redacted]');
+}
+
+export async function accessRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient }
+) {
+  const accessService = new AccessService(options.prisma);
+
+  // GET /api/boards/:id/access
+  // What the caller's link allows, so clients can hide controls it cannot use
+  fastify.get('/api/boards/:id/access', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const access = await accessService.getAccess(id, getBoardCredentials(request));
+      return reply.send({
+        data: access
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // GET /api/boards/:id/tokens
+  fastify.get('/api/boards/:id/tokens', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+
+      const tokens = await accessService.listTokens(id);
+      return reply.send({
+        data: tokens
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/:id/tokens
+  fastify.post('/api/boards/:id/tokens', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { role } = CreateTokenSchema.parse(request.body);
+
+      const token = await accessService.createToken(id, role);
+      return reply.status(201).send({
+        data: token
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // DELETE /api/boards/:id/tokens/:tokenId
+  fastify.delete('/api/boards/:id/tokens/:tokenId', async (request, reply) => {
+    try {
+      const { id, tokenId } = request.params as { id: string; tokenId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+
+      await accessService.revokeToken(id, tokenId);
+      return reply.status(204).send();
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PUT /api/boards/:id/password
+  fastify.put('/api/boards/:id/password', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { password } = SetPasswordSchema.parse(request.body);
+
+      const session = await accessService.setPassword(id, password);
+      return reply.send({
+        data: { session }
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/:id/session
+  // Exchanges the board password for a short-lived board session
+  fastify.post('/api/boards/:id/session', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { password } = CreateSessionSchema.parse(request.body);
+
+      const session = await accessService.createSession(id, getBoardCredentials(request).token, password);
+      return reply.status(201).send({
+        data: session
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
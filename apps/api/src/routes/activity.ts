@@ -0,0 +1,70 @@
+import { createHmac } from 'node:crypto';
+import type { FastifyInstance, FastifyPluginOptions, FastifyRequest } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import { ActivityService, type ActivityActor } from '../services/activity.service';
+import { readSecret } from '../services/secrets';
+import { getBoardCredentials } from './access';
+import { handleRouteError } from './error-handler';
+import { z } from 'zod';
+
+const ActivityQuerySchema = z.object({
+  cursor: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const MAX_ACTOR_NAME_LENGTH = 40;
+
+// Keys the IP hashes; with a known key the small IPv4 space could simply be
+// precomputed
+const IP_HASH_SALT = readSecret('IP_HASH_SALT');
+
+function hashIp(ip: string): string {
+  return createHmac('sha256', IP_HASH_SALT).update(ip).digest('hex').slice(0, 16);
+}
+
+// The web app sends its presence name URI-encoded in X-Actor-Name, since
+// header values are limited to ASCII
+function readActorName(request: FastifyRequest): string | null {
+  const header = request.headers['x-actor-name'];
+  if (typeof header !== 'string') return null;
+
+  try {
+    const name = decodeURIComponent(header).trim();
+    return name ? name.slice(0, MAX_ACTOR_NAME_LENGTH) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Identifies whoever made the request for the activity log
+export function getActor(request: FastifyRequest): ActivityActor {
+  return {
+    name: readActorName(request),
+    ipHash: hashIp(request.ip),
+  };
+}
+
+export async function activityRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient }
+) {
+  const activityService = new ActivityService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+
+  // GET /api/boards/:id/activity
+  fastify.get('/api/boards/:id/activity', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'view');
+      const { cursor, limit } = ActivityQuerySchema.parse(request.query);
+
+      const page = await activityService.listActivity(id, limit, cursor);
+      return reply.send({
+        data: page
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
@@ -0,0 +1,211 @@
+import type { FastifyInstance, FastifyPluginOptions, FastifyReply, FastifyRequest } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import type { AttachmentStorage } from '../services/attachment-storage';
+import {
+  AttachmentService,
+  isImage,
+  MAX_ATTACHMENT_SIZE,
+  type AttachmentFile,
+  type AttachmentUpload,
+} from '../services/attachment.service';
+import type { BoardEventBus } from '../services/board-events';
+import { PayloadTooLargeError, ValidationError } from '../services/errors';
+import { getBoardCredentials } from './access';
+import { getActor } from './activity';
+import { handleRouteError } from './error-handler';
+import { publishChange } from './events';
+import { getExpectedVersion, setNextVersion } from './versioning';
+import { z } from 'zod';
+
+const CoverSchema = z.object({
+  cover: z.boolean(),
+});
+
+type AttachmentParams = { id: string; cardId: string; attachmentId: string };
+
+// Catches the files of boards deleted outside the API
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function attachmentRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient; events: BoardEventBus; storage: AttachmentStorage }
+) {
+  const attachmentService = new AttachmentService(options.prisma, options.storage);
+  const accessService = new AccessService(options.prisma);
+
+  const prune = (pruning: Promise<number>) => {
+    pruning.catch(error => fastify.log.warn(error, 'Pruning attachment files failed'));
+  };
+
+  // Deleting cards or columns and replacing the board's state drop
+  // attachment rows without going through this service
+  const unsubscribe = options.events.subscribeAll((boardId, event) => {
+    if (event.type === 'card.deleted' || event.type === 'board.replaced') {
+      prune(attachmentService.pruneFiles(boardId));
+    }
+  });
+  const pruneTimer = setInterval(() => prune(attachmentService.pruneAllFiles()), PRUNE_INTERVAL_MS);
+  pruneTimer.unref();
+
+  fastify.addHook('onClose', async () => {
+    unsubscribe();
+    clearInterval(pruneTimer);
+  });
+
+  // The file and an optional thumbnail
+  await fastify.register(import('@fastify/multipart'), {
+    limits: { fileSize: MAX_ATTACHMENT_SIZE, files: 2 },
+  });
+
+  // Looks up an attachment's file or thumbnail for a board viewer. Opened as
+  // plain links, so the credentials may come in the query
+  const findFile = async (request: FastifyRequest, variant: 'file' | 'thumbnail') => {
+    const { id, cardId, attachmentId } = request.params as AttachmentParams;
+    await accessService.requireRole(id, getBoardCredentials(request, { fromQuery: true }), 'view');
+    return attachmentService.getFile(id, cardId, attachmentId, variant);
+  };
+
+  // POST /api/boards/:id/cards/:cardId/attachments
+  fastify.post('/api/boards/:id/cards/:cardId/attachments', async (request, reply) => {
+    try {
+      const { id, cardId } = request.params as { id: string; cardId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const expectedVersion = getExpectedVersion(request);
+      const upload = await readUpload(fastify, request);
+
+      const card = await attachmentService.createAttachment(
+        id, cardId, upload, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'card.updated', card });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(201).send({
+        data: card
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/cards/:cardId/attachments/:attachmentId
+  fastify.patch('/api/boards/:id/cards/:cardId/attachments/:attachmentId', async (request, reply) => {
+    try {
+      const { id, cardId, attachmentId } = request.params as AttachmentParams;
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { cover } = CoverSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const card = await attachmentService.setCover(
+        id, cardId, attachmentId, cover, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'card.updated', card });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: card
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // DELETE /api/boards/:id/cards/:cardId/attachments/:attachmentId
+  fastify.delete('/api/boards/:id/cards/:cardId/attachments/:attachmentId', async (request, reply) => {
+    try {
+      const { id, cardId, attachmentId } = request.params as AttachmentParams;
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const expectedVersion = getExpectedVersion(request);
+
+      const card = await attachmentService.deleteAttachment(
+        id, cardId, attachmentId, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'card.updated', card });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(204).send();
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // Boards full of covers load many images at once, so these are not rate limited
+
+  // GET /api/boards/:id/cards/:cardId/attachments/:attachmentId/file
+  fastify.get(
+    '/api/boards/:id/cards/:cardId/attachments/:attachmentId/file',
+    { config: { rateLimit: false } },
+    async (request, reply) => {
+      try {
+        const file = await findFile(request, 'file');
+        return options.storage.send(withFileHeaders(reply, file), file.key);
+      } catch (error) {
+        return handleRouteError(fastify, reply, error);
+      }
+    }
+  );
+
+  // GET /api/boards/:id/cards/:cardId/attachments/:attachmentId/thumbnail
+  fastify.get(
+    '/api/boards/:id/cards/:cardId/attachments/:attachmentId/thumbnail',
+    { config: { rateLimit: false } },
+    async (request, reply) => {
+      try {
+        const file = await findFile(request, 'thumbnail');
+        return options.storage.send(withFileHeaders(reply, file), file.key);
+      } catch (error) {
+        return handleRouteError(fastify, reply, error);
+      }
+    }
+  );
+}
+
+// Reads the `file` part and, for images, the optional `thumbnail` part
+async function readUpload(fastify: FastifyInstance, request: FastifyRequest): Promise<AttachmentUpload> {
+  if (!request.isMultipart()) {
+    throw new ValidationError('Expected a multipart upload');
+  }
+
+  const { FilesLimitError, RequestFileTooLargeError } = fastify.multipartErrors;
+  let file: { fileName: string; data: Buffer } | null = null;
+  let thumbnail: Buffer | null = null;
+
+  try {
+    for await (const part of request.parts()) {
+      if (part.type !== 'file') continue;
+
+      const data = await part.toBuffer();
+      if (part.fieldname === 'file') {
+        file = { fileName: part.filename, data };
+      } else if (part.fieldname === 'thumbnail') {
+        thumbnail = data;
+      }
+    }
+  } catch (error) {
+    if (error instanceof RequestFileTooLargeError) {
+      throw new PayloadTooLargeError(`Files can be at most ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+    }
+    if (error instanceof FilesLimitError) {
+      throw new ValidationError('Upload one file and at most one thumbnail');
+    }
+    throw error;
+  }
+
+  if (!file) {
+    throw new ValidationError('No file uploaded');
+  }
+  return { ...file, thumbnail };
+}
+
+// Images and text open in the browser; anything else downloads
+function withFileHeaders(reply: FastifyReply, file: AttachmentFile): FastifyReply {
+  const disposition = isImage(file.contentType) || file.contentType.startsWith('text/') ? 'inline' : 'attachment';
+
+  return reply
+    .type(file.contentType)
+    .header('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(file.fileName)}`)
+    // The web app is served from another origin
+    .header('Cross-Origin-Resource-Policy', 'cross-origin')
+    // Attachments never change once uploaded
+    .header('Cache-Control', 'private, max-age=31536000, immutable');
+}
@@ -1,18 +1,72 @@
 import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import { PrismaClient } from '@prisma/client';
-import { BoardService } from '../services/board.service';
+import { AccessService } from '../services/access.service';
+import { CLONE_SCOPES } from '../services/board-clone';
+import { BoardService, type CreateBoardData } from '../services/board.service';
+import type { BoardEventBus } from '../services/board-events';
+import { TemplateService } from '../services/template.service';
+import { getBoardCredentials } from './access';
+import { getActor } from './activity';
+import { handleRouteError } from './error-handler';
+import { publishChange } from './events';
+import { formatETag, getExpectedVersion, setNextVersion } from './versioning';
 import { z } from 'zod';
 
 // Define the schema locally for now
 const CreateBoardSchema = z.object({
   title: z.string().optional(),
+  // Built-in or saved template to start from
+  templateId: z.string().min(1).optional(),
+});
+
+const CloneBoardSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+  scope: z.enum(CLONE_SCOPES).default('everything'),
+});
+
+const UpdateBoardSchema = z.object({
+  title: z.string().min(1).max(100),
+  columns: z.array(z.object({
+    id: z.string().min(1),
+    title: z.string().min(1).max(50),
+    order: z.number().int().min(0),
+    wipLimit: z.number().int().min(1).max(999).nullable().optional(),
+    cards: z.array(z.object({
+      id: z.string().min(1),
+      content: z.string().min(1).max(500),
+      description: z.string().max(10000).default(''),
+      priority: z.enum(['low', 'medium', 'high', 'urgent']).nullable().default(null),
+      estimate: z.number().int().min(0).max(100).nullable().default(null),
+      coverColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).nullable().default(null),
+      labelIds: z.array(z.string().min(1)).optional(),
+      checklists: z.array(z.object({
+        id: z.string().min(1),
+        title: z.string().min(1).max(100),
+        order: z.number().int().min(0),
+        items: z.array(z.object({
+          id: z.string().min(1),
+          text: z.string().min(1).max(500),
+          done: z.boolean(),
+          order: z.number().int().min(0),
+        })),
+      })).optional(),
+      swimlaneId: z.string().min(1).nullable().optional(),
+      order: z.number().int().min(0),
+    })),
+  })),
+});
+
+const UpdateBoardSettingsSchema = z.object({
+  wipMode: z.enum(['warn', 'block']),
 });
 
 export async function boardRoutes(
   fastify: FastifyInstance,
-  options: FastifyPluginOptions & { prisma: PrismaClient }
+  options: FastifyPluginOptions & { prisma: PrismaClient; events: BoardEventBus }
 ) {
   const boardService = new BoardService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+  const templateService = new TemplateService(options.prisma);
 
   // POST /api/boards
   fastify.post('/api/boards', async (request, reply) => {
@@ -21,27 +75,37 @@ export async function boardRoutes(
       const validatedData = CreateBoardSchema.parse(request.body);
       
       // Create board using our service
-      const createData: { title?: string } = {};
+      const createData: CreateBoardData = {};
       if (validatedData.title) {
         createData.title = validatedData.title;
       }
-      const board = await boardService.createBoard(createData);
+      if (validatedData.templateId) {
+        createData.template = await templateService.getTemplateContent(validatedData.templateId);
+      }
+      const board = await boardService.createBoard(createData, getActor(request));
       
       // Return 201 with the expected format
       return reply.status(201).send({
         data: board
       });
     } catch (error) {
-      if (error instanceof Error && error.name === 'ZodError') {
-        return reply.status(400).send({
-          error: 'Invalid request data'
-        });
-      }
-      
-      fastify.log.error(error);
-      return reply.status(500).send({
-        error: 'Internal server error'
-      });
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/:id/clone
+  // Anyone who can see a board can copy it; the copy gets its own edit link
+  fastify.post('/api/boards/:id/clone', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'view');
+
+      const validatedData = CloneBoardSchema.parse(request.body ?? {});
+      const board = await boardService.cloneBoard(id, validatedData, getActor(request));
+
+      return reply.status(201).send({ data: board });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
     }
   });
 
@@ -49,6 +113,7 @@ export async function boardRoutes(
   fastify.get('/api/boards/:id', async (request, reply) => {
     try {
       const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'view');
       
       const board = await boardService.getBoardById(id);
       
@@ -58,14 +123,49 @@ export async function boardRoutes(
         });
       }
       
-      return reply.send({
+      return reply.header('ETag', formatETag(board.version)).send({
         data: board
       });
     } catch (error) {
-      fastify.log.error(error);
-      return reply.status(500).send({
-        error: 'Internal server error'
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PUT /api/boards/:id
+  fastify.put('/api/boards/:id', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+
+      const validatedData = UpdateBoardSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+      const board = await boardService.updateBoard(id, validatedData, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'board.replaced', board });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(204).send();
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id
+  fastify.patch('/api/boards/:id', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = UpdateBoardSettingsSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const settings = await boardService.updateSettings(id, validatedData, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'board.updated', settings });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: settings
       });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
     }
   });
-} 
\ No newline at end of file
+}
@@ -0,0 +1,127 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import { CardService, type UpdateCardData } from '../services/card.service';
+import type { BoardEventBus } from '../services/board-events';
+import { getBoardCredentials } from './access';
+import { getActor } from './activity';
+import { handleRouteError } from './error-handler';
+import { publishChange } from './events';
+import { getExpectedVersion, setNextVersion } from './versioning';
+import { z } from 'zod';
+
+const CardDetailsSchema = z.object({
+  description: z.string().max(10000).optional(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).nullable().optional(),
+  estimate: z.number().int().min(0).max(100).nullable().optional(),
+  coverColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).nullable().optional(),
+});
+
+const CreateCardSchema = CardDetailsSchema.extend({
+  columnId: z.string().min(1),
+  content: z.string().trim().min(1).max(500),
+  swimlaneId: z.string().min(1).nullable().optional(),
+});
+
+const UpdateCardSchema = CardDetailsSchema.extend({
+  content: z.string().trim().min(1).max(500).optional(),
+  labelIds: z.array(z.string().min(1)).max(50).optional(),
+});
+
+const MoveCardSchema = z.object({
+  sourceColumnId: z.string().min(1),
+  targetColumnId: z.string().min(1),
+  targetOrder: z.number().int().min(0),
+  // Null takes the card out of its lane
+  targetSwimlaneId: z.string().min(1).nullable().optional(),
+});
+
+export async function cardRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient; events: BoardEventBus }
+) {
+  const cardService = new CardService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+
+  // POST /api/boards/:id/cards
+  fastify.post('/api/boards/:id/cards', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = CreateCardSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const card = await cardService.createCard(id, validatedData, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'card.created', card });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(201).send({
+        data: card
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/cards/:cardId
+  fastify.patch('/api/boards/:id/cards/:cardId', async (request, reply) => {
+    try {
+      const { id, cardId } = request.params as { id: string; cardId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = UpdateCardSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const { content, ...details } = validatedData;
+      const updateData: UpdateCardData = details;
+      if (content !== undefined) {
+        updateData.content = content;
+      }
+      const card = await cardService.updateCard(id, cardId, updateData, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'card.updated', card });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: card
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // DELETE /api/boards/:id/cards/:cardId
+  fastify.delete('/api/boards/:id/cards/:cardId', async (request, reply) => {
+    try {
+      const { id, cardId } = request.params as { id: string; cardId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const expectedVersion = getExpectedVersion(request);
+
+      await cardService.deleteCard(id, cardId, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'card.deleted', cardId });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(204).send();
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/cards/:cardId/move
+  fastify.patch('/api/boards/:id/cards/:cardId/move', async (request, reply) => {
+    try {
+      const { id, cardId } = request.params as { id: string; cardId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = MoveCardSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const columns = await cardService.moveCard(id, cardId, validatedData, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'card.moved', columns });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: { columns }
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
@@ -0,0 +1,194 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import { ChecklistService, type UpdateChecklistItemData } from '../services/checklist.service';
+import type { BoardEventBus } from '../services/board-events';
+import { getBoardCredentials } from './access';
+import { getActor } from './activity';
+import { handleRouteError } from './error-handler';
+import { publishChange } from './events';
+import { getExpectedVersion, setNextVersion } from './versioning';
+import { z } from 'zod';
+
+const ChecklistSchema = z.object({
+  title: z.string().trim().min(1).max(100),
+});
+
+const CreateItemSchema = z.object({
+  text: z.string().trim().min(1).max(500),
+});
+
+const UpdateItemSchema = z.object({
+  text: z.string().trim().min(1).max(500).optional(),
+  done: z.boolean().optional(),
+});
+
+const MoveItemSchema = z.object({
+  targetOrder: z.number().int().min(0),
+});
+
+type ChecklistParams = { id: string; cardId: string; checklistId: string };
+type ItemParams = ChecklistParams & { itemId: string };
+
+export async function checklistRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient; events: BoardEventBus }
+) {
+  const checklistService = new ChecklistService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+
+  // POST /api/boards/:id/cards/:cardId/checklists
+  fastify.post('/api/boards/:id/cards/:cardId/checklists', async (request, reply) => {
+    try {
+      const { id, cardId } = request.params as { id: string; cardId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { title } = ChecklistSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const checklist = await checklistService.createChecklist(id, cardId, title, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'checklist.created', cardId, checklist });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(201).send({
+        data: checklist
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/cards/:cardId/checklists/:checklistId
+  fastify.patch('/api/boards/:id/cards/:cardId/checklists/:checklistId', async (request, reply) => {
+    try {
+      const { id, cardId, checklistId } = request.params as ChecklistParams;
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { title } = ChecklistSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const checklist = await checklistService.renameChecklist(
+        id, cardId, checklistId, title, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'checklist.updated', cardId, checklist });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: checklist
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // DELETE /api/boards/:id/cards/:cardId/checklists/:checklistId
+  fastify.delete('/api/boards/:id/cards/:cardId/checklists/:checklistId', async (request, reply) => {
+    try {
+      const { id, cardId, checklistId } = request.params as ChecklistParams;
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const expectedVersion = getExpectedVersion(request);
+
+      await checklistService.deleteChecklist(id, cardId, checklistId, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, {
+        type: 'checklist.deleted',
+        cardId,
+        checklistId,
+      });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(204).send();
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/:id/cards/:cardId/checklists/:checklistId/items
+  fastify.post('/api/boards/:id/cards/:cardId/checklists/:checklistId/items', async (request, reply) => {
+    try {
+      const { id, cardId, checklistId } = request.params as ChecklistParams;
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { text } = CreateItemSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const checklist = await checklistService.addItem(
+        id, cardId, checklistId, text, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'checklist.updated', cardId, checklist });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(201).send({
+        data: checklist
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/cards/:cardId/checklists/:checklistId/items/:itemId
+  fastify.patch('/api/boards/:id/cards/:cardId/checklists/:checklistId/items/:itemId', async (request, reply) => {
+    try {
+      const { id, cardId, checklistId, itemId } = request.params as ItemParams;
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = UpdateItemSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const updateData: UpdateChecklistItemData = {};
+      if (validatedData.text !== undefined) {
+        updateData.text = validatedData.text;
+      }
+      if (validatedData.done !== undefined) {
+        updateData.done = validatedData.done;
+      }
+      const checklist = await checklistService.updateItem(
+        id, cardId, checklistId, itemId, updateData, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'checklist.updated', cardId, checklist });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: checklist
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/cards/:cardId/checklists/:checklistId/items/:itemId/move
+  fastify.patch('/api/boards/:id/cards/:cardId/checklists/:checklistId/items/:itemId/move', async (request, reply) => {
+    try {
+      const { id, cardId, checklistId, itemId } = request.params as ItemParams;
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { targetOrder } = MoveItemSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const checklist = await checklistService.moveItem(
+        id, cardId, checklistId, itemId, targetOrder, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'checklist.updated', cardId, checklist });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: checklist
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // DELETE /api/boards/:id/cards/:cardId/checklists/:checklistId/items/:itemId
+  fastify.delete('/api/boards/:id/cards/:cardId/checklists/:checklistId/items/:itemId', async (request, reply) => {
+    try {
+      const { id, cardId, checklistId, itemId } = request.params as ItemParams;
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const expectedVersion = getExpectedVersion(request);
+
+      const checklist = await checklistService.deleteItem(
+        id, cardId, checklistId, itemId, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'checklist.updated', cardId, checklist });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(204).send();
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
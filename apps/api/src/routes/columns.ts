@@ -0,0 +1,131 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import { ColumnService, type UpdateColumnData } from '../services/column.service';
+import type { BoardEventBus } from '../services/board-events';
+import { getBoardCredentials } from './access';
+import { getActor } from './activity';
+import { handleRouteError } from './error-handler';
+import { publishChange } from './events';
+import { getExpectedVersion, setNextVersion } from './versioning';
+import { z } from 'zod';
+
+const CreateColumnSchema = z.object({
+  title: z.string().trim().min(1).max(50),
+});
+
+const UpdateColumnSchema = z.object({
+  title: z.string().trim().min(1).max(50).optional(),
+  // Null removes the limit
+  wipLimit: z.number().int().min(1).max(999).nullable().optional(),
+});
+
+const MoveColumnSchema = z.object({
+  targetOrder: z.number().int().min(0),
+});
+
+// DELETE takes its options from the query string
+const DeleteColumnQuerySchema = z.discriminatedUnion('cards', [
+  z.object({ cards: z.literal('delete') }),
+  z.object({ cards: z.literal('move'), targetColumnId: z.string().min(1) }),
+]);
+
+export async function columnRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient; events: BoardEventBus }
+) {
+  const columnService = new ColumnService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+
+  // POST /api/boards/:id/columns
+  fastify.post('/api/boards/:id/columns', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = CreateColumnSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const column = await columnService.createColumn(id, validatedData, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'column.created', column });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(201).send({
+        data: column
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/columns/:columnId
+  fastify.patch('/api/boards/:id/columns/:columnId', async (request, reply) => {
+    try {
+      const { id, columnId } = request.params as { id: string; columnId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = UpdateColumnSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const updateData: UpdateColumnData = {};
+      if (validatedData.title !== undefined) {
+        updateData.title = validatedData.title;
+      }
+      if (validatedData.wipLimit !== undefined) {
+        updateData.wipLimit = validatedData.wipLimit;
+      }
+      const column = await columnService.updateColumn(id, columnId, updateData, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'column.updated', column });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: column
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/columns/:columnId/move
+  fastify.patch('/api/boards/:id/columns/:columnId/move', async (request, reply) => {
+    try {
+      const { id, columnId } = request.params as { id: string; columnId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { targetOrder } = MoveColumnSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const columns = await columnService.moveColumn(id, columnId, targetOrder, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'column.moved', columns });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: { columns }
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // DELETE /api/boards/:id/columns/:columnId?cards=delete|move&targetColumnId=
+  fastify.delete('/api/boards/:id/columns/:columnId', async (request, reply) => {
+    try {
+      const { id, columnId } = request.params as { id: string; columnId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const deleteOptions = DeleteColumnQuerySchema.parse(request.query);
+      const expectedVersion = getExpectedVersion(request);
+
+      // Deleting can relocate cards, so watchers get the whole board
+      const board = await columnService.deleteColumn(
+        id,
+        columnId,
+        deleteOptions,
+        expectedVersion,
+        getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'board.replaced', board });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(204).send();
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
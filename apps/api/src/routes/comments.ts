@@ -0,0 +1,114 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import { CommentService } from '../services/comment.service';
+import type { BoardEventBus } from '../services/board-events';
+import { getBoardCredentials } from './access';
+import { getActor } from './activity';
+import { handleRouteError } from './error-handler';
+import { publishChange } from './events';
+import { getExpectedVersion, setNextVersion } from './versioning';
+import { z } from 'zod';
+
+const CommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+type CommentParams = { id: string; cardId: string; commentId: string };
+
+export async function commentRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient; events: BoardEventBus }
+) {
+  const commentService = new CommentService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+
+  // GET /api/boards/:id/cards/:cardId/comments
+  fastify.get('/api/boards/:id/cards/:cardId/comments', async (request, reply) => {
+    try {
+      const { id, cardId } = request.params as { id: string; cardId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'view');
+
+      const comments = await commentService.listComments(id, cardId);
+
+      return reply.send({
+        data: comments
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/:id/cards/:cardId/comments
+  fastify.post('/api/boards/:id/cards/:cardId/comments', async (request, reply) => {
+    try {
+      const { id, cardId } = request.params as { id: string; cardId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { body } = CommentSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const { comment, commentCount } = await commentService.createComment(
+        id, cardId, body, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, {
+        type: 'comment.created',
+        cardId,
+        comment,
+        commentCount,
+      });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(201).send({
+        data: comment
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/cards/:cardId/comments/:commentId
+  fastify.patch('/api/boards/:id/cards/:cardId/comments/:commentId', async (request, reply) => {
+    try {
+      const { id, cardId, commentId } = request.params as CommentParams;
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { body } = CommentSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const comment = await commentService.updateComment(
+        id, cardId, commentId, body, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'comment.updated', cardId, comment });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: comment
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // DELETE /api/boards/:id/cards/:cardId/comments/:commentId
+  fastify.delete('/api/boards/:id/cards/:cardId/comments/:commentId', async (request, reply) => {
+    try {
+      const { id, cardId, commentId } = request.params as CommentParams;
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const expectedVersion = getExpectedVersion(request);
+
+      const commentCount = await commentService.deleteComment(
+        id, cardId, commentId, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, {
+        type: 'comment.deleted',
+        cardId,
+        commentId,
+        commentCount,
+      });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(204).send();
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
@@ -0,0 +1,90 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PayloadTooLargeError,
+  PreconditionRequiredError,
+  UnauthorizedError,
+  ValidationError,
+  VersionConflictError,
+  WipLimitError,
+} from '../services/errors';
+import { formatETag } from './versioning';
+
+// Maps errors thrown while handling a request onto the API error shape
+export function handleRouteError(
+  fastify: FastifyInstance,
+  reply: FastifyReply,
+  error: unknown
+) {
+  if (error instanceof Error && error.name === 'ZodError') {
+    return reply.status(400).send({
+      error: 'Invalid request data'
+    });
+  }
+
+  if (error instanceof ValidationError) {
+    return reply.status(400).send({
+      error: error.message
+    });
+  }
+
+  if (error instanceof NotFoundError) {
+    return reply.status(404).send({
+      error: error.message
+    });
+  }
+
+  if (error instanceof UnauthorizedError) {
+    return reply.status(401).send({
+      error: error.message
+    });
+  }
+
+  if (error instanceof ForbiddenError) {
+    return reply.status(403).send({
+      error: error.message
+    });
+  }
+
+  if (error instanceof PayloadTooLargeError) {
+    return reply.status(413).send({
+      error: error.message
+    });
+  }
+
+  if (error instanceof WipLimitError) {
+    return reply.status(422).send({
+      error: error.message
+    });
+  }
+
+  if (error instanceof PreconditionRequiredError) {
+    return reply.status(428).send({
+      error: error.message
+    });
+  }
+
+  // Stale writes get the current board so the client can reload or merge
+  if (error instanceof VersionConflictError) {
+    return reply
+      .status(409)
+      .header('ETag', formatETag(error.board.version))
+      .send({
+        error: error.message,
+        data: error.board
+      });
+  }
+
+  if (error instanceof ConflictError) {
+    return reply.status(409).send({
+      error: error.message
+    });
+  }
+
+  fastify.log.error(error);
+  return reply.status(500).send({
+    error: 'Internal server error'
+  });
+}
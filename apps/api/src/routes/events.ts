@@ -0,0 +1,103 @@
+import type { FastifyInstance, FastifyPluginOptions, FastifyRequest } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import type { BoardChange, BoardEvent, BoardEventBus } from '../services/board-events';
+import { getBoardCredentials } from './access';
+import { handleRouteError } from './error-handler';
+import { z } from 'zod';
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_MS = 25_000;
+
+const EventsQuerySchema = z.object({
+  lastEventId: z.string().min(1).optional(),
+});
+
+// Publishes a successful write. The writer is identified by its X-Client-Id
+// header so it can skip the echo of its own change.
+export function publishChange(
+  events: BoardEventBus,
+  request: FastifyRequest,
+  boardId: string,
+  version: number,
+  change: BoardChange
+) {
+  const clientId = request.headers['x-client-id'];
+  events.publish(boardId, change, {
+    version,
+    clientId: typeof clientId === 'string' ? clientId : null,
+  });
+}
+
+function formatEvent(event: BoardEvent): string {
+  return `id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export async function eventRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient; events: BoardEventBus }
+) {
+  const accessService = new AccessService(options.prisma);
+
+  // GET /api/boards/:id/events
+  // Server-Sent Events stream of board changes. Browsers resume with the
+  // Last-Event-ID header; clients that reconnect by hand pass ?lastEventId=
+  fastify.get('/api/boards/:id/events', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    const parsedQuery = EventsQuerySchema.safeParse(request.query);
+    if (!parsedQuery.success) {
+      return reply.status(400).send({
+        error: 'Invalid request data'
+      });
+    }
+
+    try {
+      await accessService.requireRole(id, getBoardCredentials(request, { fromQuery: true }), 'view');
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+
+    const header = request.headers['last-event-id'];
+    const lastEventId = (typeof header === 'string' && header) || parsedQuery.data.lastEventId;
+
+    // The stream outlives the handler, so Fastify hands over the raw socket.
+    // Headers already set on the reply (CORS and friends) are carried over.
+    reply.hijack();
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) {
+        reply.raw.setHeader(name, value);
+      }
+    }
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    reply.raw.write('retry: 3000\n\n');
+
+    const unsubscribe = options.events.subscribe(id, event => {
+      reply.raw.write(formatEvent(event));
+    });
+
+    if (lastEventId) {
+      const missed = options.events.eventsSince(id, lastEventId);
+      if (missed) {
+        missed.forEach(event => reply.raw.write(formatEvent(event)));
+      } else {
+        // Too far behind to replay; the client reloads the whole board
+        reply.raw.write(`data: ${JSON.stringify({ type: 'resync' })}\n\n`);
+      }
+    }
+
+    const heartbeat = setInterval(() => {
+      reply.raw.write(': heartbeat\n\n');
+    }, HEARTBEAT_MS);
+
+    // The response closes when the client goes away
+    reply.raw.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+}
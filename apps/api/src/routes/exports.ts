@@ -0,0 +1,51 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import { exportBoard, EXPORT_FORMATS } from '../services/board-export';
+import { BoardService } from '../services/board.service';
+import { CommentService } from '../services/comment.service';
+import { NotFoundError } from '../services/errors';
+import { getBoardCredentials } from './access';
+import { handleRouteError } from './error-handler';
+import { z } from 'zod';
+
+const ExportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('json'),
+});
+
+export async function exportRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient }
+) {
+  const boardService = new BoardService(options.prisma);
+  const commentService = new CommentService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+
+  // GET /api/boards/:id/export?format=json|csv|markdown
+  // Sent as a download; the link carries the board's credentials in the query
+  fastify.get('/api/boards/:id/export', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request, { fromQuery: true }), 'view');
+
+      const { format } = ExportQuerySchema.parse(request.query);
+
+      const board = await boardService.getBoardById(id);
+      if (!board) {
+        throw new NotFoundError('Board not found');
+      }
+
+      // Only the JSON export carries the comment threads
+      const comments = format === 'json' ? await commentService.listBoardComments(id) : new Map();
+      const file = exportBoard(board, comments, format);
+
+      return reply
+        .type(file.contentType)
+        .header('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`)
+        .header('Cache-Control', 'no-store')
+        .send(file.body);
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
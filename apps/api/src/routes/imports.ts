@@ -0,0 +1,107 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { ImportService } from '../services/import.service';
+import { getActor } from './activity';
+import { handleRouteError } from './error-handler';
+import { z } from 'zod';
+
+// Exports of large boards, with their whole action history, run to several MB
+const MAX_IMPORT_SIZE = 10 * 1024 * 1024;
+
+const ImportQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).default('false'),
+});
+
+// Only what the Trello import reads; everything else in the export is ignored
+const TrelloBoardSchema = z.object({
+  name: z.string(),
+  lists: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    closed: z.boolean().optional(),
+    pos: z.number(),
+  })),
+  cards: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    desc: z.string().optional(),
+    closed: z.boolean().optional(),
+    idList: z.string(),
+    pos: z.number(),
+    idLabels: z.array(z.string()).optional(),
+    due: z.string().nullable().optional(),
+    idMembers: z.array(z.string()).optional(),
+    attachments: z.array(z.unknown()).optional(),
+    stickers: z.array(z.unknown()).optional(),
+    cover: z.object({ color: z.string().nullable().optional() }).nullable().optional(),
+  })),
+  labels: z.array(z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    color: z.string().nullable().optional(),
+  })).optional(),
+  checklists: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    idCard: z.string(),
+    pos: z.number(),
+    checkItems: z.array(z.object({
+      name: z.string(),
+      state: z.string(),
+      pos: z.number(),
+    })),
+  })).optional(),
+  actions: z.array(z.object({
+    type: z.string(),
+    date: z.string().optional(),
+    data: z.object({
+      text: z.string().optional(),
+      card: z.object({ id: z.string() }).optional(),
+    }).optional(),
+    memberCreator: z.object({ fullName: z.string().optional() }).optional(),
+  })).optional(),
+  customFields: z.array(z.unknown()).optional(),
+});
+
+export async function importRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient }
+) {
+  const importService = new ImportService(options.prisma);
+
+  // POST /api/boards/import?dryRun=true|false
+  // Takes a document from GET /api/boards/:id/export; the service validates it
+  fastify.post('/api/boards/import', { bodyLimit: MAX_IMPORT_SIZE }, async (request, reply) => {
+    try {
+      const { dryRun } = ImportQuerySchema.parse(request.query);
+
+      const { board, summary } = await importService.importBoard(
+        request.body,
+        { dryRun: dryRun === 'true' },
+        getActor(request)
+      );
+
+      if (!board) {
+        return reply.send({ data: { dryRun: true, summary } });
+      }
+
+      return reply.status(201).send({ data: { ...board, summary } });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/import/trello
+  // Like creating a board, needs no link; the response carries the new board's edit token
+  fastify.post('/api/boards/import/trello', { bodyLimit: MAX_IMPORT_SIZE }, async (request, reply) => {
+    try {
+      const trello = TrelloBoardSchema.parse(request.body);
+
+      const imported = await importService.importTrelloBoard(trello, getActor(request));
+
+      return reply.status(201).send({ data: imported });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
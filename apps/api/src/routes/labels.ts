@@ -0,0 +1,143 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import { LabelService, type UpdateLabelData } from '../services/label.service';
+import type { BoardEventBus } from '../services/board-events';
+import { getBoardCredentials } from './access';
+import { getActor } from './activity';
+import { handleRouteError } from './error-handler';
+import { publishChange } from './events';
+import { getExpectedVersion, setNextVersion } from './versioning';
+import { z } from 'zod';
+
+const LabelColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+const CreateLabelSchema = z.object({
+  name: z.string().trim().min(1).max(30),
+  color: LabelColorSchema,
+});
+
+const UpdateLabelSchema = z.object({
+  name: z.string().trim().min(1).max(30).optional(),
+  color: LabelColorSchema.optional(),
+});
+
+const MergeLabelSchema = z.object({
+  targetLabelId: z.string().min(1),
+});
+
+export async function labelRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient; events: BoardEventBus }
+) {
+  const labelService = new LabelService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+
+  // GET /api/boards/:id/labels
+  fastify.get('/api/boards/:id/labels', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'view');
+
+      const labels = await labelService.listLabels(id);
+
+      return reply.send({
+        data: labels
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/:id/labels
+  fastify.post('/api/boards/:id/labels', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = CreateLabelSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const label = await labelService.createLabel(id, validatedData, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'label.created', label });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(201).send({
+        data: label
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/labels/:labelId
+  fastify.patch('/api/boards/:id/labels/:labelId', async (request, reply) => {
+    try {
+      const { id, labelId } = request.params as { id: string; labelId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = UpdateLabelSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const updateData: UpdateLabelData = {};
+      if (validatedData.name !== undefined) {
+        updateData.name = validatedData.name;
+      }
+      if (validatedData.color !== undefined) {
+        updateData.color = validatedData.color;
+      }
+      const label = await labelService.updateLabel(id, labelId, updateData, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'label.updated', label });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: label
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // DELETE /api/boards/:id/labels/:labelId
+  fastify.delete('/api/boards/:id/labels/:labelId', async (request, reply) => {
+    try {
+      const { id, labelId } = request.params as { id: string; labelId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const expectedVersion = getExpectedVersion(request);
+
+      // Deleting or merging a label changes any number of cards, so watchers
+      // get the whole board
+      const board = await labelService.deleteLabel(id, labelId, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'board.replaced', board });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(204).send();
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/:id/labels/:labelId/merge
+  fastify.post('/api/boards/:id/labels/:labelId/merge', async (request, reply) => {
+    try {
+      const { id, labelId } = request.params as { id: string; labelId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { targetLabelId } = MergeLabelSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const { label, board } = await labelService.mergeLabels(
+        id,
+        labelId,
+        targetLabelId,
+        expectedVersion,
+        getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'board.replaced', board });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: label
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
@@ -0,0 +1,137 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { AccessService } from '../services/access.service';
+import { ForbiddenError, NotFoundError, UnauthorizedError } from '../services/errors';
+import type { PresenceHub, PresenceMember } from '../services/presence';
+import { getBoardCredentials } from './access';
+import { z } from 'zod';
+
+const ClientMessageSchema = z.discriminatedUnion('type', [
+  // First message on every connection
+  z.object({
+    type: z.literal('hello'),
+    name: z.string().trim().min(1).max(40),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  }),
+  z.object({ type: z.literal('editing'), cardId: z.string().min(1).nullable() }),
+  z.object({ type: z.literal('dragging'), cardId: z.string().min(1).nullable() }),
+]);
+
+type ServerMessage =
+  | { type: 'welcome'; id: string; members: PresenceMember[] }
+  | { type: 'presence'; members: PresenceMember[] }
+  | { type: 'error'; error: string };
+
+// Close codes for boards that do not exist, that the link does not grant
+// access to or that are locked by a password, in the range reserved for apps
+const BOARD_NOT_FOUND = 4404;
+const ACCESS_DENIED = 4403;
+const BOARD_LOCKED = 4401;
+
+const CLOSE_REASONS: Record<number, string> = {
+  [BOARD_NOT_FOUND]: 'Board not found',
+  [ACCESS_DENIED]: 'Access denied',
+  [BOARD_LOCKED]: 'Board is locked',
+};
+
+function parseMessage(raw: string) {
+  try {
+    return ClientMessageSchema.safeParse(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
+
+export async function presenceRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient; presence: PresenceHub }
+) {
+  const accessService = new AccessService(options.prisma);
+
+  // GET /api/boards/:id/presence (WebSocket)
+  fastify.get('/api/boards/:id/presence', { websocket: true }, (socket, request) => {
+    const { id } = request.params as { id: string };
+    const memberId = nanoid();
+    let joined = false;
+    let closed = false;
+    let unsubscribe = () => {};
+
+    const send = (message: ServerMessage) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    // Resolves to the role the link grants once the connection may join, or
+    // to the code to close the socket with
+    const credentials = getBoardCredentials(request, { fromQuery: true });
+    const admission = accessService.requireRole(id, credentials, 'view').then(
+      role => ({ role, refusal: null }),
+      error => {
+        if (error instanceof ForbiddenError) return { role: null, refusal: ACCESS_DENIED };
+        if (error instanceof UnauthorizedError) return { role: null, refusal: BOARD_LOCKED };
+        if (!(error instanceof NotFoundError)) {
+          fastify.log.error(error);
+        }
+        return { role: null, refusal: BOARD_NOT_FOUND };
+      }
+    );
+
+    // Listeners are attached right away so no early message is dropped
+    // while the access check is still running
+    socket.on('message', async data => {
+      const { role, refusal } = await admission;
+      if (refusal !== null || closed) return;
+
+      const parsed = parseMessage(data.toString());
+      if (!parsed?.success) {
+        send({ type: 'error', error: 'Invalid message' });
+        return;
+      }
+
+      const message = parsed.data;
+      if (message.type === 'hello') {
+        if (!joined) {
+          joined = true;
+          options.presence.join(id, memberId, { name: message.name, color: message.color });
+        }
+        return;
+      }
+
+      if (!joined) return;
+
+      // Editing and dragging take soft locks on cards, which is up to editors
+      if (role !== 'edit') {
+        send({ type: 'error', error: 'This link can only view the board' });
+        return;
+      }
+
+      if (message.type === 'editing') {
+        // A refused lock needs no reply: the holder is already in the
+        // member list the client has
+        options.presence.setEditing(id, memberId, message.cardId);
+      } else {
+        options.presence.setDragging(id, memberId, message.cardId);
+      }
+    });
+
+    socket.on('close', () => {
+      closed = true;
+      unsubscribe();
+      options.presence.leave(id, memberId);
+    });
+
+    void admission.then(({ refusal }) => {
+      if (closed) return;
+
+      if (refusal !== null) {
+        socket.close(refusal, CLOSE_REASONS[refusal]);
+        return;
+      }
+
+      unsubscribe = options.presence.subscribe(id, members => send({ type: 'presence', members }));
+      send({ type: 'welcome', id: memberId, members: options.presence.members(id) });
+    });
+  });
+}
@@ -0,0 +1,97 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import type { BoardEventBus } from '../services/board-events';
+import { SnapshotService } from '../services/snapshot.service';
+import { getBoardCredentials } from './access';
+import { getActor } from './activity';
+import { handleRouteError } from './error-handler';
+import { publishChange } from './events';
+import { getExpectedVersion, setNextVersion } from './versioning';
+
+export async function snapshotRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient; events: BoardEventBus }
+) {
+  const snapshotService = new SnapshotService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+
+  // GET /api/boards/:id/snapshots
+  fastify.get('/api/boards/:id/snapshots', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'view');
+
+      const snapshots = await snapshotService.listSnapshots(id);
+      return reply.send({
+        data: snapshots
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/:id/snapshots
+  fastify.post('/api/boards/:id/snapshots', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+
+      const snapshot = await snapshotService.createSnapshot(id);
+      return reply.status(201).send({
+        data: snapshot
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // GET /api/boards/:id/snapshots/:snapshotId
+  fastify.get('/api/boards/:id/snapshots/:snapshotId', async (request, reply) => {
+    try {
+      const { id, snapshotId } = request.params as { id: string; snapshotId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'view');
+
+      const snapshot = await snapshotService.getSnapshot(id, snapshotId);
+      return reply.send({
+        data: snapshot
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // GET /api/boards/:id/snapshots/:snapshotId/diff
+  fastify.get('/api/boards/:id/snapshots/:snapshotId/diff', async (request, reply) => {
+    try {
+      const { id, snapshotId } = request.params as { id: string; snapshotId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'view');
+
+      const diff = await snapshotService.diffSnapshot(id, snapshotId);
+      return reply.send({
+        data: diff
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/:id/snapshots/:snapshotId/restore
+  fastify.post('/api/boards/:id/snapshots/:snapshotId/restore', async (request, reply) => {
+    try {
+      const { id, snapshotId } = request.params as { id: string; snapshotId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const expectedVersion = getExpectedVersion(request);
+
+      const board = await snapshotService.restoreSnapshot(id, snapshotId, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'board.replaced', board });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: board
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
@@ -0,0 +1,116 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import { SwimlaneService, type UpdateSwimlaneData } from '../services/swimlane.service';
+import type { BoardEventBus } from '../services/board-events';
+import { getBoardCredentials } from './access';
+import { getActor } from './activity';
+import { handleRouteError } from './error-handler';
+import { publishChange } from './events';
+import { getExpectedVersion, setNextVersion } from './versioning';
+import { z } from 'zod';
+
+const CreateSwimlaneSchema = z.object({
+  title: z.string().trim().min(1).max(50),
+});
+
+const UpdateSwimlaneSchema = z.object({
+  title: z.string().trim().min(1).max(50).optional(),
+});
+
+const MoveSwimlaneSchema = z.object({
+  targetOrder: z.number().int().min(0),
+});
+
+export async function swimlaneRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient; events: BoardEventBus }
+) {
+  const swimlaneService = new SwimlaneService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+
+  // POST /api/boards/:id/swimlanes
+  fastify.post('/api/boards/:id/swimlanes', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = CreateSwimlaneSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const swimlane = await swimlaneService.createSwimlane(id, validatedData, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'swimlane.created', swimlane });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(201).send({
+        data: swimlane
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/swimlanes/:swimlaneId
+  fastify.patch('/api/boards/:id/swimlanes/:swimlaneId', async (request, reply) => {
+    try {
+      const { id, swimlaneId } = request.params as { id: string; swimlaneId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const validatedData = UpdateSwimlaneSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const updateData: UpdateSwimlaneData = {};
+      if (validatedData.title !== undefined) {
+        updateData.title = validatedData.title;
+      }
+      const swimlane = await swimlaneService.updateSwimlane(
+        id, swimlaneId, updateData, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'swimlane.updated', swimlane });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: swimlane
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // PATCH /api/boards/:id/swimlanes/:swimlaneId/move
+  fastify.patch('/api/boards/:id/swimlanes/:swimlaneId/move', async (request, reply) => {
+    try {
+      const { id, swimlaneId } = request.params as { id: string; swimlaneId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const { targetOrder } = MoveSwimlaneSchema.parse(request.body);
+      const expectedVersion = getExpectedVersion(request);
+
+      const swimlanes = await swimlaneService.moveSwimlane(
+        id, swimlaneId, targetOrder, expectedVersion, getActor(request)
+      );
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'swimlane.moved', swimlanes });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.send({
+        data: { swimlanes }
+      });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // DELETE /api/boards/:id/swimlanes/:swimlaneId
+  fastify.delete('/api/boards/:id/swimlanes/:swimlaneId', async (request, reply) => {
+    try {
+      const { id, swimlaneId } = request.params as { id: string; swimlaneId: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+      const expectedVersion = getExpectedVersion(request);
+
+      await swimlaneService.deleteSwimlane(id, swimlaneId, expectedVersion, getActor(request));
+      publishChange(options.events, request, id, expectedVersion + 1, { type: 'swimlane.deleted', swimlaneId });
+
+      setNextVersion(reply, expectedVersion);
+      return reply.status(204).send();
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
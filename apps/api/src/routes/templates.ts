@@ -0,0 +1,59 @@
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { AccessService } from '../services/access.service';
+import { TemplateService } from '../services/template.service';
+import { getBoardCredentials } from './access';
+import { handleRouteError } from './error-handler';
+import { z } from 'zod';
+
+const SaveTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+});
+
+export async function templateRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions & { prisma: PrismaClient }
+) {
+  const templateService = new TemplateService(options.prisma);
+  const accessService = new AccessService(options.prisma);
+
+  // GET /api/templates
+  // Only the built-in templates; saved ones are known to whoever saved them
+  fastify.get('/api/templates', async (_request, reply) => {
+    try {
+      return reply.send({ data: templateService.listBuiltInTemplates() });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // GET /api/templates/:templateId
+  fastify.get('/api/templates/:templateId', async (request, reply) => {
+    try {
+      const { templateId } = request.params as { templateId: string };
+
+      const template = await templateService.getTemplate(templateId);
+
+      return reply.send({ data: template });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+
+  // POST /api/boards/:id/templates
+  // Saves a copy of the board to create new boards from; the board itself is unchanged
+  fastify.post('/api/boards/:id/templates', async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await accessService.requireRole(id, getBoardCredentials(request), 'edit');
+
+      const validatedData = SaveTemplateSchema.parse(request.body);
+      const template = await templateService.saveBoardAsTemplate(id, validatedData);
+
+      return reply.status(201).send({ data: template });
+    } catch (error) {
+      return handleRouteError(fastify, reply, error);
+    }
+  });
+}
@@ -0,0 +1,29 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { PreconditionRequiredError, ValidationError } from '../services/errors';
+
+// Boards use optimistic concurrency: reads return the board version as an
+// ETag and every write has to send it back in If-Match
+
+export function formatETag(version: number): string {
+  return `"${version}"`;
+}
+
+// Reads the version a write is based on; weak and unquoted forms are accepted
+export function getExpectedVersion(request: FastifyRequest): number {
+  const header = request.headers['if-match'];
+  if (header === undefined) {
+    throw new PreconditionRequiredError('If-Match header is required');
+  }
+
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(header.trim());
+  if (!match) {
+    throw new ValidationError('Invalid If-Match header');
+  }
+
+  return Number(match[1]);
+}
+
+// A successful write bumps the board version by exactly one
+export function setNextVersion(reply: FastifyReply, expectedVersion: number) {
+  reply.header('ETag', formatETag(expectedVersion + 1));
+}
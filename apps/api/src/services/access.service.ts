@@ -0,0 +1,192 @@
+import { randomBytes } from 'node:crypto';
+import { PrismaClient, type Prisma } from '@prisma/client';
+import {
+  hashPassword,
+  signSession,
+  verifyPassword,
+  verifySession,
+  type BoardSession,
+} from './board-session';
+import { ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from './errors';
+
+// View links can read a board; edit links can also change it
+export type BoardRole = 'view' | 'edit';
+
+// What a request presents to get at a board: a share link token and, for
+// password protected boards, a board session
+export interface BoardCredentials {
+  token: string | null;
+  session: string | null;
+}
+
+export interface BoardAccess {
+  role: BoardRole;
+  passwordProtected: boolean;
+}
+
+export interface BoardTokenData {
+  id: string;
+  token: string;
+  role: BoardRole;
+  createdAt: Date;
+}
+
+/**
+ * Generates a new link secret for the board. 24 random bytes make tokens
+ * impossible to guess, unlike board IDs, which are meant to be shared.
+ */
+export async function issueToken(
+  client: PrismaClient | Prisma.TransactionClient,
+  boardId: string,
+  role: BoardRole
+): Promise<BoardTokenData> {
+  const token = await client.boardToken.create({
+    data: { boardId, role, token: randomBytes(24).toString('base64url') },
+  });
+
+  return toBoardTokenData(token);
+}
+
+export class AccessService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Role a token grants on the board, or null when it grants none. Boards
+   * without edit tokens predate share links and are open to everyone.
+   */
+  async getRole(boardId: string, token: string | null): Promise<BoardRole | null> {
+    await this.findBoard(boardId);
+
+    if (token !== null) {
+      const match = await this.prisma.boardToken.findFirst({ where: { boardId, token } });
+      if (match) {
+        return match.role as BoardRole;
+      }
+    }
+
+    const editTokens = await this.prisma.boardToken.count({ where: { boardId, role: 'edit' } });
+    return editTokens === 0 ? 'edit' : null;
+  }
+
+  /**
+   * Throws unless the credentials grant at least `role` on the board. Links
+   * are checked first, so only people who may see the board learn that it
+   * has a password.
+   */
+  async requireRole(boardId: string, credentials: BoardCredentials, role: BoardRole): Promise<BoardRole> {
+    const granted = await this.requireLink(boardId, credentials.token, role);
+
+    const { passwordHash } = await this.findBoard(boardId);
+    const unlocked =
+      passwordHash === null ||
+      (credentials.session !== null && verifySession(credentials.session, boardId, passwordHash));
+    if (!unlocked) {
+      throw new UnauthorizedError('This board is password protected');
+    }
+
+    return granted;
+  }
+
+  async getAccess(boardId: string, credentials: BoardCredentials): Promise<BoardAccess> {
+    const role = await this.requireRole(boardId, credentials, 'view');
+    const { passwordHash } = await this.findBoard(boardId);
+
+    return { role, passwordProtected: passwordHash !== null };
+  }
+
+  /**
+   * Sets or, with null, removes the board password. Either way existing
+   * sessions end; the caller gets a fresh one so they stay unlocked.
+   */
+  async setPassword(boardId: string, password: string | null): Promise<BoardSession | null> {
+    const passwordHash = password === null ? null : await hashPassword(password);
+    await this.prisma.board.update({ where: { id: boardId }, data: { passwordHash } });
+
+    return passwordHash === null ? null : signSession(boardId, passwordHash);
+  }
+
+  // Exchanges the board password for a board session
+  async createSession(boardId: string, token: string | null, password: string): Promise<BoardSession> {
+    await this.requireLink(boardId, token, 'view');
+
+    const { passwordHash } = await this.findBoard(boardId);
+    if (passwordHash === null) {
+      throw new ValidationError('This board has no password');
+    }
+    if (!(await verifyPassword(password, passwordHash))) {
+      throw new UnauthorizedError('Wrong password');
+    }
+
+    return signSession(boardId, passwordHash);
+  }
+
+  async listTokens(boardId: string): Promise<BoardTokenData[]> {
+    const tokens = await this.prisma.boardToken.findMany({
+      where: { boardId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return tokens.map(toBoardTokenData);
+  }
+
+  async createToken(boardId: string, role: BoardRole): Promise<BoardTokenData> {
+    return issueToken(this.prisma, boardId, role);
+  }
+
+  /**
+   * Revokes a link. The last edit link cannot be revoked: without one the
+   * board would fall back to being open to anyone with its ID.
+   */
+  async revokeToken(boardId: string, tokenId: string): Promise<void> {
+    await this.prisma.$transaction(async tx => {
+      const token = await tx.boardToken.findFirst({ where: { id: tokenId, boardId } });
+      if (!token) {
+        throw new NotFoundError('Link not found');
+      }
+
+      if (token.role === 'edit') {
+        const editTokens = await tx.boardToken.count({ where: { boardId, role: 'edit' } });
+        if (editTokens === 1) {
+          throw new ConflictError('The last edit link cannot be revoked');
+        }
+      }
+
+      await tx.boardToken.delete({ where: { id: tokenId } });
+    });
+  }
+
+  private async findBoard(boardId: string) {
+    const board = await this.prisma.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new NotFoundError('Board not found');
+    }
+    return board;
+  }
+
+  private async requireLink(boardId: string, token: string | null, role: BoardRole): Promise<BoardRole> {
+    const granted = await this.getRole(boardId, token);
+
+    if (granted === null) {
+      throw new ForbiddenError('A valid board link is required');
+    }
+    if (role === 'edit' && granted !== 'edit') {
+      throw new ForbiddenError('This link can only view the board');
+    }
+
+    return granted;
+  }
+}
+
+function toBoardTokenData(token: {
+  id: string;
+  token: string;
+  role: string;
+  createdAt: Date;
+}): BoardTokenData {
+  return {
+    id: token.id,
+    token: token.token,
+    role: token.role as BoardRole,
+    createdAt: token.createdAt,
+  };
+}
@@ -0,0 +1,144 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { NotFoundError, ValidationError } from './errors';
+
+export type ActivityAction =
+  | 'board.created'
+  | 'board.updated'
+  | 'board.replaced'
+  | 'board.restored'
+  | 'card.created'
+  | 'card.updated'
+  | 'card.deleted'
+  | 'card.moved'
+  | 'column.created'
+  | 'column.updated'
+  | 'column.moved'
+  | 'column.deleted'
+  | 'swimlane.created'
+  | 'swimlane.updated'
+  | 'swimlane.moved'
+  | 'swimlane.deleted'
+  | 'label.created'
+  | 'label.updated'
+  | 'label.deleted'
+  | 'label.merged'
+  | 'checklist.created'
+  | 'checklist.updated'
+  | 'checklist.deleted'
+  | 'comment.created'
+  | 'comment.updated'
+  | 'comment.deleted'
+  | 'attachment.created'
+  | 'attachment.updated'
+  | 'attachment.deleted';
+
+// Who made a change, as far as an anonymous board can tell
+export interface ActivityActor {
+  name: string | null;
+  ipHash: string | null;
+}
+
+// Writes made outside a request, e.g. from scripts or tests
+export const UNKNOWN_ACTOR: ActivityActor = { name: null, ipHash: null };
+
+export interface ActivityEntry {
+  action: ActivityAction;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ActivityData {
+  id: number;
+  action: ActivityAction;
+  actorName: string | null;
+  ipHash: string | null;
+  before: unknown;
+  after: unknown;
+  createdAt: Date;
+}
+
+export interface ActivityPage {
+  activities: ActivityData[];
+  // Pass back as `cursor` to fetch the next, older page
+  nextCursor: number | null;
+}
+
+/**
+ * Records a change to the board. Called from inside the write transaction so
+ * the audit trail cannot disagree with the data.
+ */
+export async function recordActivity(
+  tx: Prisma.TransactionClient,
+  boardId: string,
+  actor: ActivityActor,
+  entry: ActivityEntry
+): Promise<void> {
+  await tx.activity.create({
+    data: {
+      boardId,
+      actorName: actor.name,
+      ipHash: actor.ipHash,
+      action: entry.action,
+      before: entry.before === undefined ? null : JSON.stringify(entry.before),
+      after: entry.after === undefined ? null : JSON.stringify(entry.after),
+    },
+  });
+}
+
+export class ActivityService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Lists a board's activity, newest first. `cursor` is the ID of the last
+   * activity of the previous page.
+   */
+  async listActivity(boardId: string, limit: number, cursor?: number): Promise<ActivityPage> {
+    const board = await this.prisma.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new NotFoundError('Board not found');
+    }
+
+    if (cursor !== undefined) {
+      const count = await this.prisma.activity.count({ where: { id: cursor, boardId } });
+      if (count === 0) {
+        throw new ValidationError('Invalid cursor');
+      }
+    }
+
+    // One extra row tells whether another page follows
+    const rows = await this.prisma.activity.findMany({
+      where: { boardId },
+      orderBy: { id: 'desc' },
+      take: limit + 1,
+      ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      activities: page.map(toActivityData),
+      nextCursor: rows.length > limit && last ? last.id : null,
+    };
+  }
+}
+
+function toActivityData(activity: {
+  id: number;
+  action: string;
+  actorName: string | null;
+  ipHash: string | null;
+  before: string | null;
+  after: string | null;
+  createdAt: Date;
+}): ActivityData {
+  return {
+    id: activity.id,
+    action: activity.action as ActivityAction,
+    actorName: activity.actorName,
+    ipHash: activity.ipHash,
+    before: activity.before === null ? null : JSON.parse(activity.before),
+    after: activity.after === null ? null : JSON.parse(activity.after),
+    createdAt: activity.createdAt,
+  };
+}
@@ -0,0 +1,94 @@
+import type {} from '@fastify/static';
+import type { FastifyReply } from 'fastify';
+import { mkdir, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+
+export interface StoredFile {
+  key: string;
+  modifiedAt: Date;
+}
+
+/**
+ * Where attachment bytes live. Keys are slash-separated paths such as
+ * `<boardId>/<attachmentId>`; the database only keeps the keys.
+ */
+export interface AttachmentStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  // Removing a key that is not stored is not an error
+  remove(key: string): Promise<void>;
+  // Files whose key starts with the prefix
+  list(prefix: string): Promise<StoredFile[]>;
+  // Streams the file as the reply body; headers set beforehand are kept
+  send(reply: FastifyReply, key: string): FastifyReply | Promise<FastifyReply>;
+}
+
+/**
+ * Keeps attachments as files under a local directory and serves them with
+ * `reply.sendFile`, so `@fastify/static` must be registered with this
+ * storage's root.
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const path = this.pathOf(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(this.pathOf(key), { force: true });
+  }
+
+  async list(prefix: string): Promise<StoredFile[]> {
+    const directory = this.pathOf(prefix.slice(0, prefix.lastIndexOf('/') + 1));
+
+    const files: StoredFile[] = [];
+    for (const path of await walk(directory)) {
+      const key = relative(this.root, path).split(sep).join('/');
+      if (key.startsWith(prefix)) {
+        files.push({ key, modifiedAt: (await stat(path)).mtime });
+      }
+    }
+    return files;
+  }
+
+  send(reply: FastifyReply, key: string): FastifyReply {
+    return reply.sendFile(this.relativePathOf(key), this.root);
+  }
+
+  // Keys come from the database, but never let one point outside the root
+  private pathOf(key: string): string {
+    return join(this.root, this.relativePathOf(key));
+  }
+
+  private relativePathOf(key: string): string {
+    const path = resolve(this.root, key);
+    if (path !== this.root && !path.startsWith(this.root + sep)) {
+      throw new Error(`Attachment key outside storage root: ${key}`);
+    }
+    return relative(this.root, path);
+  }
+}
+
+// Paths of every file below the directory, which need not exist. Walked by
+// hand since readdir's `recursive` and `parentPath` are missing from early
+// Node 18 releases.
+async function walk(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true }).catch(() => []);
+
+  const paths: string[] = [];
+  for (const entry of entries) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      paths.push(...(await walk(path)));
+    } else if (entry.isFile()) {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
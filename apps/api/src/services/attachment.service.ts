@@ -0,0 +1,329 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { recordActivity, UNKNOWN_ACTOR, type ActivityActor } from './activity.service';
+import type { AttachmentStorage } from './attachment-storage';
+import { CARD_RELATIONS, claimBoardVersion, toAttachmentData } from './board.service';
+import { toCardData, type CardData } from './card.service';
+import { NotFoundError, PayloadTooLargeError, ValidationError } from './errors';
+
+const MB = 1024 * 1024;
+
+export const MAX_ATTACHMENT_SIZE = 10 * MB;
+export const BOARD_ATTACHMENT_QUOTA = 100 * MB;
+export const MAX_THUMBNAIL_SIZE = 256 * 1024;
+
+const FILE_NAME_MAX_LENGTH = 255;
+
+export interface AttachmentUpload {
+  fileName: string;
+  data: Buffer;
+  // JPEG preview of an image, made by the client
+  thumbnail: Buffer | null;
+}
+
+// A stored file ready to be sent back
+export interface AttachmentFile {
+  key: string;
+  fileName: string;
+  contentType: string;
+}
+
+/**
+ * Files attached to cards. The bytes go through an AttachmentStorage, the
+ * metadata into the database. Content types are sniffed from the bytes
+ * rather than trusted from the upload, and the first image on a card
+ * becomes its cover.
+ */
+export class AttachmentService {
+  // Keys of uploads that have been stored but not committed yet, which
+  // pruning must leave alone
+  private readonly uploading = new Set<string>();
+
+  constructor(
+    private prisma: PrismaClient,
+    private storage: AttachmentStorage
+  ) {}
+
+  async createAttachment(
+    boardId: string,
+    cardId: string,
+    upload: AttachmentUpload,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<CardData> {
+    if (upload.data.length === 0) {
+      throw new ValidationError('File is empty');
+    }
+    if (upload.data.length > MAX_ATTACHMENT_SIZE) {
+      throw new PayloadTooLargeError(`Files can be at most ${MAX_ATTACHMENT_SIZE / MB} MB`);
+    }
+
+    const contentType = sniffContentType(upload.data);
+    if (upload.thumbnail) {
+      if (!isImage(contentType)) {
+        throw new ValidationError('Only images can have thumbnails');
+      }
+      if (sniffContentType(upload.thumbnail) !== 'image/jpeg') {
+        throw new ValidationError('Thumbnails must be JPEG images');
+      }
+      if (upload.thumbnail.length > MAX_THUMBNAIL_SIZE) {
+        throw new PayloadTooLargeError(`Thumbnails can be at most ${MAX_THUMBNAIL_SIZE / 1024} KB`);
+      }
+    }
+
+    // Nothing is written for cards that do not exist
+    await findCard(this.prisma, boardId, cardId);
+
+    const id = nanoid();
+    const storageKey = `${boardId}/${id}`;
+    const thumbnailKey = upload.thumbnail ? `${storageKey}.thumb` : null;
+
+    const keys = thumbnailKey ? [storageKey, thumbnailKey] : [storageKey];
+    keys.forEach(key => this.uploading.add(key));
+
+    try {
+      await this.storage.save(storageKey, upload.data);
+      if (upload.thumbnail && thumbnailKey) {
+        await this.storage.save(thumbnailKey, upload.thumbnail);
+      }
+
+      return await this.prisma.$transaction(async tx => {
+        await claimBoardVersion(tx, boardId, expectedVersion);
+        await findCard(tx, boardId, cardId);
+
+        const used = await tx.attachment.aggregate({
+          where: { card: { column: { boardId } } },
+          _sum: { size: true },
+        });
+        if ((used._sum.size ?? 0) + upload.data.length > BOARD_ATTACHMENT_QUOTA) {
+          throw new PayloadTooLargeError(`A board can hold at most ${BOARD_ATTACHMENT_QUOTA / MB} MB of attachments`);
+        }
+
+        const hasCover = (await tx.attachment.count({ where: { cardId, cover: true } })) > 0;
+        const attachment = await tx.attachment.create({
+          data: {
+            id,
+            cardId,
+            fileName: toFileName(upload.fileName),
+            contentType,
+            size: upload.data.length,
+            storageKey,
+            thumbnailKey,
+            cover: isImage(contentType) && !hasCover,
+          },
+        });
+
+        await recordActivity(tx, boardId, actor, {
+          action: 'attachment.created',
+          after: { cardId, ...toAttachmentData(attachment) },
+        });
+
+        return loadCard(tx, cardId);
+      });
+    } catch (error) {
+      await this.removeFiles(keys);
+      throw error;
+    } finally {
+      keys.forEach(key => this.uploading.delete(key));
+    }
+  }
+
+  // Makes an image the card's cover, replacing any other, or takes it down
+  async setCover(
+    boardId: string,
+    cardId: string,
+    attachmentId: string,
+    cover: boolean,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<CardData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const previous = await findAttachment(tx, boardId, cardId, attachmentId);
+      if (cover && !isImage(previous.contentType)) {
+        throw new ValidationError('Only images can be card covers');
+      }
+
+      if (cover) {
+        await tx.attachment.updateMany({ where: { cardId, cover: true }, data: { cover: false } });
+      }
+      const attachment = await tx.attachment.update({ where: { id: attachmentId }, data: { cover } });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'attachment.updated',
+        before: { cardId, ...toAttachmentData(previous) },
+        after: { cardId, ...toAttachmentData(attachment) },
+      });
+
+      return loadCard(tx, cardId);
+    });
+  }
+
+  async deleteAttachment(
+    boardId: string,
+    cardId: string,
+    attachmentId: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<CardData> {
+    const { card, attachment } = await this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const attachment = await findAttachment(tx, boardId, cardId, attachmentId);
+      await tx.attachment.delete({ where: { id: attachmentId } });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'attachment.deleted',
+        before: { cardId, ...toAttachmentData(attachment) },
+      });
+
+      return { card: await loadCard(tx, cardId), attachment };
+    });
+
+    await this.removeFiles([attachment.storageKey, attachment.thumbnailKey]);
+    return card;
+  }
+
+  async getFile(
+    boardId: string,
+    cardId: string,
+    attachmentId: string,
+    variant: 'file' | 'thumbnail'
+  ): Promise<AttachmentFile> {
+    const attachment = await findAttachment(this.prisma, boardId, cardId, attachmentId);
+
+    if (variant === 'thumbnail') {
+      if (!attachment.thumbnailKey) {
+        throw new NotFoundError('Thumbnail not found');
+      }
+      return { key: attachment.thumbnailKey, fileName: attachment.fileName, contentType: 'image/jpeg' };
+    }
+
+    return { key: attachment.storageKey, fileName: attachment.fileName, contentType: attachment.contentType };
+  }
+
+  /**
+   * Removes the board's stored files that no attachment refers to. Deleting
+   * a card, column or the board's contents drops attachment rows along with
+   * them, and their files are only cleaned up here. Files of a board that no
+   * longer exists are all removed.
+   */
+  async pruneFiles(boardId: string): Promise<number> {
+    const attachments = await this.prisma.attachment.findMany({
+      where: { card: { column: { boardId } } },
+      select: { storageKey: true, thumbnailKey: true },
+    });
+    const referenced = new Set(attachments.flatMap(({ storageKey, thumbnailKey }) => [storageKey, thumbnailKey]));
+
+    const orphans = (await this.storage.list(`${boardId}/`)).filter(
+      file => !referenced.has(file.key) && !this.uploading.has(file.key)
+    );
+
+    await this.removeFiles(orphans.map(file => file.key));
+    return orphans.length;
+  }
+
+  // Prunes the files of every board in storage, including deleted ones
+  async pruneAllFiles(): Promise<number> {
+    const keys = (await this.storage.list('')).map(file => file.key).filter(key => key.includes('/'));
+    const boardIds = new Set(keys.map(key => key.slice(0, key.indexOf('/'))));
+
+    let removed = 0;
+    for (const boardId of boardIds) {
+      removed += await this.pruneFiles(boardId);
+    }
+    return removed;
+  }
+
+  // Leftovers are picked up by pruneFiles, so failures are not fatal
+  private async removeFiles(keys: Array<string | null>) {
+    for (const key of keys) {
+      if (key) {
+        await this.storage.remove(key).catch(() => undefined);
+      }
+    }
+  }
+}
+
+const SIGNATURES: Array<{ contentType: string; offset: number; bytes: number[] }> = [
+  { contentType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { contentType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { contentType: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { contentType: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { contentType: 'application/pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { contentType: 'application/zip', offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] },
+];
+
+const TEXT_SAMPLE_SIZE = 1024;
+
+/**
+ * Works out a file's type from its first bytes. Anything that is not a known
+ * binary format or readable UTF-8 text is served as an opaque download.
+ */
+export function sniffContentType(data: Buffer): string {
+  for (const { contentType, offset, bytes } of SIGNATURES) {
+    if (bytes.every((byte, index) => data[offset + index] === byte)) {
+      // WebP files are RIFF containers
+      if (contentType === 'image/webp' && data.subarray(0, 4).toString('latin1') !== 'RIFF') continue;
+      return contentType;
+    }
+  }
+
+  const sample = data.subarray(0, TEXT_SAMPLE_SIZE);
+  if (!sample.includes(0)) {
+    try {
+      // Streaming so a character cut off at the end of the sample is fine
+      new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+      return 'text/plain; charset=utf-8';
+    } catch {
+      // Not UTF-8
+    }
+  }
+
+  return 'application/octet-stream';
+}
+
+export function isImage(contentType: string): boolean {
+  return contentType.startsWith('image/');
+}
+
+// Drops any directory part a browser may have sent along
+function toFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop()?.trim() ?? '';
+  return base.slice(0, FILE_NAME_MAX_LENGTH) || 'file';
+}
+
+async function loadCard(tx: Prisma.TransactionClient, cardId: string): Promise<CardData> {
+  return toCardData(await tx.card.findUniqueOrThrow({ where: { id: cardId }, include: CARD_RELATIONS }));
+}
+
+async function findCard(client: PrismaClient | Prisma.TransactionClient, boardId: string, cardId: string) {
+  const board = await client.board.findUnique({ where: { id: boardId } });
+  if (!board) {
+    throw new NotFoundError('Board not found');
+  }
+
+  const card = await client.card.findFirst({ where: { id: cardId, column: { boardId } } });
+  if (!card) {
+    throw new NotFoundError('Card not found');
+  }
+
+  return card;
+}
+
+async function findAttachment(
+  client: PrismaClient | Prisma.TransactionClient,
+  boardId: string,
+  cardId: string,
+  attachmentId: string
+) {
+  await findCard(client, boardId, cardId);
+
+  const attachment = await client.attachment.findFirst({ where: { id: attachmentId, cardId } });
+  if (!attachment) {
+    throw new NotFoundError('Attachment not found');
+  }
+
+  return attachment;
+}
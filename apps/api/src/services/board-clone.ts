@@ -0,0 +1,31 @@
+import { EMPTY_CARD_DETAILS } from './board.service';
+import type { BoardImport } from './import.service';
+
+// How much of a board a clone takes: its columns (with WIP limits, labels and
+// lanes), also the cards' titles, or the cards with all their details
+export const CLONE_SCOPES = ['columns', 'cards', 'everything'] as const;
+export type CloneScope = (typeof CLONE_SCOPES)[number];
+
+// Titles are capped at 100 characters, so long ones lose their end first
+export function cloneTitle(title: string): string {
+  const suffix = ' (copy)';
+  return title.slice(0, 100 - suffix.length) + suffix;
+}
+
+/**
+ * Trims a board down to what a clone of the given scope starts with. Comments
+ * and attachments are never copied; a clone starts its own conversation.
+ */
+export function selectCloneContent(board: BoardImport, scope: CloneScope): BoardImport {
+  return {
+    ...board,
+    columns: board.columns.map(column => ({
+      ...column,
+      cards: scope === 'columns' ? [] : column.cards.map(card =>
+        scope === 'everything'
+          ? { ...card, comments: [] }
+          : { ...EMPTY_CARD_DETAILS, content: card.content, swimlane: card.swimlane, labelNames: [], checklists: [], comments: [] }
+      ),
+    })),
+  };
+}
@@ -0,0 +1,184 @@
+import type { BoardData, BoardSettings, ChecklistData, LabelData, SwimlaneData } from './board.service';
+import type { CardData, ColumnData } from './card.service';
+import type { ColumnSummary } from './column.service';
+import type { CommentData } from './comment.service';
+
+// Changes pushed to clients watching a board. Each one describes the state
+// after a successful write, so clients can patch their copy without a reload.
+export type BoardChange =
+  | { type: 'card.created'; card: CardData }
+  | { type: 'card.updated'; card: CardData }
+  | { type: 'card.deleted'; cardId: string }
+  | { type: 'card.moved'; columns: ColumnData[] }
+  | { type: 'column.created'; column: ColumnSummary }
+  | { type: 'column.updated'; column: ColumnSummary }
+  | { type: 'column.moved'; columns: ColumnSummary[] }
+  | { type: 'swimlane.created'; swimlane: SwimlaneData }
+  | { type: 'swimlane.updated'; swimlane: SwimlaneData }
+  | { type: 'swimlane.moved'; swimlanes: SwimlaneData[] }
+  | { type: 'swimlane.deleted'; swimlaneId: string }
+  | { type: 'label.created'; label: LabelData }
+  | { type: 'label.updated'; label: LabelData }
+  | { type: 'checklist.created'; cardId: string; checklist: ChecklistData }
+  | { type: 'checklist.updated'; cardId: string; checklist: ChecklistData }
+  | { type: 'checklist.deleted'; cardId: string; checklistId: string }
+  // Comment events carry the card's resulting number of comments
+  | { type: 'comment.created'; cardId: string; comment: CommentData; commentCount: number }
+  | { type: 'comment.updated'; cardId: string; comment: CommentData }
+  | { type: 'comment.deleted'; cardId: string; commentId: string; commentCount: number }
+  | { type: 'board.updated'; settings: BoardSettings }
+  | { type: 'board.replaced'; board: BoardData };
+
+export interface BoardEventMeta {
+  // Board version after the write
+  version: number;
+  // Client that made the write, so it can ignore its own changes
+  clientId: string | null;
+}
+
+export type BoardEvent = BoardChange & BoardEventMeta & { id: string };
+
+type BoardEventListener = (event: BoardEvent) => void;
+type AnyBoardEventListener = (boardId: string, event: BoardEvent) => void;
+
+interface BoardChannel {
+  // Tells this channel's event IDs apart from those of a channel the board
+  // had before it was dropped, or in a previous process
+  epoch: string;
+  nextSequence: number;
+  // Most recent events, oldest first, kept so reconnecting clients can resume
+  buffer: BoardEvent[];
+  listeners: Set<BoardEventListener>;
+  lastPublishedAt: number;
+}
+
+// How long a board nobody watches keeps its recent events
+const IDLE_CHANNEL_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * In-process pub/sub for board changes. Event IDs are `<epoch>-<sequence>`
+ * per board. Boards nobody has watched or written to for a while are dropped,
+ * and come back under a new epoch, so clients that were away that long reload
+ * instead of replaying.
+ */
+export class BoardEventBus {
+  private readonly processEpoch = Date.now().toString(36);
+  private generation = 0;
+  private readonly channels = new Map<string, BoardChannel>();
+  private readonly boardListeners = new Set<AnyBoardEventListener>();
+  private lastSweepAt: number;
+
+  constructor(
+    private readonly bufferSize = 200,
+    private readonly idleTtlMs = IDLE_CHANNEL_TTL_MS,
+    private readonly now: () => number = Date.now
+  ) {
+    this.lastSweepAt = now();
+  }
+
+  publish(boardId: string, change: BoardChange, meta: BoardEventMeta): BoardEvent {
+    const channel = this.channel(boardId);
+    const event: BoardEvent = {
+      ...change,
+      ...meta,
+      id: `${channel.epoch}-${channel.nextSequence++}`,
+    };
+
+    channel.buffer.push(event);
+    if (channel.buffer.length > this.bufferSize) {
+      channel.buffer.shift();
+    }
+    channel.lastPublishedAt = this.now();
+
+    for (const listener of channel.listeners) {
+      listener(event);
+    }
+    for (const listener of this.boardListeners) {
+      listener(boardId, event);
+    }
+
+    return event;
+  }
+
+  subscribe(boardId: string, listener: BoardEventListener): () => void {
+    const channel = this.channel(boardId);
+    channel.listeners.add(listener);
+
+    return () => {
+      channel.listeners.delete(listener);
+    };
+  }
+
+  // Listens to every board's events without keeping any board's channel open
+  subscribeAll(listener: AnyBoardEventListener): () => void {
+    this.boardListeners.add(listener);
+
+    return () => {
+      this.boardListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Events published after `lastEventId`, for resuming a stream. Returns
+   * null when they can no longer be replayed (the ID is from another process
+   * or an earlier channel, or has dropped out of the buffer) and the client
+   * has to reload instead.
+   */
+  eventsSince(boardId: string, lastEventId: string): BoardEvent[] | null {
+    const separator = lastEventId.lastIndexOf('-');
+    const epoch = lastEventId.slice(0, separator);
+    const sequence = Number(lastEventId.slice(separator + 1));
+
+    const channel = this.channels.get(boardId);
+    if (!channel || separator < 0 || epoch !== channel.epoch || !Number.isInteger(sequence)) {
+      return null;
+    }
+
+    if (sequence >= channel.nextSequence) {
+      return null;
+    }
+
+    const oldest = channel.buffer[0];
+    const oldestSequence = oldest ? sequenceOf(oldest) : channel.nextSequence;
+    if (sequence < oldestSequence - 1) {
+      return null;
+    }
+
+    return channel.buffer.filter(event => sequenceOf(event) > sequence);
+  }
+
+  private channel(boardId: string): BoardChannel {
+    this.sweep();
+
+    let channel = this.channels.get(boardId);
+    if (!channel) {
+      channel = {
+        epoch: `${this.processEpoch}.${(this.generation++).toString(36)}`,
+        nextSequence: 0,
+        buffer: [],
+        listeners: new Set(),
+        lastPublishedAt: this.now(),
+      };
+      this.channels.set(boardId, channel);
+    }
+
+    return channel;
+  }
+
+  // Drops idle channels, at most once per TTL so publishing stays cheap
+  private sweep() {
+    const now = this.now();
+    if (now - this.lastSweepAt < this.idleTtlMs) return;
+    this.lastSweepAt = now;
+
+    for (const [boardId, channel] of this.channels) {
+      if (channel.listeners.size === 0 && now - channel.lastPublishedAt >= this.idleTtlMs) {
+        this.channels.delete(boardId);
+      }
+    }
+  }
+}
+
+function sequenceOf(event: BoardEvent): number {
+  return Number(event.id.slice(event.id.lastIndexOf('-') + 1));
+}
@@ -0,0 +1,190 @@
+import { BOARD_EXPORT_VERSION } from '@kanban/types';
+import type { BoardData } from './board.service';
+import type { CommentData } from './comment.service';
+
+export const EXPORT_FORMATS = ['json', 'csv', 'markdown'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Comment threads by card ID, oldest first
+export type BoardComments = Map<string, CommentData[]>;
+
+type ExportCard = BoardData['columns'][number]['cards'][number];
+
+// The JSON export, which can be imported again. Its version is bumped
+// whenever the shape of `board` changes; see `migrateBoardExport`.
+export interface BoardExportDocument {
+  format: 'kanban-board';
+  version: typeof BOARD_EXPORT_VERSION;
+  exportedAt: string;
+  board: Omit<BoardData, 'columns'> & {
+    columns: Array<Omit<BoardData['columns'][number], 'cards'> & {
+      cards: Array<ExportCard & { comments: Array<Pick<CommentData, 'authorName' | 'body' | 'createdAt'>> }>;
+    }>;
+  };
+}
+
+export interface ExportFile {
+  contentType: string;
+  fileName: string;
+  body: string;
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = { json: 'json', csv: 'csv', markdown: 'md' };
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+};
+
+const byOrder = <T extends { order: number }>(items: T[]) => [...items].sort((a, b) => a.order - b.order);
+
+export function exportBoard(
+  board: BoardData,
+  comments: BoardComments,
+  format: ExportFormat,
+  exportedAt = new Date()
+): ExportFile {
+  const body =
+    format === 'json'
+      ? toJsonExport(board, comments, exportedAt)
+      : format === 'csv'
+        ? toCsvExport(board)
+        : toMarkdownExport(board);
+
+  return {
+    contentType: CONTENT_TYPES[format],
+    fileName: `${fileSlug(board.title)}.${EXTENSIONS[format]}`,
+    body,
+  };
+}
+
+export function toJsonExport(board: BoardData, comments: BoardComments, exportedAt = new Date()): string {
+  const document: BoardExportDocument = {
+    format: 'kanban-board',
+    version: BOARD_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    board: {
+      ...board,
+      columns: board.columns.map(column => ({
+        ...column,
+        cards: column.cards.map(card => ({
+          ...card,
+          comments: (comments.get(card.id) ?? []).map(({ authorName, body, createdAt }) => ({
+            authorName,
+            body,
+            createdAt,
+          })),
+        })),
+      })),
+    },
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+const CSV_HEADER = [
+  'Column',
+  'Column order',
+  'Card order',
+  'Card',
+  'Description',
+  'Priority',
+  'Estimate',
+  'Labels',
+  'Swimlane',
+  'Checklist items done',
+  'Checklist items',
+  'Comments',
+  'Attachments',
+];
+
+// One row per card, in board order
+export function toCsvExport(board: BoardData): string {
+  const labels = new Map(board.labels.map(label => [label.id, label.name]));
+  const lanes = new Map(board.swimlanes.map(lane => [lane.id, lane.title]));
+
+  const rows = byOrder(board.columns).flatMap(column =>
+    byOrder(column.cards).map(card => {
+      const items = card.checklists.flatMap(checklist => checklist.items);
+      return [
+        column.title,
+        column.order,
+        card.order,
+        card.content,
+        card.description,
+        card.priority ?? '',
+        card.estimate ?? '',
+        card.labelIds.flatMap(id => labels.get(id) ?? []).join(', '),
+        (card.swimlaneId && lanes.get(card.swimlaneId)) ?? '',
+        items.filter(item => item.done).length,
+        items.length,
+        card.commentCount,
+        card.attachments.length,
+      ];
+    })
+  );
+
+  return [CSV_HEADER, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Quotes fields that need it. Text starting like a formula is prefixed with
+// an apostrophe so spreadsheets show it rather than run it.
+function csvField(value: string | number): string {
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// A heading per column and a task list of its cards, with their checklist
+// items nested below. Cards count as done once every checklist item is.
+export function toMarkdownExport(board: BoardData): string {
+  const labels = new Map(board.labels.map(label => [label.id, label.name]));
+  const lines = [`# ${board.title}`, ''];
+
+  for (const column of byOrder(board.columns)) {
+    lines.push(`## ${column.title}`, '');
+    if (column.cards.length === 0) {
+      lines.push('_No cards_', '');
+      continue;
+    }
+
+    for (const card of byOrder(column.cards)) {
+      const items = byOrder(card.checklists).flatMap(checklist => byOrder(checklist.items));
+      const done = items.length > 0 && items.every(item => item.done);
+      const details = cardDetailsLine(card, labels);
+
+      lines.push(`- [${done ? 'x' : ' '}] ${singleLine(card.content)}${details && ` ${details}`}`);
+      // Indented so the description stays part of the card's entry
+      if (card.description.trim()) {
+        lines.push(...card.description.trim().split('\n').map(line => (line.trim() ? `  ${line}` : '')));
+      }
+      for (const item of items) {
+        lines.push(`  - [${item.done ? 'x' : ' '}] ${singleLine(item.text)}`);
+      }
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function cardDetailsLine(card: ExportCard, labels: Map<string, string>): string {
+  const details = [
+    card.priority && `Priority: ${card.priority}`,
+    card.estimate !== null && `Estimate: ${card.estimate}`,
+    card.labelIds.length > 0 && `Labels: ${card.labelIds.flatMap(id => labels.get(id) ?? []).join(', ')}`,
+  ].filter(Boolean);
+  return details.length > 0 ? `_${details.join(' · ')}_` : '';
+}
+
+const singleLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+// Board title as a file name, e.g. "Q3 Roadmap!" becomes q3-roadmap
+function fileSlug(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'board'
+  );
+}
@@ -0,0 +1,89 @@
+import {
+  AnyBoardExportSchema,
+  BOARD_EXPORT_VERSION,
+  migrateBoardExport,
+  type BoardExport,
+} from '@kanban/types';
+import { ValidationError } from './errors';
+import type { BoardImport } from './import.service';
+
+// What an import creates, or would create on a dry run
+export interface ImportSummary {
+  // Export version the document was written in
+  sourceVersion: number;
+  title: string;
+  columns: number;
+  cards: number;
+  labels: number;
+  swimlanes: number;
+  checklists: number;
+  comments: number;
+}
+
+/**
+ * Validates a board export document and migrates it to the current version.
+ * Documents from newer releases are refused rather than half understood.
+ */
+export function readBoardExport(input: unknown): { document: BoardExport; sourceVersion: number } {
+  const version = (input as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > BOARD_EXPORT_VERSION) {
+    throw new ValidationError(
+      `This export is version ${version}; this server reads up to version ${BOARD_EXPORT_VERSION}`
+    );
+  }
+
+  const parsed = AnyBoardExportSchema.parse(input);
+  return { document: migrateBoardExport(parsed), sourceVersion: parsed.version };
+}
+
+/**
+ * Maps the board of an export document onto a board to import. Its IDs only
+ * tie cards to their labels and lanes; the board gets fresh ones throughout.
+ */
+export function mapExportedBoard(board: BoardExport['board']): BoardImport {
+  const byOrder = <T extends { order: number }>(items: T[]) => [...items].sort((a, b) => a.order - b.order);
+
+  const labelNames = new Map(board.labels.map(label => [label.id, label.name.trim()]));
+  const swimlanes = byOrder(board.swimlanes);
+  const swimlaneIndex = new Map(swimlanes.map((lane, index) => [lane.id, index]));
+
+  return {
+    title: board.title,
+    wipMode: board.wipMode,
+    labels: board.labels.map(label => ({ name: label.name.trim(), color: label.color })),
+    swimlanes: swimlanes.map(lane => ({ title: lane.title })),
+    columns: byOrder(board.columns).map(column => ({
+      title: column.title,
+      wipLimit: column.wipLimit,
+      cards: byOrder(column.cards).map(card => ({
+        content: card.content,
+        description: card.description,
+        priority: card.priority,
+        estimate: card.estimate,
+        coverColor: card.coverColor,
+        labelNames: card.labelIds.flatMap(id => labelNames.get(id) ?? []),
+        swimlane: card.swimlaneId === null ? null : swimlaneIndex.get(card.swimlaneId) ?? null,
+        checklists: byOrder(card.checklists).map(checklist => ({
+          title: checklist.title,
+          items: byOrder(checklist.items).map(item => ({ text: item.text, done: item.done })),
+        })),
+        comments: [...card.comments].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+      })),
+    })),
+  };
+}
+
+export function summarizeImport(board: BoardImport, sourceVersion: number): ImportSummary {
+  const cards = board.columns.flatMap(column => column.cards);
+
+  return {
+    sourceVersion,
+    title: board.title,
+    columns: board.columns.length,
+    cards: cards.length,
+    labels: board.labels.length,
+    swimlanes: board.swimlanes.length,
+    checklists: cards.reduce((total, card) => total + card.checklists.length, 0),
+    comments: cards.reduce((total, card) => total + card.comments.length, 0),
+  };
+}
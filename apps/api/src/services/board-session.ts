@@ -0,0 +1,68 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { readSecret } from './secrets';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+// How long an unlocked board stays unlocked before the password is needed again
+export const SESSION_TTL_MS = 60 * 60 * 1000;
+
+// Signs board sessions; a secret anyone could read would let them forge one
+const SESSION_SECRET = readSecret('BOARD_SESSION_SECRET');
+
+export interface BoardSession {
+  token: string;
+  expiresAt: Date;
+}
+
+// Stored as `scrypt$<salt>$<key>`, both base64url
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, expected] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+
+  const key = await scryptAsync(password, Buffer.from(salt, 'base64url'), KEY_LENGTH);
+  const expectedKey = Buffer.from(expected, 'base64url');
+  return key.length === expectedKey.length && timingSafeEqual(key, expectedKey);
+}
+
+/**
+ * Issues a session for an unlocked board: its expiry plus an HMAC over the
+ * board, the expiry and the password hash. Changing or removing the password
+ * therefore ends every session, without storing them anywhere.
+ */
+export function signSession(boardId: string, passwordHash: string, now = Date.now()): BoardSession {
+  const expiresAt = now + SESSION_TTL_MS;
+  return {
+    token: `${expiresAt}.${sign(boardId, passwordHash, expiresAt)}`,
+    expiresAt: new Date(expiresAt),
+  };
+}
+
+export function verifySession(
+  token: string,
+  boardId: string,
+  passwordHash: string,
+  now = Date.now()
+): boolean {
+  const [expiry, signature] = token.split('.');
+  const expiresAt = Number(expiry);
+  if (!signature || !Number.isSafeInteger(expiresAt) || expiresAt <= now) return false;
+
+  const expected = Buffer.from(sign(boardId, passwordHash, expiresAt));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sign(boardId: string, passwordHash: string, expiresAt: number): string {
+  return createHmac('sha256', SESSION_SECRET)
+    .update(`${boardId}:${expiresAt}:${passwordHash}`)
+    .digest('base64url');
+}
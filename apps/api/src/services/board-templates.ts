@@ -0,0 +1,145 @@
+import { EMPTY_CARD_DETAILS, type CardDetails } from './board.service';
+import type { BoardImport, CardImport } from './import.service';
+
+// Everything a new board is created with besides its title
+export type TemplateContent = Omit<BoardImport, 'title'>;
+
+export interface BuiltInTemplate {
+  id: string;
+  name: string;
+  description: string;
+  content: TemplateContent;
+}
+
+type ExampleCard = Partial<CardDetails> & {
+  labelNames?: string[];
+  checklist?: { title: string; items: string[] };
+};
+
+function card(content: string, example: ExampleCard = {}): CardImport {
+  const { labelNames = [], checklist, ...details } = example;
+  return {
+    ...EMPTY_CARD_DETAILS,
+    ...details,
+    content,
+    labelNames,
+    swimlane: null,
+    checklists: checklist ? [{ title: checklist.title, items: checklist.items.map(text => ({ text, done: false })) }] : [],
+    comments: [],
+  };
+}
+
+function column(title: string, cards: CardImport[] = [], wipLimit: number | null = null) {
+  return { title, wipLimit, cards };
+}
+
+// Offered next to the blank board on the home page, in this order
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  {
+    id: 'scrum',
+    name: 'Scrum',
+    description: 'Product backlog, sprint board and review, with story points.',
+    content: {
+      wipMode: 'warn',
+      labels: [
+        { name: 'Story', color: '#22c55e' },
+        { name: 'Bug', color: '#ef4444' },
+        { name: 'Chore', color: '#9ca3af' },
+      ],
+      swimlanes: [],
+      columns: [
+        column('Product Backlog', [
+          card('As a user, I can reset my password', {
+            labelNames: ['Story'],
+            estimate: 5,
+            description: 'Acceptance criteria go here.',
+          }),
+          card('Upgrade the build toolchain', { labelNames: ['Chore'], estimate: 2 }),
+        ]),
+        column('Sprint Backlog', [
+          card('As a user, I can sign in with email', {
+            labelNames: ['Story'],
+            estimate: 3,
+            priority: 'high',
+            checklist: { title: 'Definition of done', items: ['Code reviewed', 'Tests pass', 'Deployed to staging'] },
+          }),
+        ]),
+        column('In Progress', [], 3),
+        column('Review', [], 2),
+        column('Done'),
+      ],
+    },
+  },
+  {
+    id: 'bug-triage',
+    name: 'Bug triage',
+    description: 'Take incoming reports from new to verified fix, by severity.',
+    content: {
+      wipMode: 'warn',
+      labels: [
+        { name: 'Crash', color: '#ef4444' },
+        { name: 'Regression', color: '#f97316' },
+        { name: 'UI', color: '#3b82f6' },
+      ],
+      swimlanes: [],
+      columns: [
+        column('New', [
+          card('App crashes when uploading a large file', {
+            labelNames: ['Crash'],
+            priority: 'urgent',
+            checklist: { title: 'Triage', items: ['Reproduce', 'Find affected versions', 'Assign severity'] },
+          }),
+          card('Button text cut off on small screens', { labelNames: ['UI'], priority: 'low' }),
+        ]),
+        column('Confirmed', [
+          card('Search no longer matches partial words', { labelNames: ['Regression'], priority: 'high' }),
+        ]),
+        column('Fixing', [], 3),
+        column('Verifying'),
+        column('Closed'),
+      ],
+    },
+  },
+  {
+    id: 'retrospective',
+    name: 'Retrospective',
+    description: 'Collect what went well and what did not, then agree on actions.',
+    content: {
+      wipMode: 'warn',
+      labels: [],
+      swimlanes: [],
+      columns: [
+        column('Went well', [card('Releases went out on time')]),
+        column('To improve', [card('Too many meetings on Mondays')]),
+        column('Ideas', [card('Try pairing on reviews')]),
+        column('Action items', [
+          card('Move the planning meeting to Tuesday', { description: 'Owner and due date go here.' }),
+        ]),
+      ],
+    },
+  },
+  {
+    id: 'personal-gtd',
+    name: 'Personal GTD',
+    description: 'Getting Things Done: capture everything, then sort it into next actions.',
+    content: {
+      wipMode: 'warn',
+      labels: [
+        { name: 'Home', color: '#a855f7' },
+        { name: 'Work', color: '#0ea5e9' },
+        { name: 'Errand', color: '#eab308' },
+      ],
+      swimlanes: [],
+      columns: [
+        column('Inbox', [card('Anything on your mind goes here first')]),
+        column('Next Actions', [
+          card('Book a dentist appointment', { labelNames: ['Home'] }),
+          card('Pick up dry cleaning', { labelNames: ['Errand'] }),
+        ], 5),
+        column('Waiting For', [card('Reply from the landlord', { labelNames: ['Home'] })]),
+        column('Someday / Maybe', [card('Learn to play the piano')]),
+        column('Done'),
+      ],
+    },
+  },
+];
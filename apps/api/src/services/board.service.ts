@@ -1,8 +1,94 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type Prisma } from '@prisma/client';
 import { nanoid } from 'nanoid';
+import { issueToken } from './access.service';
+import { recordActivity, UNKNOWN_ACTOR, type ActivityActor } from './activity.service';
+import { cloneTitle, selectCloneContent, type CloneScope } from './board-clone';
+import { mapExportedBoard } from './board-import';
+import type { TemplateContent } from './board-templates';
+import { NotFoundError, ValidationError, VersionConflictError, WipLimitError } from './errors';
+import { createImportedBoard, type CreatedBoard } from './import.service';
+
+export type CardPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// 'warn' highlights columns over their WIP limit; 'block' also refuses
+// cards that would take a column past it
+export type WipMode = 'warn' | 'block';
+
+// Everything about a card besides its text and position
+export interface CardDetails {
+  // Markdown
+  description: string;
+  priority: CardPriority | null;
+  // Story points
+  estimate: number | null;
+  // Hex color shown across the top of the card
+  coverColor: string | null;
+}
+
+// Card details as stored, where priority is plain text
+export type CardDetailsRow = Omit<CardDetails, 'priority'> & { priority: string | null };
+
+export const EMPTY_CARD_DETAILS: CardDetails = {
+  description: '',
+  priority: null,
+  estimate: null,
+  coverColor: null,
+};
+
+export interface LabelData {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface ChecklistItemData {
+  id: string;
+  text: string;
+  done: boolean;
+  order: number;
+}
+
+export interface ChecklistData {
+  id: string;
+  title: string;
+  order: number;
+  items: ChecklistItemData[];
+}
+
+export interface SwimlaneData {
+  id: string;
+  title: string;
+  order: number;
+}
+
+export interface AttachmentData {
+  id: string;
+  fileName: string;
+  // Sniffed from the file's contents
+  contentType: string;
+  // Bytes
+  size: number;
+  hasThumbnail: boolean;
+  cover: boolean;
+  createdAt: Date;
+}
+
+// Board-wide options, changed apart from the board's content
+export interface BoardSettings {
+  wipMode: WipMode;
+}
 
 export interface CreateBoardData {
   title?: string;
+  // What to start with instead of Todo / In Progress / Done; the template's
+  // name doubles as the default title
+  template?: { name: string; content: TemplateContent } | undefined;
+}
+
+export interface CloneBoardData {
+  // Defaults to the source's title marked as a copy
+  title?: string | undefined;
+  scope: CloneScope;
 }
 
 export interface BoardUpdateData {
@@ -11,10 +97,18 @@ export interface BoardUpdateData {
     id: string;
     title: string;
     order: number;
-    cards: Array<{
+    // Left out, the column keeps its WIP limit
+    wipLimit?: number | null | undefined;
+    cards: Array<CardDetails & {
       id: string;
       content: string;
       order: number;
+      // Left out, the card keeps the labels it has
+      labelIds?: string[] | undefined;
+      // Left out, the card keeps its checklists
+      checklists?: ChecklistData[] | undefined;
+      // Left out, the card stays in its lane
+      swimlaneId?: string | null | undefined;
     }>;
   }>;
 }
@@ -23,14 +117,24 @@ export interface BoardData {
   id: string;
   title: string;
   createdAt: Date;
+  version: number;
+  wipMode: WipMode;
+  labels: LabelData[];
+  swimlanes: SwimlaneData[];
   columns: Array<{
     id: string;
     title: string;
     order: number;
-    cards: Array<{
+    wipLimit: number | null;
+    cards: Array<CardDetails & {
       id: string;
       content: string;
       order: number;
+      swimlaneId: string | null;
+      labelIds: string[];
+      checklists: ChecklistData[];
+      commentCount: number;
+      attachments: AttachmentData[];
     }>;
   }>;
 }
@@ -38,7 +142,17 @@ export interface BoardData {
 export class BoardService {
   constructor(private prisma: PrismaClient) {}
 
-  async createBoard(data: CreateBoardData): Promise<{ id: string; title: string; createdAt: Date }> {
+  async createBoard(
+    data: CreateBoardData,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<{ id: string; title: string; createdAt: Date; editToken: string }> {
+    const { template } = data;
+    if (template) {
+      return this.prisma.$transaction(tx =>
+        createImportedBoard(tx, { ...template.content, title: data.title || template.name }, actor)
+      );
+    }
+
     const boardId = nanoid();
     const title = data.title || 'My Kanban Board';
 
@@ -68,51 +182,565 @@ export class BoardService {
       });
     }
 
+    await recordActivity(this.prisma, boardId, actor, {
+      action: 'board.created',
+      after: { id: board.id, title: board.title },
+    });
+
+    // The creator's edit link; anyone else needs a link shared with them
+    const editToken = await issueToken(this.prisma, boardId, 'edit');
+
     return {
       id: board.id,
       title: board.title,
       createdAt: board.createdAt,
+      editToken: editToken.token,
     };
   }
 
+  /**
+   * Creates a new board from an existing one under fresh IDs, reading and
+   * writing in one transaction so the copy matches a single version of it.
+   */
+  async cloneBoard(
+    boardId: string,
+    data: CloneBoardData,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<CreatedBoard> {
+    return this.prisma.$transaction(async tx => {
+      const board = await findBoardData(tx, boardId);
+      if (!board) {
+        throw new NotFoundError('Board not found');
+      }
+
+      const content = mapExportedBoard({
+        ...board,
+        columns: board.columns.map(column => ({
+          ...column,
+          cards: column.cards.map(card => ({ ...card, comments: [] })),
+        })),
+      });
+
+      return createImportedBoard(
+        tx,
+        { ...selectCloneContent(content, data.scope), title: data.title || cloneTitle(board.title) },
+        actor
+      );
+    });
+  }
+
   async getBoardById(id: string): Promise<BoardData | null> {
-    const board = await this.prisma.board.findUnique({
-      where: { id },
-      include: {
-        columns: {
-          orderBy: { order: 'asc' },
-          include: {
-            cards: {
-              orderBy: { order: 'asc' },
-            },
-          },
-        },
-      },
+    return findBoardData(this.prisma, id);
+  }
+
+  async boardExists(id: string): Promise<boolean> {
+    const count = await this.prisma.board.count({ where: { id } });
+    return count > 0;
+  }
+
+  /**
+   * Replaces the board's title, columns and cards with the given state in
+   * one transaction. See replaceBoardState for how the state is applied.
+   * Boards in 'block' mode refuse states that overfill a column; restoring a
+   * snapshot, which also replaces the state, does not. Returns the new state.
+   */
+  async updateBoard(
+    id: string,
+    data: BoardUpdateData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<BoardData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, id, expectedVersion);
+
+      const current = await findBoardData(tx, id);
+      if (current?.wipMode === 'block') {
+        checkWipLimits(current.columns, data.columns);
+      }
+      const before = await replaceBoardState(tx, id, data);
+
+      await recordActivity(tx, id, actor, {
+        action: 'board.replaced',
+        before,
+        after: { title: data.title, columns: data.columns },
+      });
+
+      return requireBoardData(tx, id);
+    });
+  }
+
+  async updateSettings(
+    id: string,
+    data: BoardSettings,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<BoardSettings> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, id, expectedVersion);
+
+      const previous = await tx.board.findUniqueOrThrow({ where: { id } });
+      const board = await tx.board.update({
+        where: { id },
+        data: { wipMode: data.wipMode },
+      });
+
+      await recordActivity(tx, id, actor, {
+        action: 'board.updated',
+        before: { wipMode: previous.wipMode },
+        after: { wipMode: board.wipMode },
+      });
+
+      return { wipMode: board.wipMode as WipMode };
     });
+  }
+}
+
+/**
+ * Refuses a new state that takes a column past its WIP limit, as creating or
+ * moving cards into it would. Columns that were already over their limit may
+ * stay that way, as long as they do not grow.
+ */
+function checkWipLimits(
+  existing: Array<{ id: string; wipLimit: number | null; cards: unknown[] }>,
+  incoming: BoardUpdateData['columns']
+) {
+  const existingColumns = new Map(existing.map(column => [column.id, column]));
+
+  for (const column of incoming) {
+    const current = existingColumns.get(column.id);
+    const wipLimit = column.wipLimit === undefined ? current?.wipLimit ?? null : column.wipLimit;
+    if (wipLimit === null) continue;
 
-    if (!board) {
-      return null;
+    const count = column.cards.length;
+    if (count > wipLimit && count > (current?.cards.length ?? 0)) {
+      throw new WipLimitError(`Column "${column.title}" is at its WIP limit of ${wipLimit}`);
     }
+  }
+}
 
-    return {
-      id: board.id,
-      title: board.title,
-      createdAt: board.createdAt,
-      columns: board.columns.map(column => ({
+/**
+ * Replaces the board's title, columns and cards with the given state.
+ * Applied as a diff: unknown IDs are created, rows whose fields changed are
+ * updated and rows missing from the payload are deleted. IDs that belong to
+ * another board are rejected. Labels themselves are left alone; card label
+ * IDs the board no longer has, e.g. in an old snapshot, are dropped. So are
+ * lanes, whose cards end up outside any lane. A card whose checklists differ
+ * from the given ones has them replaced outright.
+ * Returns the state that was replaced.
+ */
+export async function replaceBoardState(
+  tx: Prisma.TransactionClient,
+  id: string,
+  data: BoardUpdateData
+): Promise<BoardUpdateData> {
+  const incomingColumnIds = data.columns.map(column => column.id);
+  const incomingCards = data.columns.flatMap(column =>
+    column.cards.map(card => ({ ...card, columnId: column.id }))
+  );
+  const incomingCardIds = incomingCards.map(card => card.id);
+  const incomingChecklists = incomingCards.flatMap(card => card.checklists ?? []);
+  const incomingChecklistIds = incomingChecklists.map(checklist => checklist.id);
+  const incomingItemIds = incomingChecklists.flatMap(checklist => checklist.items.map(item => item.id));
+
+  if (
+    new Set(incomingColumnIds).size !== incomingColumnIds.length ||
+    new Set(incomingCardIds).size !== incomingCardIds.length ||
+    new Set(incomingChecklistIds).size !== incomingChecklistIds.length ||
+    new Set(incomingItemIds).size !== incomingItemIds.length
+  ) {
+    throw new ValidationError('Duplicate column, card or checklist IDs');
+  }
+
+  const board = await tx.board.findUnique({
+    where: { id },
+    include: {
+      labels: { select: { id: true } },
+      swimlanes: { select: { id: true } },
+      columns: { include: { cards: { include: CARD_RELATIONS } } },
+    },
+  });
+
+  if (!board) {
+    throw new NotFoundError('Board not found');
+  }
+
+  const [foreignColumns, foreignCards, foreignChecklists, foreignItems] = await Promise.all([
+    tx.column.count({
+      where: { id: { in: incomingColumnIds }, boardId: { not: id } },
+    }),
+    tx.card.count({
+      where: { id: { in: incomingCardIds }, column: { boardId: { not: id } } },
+    }),
+    tx.checklist.count({
+      where: { id: { in: incomingChecklistIds }, card: { column: { boardId: { not: id } } } },
+    }),
+    tx.checklistItem.count({
+      where: { id: { in: incomingItemIds }, checklist: { card: { column: { boardId: { not: id } } } } },
+    }),
+  ]);
+
+  if (foreignColumns > 0 || foreignCards > 0 || foreignChecklists > 0 || foreignItems > 0) {
+    throw new ValidationError('Payload references columns, cards or checklists from another board');
+  }
+
+  if (board.title !== data.title) {
+    await tx.board.update({ where: { id }, data: { title: data.title } });
+  }
+
+  const existingColumns = new Map(board.columns.map(column => [column.id, column]));
+  const existingCards = new Map(
+    board.columns.flatMap(column => column.cards).map(card => [card.id, card])
+  );
+
+  // Removed cards go first, and removed columns last, so cards that moved
+  // out of a deleted column are re-parented before the cascade runs
+  await tx.card.deleteMany({
+    where: { column: { boardId: id }, id: { notIn: incomingCardIds } },
+  });
+
+  for (const column of data.columns) {
+    const existing = existingColumns.get(column.id);
+
+    const wipLimit = column.wipLimit === undefined ? existing?.wipLimit ?? null : column.wipLimit;
+
+    if (!existing) {
+      await tx.column.create({
+        data: { id: column.id, title: column.title, order: column.order, wipLimit, boardId: id },
+      });
+    } else if (
+      existing.title !== column.title ||
+      existing.order !== column.order ||
+      existing.wipLimit !== wipLimit
+    ) {
+      await tx.column.update({
+        where: { id: column.id },
+        data: { title: column.title, order: column.order, wipLimit },
+      });
+    }
+  }
+
+  const boardLabelIds = new Set(board.labels.map(label => label.id));
+  const boardSwimlaneIds = new Set(board.swimlanes.map(swimlane => swimlane.id));
+
+  for (const card of incomingCards) {
+    const existing = existingCards.get(card.id);
+
+    const swimlaneId = card.swimlaneId === undefined ? existing?.swimlaneId ?? null : card.swimlaneId;
+    const fields = {
+      content: card.content,
+      order: card.order,
+      columnId: card.columnId,
+      swimlaneId: swimlaneId !== null && boardSwimlaneIds.has(swimlaneId) ? swimlaneId : null,
+      ...toCardDetails(card),
+    };
+    const labels = (card.labelIds ?? [])
+      .filter(labelId => boardLabelIds.has(labelId))
+      .map(labelId => ({ id: labelId }));
+
+    if (!existing) {
+      await tx.card.create({ data: { id: card.id, ...fields, labels: { connect: labels } } });
+      await createChecklists(tx, card.id, card.checklists ?? []);
+      continue;
+    }
+
+    // Only cards whose fields changed are written
+    const fieldsChanged = Object.entries(fields).some(
+      ([field, value]) => existing[field as keyof typeof fields] !== value
+    );
+    const labelsChanged =
+      card.labelIds !== undefined &&
+      !sameIds(existing.labels.map(label => label.id), labels.map(label => label.id));
+
+    if (fieldsChanged || labelsChanged) {
+      await tx.card.update({
+        where: { id: card.id },
+        data: { ...fields, ...(labelsChanged && { labels: { set: labels } }) },
+      });
+    }
+
+    if (card.checklists !== undefined && !sameChecklists(toChecklists(existing), card.checklists)) {
+      await tx.checklist.deleteMany({ where: { cardId: card.id } });
+      await createChecklists(tx, card.id, card.checklists);
+    }
+  }
+
+  await tx.column.deleteMany({
+    where: { boardId: id, id: { notIn: incomingColumnIds } },
+  });
+
+  return toBoardState(board);
+}
+
+/**
+ * Compare-and-swap on the board version, run first in every write
+ * transaction. Bumps the version when it still matches `expectedVersion`;
+ * otherwise throws a VersionConflictError carrying the current board.
+ */
+export async function claimBoardVersion(
+  tx: Prisma.TransactionClient,
+  boardId: string,
+  expectedVersion: number
+): Promise<void> {
+  const { count } = await tx.board.updateMany({
+    where: { id: boardId, version: expectedVersion },
+    data: { version: { increment: 1 } },
+  });
+  if (count === 1) {
+    await takeSnapshotIfDue(tx, boardId, expectedVersion);
+    return;
+  }
+
+  const board = await findBoardData(tx, boardId);
+  if (!board) {
+    throw new NotFoundError('Board not found');
+  }
+
+  throw new VersionConflictError(board);
+}
+
+export type SnapshotReason = 'auto' | 'manual' | 'restore';
+
+// Writes older than this since the latest snapshot trigger an automatic one
+const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Stores the board's current state as a snapshot. `version` is the board
+ * version that state belongs to, since a claimed write has already bumped it.
+ */
+export async function takeSnapshot(
+  tx: Prisma.TransactionClient,
+  boardId: string,
+  version: number,
+  reason: SnapshotReason
+): Promise<{ id: string; version: number; reason: string; createdAt: Date }> {
+  const board = await findBoardData(tx, boardId);
+  if (!board) {
+    throw new NotFoundError('Board not found');
+  }
+
+  return tx.boardSnapshot.create({
+    data: { boardId, version, reason, data: JSON.stringify({ ...board, version }) },
+    select: { id: true, version: true, reason: true, createdAt: true },
+  });
+}
+
+// Keeps the state a write is about to change when the latest snapshot is old
+// enough, so history has a restore point roughly every interval of editing
+async function takeSnapshotIfDue(
+  tx: Prisma.TransactionClient,
+  boardId: string,
+  version: number
+): Promise<void> {
+  const latest = await tx.boardSnapshot.findFirst({
+    where: { boardId },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+
+  if (latest && Date.now() - latest.createdAt.getTime() < SNAPSHOT_INTERVAL_MS) {
+    return;
+  }
+
+  await takeSnapshot(tx, boardId, version, 'auto');
+}
+
+// Title, columns and cards in the shape of a BoardUpdateData payload
+function toBoardState(board: {
+  title: string;
+  columns: Array<{
+    id: string;
+    title: string;
+    order: number;
+    wipLimit: number | null;
+    cards: Array<
+      CardDetailsRow & { id: string; content: string; order: number; swimlaneId: string | null } & CardRelationsRow
+    >;
+  }>;
+}): BoardUpdateData {
+  return {
+    title: board.title,
+    columns: [...board.columns]
+      .sort((a, b) => a.order - b.order)
+      .map(column => ({
         id: column.id,
         title: column.title,
         order: column.order,
-        cards: column.cards.map(card => ({
-          id: card.id,
-          content: card.content,
-          order: card.order,
-        })),
+        wipLimit: column.wipLimit,
+        cards: [...column.cards]
+          .sort((a, b) => a.order - b.order)
+          .map(card => ({
+            id: card.id,
+            content: card.content,
+            order: card.order,
+            ...toCardDetails(card),
+            swimlaneId: card.swimlaneId,
+            labelIds: toLabelIds(card),
+            checklists: toChecklists(card),
+          })),
       })),
-    };
+  };
+}
+
+/**
+ * The board as a write left it, read inside the write's transaction so it is
+ * the state of exactly the version the write claimed. Watchers get it as
+ * `board.replaced`.
+ */
+export async function requireBoardData(tx: Prisma.TransactionClient, id: string): Promise<BoardData> {
+  const board = await findBoardData(tx, id);
+  if (!board) {
+    throw new NotFoundError('Board not found');
   }
+  return board;
+}
+
+export async function findBoardData(
+  client: PrismaClient | Prisma.TransactionClient,
+  id: string
+): Promise<BoardData | null> {
+  const board = await client.board.findUnique({
+    where: { id },
+    include: {
+      labels: { orderBy: { name: 'asc' } },
+      swimlanes: { orderBy: { order: 'asc' } },
+      columns: {
+        orderBy: { order: 'asc' },
+        include: {
+          cards: {
+            orderBy: { order: 'asc' },
+            include: CARD_RELATIONS,
+          },
+        },
+      },
+    },
+  });
+
+  if (!board) {
+    return null;
+  }
+
+  return {
+    id: board.id,
+    title: board.title,
+    createdAt: board.createdAt,
+    version: board.version,
+    wipMode: board.wipMode as WipMode,
+    labels: board.labels.map(toLabelData),
+    swimlanes: board.swimlanes.map(toSwimlaneData),
+    columns: board.columns.map(column => ({
+      id: column.id,
+      title: column.title,
+      order: column.order,
+      wipLimit: column.wipLimit,
+      cards: column.cards.map(card => ({
+        id: card.id,
+        content: card.content,
+        order: card.order,
+        ...toCardDetails(card),
+        swimlaneId: card.swimlaneId,
+        labelIds: toLabelIds(card),
+        checklists: toChecklists(card),
+        commentCount: toCommentCount(card),
+        attachments: toAttachments(card),
+      })),
+    })),
+  };
+}
+
+// Picks the detail fields off a card row
+export function toCardDetails(card: CardDetailsRow): CardDetails {
+  return {
+    description: card.description,
+    priority: card.priority as CardPriority | null,
+    estimate: card.estimate,
+    coverColor: card.coverColor,
+  };
+}
+
+// Loads a card's label IDs, checklists, number of comments and attachments
+// along with it; see toLabelIds, toChecklists, toCommentCount and toAttachments
+export const CARD_RELATIONS = {
+  labels: { select: { id: true }, orderBy: { name: 'asc' } },
+  checklists: { orderBy: { order: 'asc' }, include: { items: { orderBy: { order: 'asc' } } } },
+  _count: { select: { comments: true } },
+  attachments: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] },
+} satisfies Prisma.CardInclude;
+
+// An attachment as stored
+export type AttachmentRow = Omit<AttachmentData, 'hasThumbnail'> & { thumbnailKey: string | null };
+
+// A card row loaded with CARD_RELATIONS
+export type CardRelationsRow = {
+  labels: Array<{ id: string }>;
+  checklists: ChecklistData[];
+  _count: { comments: number };
+  attachments: AttachmentRow[];
+};
+
+export function toLabelIds(card: Pick<CardRelationsRow, 'labels'>): string[] {
+  return card.labels.map(label => label.id);
+}
+
+export function toChecklists(card: Pick<CardRelationsRow, 'checklists'>): ChecklistData[] {
+  return card.checklists.map(toChecklistData);
+}
+
+export function toCommentCount(card: Pick<CardRelationsRow, '_count'>): number {
+  return card._count.comments;
+}
+
+export function toAttachments(card: Pick<CardRelationsRow, 'attachments'>): AttachmentData[] {
+  return card.attachments.map(toAttachmentData);
+}
+
+export function toAttachmentData(attachment: AttachmentRow): AttachmentData {
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    hasThumbnail: attachment.thumbnailKey !== null,
+    cover: attachment.cover,
+    createdAt: attachment.createdAt,
+  };
+}
+
+export function toChecklistData(checklist: ChecklistData): ChecklistData {
+  return {
+    id: checklist.id,
+    title: checklist.title,
+    order: checklist.order,
+    items: checklist.items.map(item => ({ id: item.id, text: item.text, done: item.done, order: item.order })),
+  };
+}
+
+export function toLabelData(label: LabelData): LabelData {
+  return { id: label.id, name: label.name, color: label.color };
+}
 
-  async updateBoard(_id: string, _data: BoardUpdateData): Promise<void> {
-    // This will be implemented when we get to the corresponding test
-    throw new Error('Not implemented yet - will be driven by tests');
+export function toSwimlaneData(swimlane: SwimlaneData): SwimlaneData {
+  return { id: swimlane.id, title: swimlane.title, order: swimlane.order };
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  const set = new Set(a);
+  return a.length === b.length && b.every(id => set.has(id));
+}
+
+function sameChecklists(a: ChecklistData[], b: ChecklistData[]): boolean {
+  return JSON.stringify(a.map(toChecklistData)) === JSON.stringify(b.map(toChecklistData));
+}
+
+async function createChecklists(tx: Prisma.TransactionClient, cardId: string, checklists: ChecklistData[]) {
+  for (const checklist of checklists) {
+    await tx.checklist.create({
+      data: {
+        id: checklist.id,
+        cardId,
+        title: checklist.title,
+        order: checklist.order,
+        items: { create: toChecklistData(checklist).items },
+      },
+    });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,417 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { recordActivity, UNKNOWN_ACTOR, type ActivityActor } from './activity.service';
+import {
+  CARD_RELATIONS,
+  claimBoardVersion,
+  toAttachments,
+  toCardDetails,
+  toChecklists,
+  toCommentCount,
+  toLabelIds,
+  type AttachmentData,
+  type CardDetails,
+  type CardDetailsRow,
+  type CardPriority,
+  type CardRelationsRow,
+  type ChecklistData,
+} from './board.service';
+import { ConflictError, NotFoundError, ValidationError, WipLimitError } from './errors';
+
+// Details left out keep their current value, or the default for new cards
+export interface CardDetailsData {
+  description?: string | undefined;
+  priority?: CardPriority | null | undefined;
+  estimate?: number | null | undefined;
+  coverColor?: string | null | undefined;
+}
+
+export interface CreateCardData extends CardDetailsData {
+  columnId: string;
+  content: string;
+  // Left out, the card goes outside any lane
+  swimlaneId?: string | null | undefined;
+}
+
+export interface UpdateCardData extends CardDetailsData {
+  content?: string;
+  // Replaces the card's labels
+  labelIds?: string[] | undefined;
+}
+
+export interface MoveCardData {
+  sourceColumnId: string;
+  targetColumnId: string;
+  targetOrder: number;
+  // Left out, the card stays in its lane; null takes it out of any lane
+  targetSwimlaneId?: string | null | undefined;
+}
+
+export interface ColumnData {
+  id: string;
+  title: string;
+  order: number;
+  wipLimit: number | null;
+  cards: Array<CardDetails & {
+    id: string;
+    content: string;
+    order: number;
+    swimlaneId: string | null;
+    labelIds: string[];
+    checklists: ChecklistData[];
+    commentCount: number;
+    attachments: AttachmentData[];
+  }>;
+}
+
+export interface CardData extends CardDetails {
+  id: string;
+  columnId: string;
+  content: string;
+  order: number;
+  swimlaneId: string | null;
+  labelIds: string[];
+  checklists: ChecklistData[];
+  commentCount: number;
+  attachments: AttachmentData[];
+}
+
+export class CardService {
+  constructor(private prisma: PrismaClient) {}
+
+  async createCard(
+    boardId: string,
+    data: CreateCardData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<CardData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const column = await this.findColumn(tx, boardId, data.columnId);
+      await this.checkWipLimit(tx, boardId, column);
+      if (data.swimlaneId) {
+        await this.findSwimlane(tx, boardId, data.swimlaneId);
+      }
+
+      // New cards always go to the bottom of the column
+      const order = await tx.card.count({
+        where: { columnId: data.columnId },
+      });
+
+      const card = await tx.card.create({
+        data: {
+          id: nanoid(),
+          content: data.content,
+          ...detailsUpdate(data),
+          order,
+          columnId: data.columnId,
+          swimlaneId: data.swimlaneId ?? null,
+        },
+        include: CARD_RELATIONS,
+      });
+
+      await recordActivity(tx, boardId, actor, { action: 'card.created', after: toCardData(card) });
+
+      return toCardData(card);
+    });
+  }
+
+  async updateCard(
+    boardId: string,
+    cardId: string,
+    data: UpdateCardData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<CardData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const previous = await this.findCard(tx, boardId, cardId);
+
+      if (data.labelIds !== undefined) {
+        const labels = await tx.label.count({ where: { id: { in: data.labelIds }, boardId } });
+        if (labels !== new Set(data.labelIds).size) {
+          throw new ValidationError('Labels must belong to the board');
+        }
+      }
+
+      const card = await tx.card.update({
+        where: { id: cardId },
+        data: {
+          ...(data.content !== undefined && { content: data.content }),
+          ...detailsUpdate(data),
+          ...(data.labelIds !== undefined && {
+            labels: { set: data.labelIds.map(labelId => ({ id: labelId })) },
+          }),
+        },
+        include: CARD_RELATIONS,
+      });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'card.updated',
+        before: toCardData(previous),
+        after: toCardData(card),
+      });
+
+      return toCardData(card);
+    });
+  }
+
+  async deleteCard(
+    boardId: string,
+    cardId: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<void> {
+    await this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const card = await this.findCard(tx, boardId, cardId);
+
+      await tx.card.delete({ where: { id: cardId } });
+
+      // Close the gap so orders in the column stay contiguous (0..n-1)
+      await tx.card.updateMany({
+        where: { columnId: card.columnId, order: { gt: card.order } },
+        data: { order: { decrement: 1 } },
+      });
+
+      await recordActivity(tx, boardId, actor, { action: 'card.deleted', before: toCardData(card) });
+    });
+  }
+
+  /**
+   * Moves a card to a position within the same or another column of the
+   * board, shifting sibling orders in both columns so they stay contiguous.
+   * Returns the affected columns (source first) for the client to reconcile.
+   */
+  async moveCard(
+    boardId: string,
+    cardId: string,
+    data: MoveCardData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ColumnData[]> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      // Both lookups are scoped to the board, so a column of another board
+      // is reported as missing
+      await this.findColumn(tx, boardId, data.sourceColumnId);
+      const targetColumn = await this.findColumn(tx, boardId, data.targetColumnId);
+      const card = await this.findCard(tx, boardId, cardId);
+
+      if (card.columnId !== data.sourceColumnId) {
+        throw new ConflictError('Card is not in the source column');
+      }
+      if (data.targetSwimlaneId) {
+        await this.findSwimlane(tx, boardId, data.targetSwimlaneId);
+      }
+      const swimlaneId = data.targetSwimlaneId === undefined ? card.swimlaneId : data.targetSwimlaneId;
+
+      const sameColumn = data.sourceColumnId === data.targetColumnId;
+      if (!sameColumn) {
+        await this.checkWipLimit(tx, boardId, targetColumn);
+      }
+
+      const targetCount = await tx.card.count({
+        where: { columnId: data.targetColumnId },
+      });
+      const maxOrder = sameColumn ? targetCount - 1 : targetCount;
+      const targetOrder = Math.min(data.targetOrder, maxOrder);
+
+      if (sameColumn) {
+        if (targetOrder > card.order) {
+          await tx.card.updateMany({
+            where: {
+              columnId: card.columnId,
+              order: { gt: card.order, lte: targetOrder },
+            },
+            data: { order: { decrement: 1 } },
+          });
+        } else if (targetOrder < card.order) {
+          await tx.card.updateMany({
+            where: {
+              columnId: card.columnId,
+              order: { gte: targetOrder, lt: card.order },
+            },
+            data: { order: { increment: 1 } },
+          });
+        }
+      } else {
+        await tx.card.updateMany({
+          where: { columnId: card.columnId, order: { gt: card.order } },
+          data: { order: { decrement: 1 } },
+        });
+        await tx.card.updateMany({
+          where: { columnId: data.targetColumnId, order: { gte: targetOrder } },
+          data: { order: { increment: 1 } },
+        });
+      }
+
+      await tx.card.update({
+        where: { id: cardId },
+        data: { columnId: data.targetColumnId, order: targetOrder, swimlaneId },
+      });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'card.moved',
+        before: toCardData(card),
+        after: toCardData({ ...card, columnId: data.targetColumnId, order: targetOrder, swimlaneId }),
+      });
+
+      const columnIds = sameColumn
+        ? [data.sourceColumnId]
+        : [data.sourceColumnId, data.targetColumnId];
+      const columns = await tx.column.findMany({
+        where: { id: { in: columnIds } },
+        include: { cards: { orderBy: { order: 'asc' }, include: CARD_RELATIONS } },
+      });
+
+      return columnIds.flatMap(columnId => {
+        const column = columns.find(c => c.id === columnId);
+        return column ? [toColumnData(column)] : [];
+      });
+    });
+  }
+
+  private async findColumn(
+    tx: Prisma.TransactionClient,
+    boardId: string,
+    columnId: string
+  ) {
+    const board = await tx.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new NotFoundError('Board not found');
+    }
+
+    const column = await tx.column.findFirst({
+      where: { id: columnId, boardId },
+    });
+    if (!column) {
+      throw new NotFoundError('Column not found');
+    }
+
+    return column;
+  }
+
+  // On boards in block mode, refuses another card for a column that is
+  // already at its WIP limit
+  private async checkWipLimit(
+    tx: Prisma.TransactionClient,
+    boardId: string,
+    column: { id: string; title: string; wipLimit: number | null }
+  ) {
+    if (column.wipLimit === null) {
+      return;
+    }
+
+    const board = await tx.board.findUniqueOrThrow({
+      where: { id: boardId },
+      select: { wipMode: true },
+    });
+    if (board.wipMode !== 'block') {
+      return;
+    }
+
+    const count = await tx.card.count({ where: { columnId: column.id } });
+    if (count >= column.wipLimit) {
+      throw new WipLimitError(`Column "${column.title}" is at its WIP limit of ${column.wipLimit}`);
+    }
+  }
+
+  private async findSwimlane(
+    tx: Prisma.TransactionClient,
+    boardId: string,
+    swimlaneId: string
+  ) {
+    const swimlane = await tx.swimlane.findFirst({
+      where: { id: swimlaneId, boardId },
+    });
+    if (!swimlane) {
+      throw new NotFoundError('Swimlane not found');
+    }
+
+    return swimlane;
+  }
+
+  private async findCard(
+    tx: Prisma.TransactionClient,
+    boardId: string,
+    cardId: string
+  ) {
+    const board = await tx.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new NotFoundError('Board not found');
+    }
+
+    const card = await tx.card.findFirst({
+      where: { id: cardId, column: { boardId } },
+      include: CARD_RELATIONS,
+    });
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    return card;
+  }
+}
+
+type CardRow = CardDetailsRow & CardRelationsRow & {
+  id: string;
+  columnId: string;
+  content: string;
+  order: number;
+  swimlaneId: string | null;
+};
+
+function detailsUpdate(data: CardDetailsData) {
+  return {
+    ...(data.description !== undefined && { description: data.description }),
+    ...(data.priority !== undefined && { priority: data.priority }),
+    ...(data.estimate !== undefined && { estimate: data.estimate }),
+    ...(data.coverColor !== undefined && { coverColor: data.coverColor }),
+  };
+}
+
+function toColumnData(column: {
+  id: string;
+  title: string;
+  order: number;
+  wipLimit: number | null;
+  cards: CardRow[];
+}): ColumnData {
+  return {
+    id: column.id,
+    title: column.title,
+    order: column.order,
+    wipLimit: column.wipLimit,
+    cards: column.cards.map(card => ({
+      id: card.id,
+      content: card.content,
+      ...toCardDetails(card),
+      order: card.order,
+      swimlaneId: card.swimlaneId,
+      labelIds: toLabelIds(card),
+      checklists: toChecklists(card),
+      commentCount: toCommentCount(card),
+      attachments: toAttachments(card),
+    })),
+  };
+}
+
+export function toCardData(card: CardRow): CardData {
+  return {
+    id: card.id,
+    columnId: card.columnId,
+    content: card.content,
+    ...toCardDetails(card),
+    order: card.order,
+    swimlaneId: card.swimlaneId,
+    labelIds: toLabelIds(card),
+    checklists: toChecklists(card),
+    commentCount: toCommentCount(card),
+    attachments: toAttachments(card),
+  };
+}
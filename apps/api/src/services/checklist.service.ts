@@ -0,0 +1,250 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { recordActivity, UNKNOWN_ACTOR, type ActivityActor } from './activity.service';
+import { claimBoardVersion, toChecklistData, type ChecklistData } from './board.service';
+import { NotFoundError, ValidationError } from './errors';
+
+export interface UpdateChecklistItemData {
+  text?: string;
+  done?: boolean;
+}
+
+const MAX_ITEMS = 100;
+
+const WITH_ITEMS = { items: { orderBy: { order: 'asc' } } } satisfies Prisma.ChecklistInclude;
+
+/**
+ * Checklists on a card and their items. Item changes return the whole
+ * checklist, so clients can replace their copy in one go.
+ */
+export class ChecklistService {
+  constructor(private prisma: PrismaClient) {}
+
+  async createChecklist(
+    boardId: string,
+    cardId: string,
+    title: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ChecklistData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+      await this.findCard(tx, boardId, cardId);
+
+      // New checklists go below the card's other checklists
+      const order = await tx.checklist.count({ where: { cardId } });
+      const checklist = await tx.checklist.create({
+        data: { id: nanoid(), cardId, title, order },
+        include: WITH_ITEMS,
+      });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'checklist.created',
+        after: { cardId, ...toChecklistData(checklist) },
+      });
+
+      return toChecklistData(checklist);
+    });
+  }
+
+  async renameChecklist(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    title: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ChecklistData> {
+    return this.changeChecklist(boardId, cardId, checklistId, expectedVersion, actor, async tx => {
+      await tx.checklist.update({ where: { id: checklistId }, data: { title } });
+    });
+  }
+
+  async deleteChecklist(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<void> {
+    await this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const checklist = await this.findChecklist(tx, boardId, cardId, checklistId);
+      await tx.checklist.delete({ where: { id: checklistId } });
+
+      // Close the gap so the card's checklist orders stay contiguous
+      await tx.checklist.updateMany({
+        where: { cardId, order: { gt: checklist.order } },
+        data: { order: { decrement: 1 } },
+      });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'checklist.deleted',
+        before: { cardId, ...toChecklistData(checklist) },
+      });
+    });
+  }
+
+  async addItem(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    text: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ChecklistData> {
+    return this.changeChecklist(boardId, cardId, checklistId, expectedVersion, actor, async (tx, checklist) => {
+      if (checklist.items.length >= MAX_ITEMS) {
+        throw new ValidationError(`A checklist can have at most ${MAX_ITEMS} items`);
+      }
+
+      // New items go to the bottom
+      await tx.checklistItem.create({
+        data: { id: nanoid(), checklistId, text, order: checklist.items.length },
+      });
+    });
+  }
+
+  // Edits an item's text or ticks it off
+  async updateItem(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    itemId: string,
+    data: UpdateChecklistItemData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ChecklistData> {
+    return this.changeChecklist(boardId, cardId, checklistId, expectedVersion, actor, async (tx, checklist) => {
+      findItem(checklist, itemId);
+
+      await tx.checklistItem.update({
+        where: { id: itemId },
+        data: {
+          ...(data.text !== undefined && { text: data.text }),
+          ...(data.done !== undefined && { done: data.done }),
+        },
+      });
+    });
+  }
+
+  // Moves an item within its checklist, shifting the items in between
+  async moveItem(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    itemId: string,
+    targetOrder: number,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ChecklistData> {
+    return this.changeChecklist(boardId, cardId, checklistId, expectedVersion, actor, async (tx, checklist) => {
+      const item = findItem(checklist, itemId);
+      const order = Math.min(targetOrder, checklist.items.length - 1);
+
+      if (order > item.order) {
+        await tx.checklistItem.updateMany({
+          where: { checklistId, order: { gt: item.order, lte: order } },
+          data: { order: { decrement: 1 } },
+        });
+      } else if (order < item.order) {
+        await tx.checklistItem.updateMany({
+          where: { checklistId, order: { gte: order, lt: item.order } },
+          data: { order: { increment: 1 } },
+        });
+      }
+
+      await tx.checklistItem.update({ where: { id: itemId }, data: { order } });
+    });
+  }
+
+  async deleteItem(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    itemId: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ChecklistData> {
+    return this.changeChecklist(boardId, cardId, checklistId, expectedVersion, actor, async (tx, checklist) => {
+      const item = findItem(checklist, itemId);
+
+      await tx.checklistItem.delete({ where: { id: itemId } });
+      await tx.checklistItem.updateMany({
+        where: { checklistId, order: { gt: item.order } },
+        data: { order: { decrement: 1 } },
+      });
+    });
+  }
+
+  // Runs a change to one checklist and records it as a checklist update
+  private async changeChecklist(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    expectedVersion: number,
+    actor: ActivityActor,
+    change: (tx: Prisma.TransactionClient, checklist: ChecklistData) => Promise<void>
+  ): Promise<ChecklistData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const previous = toChecklistData(await this.findChecklist(tx, boardId, cardId, checklistId));
+      await change(tx, previous);
+
+      const checklist = toChecklistData(
+        await tx.checklist.findUniqueOrThrow({ where: { id: checklistId }, include: WITH_ITEMS })
+      );
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'checklist.updated',
+        before: { cardId, ...previous },
+        after: { cardId, ...checklist },
+      });
+
+      return checklist;
+    });
+  }
+
+  private async findCard(tx: Prisma.TransactionClient, boardId: string, cardId: string) {
+    const board = await tx.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new NotFoundError('Board not found');
+    }
+
+    const card = await tx.card.findFirst({ where: { id: cardId, column: { boardId } } });
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    return card;
+  }
+
+  private async findChecklist(
+    tx: Prisma.TransactionClient,
+    boardId: string,
+    cardId: string,
+    checklistId: string
+  ) {
+    await this.findCard(tx, boardId, cardId);
+
+    const checklist = await tx.checklist.findFirst({
+      where: { id: checklistId, cardId },
+      include: WITH_ITEMS,
+    });
+    if (!checklist) {
+      throw new NotFoundError('Checklist not found');
+    }
+
+    return checklist;
+  }
+}
+
+function findItem(checklist: ChecklistData, itemId: string) {
+  const item = checklist.items.find(existing => existing.id === itemId);
+  if (!item) {
+    throw new NotFoundError('Checklist item not found');
+  }
+  return item;
+}
@@ -0,0 +1,237 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { recordActivity, UNKNOWN_ACTOR, type ActivityActor } from './activity.service';
+import { claimBoardVersion, requireBoardData, type BoardData } from './board.service';
+import { NotFoundError, ValidationError } from './errors';
+
+export interface CreateColumnData {
+  title: string;
+}
+
+export interface UpdateColumnData {
+  title?: string;
+  // Null removes the limit
+  wipLimit?: number | null;
+}
+
+// What happens to the cards of a column being deleted
+export type DeleteColumnOptions =
+  | { cards: 'delete' }
+  | { cards: 'move'; targetColumnId: string };
+
+export interface ColumnSummary {
+  id: string;
+  title: string;
+  order: number;
+  wipLimit: number | null;
+}
+
+export class ColumnService {
+  constructor(private prisma: PrismaClient) {}
+
+  async createColumn(
+    boardId: string,
+    data: CreateColumnData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ColumnSummary> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      // New columns are appended to the right
+      const order = await tx.column.count({ where: { boardId } });
+
+      const column = await tx.column.create({
+        data: {
+          id: nanoid(),
+          title: data.title,
+          order,
+          boardId,
+        },
+      });
+
+      await recordActivity(tx, boardId, actor, { action: 'column.created', after: toColumnSummary(column) });
+
+      return toColumnSummary(column);
+    });
+  }
+
+  async updateColumn(
+    boardId: string,
+    columnId: string,
+    data: UpdateColumnData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ColumnSummary> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const previous = await this.findColumn(tx, boardId, columnId);
+
+      const column = await tx.column.update({
+        where: { id: columnId },
+        data: {
+          ...(data.title !== undefined && { title: data.title }),
+          ...(data.wipLimit !== undefined && { wipLimit: data.wipLimit }),
+        },
+      });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'column.updated',
+        before: toColumnSummary(previous),
+        after: toColumnSummary(column),
+      });
+
+      return toColumnSummary(column);
+    });
+  }
+
+  /**
+   * Moves a column to a new position, shifting the columns in between.
+   * Returns every column of the board in its new order.
+   */
+  async moveColumn(
+    boardId: string,
+    columnId: string,
+    targetOrder: number,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ColumnSummary[]> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const column = await this.findColumn(tx, boardId, columnId);
+
+      const count = await tx.column.count({ where: { boardId } });
+      const order = Math.min(targetOrder, count - 1);
+
+      if (order > column.order) {
+        await tx.column.updateMany({
+          where: { boardId, order: { gt: column.order, lte: order } },
+          data: { order: { decrement: 1 } },
+        });
+      } else if (order < column.order) {
+        await tx.column.updateMany({
+          where: { boardId, order: { gte: order, lt: column.order } },
+          data: { order: { increment: 1 } },
+        });
+      }
+
+      await tx.column.update({ where: { id: columnId }, data: { order } });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'column.moved',
+        before: toColumnSummary(column),
+        after: toColumnSummary({ ...column, order }),
+      });
+
+      const columns = await tx.column.findMany({
+        where: { boardId },
+        orderBy: { order: 'asc' },
+      });
+
+      return columns.map(toColumnSummary);
+    });
+  }
+
+  /**
+   * Deletes a column. Its cards are either deleted with it or appended, in
+   * their current order, to the bottom of another column of the same board.
+   */
+  async deleteColumn(
+    boardId: string,
+    columnId: string,
+    options: DeleteColumnOptions,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<BoardData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const column = await this.findColumn(tx, boardId, columnId);
+      const cards = await tx.card.findMany({
+        where: { columnId },
+        orderBy: { order: 'asc' },
+      });
+
+      if (options.cards === 'move') {
+        if (options.targetColumnId === columnId) {
+          throw new ValidationError('Cards cannot be moved into the deleted column');
+        }
+
+        await this.findColumn(tx, boardId, options.targetColumnId);
+
+        const offset = await tx.card.count({
+          where: { columnId: options.targetColumnId },
+        });
+
+        for (const [index, card] of cards.entries()) {
+          await tx.card.update({
+            where: { id: card.id },
+            data: { columnId: options.targetColumnId, order: offset + index },
+          });
+        }
+      }
+
+      // Any cards still attached are removed by the cascade
+      await tx.column.delete({ where: { id: columnId } });
+
+      await tx.column.updateMany({
+        where: { boardId, order: { gt: column.order } },
+        data: { order: { decrement: 1 } },
+      });
+
+      // The deleted cards (or where they went) are part of the record
+      await recordActivity(tx, boardId, actor, {
+        action: 'column.deleted',
+        before: {
+          ...toColumnSummary(column),
+          cards: cards.map(card => ({ id: card.id, content: card.content, order: card.order })),
+        },
+        ...(options.cards === 'move' && { after: { cardsMovedTo: options.targetColumnId } }),
+      });
+
+      return requireBoardData(tx, boardId);
+    });
+  }
+
+  private async findBoard(tx: Prisma.TransactionClient, boardId: string) {
+    const board = await tx.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new NotFoundError('Board not found');
+    }
+
+    return board;
+  }
+
+  private async findColumn(
+    tx: Prisma.TransactionClient,
+    boardId: string,
+    columnId: string
+  ) {
+    await this.findBoard(tx, boardId);
+
+    const column = await tx.column.findFirst({
+      where: { id: columnId, boardId },
+    });
+    if (!column) {
+      throw new NotFoundError('Column not found');
+    }
+
+    return column;
+  }
+}
+
+function toColumnSummary(column: {
+  id: string;
+  title: string;
+  order: number;
+  wipLimit: number | null;
+}): ColumnSummary {
+  return {
+    id: column.id,
+    title: column.title,
+    order: column.order,
+    wipLimit: column.wipLimit,
+  };
+}
@@ -0,0 +1,171 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { recordActivity, UNKNOWN_ACTOR, type ActivityActor } from './activity.service';
+import { claimBoardVersion } from './board.service';
+import { ForbiddenError, NotFoundError } from './errors';
+
+export interface CommentData {
+  id: string;
+  authorName: string;
+  // Markdown
+  body: string;
+  edited: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Comments from requests without a display name
+const ANONYMOUS_AUTHOR = 'Anonymous';
+
+/**
+ * Comment threads on cards. Boards have no accounts, so comments are signed
+ * with the display name the request was made under, and only that name can
+ * edit them. Anyone who can edit the board can delete them.
+ */
+export class CommentService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Oldest first
+  async listComments(boardId: string, cardId: string): Promise<CommentData[]> {
+    await findCard(this.prisma, boardId, cardId);
+
+    const comments = await this.prisma.comment.findMany({
+      where: { cardId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+    return comments.map(toCommentData);
+  }
+
+  // Every thread on the board by card ID, each oldest first
+  async listBoardComments(boardId: string): Promise<Map<string, CommentData[]>> {
+    const comments = await this.prisma.comment.findMany({
+      where: { card: { column: { boardId } } },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const threads = new Map<string, CommentData[]>();
+    for (const comment of comments) {
+      threads.set(comment.cardId, [...(threads.get(comment.cardId) ?? []), toCommentData(comment)]);
+    }
+    return threads;
+  }
+
+  async createComment(
+    boardId: string,
+    cardId: string,
+    body: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<{ comment: CommentData; commentCount: number }> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+      await findCard(tx, boardId, cardId);
+
+      const comment = toCommentData(
+        await tx.comment.create({
+          data: { id: nanoid(), cardId, authorName: actor.name ?? ANONYMOUS_AUTHOR, body },
+        })
+      );
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'comment.created',
+        after: { cardId, ...comment },
+      });
+
+      return { comment, commentCount: await tx.comment.count({ where: { cardId } }) };
+    });
+  }
+
+  async updateComment(
+    boardId: string,
+    cardId: string,
+    commentId: string,
+    body: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<CommentData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const previous = await findComment(tx, boardId, cardId, commentId);
+      if (previous.authorName !== (actor.name ?? ANONYMOUS_AUTHOR)) {
+        throw new ForbiddenError('Only the author can edit a comment');
+      }
+
+      // Saving the same text again does not mark the comment as edited
+      const comment = toCommentData(
+        await tx.comment.update({
+          where: { id: commentId },
+          data: { body, ...(body !== previous.body && { edited: true }) },
+        })
+      );
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'comment.updated',
+        before: { cardId, ...toCommentData(previous) },
+        after: { cardId, ...comment },
+      });
+
+      return comment;
+    });
+  }
+
+  // Resolves to the number of comments left on the card
+  async deleteComment(
+    boardId: string,
+    cardId: string,
+    commentId: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<number> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const comment = await findComment(tx, boardId, cardId, commentId);
+      await tx.comment.delete({ where: { id: commentId } });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'comment.deleted',
+        before: { cardId, ...toCommentData(comment) },
+      });
+
+      return tx.comment.count({ where: { cardId } });
+    });
+  }
+}
+
+async function findCard(client: PrismaClient | Prisma.TransactionClient, boardId: string, cardId: string) {
+  const board = await client.board.findUnique({ where: { id: boardId } });
+  if (!board) {
+    throw new NotFoundError('Board not found');
+  }
+
+  const card = await client.card.findFirst({ where: { id: cardId, column: { boardId } } });
+  if (!card) {
+    throw new NotFoundError('Card not found');
+  }
+
+  return card;
+}
+
+async function findComment(tx: Prisma.TransactionClient, boardId: string, cardId: string, commentId: string) {
+  await findCard(tx, boardId, cardId);
+
+  const comment = await tx.comment.findFirst({ where: { id: commentId, cardId } });
+  if (!comment) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  return comment;
+}
+
+function toCommentData(comment: CommentData): CommentData {
+  return {
+    id: comment.id,
+    authorName: comment.authorName,
+    body: comment.body,
+    edited: comment.edited,
+    createdAt: comment.createdAt,
+    updatedAt: comment.updatedAt,
+  };
+}
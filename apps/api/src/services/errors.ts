@@ -0,0 +1,73 @@
+// Errors thrown by the service layer. Routes translate them into HTTP
+// responses, so services never need to know about status codes.
+
+import type { BoardData } from './board.service';
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+// The board is password protected and the request has no valid session
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// The request's board link does not grant the access it needs
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// An upload is larger than a file may be, or than the board has room for
+export class PayloadTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+// A card would take a column past its WIP limit on a board that blocks that
+export class WipLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WipLimitError';
+  }
+}
+
+export class PreconditionRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PreconditionRequiredError';
+  }
+}
+
+// Thrown when a write was based on an outdated board version. Carries the
+// current board so the client can reload or merge without another request.
+export class VersionConflictError extends ConflictError {
+  constructor(public readonly board: BoardData) {
+    super('Board has been changed by someone else');
+    this.name = 'VersionConflictError';
+  }
+}
@@ -0,0 +1,183 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { issueToken } from './access.service';
+import { recordActivity, UNKNOWN_ACTOR, type ActivityActor } from './activity.service';
+import { mapExportedBoard, readBoardExport, summarizeImport, type ImportSummary } from './board-import';
+import type { CardDetails, WipMode } from './board.service';
+import { mapTrelloBoard, type SkippedField, type TrelloBoard } from './trello-import';
+
+// A board to be created from data brought in from elsewhere. Nothing in it
+// has an ID yet; cards refer to labels by name, which is unique per board.
+export interface BoardImport {
+  title: string;
+  wipMode: WipMode;
+  labels: Array<{ name: string; color: string }>;
+  // In order
+  swimlanes: Array<{ title: string }>;
+  columns: Array<{
+    title: string;
+    wipLimit: number | null;
+    // In order
+    cards: CardImport[];
+  }>;
+}
+
+export interface CardImport extends CardDetails {
+  content: string;
+  labelNames: string[];
+  // Index into the board's swimlanes; null for cards outside any lane
+  swimlane: number | null;
+  checklists: Array<{ title: string; items: Array<{ text: string; done: boolean }> }>;
+  // Oldest first
+  comments: Array<{ authorName: string; body: string; createdAt: Date }>;
+}
+
+export interface CreatedBoard {
+  id: string;
+  title: string;
+  createdAt: Date;
+  // The importer's edit link, as for any new board
+  editToken: string;
+}
+
+export interface ImportedBoard extends CreatedBoard {
+  // What the source had that the board could not take
+  skipped: SkippedField[];
+}
+
+export interface RestoredBoard {
+  // Null on a dry run
+  board: CreatedBoard | null;
+  summary: ImportSummary;
+}
+
+export class ImportService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Creates a new board from a Trello board's JSON export
+  async importTrelloBoard(
+    trello: TrelloBoard,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<ImportedBoard> {
+    const { board, skipped } = mapTrelloBoard(trello);
+
+    const created = await this.prisma.$transaction(tx => createImportedBoard(tx, board, actor));
+
+    return { ...created, skipped };
+  }
+
+  /**
+   * Creates a new board from one of this app's JSON exports, of any version
+   * up to the current one. A dry run checks the document and reports what
+   * would be created without creating anything.
+   */
+  async importBoard(
+    input: unknown,
+    options: { dryRun: boolean },
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<RestoredBoard> {
+    const { document, sourceVersion } = readBoardExport(input);
+    const board = mapExportedBoard(document.board);
+    const summary = summarizeImport(board, sourceVersion);
+
+    if (options.dryRun) {
+      return { board: null, summary };
+    }
+
+    const created = await this.prisma.$transaction(tx => createImportedBoard(tx, board, actor));
+
+    return { board: created, summary };
+  }
+}
+
+/**
+ * Creates a board with everything in it under fresh IDs, along with the
+ * creator's edit link. Runs inside the caller's transaction, so a failed
+ * import leaves nothing behind.
+ */
+export async function createImportedBoard(
+  tx: Prisma.TransactionClient,
+  data: BoardImport,
+  actor: ActivityActor
+): Promise<CreatedBoard> {
+  const board = await tx.board.create({
+    data: { id: nanoid(), title: data.title, wipMode: data.wipMode },
+  });
+
+  const labelIds = new Map<string, string>();
+  for (const label of data.labels) {
+    const created = await tx.label.create({
+      data: { id: nanoid(), boardId: board.id, name: label.name, color: label.color },
+    });
+    labelIds.set(label.name, created.id);
+  }
+
+  const swimlaneIds: string[] = [];
+  for (const [order, swimlane] of data.swimlanes.entries()) {
+    const created = await tx.swimlane.create({
+      data: { id: nanoid(), boardId: board.id, title: swimlane.title, order },
+    });
+    swimlaneIds.push(created.id);
+  }
+
+  for (const [columnOrder, column] of data.columns.entries()) {
+    const columnId = nanoid();
+    await tx.column.create({
+      data: { id: columnId, boardId: board.id, title: column.title, order: columnOrder, wipLimit: column.wipLimit },
+    });
+
+    for (const [cardOrder, card] of column.cards.entries()) {
+      const labels = card.labelNames.flatMap(name => {
+        const id = labelIds.get(name);
+        return id ? [{ id }] : [];
+      });
+
+      await tx.card.create({
+        data: {
+          id: nanoid(),
+          columnId,
+          content: card.content,
+          description: card.description,
+          priority: card.priority,
+          estimate: card.estimate,
+          coverColor: card.coverColor,
+          swimlaneId: card.swimlane === null ? null : swimlaneIds[card.swimlane] ?? null,
+          order: cardOrder,
+          labels: { connect: labels },
+          checklists: {
+            create: card.checklists.map((checklist, checklistOrder) => ({
+              id: nanoid(),
+              title: checklist.title,
+              order: checklistOrder,
+              items: {
+                create: checklist.items.map((item, itemOrder) => ({
+                  id: nanoid(),
+                  text: item.text,
+                  done: item.done,
+                  order: itemOrder,
+                })),
+              },
+            })),
+          },
+          comments: {
+            create: card.comments.map(comment => ({
+              id: nanoid(),
+              authorName: comment.authorName,
+              body: comment.body,
+              createdAt: comment.createdAt,
+            })),
+          },
+        },
+      });
+    }
+  }
+
+  await recordActivity(tx, board.id, actor, {
+    action: 'board.created',
+    after: { id: board.id, title: board.title },
+  });
+
+  const editToken = await issueToken(tx, board.id, 'edit');
+
+  return { id: board.id, title: board.title, createdAt: board.createdAt, editToken: editToken.token };
+}
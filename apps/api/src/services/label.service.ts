@@ -0,0 +1,176 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { recordActivity, UNKNOWN_ACTOR, type ActivityActor } from './activity.service';
+import { claimBoardVersion, requireBoardData, toLabelData, type BoardData, type LabelData } from './board.service';
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+
+export interface CreateLabelData {
+  name: string;
+  color: string;
+}
+
+export interface UpdateLabelData {
+  name?: string;
+  color?: string;
+}
+
+export interface MergedLabel {
+  label: LabelData;
+  // The board as the merge left it
+  board: BoardData;
+}
+
+export class LabelService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Labels of a board, by name
+  async listLabels(boardId: string): Promise<LabelData[]> {
+    const board = await this.prisma.board.findUnique({
+      where: { id: boardId },
+      include: { labels: { orderBy: { name: 'asc' } } },
+    });
+    if (!board) {
+      throw new NotFoundError('Board not found');
+    }
+
+    return board.labels.map(toLabelData);
+  }
+
+  async createLabel(
+    boardId: string,
+    data: CreateLabelData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<LabelData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+      await this.assertNameFree(tx, boardId, data.name);
+
+      const label = await tx.label.create({
+        data: { id: nanoid(), name: data.name, color: data.color, boardId },
+      });
+
+      await recordActivity(tx, boardId, actor, { action: 'label.created', after: toLabelData(label) });
+
+      return toLabelData(label);
+    });
+  }
+
+  async updateLabel(
+    boardId: string,
+    labelId: string,
+    data: UpdateLabelData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<LabelData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const previous = await this.findLabel(tx, boardId, labelId);
+      if (data.name !== undefined && data.name !== previous.name) {
+        await this.assertNameFree(tx, boardId, data.name);
+      }
+
+      const label = await tx.label.update({
+        where: { id: labelId },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.color !== undefined && { color: data.color }),
+        },
+      });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'label.updated',
+        before: toLabelData(previous),
+        after: toLabelData(label),
+      });
+
+      return toLabelData(label);
+    });
+  }
+
+  // Deleting a label takes it off every card that has it
+  async deleteLabel(
+    boardId: string,
+    labelId: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<BoardData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const label = await this.findLabel(tx, boardId, labelId);
+      await tx.label.delete({ where: { id: labelId } });
+
+      await recordActivity(tx, boardId, actor, { action: 'label.deleted', before: toLabelData(label) });
+
+      return requireBoardData(tx, boardId);
+    });
+  }
+
+  /**
+   * Folds one label into another: every card with the source label gets the
+   * target label instead, then the source label is deleted. Returns the
+   * target label and the resulting board.
+   */
+  async mergeLabels(
+    boardId: string,
+    sourceLabelId: string,
+    targetLabelId: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<MergedLabel> {
+    if (sourceLabelId === targetLabelId) {
+      throw new ValidationError('Cannot merge a label into itself');
+    }
+
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const source = await this.findLabel(tx, boardId, sourceLabelId);
+      const target = await this.findLabel(tx, boardId, targetLabelId);
+
+      const cards = await tx.card.findMany({
+        where: { labels: { some: { id: sourceLabelId } } },
+        select: { id: true },
+      });
+
+      // Connecting a card that already has the target label is a no-op
+      await tx.label.update({
+        where: { id: targetLabelId },
+        data: { cards: { connect: cards } },
+      });
+      await tx.label.delete({ where: { id: sourceLabelId } });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'label.merged',
+        before: toLabelData(source),
+        after: { ...toLabelData(target), cardIds: cards.map(card => card.id) },
+      });
+
+      return { label: toLabelData(target), board: await requireBoardData(tx, boardId) };
+    });
+  }
+
+  private async findLabel(tx: Prisma.TransactionClient, boardId: string, labelId: string) {
+    const board = await tx.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new NotFoundError('Board not found');
+    }
+
+    const label = await tx.label.findFirst({ where: { id: labelId, boardId } });
+    if (!label) {
+      throw new NotFoundError('Label not found');
+    }
+
+    return label;
+  }
+
+  // Label names are unique per board
+  private async assertNameFree(tx: Prisma.TransactionClient, boardId: string, name: string) {
+    const existing = await tx.label.findUnique({ where: { boardId_name: { boardId, name } } });
+    if (existing) {
+      throw new ConflictError('A label with this name already exists');
+    }
+  }
+}
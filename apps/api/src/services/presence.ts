@@ -0,0 +1,115 @@
+// Who is looking at each board and what they are doing. Presence lives only
+// in memory: it describes open connections, not board data.
+
+export interface PresenceIdentity {
+  name: string;
+  color: string;
+}
+
+export interface PresenceMember extends PresenceIdentity {
+  id: string;
+  // Card the member is editing; doubles as a soft lock on that card
+  editingCardId: string | null;
+  draggingCardId: string | null;
+}
+
+type PresenceListener = (members: PresenceMember[]) => void;
+
+interface PresenceRoom {
+  members: Map<string, PresenceMember>;
+  listeners: Set<PresenceListener>;
+}
+
+export class PresenceHub {
+  private readonly rooms = new Map<string, PresenceRoom>();
+
+  join(boardId: string, memberId: string, identity: PresenceIdentity): void {
+    this.room(boardId).members.set(memberId, {
+      id: memberId,
+      name: identity.name,
+      color: identity.color,
+      editingCardId: null,
+      draggingCardId: null,
+    });
+    this.broadcast(boardId);
+  }
+
+  leave(boardId: string, memberId: string): void {
+    const room = this.rooms.get(boardId);
+    if (!room?.members.delete(memberId)) return;
+
+    this.broadcast(boardId);
+    if (room.members.size === 0 && room.listeners.size === 0) {
+      this.rooms.delete(boardId);
+    }
+  }
+
+  /**
+   * Starts or stops editing a card. A card can only be edited by one member
+   * at a time; returns false, leaving everything unchanged, when someone
+   * else holds the lock.
+   */
+  setEditing(boardId: string, memberId: string, cardId: string | null): boolean {
+    const room = this.rooms.get(boardId);
+    const member = room?.members.get(memberId);
+    if (!room || !member) return false;
+
+    const holder = cardId === null ? undefined : this.lockHolder(room, cardId);
+    if (holder && holder.id !== memberId) {
+      return false;
+    }
+
+    member.editingCardId = cardId;
+    this.broadcast(boardId);
+    return true;
+  }
+
+  setDragging(boardId: string, memberId: string, cardId: string | null): void {
+    const member = this.rooms.get(boardId)?.members.get(memberId);
+    if (!member) return;
+
+    member.draggingCardId = cardId;
+    this.broadcast(boardId);
+  }
+
+  members(boardId: string): PresenceMember[] {
+    const room = this.rooms.get(boardId);
+    return room ? [...room.members.values()].map(member => ({ ...member })) : [];
+  }
+
+  subscribe(boardId: string, listener: PresenceListener): () => void {
+    const room = this.room(boardId);
+    room.listeners.add(listener);
+
+    return () => {
+      room.listeners.delete(listener);
+      if (room.members.size === 0 && room.listeners.size === 0) {
+        this.rooms.delete(boardId);
+      }
+    };
+  }
+
+  private lockHolder(room: PresenceRoom, cardId: string): PresenceMember | undefined {
+    return [...room.members.values()].find(member => member.editingCardId === cardId);
+  }
+
+  private broadcast(boardId: string): void {
+    const room = this.rooms.get(boardId);
+    if (!room) return;
+
+    const members = this.members(boardId);
+    for (const listener of room.listeners) {
+      listener(members);
+    }
+  }
+
+  private room(boardId: string): PresenceRoom {
+    let room = this.rooms.get(boardId);
+    if (!room) {
+      room = { members: new Map(), listeners: new Set() };
+      this.rooms.set(boardId, room);
+    }
+
+    return room;
+  }
+}
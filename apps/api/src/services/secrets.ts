@@ -0,0 +1,16 @@
+import { randomBytes } from 'node:crypto';
+
+/**
+ * Reads a secret the server signs or hashes with. Production refuses to start
+ * without it; elsewhere each process makes up its own, so whatever was signed
+ * with it stops working after a restart.
+ */
+export function readSecret(name: string, env: NodeJS.ProcessEnv = process.env): string {
+  const secret = env[name];
+  if (secret) return secret;
+
+  if (env['NODE_ENV'] === 'production') {
+    throw new Error(`${name} must be set in production`);
+  }
+  return randomBytes(32).toString('base64url');
+}
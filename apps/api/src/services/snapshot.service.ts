@@ -0,0 +1,273 @@
+import { PrismaClient } from '@prisma/client';
+import { recordActivity, UNKNOWN_ACTOR, type ActivityActor } from './activity.service';
+import {
+  claimBoardVersion,
+  EMPTY_CARD_DETAILS,
+  findBoardData,
+  replaceBoardState,
+  requireBoardData,
+  takeSnapshot,
+  type BoardData,
+  type SnapshotReason,
+} from './board.service';
+import { NotFoundError } from './errors';
+
+export interface SnapshotSummary {
+  id: string;
+  // Board version the snapshot was taken at
+  version: number;
+  reason: SnapshotReason;
+  createdAt: Date;
+}
+
+export interface SnapshotData extends SnapshotSummary {
+  board: BoardData;
+}
+
+export interface DiffColumn {
+  id: string;
+  title: string;
+}
+
+export interface DiffCard {
+  id: string;
+  content: string;
+  columnId: string;
+}
+
+type CardDiffField = 'content' | 'details' | 'labels' | 'checklists' | 'column' | 'swimlane' | 'order';
+
+export interface BoardDiff {
+  title: { from: string; to: string } | null;
+  columns: {
+    added: DiffColumn[];
+    removed: DiffColumn[];
+    changed: Array<DiffColumn & { fields: Array<'title' | 'order' | 'wipLimit'> }>;
+  };
+  cards: {
+    added: DiffCard[];
+    removed: DiffCard[];
+    changed: Array<DiffCard & { fields: CardDiffField[] }>;
+  };
+}
+
+type BoardState = Pick<BoardData, 'title' | 'columns'>;
+
+export class SnapshotService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Lists a board's snapshots, newest first, without their data
+  async listSnapshots(boardId: string): Promise<SnapshotSummary[]> {
+    await this.assertBoardExists(boardId);
+
+    const snapshots = await this.prisma.boardSnapshot.findMany({
+      where: { boardId },
+      // A restore snapshot can share its timestamp with the one before it
+      orderBy: [{ createdAt: 'desc' }, { version: 'desc' }],
+      select: { id: true, version: true, reason: true, createdAt: true },
+    });
+
+    return snapshots.map(toSnapshotSummary);
+  }
+
+  async createSnapshot(boardId: string): Promise<SnapshotSummary> {
+    return this.prisma.$transaction(async tx => {
+      const board = await findBoardData(tx, boardId);
+      if (!board) {
+        throw new NotFoundError('Board not found');
+      }
+
+      return toSnapshotSummary(await takeSnapshot(tx, boardId, board.version, 'manual'));
+    });
+  }
+
+  async getSnapshot(boardId: string, snapshotId: string): Promise<SnapshotData> {
+    await this.assertBoardExists(boardId);
+
+    const snapshot = await this.prisma.boardSnapshot.findFirst({
+      where: { id: snapshotId, boardId },
+    });
+
+    if (!snapshot) {
+      throw new NotFoundError('Snapshot not found');
+    }
+
+    const board = JSON.parse(snapshot.data) as BoardData;
+
+    return {
+      ...toSnapshotSummary(snapshot),
+      board: {
+        ...board,
+        // Snapshots taken before cards had details, labels, checklists,
+        // comments or attachments store none, and none before WIP limits
+        // or swimlanes
+        wipMode: board.wipMode ?? 'warn',
+        labels: board.labels ?? [],
+        swimlanes: board.swimlanes ?? [],
+        columns: board.columns.map(column => ({
+          ...column,
+          wipLimit: column.wipLimit ?? null,
+          cards: column.cards.map(card => ({
+            ...EMPTY_CARD_DETAILS,
+            ...card,
+            swimlaneId: card.swimlaneId ?? null,
+            labelIds: card.labelIds ?? [],
+            checklists: card.checklists ?? [],
+            commentCount: card.commentCount ?? 0,
+            attachments: card.attachments ?? [],
+          })),
+        })),
+        createdAt: new Date(board.createdAt),
+      },
+    };
+  }
+
+  // What changed on the board since the snapshot was taken
+  async diffSnapshot(boardId: string, snapshotId: string): Promise<BoardDiff> {
+    const snapshot = await this.getSnapshot(boardId, snapshotId);
+    const current = await findBoardData(this.prisma, boardId);
+    if (!current) {
+      throw new NotFoundError('Board not found');
+    }
+
+    return diffBoards(snapshot.board, current);
+  }
+
+  /**
+   * Puts the board back into the state stored in a snapshot. Runs as a single
+   * write: the state being replaced is kept as a 'restore' snapshot first, so
+   * a restore can itself be undone from the history. Returns the restored board.
+   */
+  async restoreSnapshot(
+    boardId: string,
+    snapshotId: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<BoardData> {
+    const snapshot = await this.getSnapshot(boardId, snapshotId);
+
+    return this.prisma.$transaction(async tx => {
+      // Taken before the claim so the automatic snapshot the claim may take
+      // does not store the same state twice; a failed claim rolls it back
+      await takeSnapshot(tx, boardId, expectedVersion, 'restore');
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const state = { title: snapshot.board.title, columns: snapshot.board.columns };
+      const before = await replaceBoardState(tx, boardId, state);
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'board.restored',
+        before,
+        after: { ...state, snapshotId, version: snapshot.version },
+      });
+
+      return requireBoardData(tx, boardId);
+    });
+  }
+
+  private async assertBoardExists(boardId: string): Promise<void> {
+    const count = await this.prisma.board.count({ where: { id: boardId } });
+    if (count === 0) {
+      throw new NotFoundError('Board not found');
+    }
+  }
+}
+
+/**
+ * Compares two states of a board. Columns and cards are matched by ID, so a
+ * card that moved to another column shows up as changed, not removed and
+ * re-added.
+ */
+export function diffBoards(from: BoardState, to: BoardState): BoardDiff {
+  const diff: BoardDiff = {
+    title: from.title === to.title ? null : { from: from.title, to: to.title },
+    columns: { added: [], removed: [], changed: [] },
+    cards: { added: [], removed: [], changed: [] },
+  };
+
+  const fromColumns = new Map(from.columns.map(column => [column.id, column]));
+  const toColumns = new Map(to.columns.map(column => [column.id, column]));
+  const fromCards = new Map(flattenCards(from).map(card => [card.id, card]));
+  const toCards = new Map(flattenCards(to).map(card => [card.id, card]));
+
+  for (const column of to.columns) {
+    const previous = fromColumns.get(column.id);
+    if (!previous) {
+      diff.columns.added.push({ id: column.id, title: column.title });
+      continue;
+    }
+
+    const fields: Array<'title' | 'order' | 'wipLimit'> = [];
+    if (previous.title !== column.title) fields.push('title');
+    if (previous.order !== column.order) fields.push('order');
+    if (previous.wipLimit !== column.wipLimit) fields.push('wipLimit');
+    if (fields.length > 0) {
+      diff.columns.changed.push({ id: column.id, title: column.title, fields });
+    }
+  }
+
+  for (const column of from.columns) {
+    if (!toColumns.has(column.id)) {
+      diff.columns.removed.push({ id: column.id, title: column.title });
+    }
+  }
+
+  for (const card of toCards.values()) {
+    const previous = fromCards.get(card.id);
+    if (!previous) {
+      diff.cards.added.push(toDiffCard(card));
+      continue;
+    }
+
+    const fields: CardDiffField[] = [];
+    if (previous.content !== card.content) fields.push('content');
+    if (
+      previous.description !== card.description ||
+      previous.priority !== card.priority ||
+      previous.estimate !== card.estimate ||
+      previous.coverColor !== card.coverColor
+    ) {
+      fields.push('details');
+    }
+    if (previous.labelIds.join() !== card.labelIds.join()) fields.push('labels');
+    if (JSON.stringify(previous.checklists) !== JSON.stringify(card.checklists)) fields.push('checklists');
+    if (previous.columnId !== card.columnId) fields.push('column');
+    if (previous.swimlaneId !== card.swimlaneId) fields.push('swimlane');
+    if (previous.order !== card.order) fields.push('order');
+    if (fields.length > 0) {
+      diff.cards.changed.push({ ...toDiffCard(card), fields });
+    }
+  }
+
+  for (const card of fromCards.values()) {
+    if (!toCards.has(card.id)) {
+      diff.cards.removed.push(toDiffCard(card));
+    }
+  }
+
+  return diff;
+}
+
+function flattenCards(board: BoardState) {
+  return board.columns.flatMap(column =>
+    column.cards.map(card => ({ ...card, columnId: column.id }))
+  );
+}
+
+function toDiffCard(card: { id: string; content: string; columnId: string }): DiffCard {
+  return { id: card.id, content: card.content, columnId: card.columnId };
+}
+
+function toSnapshotSummary(snapshot: {
+  id: string;
+  version: number;
+  reason: string;
+  createdAt: Date;
+}): SnapshotSummary {
+  return {
+    id: snapshot.id,
+    version: snapshot.version,
+    reason: snapshot.reason as SnapshotReason,
+    createdAt: snapshot.createdAt,
+  };
+}
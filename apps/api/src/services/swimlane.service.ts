@@ -0,0 +1,167 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { recordActivity, UNKNOWN_ACTOR, type ActivityActor } from './activity.service';
+import { claimBoardVersion, toSwimlaneData, type SwimlaneData } from './board.service';
+import { NotFoundError } from './errors';
+
+export interface CreateSwimlaneData {
+  title: string;
+}
+
+export interface UpdateSwimlaneData {
+  title?: string;
+}
+
+export class SwimlaneService {
+  constructor(private prisma: PrismaClient) {}
+
+  async createSwimlane(
+    boardId: string,
+    data: CreateSwimlaneData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<SwimlaneData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      // New lanes are added at the bottom
+      const order = await tx.swimlane.count({ where: { boardId } });
+
+      const swimlane = await tx.swimlane.create({
+        data: {
+          id: nanoid(),
+          title: data.title,
+          order,
+          boardId,
+        },
+      });
+
+      await recordActivity(tx, boardId, actor, { action: 'swimlane.created', after: toSwimlaneData(swimlane) });
+
+      return toSwimlaneData(swimlane);
+    });
+  }
+
+  async updateSwimlane(
+    boardId: string,
+    swimlaneId: string,
+    data: UpdateSwimlaneData,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<SwimlaneData> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const previous = await this.findSwimlane(tx, boardId, swimlaneId);
+
+      const swimlane = await tx.swimlane.update({
+        where: { id: swimlaneId },
+        data: {
+          ...(data.title !== undefined && { title: data.title }),
+        },
+      });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'swimlane.updated',
+        before: toSwimlaneData(previous),
+        after: toSwimlaneData(swimlane),
+      });
+
+      return toSwimlaneData(swimlane);
+    });
+  }
+
+  /**
+   * Moves a lane to a new position, shifting the lanes in between.
+   * Returns every lane of the board in its new order.
+   */
+  async moveSwimlane(
+    boardId: string,
+    swimlaneId: string,
+    targetOrder: number,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<SwimlaneData[]> {
+    return this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const swimlane = await this.findSwimlane(tx, boardId, swimlaneId);
+
+      const count = await tx.swimlane.count({ where: { boardId } });
+      const order = Math.min(targetOrder, count - 1);
+
+      if (order > swimlane.order) {
+        await tx.swimlane.updateMany({
+          where: { boardId, order: { gt: swimlane.order, lte: order } },
+          data: { order: { decrement: 1 } },
+        });
+      } else if (order < swimlane.order) {
+        await tx.swimlane.updateMany({
+          where: { boardId, order: { gte: order, lt: swimlane.order } },
+          data: { order: { increment: 1 } },
+        });
+      }
+
+      await tx.swimlane.update({ where: { id: swimlaneId }, data: { order } });
+
+      await recordActivity(tx, boardId, actor, {
+        action: 'swimlane.moved',
+        before: toSwimlaneData(swimlane),
+        after: toSwimlaneData({ ...swimlane, order }),
+      });
+
+      const swimlanes = await tx.swimlane.findMany({
+        where: { boardId },
+        orderBy: { order: 'asc' },
+      });
+
+      return swimlanes.map(toSwimlaneData);
+    });
+  }
+
+  /**
+   * Deletes a lane. Its cards stay in their columns, outside any lane.
+   */
+  async deleteSwimlane(
+    boardId: string,
+    swimlaneId: string,
+    expectedVersion: number,
+    actor: ActivityActor = UNKNOWN_ACTOR
+  ): Promise<void> {
+    await this.prisma.$transaction(async tx => {
+      await claimBoardVersion(tx, boardId, expectedVersion);
+
+      const swimlane = await this.findSwimlane(tx, boardId, swimlaneId);
+
+      // The lane's cards are let go by the foreign key
+      await tx.swimlane.delete({ where: { id: swimlaneId } });
+
+      await tx.swimlane.updateMany({
+        where: { boardId, order: { gt: swimlane.order } },
+        data: { order: { decrement: 1 } },
+      });
+
+      await recordActivity(tx, boardId, actor, { action: 'swimlane.deleted', before: toSwimlaneData(swimlane) });
+    });
+  }
+
+  private async findSwimlane(
+    tx: Prisma.TransactionClient,
+    boardId: string,
+    swimlaneId: string
+  ) {
+    const board = await tx.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new NotFoundError('Board not found');
+    }
+
+    const swimlane = await tx.swimlane.findFirst({
+      where: { id: swimlaneId, boardId },
+    });
+    if (!swimlane) {
+      throw new NotFoundError('Swimlane not found');
+    }
+
+    return swimlane;
+  }
+}
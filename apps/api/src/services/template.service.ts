@@ -0,0 +1,108 @@
+import { PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { mapExportedBoard } from './board-import';
+import { BUILT_IN_TEMPLATES, type TemplateContent } from './board-templates';
+import { findBoardData } from './board.service';
+import { NotFoundError } from './errors';
+
+export interface TemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  builtIn: boolean;
+  // Column titles in order, to preview the template by
+  columns: string[];
+}
+
+export interface SaveTemplateData {
+  name: string;
+  description?: string | undefined;
+}
+
+/**
+ * Templates new boards can be created from: the built-in ones, and copies of
+ * existing boards saved under a name. Saved templates are not listed
+ * anywhere; like boards, they are reached by ID.
+ */
+export class TemplateService {
+  constructor(private prisma: PrismaClient) {}
+
+  listBuiltInTemplates(): TemplateSummary[] {
+    return BUILT_IN_TEMPLATES.map(template =>
+      toTemplateSummary({ ...template, builtIn: true })
+    );
+  }
+
+  async getTemplate(templateId: string): Promise<TemplateSummary> {
+    const { id, name, description, builtIn, content } = await this.findTemplate(templateId);
+    return toTemplateSummary({ id, name, description, builtIn, content });
+  }
+
+  // What boards created from the template start with
+  async getTemplateContent(templateId: string): Promise<{ name: string; content: TemplateContent }> {
+    const { name, content } = await this.findTemplate(templateId);
+    return { name, content };
+  }
+
+  /**
+   * Saves the board's columns, cards, labels, checklists and lanes as a new
+   * template. Comments and attachments stay with the board.
+   */
+  async saveBoardAsTemplate(boardId: string, data: SaveTemplateData): Promise<TemplateSummary> {
+    const board = await findBoardData(this.prisma, boardId);
+    if (!board) {
+      throw new NotFoundError('Board not found');
+    }
+
+    const { wipMode, labels, swimlanes, columns } = mapExportedBoard({
+      ...board,
+      columns: board.columns.map(column => ({
+        ...column,
+        cards: column.cards.map(card => ({ ...card, comments: [] })),
+      })),
+    });
+    const content: TemplateContent = { wipMode, labels, swimlanes, columns };
+
+    const template = await this.prisma.boardTemplate.create({
+      data: {
+        id: nanoid(),
+        name: data.name,
+        description: data.description ?? '',
+        data: JSON.stringify(content),
+      },
+    });
+
+    return toTemplateSummary({ ...template, builtIn: false, content });
+  }
+
+  private async findTemplate(templateId: string) {
+    const builtIn = BUILT_IN_TEMPLATES.find(template => template.id === templateId);
+    if (builtIn) {
+      return { ...builtIn, builtIn: true };
+    }
+
+    const saved = await this.prisma.boardTemplate.findUnique({ where: { id: templateId } });
+    if (!saved) {
+      throw new NotFoundError('Template not found');
+    }
+
+    const content = JSON.parse(saved.data) as TemplateContent;
+    return { id: saved.id, name: saved.name, description: saved.description, builtIn: false, content };
+  }
+}
+
+function toTemplateSummary(template: {
+  id: string;
+  name: string;
+  description: string;
+  builtIn: boolean;
+  content: TemplateContent;
+}): TemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    builtIn: template.builtIn,
+    columns: template.content.columns.map(column => column.title),
+  };
+}
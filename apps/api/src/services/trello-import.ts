@@ -0,0 +1,224 @@
+import type { BoardImport, CardImport } from './import.service';
+
+// The parts of a Trello board's JSON export (Menu → Print, export and share →
+// Export as JSON) the import reads or reports on
+export interface TrelloBoard {
+  name: string;
+  lists: TrelloList[];
+  cards: TrelloCard[];
+  labels?: TrelloLabel[] | undefined;
+  checklists?: TrelloChecklist[] | undefined;
+  actions?: TrelloAction[] | undefined;
+  customFields?: unknown[] | undefined;
+}
+
+export interface TrelloList {
+  id: string;
+  name: string;
+  // Archived
+  closed?: boolean | undefined;
+  pos: number;
+}
+
+export interface TrelloCard {
+  id: string;
+  name: string;
+  desc?: string | undefined;
+  // Archived
+  closed?: boolean | undefined;
+  idList: string;
+  pos: number;
+  idLabels?: string[] | undefined;
+  due?: string | null | undefined;
+  idMembers?: string[] | undefined;
+  attachments?: unknown[] | undefined;
+  stickers?: unknown[] | undefined;
+  cover?: { color?: string | null | undefined } | null | undefined;
+}
+
+export interface TrelloLabel {
+  id: string;
+  name?: string | undefined;
+  color?: string | null | undefined;
+}
+
+export interface TrelloChecklist {
+  id: string;
+  name: string;
+  idCard: string;
+  pos: number;
+  checkItems: Array<{ name: string; state: string; pos: number }>;
+}
+
+export interface TrelloAction {
+  type: string;
+  date?: string | undefined;
+  data?: { text?: string | undefined; card?: { id: string } | undefined } | undefined;
+  memberCreator?: { fullName?: string | undefined } | undefined;
+}
+
+// Something in the source the board has no place for, and how often it came up
+export interface SkippedField {
+  field: string;
+  count: number;
+  reason: string;
+}
+
+// Longest text the board routes accept for each field
+const LIMITS = {
+  boardTitle: 100,
+  columnTitle: 50,
+  cardContent: 500,
+  description: 10000,
+  labelName: 30,
+  checklistTitle: 100,
+  itemText: 500,
+  comment: 5000,
+  // Display names, as cut short by the activity log
+  authorName: 40,
+};
+
+// Trello's label and cover colors; shades such as `green_dark` use the base color
+const TRELLO_COLORS: Record<string, string> = {
+  green: '#22c55e',
+  yellow: '#eab308',
+  orange: '#f97316',
+  red: '#ef4444',
+  purple: '#a855f7',
+  blue: '#3b82f6',
+  sky: '#0ea5e9',
+  lime: '#84cc16',
+  pink: '#ec4899',
+  black: '#374151',
+};
+
+// Labels without a color
+const DEFAULT_LABEL_COLOR = '#9ca3af';
+
+const byPos = <T extends { pos: number }>(items: T[]) => [...items].sort((a, b) => a.pos - b.pos);
+
+function trelloColor(color: string | null | undefined): string | null {
+  return (color && TRELLO_COLORS[color.split('_')[0] ?? '']) ?? null;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Maps a Trello export onto a board to import. Lists become columns and cards
+ * keep their order, labels, checklists, comments and cover color. Archived
+ * lists and cards are left out, since boards cannot archive, and so is
+ * anything else without a counterpart here; all of it is listed in
+ * `skipped`. Text longer than the board allows is shortened.
+ */
+export function mapTrelloBoard(trello: TrelloBoard): { board: BoardImport; skipped: SkippedField[] } {
+  const skipped = new Map<string, SkippedField>();
+  const skip = (field: string, reason: string, count = 1) => {
+    if (count === 0) return;
+    const entry = skipped.get(field) ?? { field, count: 0, reason };
+    entry.count += count;
+    skipped.set(field, entry);
+  };
+
+  const clip = (text: string, limit: number, field: string, fallback: string) => {
+    const trimmed = text.trim();
+    if (trimmed.length > limit) {
+      skip(field, `Shortened to ${limit} characters`);
+      return trimmed.slice(0, limit).trimEnd();
+    }
+    return trimmed || fallback;
+  };
+
+  // Label names must be unique on a board; Trello's may repeat or be empty
+  const labelNames = new Map<string, string>();
+  const labels: BoardImport['labels'] = [];
+  for (const label of trello.labels ?? []) {
+    const base = clip(label.name ?? '', LIMITS.labelName, 'labels.name', capitalize(label.color ?? 'label'));
+    let name = base;
+    for (let copy = 2; labels.some(existing => existing.name === name); copy += 1) {
+      const suffix = ` (${copy})`;
+      name = `${base.slice(0, LIMITS.labelName - suffix.length).trimEnd()}${suffix}`;
+    }
+    labels.push({ name, color: trelloColor(label.color) ?? DEFAULT_LABEL_COLOR });
+    labelNames.set(label.id, name);
+  }
+
+  const comments = new Map<string, CardImport['comments']>();
+  for (const action of trello.actions ?? []) {
+    const cardId = action.data?.card?.id;
+    const text = action.data?.text;
+    if (action.type !== 'commentCard' || !cardId || !text?.trim()) continue;
+
+    let createdAt = action.date ? new Date(action.date) : new Date();
+    if (Number.isNaN(createdAt.getTime())) {
+      skip('actions.date', 'Unreadable comment dates were replaced with the import time');
+      createdAt = new Date();
+    }
+
+    const thread = comments.get(cardId) ?? [];
+    thread.push({
+      authorName: action.memberCreator?.fullName?.trim().slice(0, LIMITS.authorName) || 'Trello user',
+      body: clip(text, LIMITS.comment, 'actions.commentCard', text),
+      createdAt,
+    });
+    comments.set(cardId, thread);
+  }
+
+  const openLists = byPos(trello.lists).filter(list => !list.closed);
+  const closedListIds = new Set(trello.lists.filter(list => list.closed).map(list => list.id));
+  skip('lists.closed', 'Archived lists are left out, along with their cards', closedListIds.size);
+
+  const columns = openLists.map(list => {
+    const cards = byPos(trello.cards.filter(card => card.idList === list.id && !card.closed));
+
+    return {
+      title: clip(list.name, LIMITS.columnTitle, 'lists.name', 'Untitled list'),
+      wipLimit: null,
+      cards: cards.map((card): CardImport => {
+        if (card.due) skip('cards.due', 'Due dates are not supported');
+        skip('cards.idMembers', 'Card members are not supported', card.idMembers?.length ?? 0);
+        skip('cards.attachments', 'Attachments are not imported', card.attachments?.length ?? 0);
+        skip('cards.stickers', 'Stickers are not supported', card.stickers?.length ?? 0);
+
+        const checklists = byPos((trello.checklists ?? []).filter(checklist => checklist.idCard === card.id));
+
+        return {
+          content: clip(card.name, LIMITS.cardContent, 'cards.name', 'Untitled card'),
+          description: clip(card.desc ?? '', LIMITS.description, 'cards.desc', ''),
+          priority: null,
+          estimate: null,
+          coverColor: trelloColor(card.cover?.color),
+          swimlane: null,
+          labelNames: (card.idLabels ?? []).flatMap(id => {
+            const name = labelNames.get(id);
+            return name ? [name] : [];
+          }),
+          checklists: checklists.map(checklist => ({
+            title: clip(checklist.name, LIMITS.checklistTitle, 'checklists.name', 'Checklist'),
+            items: byPos(checklist.checkItems)
+              .filter(item => item.name.trim())
+              .map(item => ({
+                text: clip(item.name, LIMITS.itemText, 'checklists.checkItems.name', item.name),
+                done: item.state === 'complete',
+              })),
+          })),
+          comments: (comments.get(card.id) ?? []).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+        };
+      }),
+    };
+  });
+
+  const archivedCards = trello.cards.filter(card => card.closed && !closedListIds.has(card.idList));
+  skip('cards.closed', 'Archived cards are left out', archivedCards.length);
+  skip('customFields', 'Custom fields are not supported', trello.customFields?.length ?? 0);
+
+  return {
+    board: {
+      title: clip(trello.name, LIMITS.boardTitle, 'name', 'Imported Trello board'),
+      wipMode: 'warn',
+      labels,
+      swimlanes: [],
+      columns,
+    },
+    skipped: [...skipped.values()],
+  };
+}
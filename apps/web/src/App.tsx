@@ -1,7 +1,11 @@
-import { Routes, Route, useNavigate, useParams } from 'react-router-dom';
-import { useState } from 'react';
+import { Routes, Route, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useEffect, useState } from 'react';
 import { Board } from './components/Board';
+import { ImportTrelloDialog } from './components/ImportTrelloDialog';
+import { TemplatePicker } from './components/TemplatePicker';
 import { useBoardStore } from './store/board.store';
+import { saveBoardToken } from './utils/access';
+import type { BoardTemplate } from './utils/templates';
 
 function App() {
   return (
@@ -54,12 +58,24 @@ function Header() {
 
 function HomePage() {
   const navigate = useNavigate();
-  const { createBoard, loading, error } = useBoardStore();
+  const { createBoard, loadTemplates, importTrelloBoard, loading, error } = useBoardStore();
   const [creating, setCreating] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [templates, setTemplates] = useState<BoardTemplate[]>([]);
 
-  const handleCreateFirstBoard = async () => {
+  useEffect(() => {
+    let cancelled = false;
+    loadTemplates().then(loaded => {
+      if (!cancelled) setTemplates(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadTemplates]);
+
+  const handleCreateBoard = async (templateId: string | null) => {
     setCreating(true);
-    const boardId = await createBoard();
+    const boardId = await createBoard(templateId ?? undefined);
     setCreating(false);
     
     if (boardId) {
@@ -76,26 +92,53 @@ function HomePage() {
         Create and share Kanban boards with anyone, no login required.
       </p>
       
-      {error && (
+      {error && !showImport && (
         <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-800 max-w-md mx-auto">
           {error}
         </div>
       )}
       
-      <button 
-        onClick={handleCreateFirstBoard}
-        disabled={creating || loading}
-        className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {creating ? 'Creating Your Board...' : 'Create Your First Board'}
-      </button>
+      <TemplatePicker templates={templates} onPick={handleCreateBoard} disabled={creating || loading} />
+      {creating && <p className="mt-4 text-gray-600">Creating your board...</p>}
+
+      <div className="mt-6">
+        <button
+          onClick={() => setShowImport(true)}
+          disabled={creating}
+          className="text-blue-600 hover:text-blue-800 hover:underline disabled:opacity-50"
+        >
+          Import from Trello
+        </button>
+      </div>
+
+      {showImport && (
+        <ImportTrelloDialog
+          onImport={importTrelloBoard}
+          onOpenBoard={boardId => navigate(`/board/${boardId}`)}
+          onClose={() => setShowImport(false)}
+          importing={loading}
+          error={error}
+        />
+      )}
     </div>
   );
 }
 
 function BoardPage() {
+  const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
-  
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkToken = searchParams.get('token');
+
+  // Share links carry their token in ?token=. It is kept for later visits and
+  // taken out of the address bar so it does not end up in bookmarks.
+  useEffect(() => {
+    if (id && linkToken) {
+      saveBoardToken(id, linkToken);
+      setSearchParams({}, { replace: true });
+    }
+  }, [id, linkToken, setSearchParams]);
+
   if (!id) {
     return (
       <div className="text-center">
@@ -104,7 +147,12 @@ function BoardPage() {
     );
   }
 
-  return <Board boardId={id} />;
+  // The board loads once its token has been saved
+  if (linkToken) {
+    return null;
+  }
+
+  return <Board boardId={id} onOpenBoard={boardId => navigate(`/board/${boardId}`)} />;
 }
 
 export default App;
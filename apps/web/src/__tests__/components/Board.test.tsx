@@ -1,6 +1,6 @@
 // This is a TDD demonstration file focusing on test structure
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { Board } from '../../components/Board';
 
@@ -9,19 +9,89 @@ interface MockBoard {
   id: string;
   title: string;
   createdAt: Date;
+  wipMode?: 'warn' | 'block';
   columns: Array<{
     id: string;
     title: string;
     order: number;
+    wipLimit?: number | null;
     cards: Array<{
       id: string;
       content: string;
       order: number;
+      description?: string;
+      priority?: 'low' | 'medium' | 'high' | 'urgent' | null;
+      estimate?: number | null;
+      coverColor?: string | null;
+      labelIds?: string[];
+      checklists?: Array<{
+        id: string;
+        title: string;
+        order: number;
+        items: Array<{ id: string; text: string; done: boolean; order: number }>;
+      }>;
+      commentCount?: number;
+      attachments?: Array<{
+        id: string;
+        fileName: string;
+        contentType: string;
+        size: number;
+        hasThumbnail: boolean;
+        cover: boolean;
+        createdAt: string;
+      }>;
+      swimlaneId?: string | null;
     }>;
   }>;
+  labels: Array<{ id: string; name: string; color: string }>;
+  swimlanes: Array<{ id: string; title: string; order: number }>;
 }
 
 // Mock the board store - using proper typing for tests
+interface MockPresenceMember {
+  id: string;
+  name: string;
+  color: string;
+  editingCardId: string | null;
+  draggingCardId: string | null;
+}
+
+interface MockActivityEntry {
+  id: number;
+  action: 'card.created';
+  actorName: string | null;
+  ipHash: string | null;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+}
+
+interface MockComment {
+  id: string;
+  authorName: string;
+  body: string;
+  edited: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface MockSnapshot {
+  id: string;
+  version: number;
+  reason: 'auto' | 'manual' | 'restore';
+  createdAt: string;
+}
+
+const emptyDiff = () => ({
+  title: null,
+  columns: { added: [], removed: [], changed: [] },
+  cards: {
+    added: [] as Array<{ id: string; content: string; columnId: string }>,
+    removed: [] as Array<{ id: string; content: string; columnId: string }>,
+    changed: [],
+  },
+});
+
 const mockBoardStore = {
   board: null as MockBoard | null,
   loading: false,
@@ -31,7 +101,93 @@ const mockBoardStore = {
   moveCard: vi.fn(),
   addCard: vi.fn(),
   editCard: vi.fn(),
+  updateCardDetails: vi.fn(),
+  setCardLabels: vi.fn(),
   deleteCard: vi.fn(),
+  addColumn: vi.fn(),
+  renameColumn: vi.fn(),
+  setWipLimit: vi.fn(),
+  setWipMode: vi.fn(),
+  moveColumn: vi.fn(),
+  deleteColumn: vi.fn(),
+  addSwimlane: vi.fn(),
+  renameSwimlane: vi.fn(),
+  moveSwimlane: vi.fn(),
+  deleteSwimlane: vi.fn(),
+  createLabel: vi.fn(),
+  updateLabel: vi.fn(),
+  deleteLabel: vi.fn(),
+  mergeLabels: vi.fn(),
+  addChecklist: vi.fn(),
+  renameChecklist: vi.fn(),
+  deleteChecklist: vi.fn(),
+  addChecklistItem: vi.fn(),
+  updateChecklistItem: vi.fn(),
+  moveChecklistItem: vi.fn(),
+  deleteChecklistItem: vi.fn(),
+  comments: {
+    cardId: null as string | null,
+    entries: [] as MockComment[],
+    loading: false,
+    error: null as string | null,
+  },
+  loadComments: vi.fn(),
+  addComment: vi.fn(),
+  editComment: vi.fn(),
+  deleteComment: vi.fn(),
+  uploadAttachment: vi.fn(),
+  setAttachmentCover: vi.fn(),
+  deleteAttachment: vi.fn(),
+  conflict: null as { board: MockBoard; version: number } | null,
+  resolveConflict: vi.fn(),
+  subscribeToBoard: vi.fn(),
+  presence: { selfId: null as string | null, members: [] as MockPresenceMember[] },
+  connectPresence: vi.fn(),
+  setEditingCard: vi.fn(),
+  setDraggingCard: vi.fn(),
+  version: 1,
+  activity: {
+    entries: [] as MockActivityEntry[],
+    nextCursor: null as number | null,
+    loading: false,
+    error: null as string | null,
+  },
+  loadActivity: vi.fn(),
+  loadMoreActivity: vi.fn(),
+  history: {
+    past: [] as unknown[],
+    future: [] as unknown[],
+    busy: false,
+    notice: null as string | null,
+  },
+  undo: vi.fn(),
+  redo: vi.fn(),
+  snapshots: {
+    entries: [] as MockSnapshot[],
+    selected: null as (MockSnapshot & { board: MockBoard & { version: number } }) | null,
+    diff: null as ReturnType<typeof emptyDiff> | null,
+    loading: false,
+    error: null as string | null,
+  },
+  loadSnapshots: vi.fn(),
+  createSnapshot: vi.fn(),
+  selectSnapshot: vi.fn(),
+  restoreSnapshot: vi.fn(),
+  access: 'edit' as 'view' | 'edit' | null,
+  sharing: {
+    tokens: [] as Array<{ id: string; token: string; role: 'view' | 'edit'; createdAt: string }>,
+    loading: false,
+    error: null as string | null,
+  },
+  loadTokens: vi.fn(),
+  createToken: vi.fn(),
+  revokeToken: vi.fn(),
+  saveBoardAsTemplate: vi.fn(),
+  cloneBoard: vi.fn(),
+  passwordProtected: false,
+  setBoardPassword: vi.fn(),
+  lock: { locked: false, unlocking: false, error: null as string | null },
+  unlockBoard: vi.fn(),
 };
 
 // Mock Zustand store
@@ -44,6 +200,7 @@ describe('Board Component', () => {
     id: 'test-board-id',
     title: 'Test Board',
     createdAt: new Date(),
+    wipMode: 'warn' as const,
     columns: [
       {
         id: 'col-1',
@@ -69,6 +226,8 @@ describe('Board Component', () => {
         cards: [],
       },
     ],
+    labels: [] as MockBoard['labels'],
+    swimlanes: [] as MockBoard['swimlanes'],
   };
 
   beforeEach(() => {
@@ -76,6 +235,16 @@ describe('Board Component', () => {
     mockBoardStore.board = null;
     mockBoardStore.loading = false;
     mockBoardStore.error = null;
+    mockBoardStore.conflict = null;
+    mockBoardStore.presence = { selfId: null, members: [] };
+    mockBoardStore.activity = { entries: [], nextCursor: null, loading: false, error: null };
+    mockBoardStore.comments = { cardId: null, entries: [], loading: false, error: null };
+    mockBoardStore.history = { past: [], future: [], busy: false, notice: null };
+    mockBoardStore.snapshots = { entries: [], selected: null, diff: null, loading: false, error: null };
+    mockBoardStore.access = 'edit';
+    mockBoardStore.sharing = { tokens: [], loading: false, error: null };
+    mockBoardStore.passwordProtected = false;
+    mockBoardStore.lock = { locked: false, unlocking: false, error: null };
   });
 
   describe('Loading States', () => {
@@ -99,6 +268,22 @@ describe('Board Component', () => {
       expect(mockBoardStore.loadBoard).toHaveBeenCalledWith('test-board-123');
       expect(mockBoardStore.loadBoard).toHaveBeenCalledTimes(1);
     });
+
+    it('should subscribe to board changes on mount', () => {
+      // Act
+      render(<Board boardId="test-board-123" />);
+
+      // Assert
+      expect(mockBoardStore.subscribeToBoard).toHaveBeenCalledWith('test-board-123');
+    });
+
+    it('should connect to board presence on mount', () => {
+      // Act
+      render(<Board boardId="test-board-123" />);
+
+      // Assert
+      expect(mockBoardStore.connectPresence).toHaveBeenCalledWith('test-board-123');
+    });
   });
 
   describe('Error States', () => {
@@ -265,6 +450,518 @@ describe('Board Component', () => {
     });
   });
 
+  describe('Labels', () => {
+    const labelledBoard = {
+      ...mockBoard,
+      columns: [
+        {
+          id: 'col-1',
+          title: 'Todo',
+          order: 0,
+          cards: [
+            { id: 'card-1', content: 'First task', order: 0, labelIds: ['label-1'] },
+            { id: 'card-2', content: 'Second task', order: 1, labelIds: [] },
+          ],
+        },
+      ],
+      labels: [
+        { id: 'label-1', name: 'Bug', color: '#ef4444' },
+        { id: 'label-2', name: 'Feature', color: '#3b82f6' },
+      ],
+    };
+
+    beforeEach(() => {
+      mockBoardStore.board = labelledBoard;
+    });
+
+    it('should show the labels of each card', () => {
+      // Act
+      render(<Board boardId="test-id" />);
+
+      // Assert
+      expect(within(screen.getByTestId('card-card-1')).getByText('Bug')).toBeInTheDocument();
+      expect(within(screen.getByTestId('card-card-2')).queryByText('Bug')).not.toBeInTheDocument();
+    });
+
+    it('should dim cards without the selected labels, or hide them', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      render(<Board boardId="test-id" />);
+      const filterBar = screen.getByRole('group', { name: 'Filter by label' });
+
+      // Act
+      await user.click(within(filterBar).getByRole('button', { name: 'Bug' }));
+
+      // Assert
+      expect(screen.getByTestId('card-card-1')).not.toHaveClass('opacity-30');
+      expect(screen.getByTestId('card-card-2')).toHaveClass('opacity-30');
+
+      await user.selectOptions(within(filterBar).getByLabelText('Cards without these labels'), 'hide');
+      expect(screen.getByTestId('card-card-2')).not.toBeVisible();
+
+      await user.click(within(filterBar).getByRole('button', { name: 'Clear filter' }));
+      expect(screen.getByTestId('card-card-2')).toBeVisible();
+    });
+
+    it('should toggle card labels from the card details', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByText('First task'));
+      const dialog = await screen.findByRole('dialog');
+
+      // Act
+      await user.click(within(dialog).getByRole('button', { name: 'Feature' }));
+
+      // Assert
+      expect(mockBoardStore.setCardLabels).toHaveBeenCalledWith('card-1', ['label-1', 'label-2']);
+    });
+
+    it('should merge labels from the label manager', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Labels' }));
+      const manager = screen.getByRole('complementary', { name: 'Labels' });
+
+      // Act
+      await user.selectOptions(within(manager).getByLabelText('Merge Bug into'), 'label-2');
+      await user.click(within(manager).getAllByRole('button', { name: 'Merge' })[0]!);
+
+      // Assert
+      expect(mockBoardStore.mergeLabels).toHaveBeenCalledWith('label-1', 'label-2');
+    });
+  });
+
+  describe('Card Details', () => {
+    const detailedBoard = {
+      ...mockBoard,
+      columns: [
+        {
+          id: 'col-1',
+          title: 'Todo',
+          order: 0,
+          cards: [
+            {
+              id: 'card-1',
+              content: 'First task',
+              order: 0,
+              description: 'Needs **care**',
+              priority: 'high' as const,
+              estimate: 3,
+              coverColor: '#22c55e',
+              commentCount: 2,
+              attachments: [
+                {
+                  id: 'attachment-1',
+                  fileName: 'mockup.png',
+                  contentType: 'image/png',
+                  size: 20480,
+                  hasThumbnail: true,
+                  cover: true,
+                  createdAt: '2025-09-16T10:00:00.000Z',
+                },
+                {
+                  id: 'attachment-2',
+                  fileName: 'spec.pdf',
+                  contentType: 'application/pdf',
+                  size: 1048576,
+                  hasThumbnail: false,
+                  cover: false,
+                  createdAt: '2025-09-16T10:05:00.000Z',
+                },
+              ],
+              checklists: [
+                {
+                  id: 'checklist-1',
+                  title: 'Steps',
+                  order: 0,
+                  items: [
+                    { id: 'item-1', text: 'Tag', done: true, order: 0 },
+                    { id: 'item-2', text: 'Build', done: false, order: 1 },
+                    { id: 'item-3', text: 'Ship', done: false, order: 2 },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      mockBoardStore.board = detailedBoard;
+      mockBoardStore.updateCardDetails.mockResolvedValue(true);
+    });
+
+    it('should show the cover, priority and estimate on the card', () => {
+      // Act
+      render(<Board boardId="test-id" />);
+
+      // Assert
+      const card = screen.getByTestId('card-card-1');
+      expect(within(card).getByTestId('card-cover')).toHaveStyle({ backgroundColor: '#22c55e' });
+      expect(within(card).getByText('High')).toBeInTheDocument();
+      expect(within(card).getByText('3 pts')).toBeInTheDocument();
+    });
+
+    it('should open the card details on click and render the description', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      render(<Board boardId="test-id" />);
+
+      // Act
+      await user.click(screen.getByText('First task'));
+      const dialog = await screen.findByRole('dialog', { name: 'First task' });
+      await user.click(within(dialog).getByRole('button', { name: 'Preview' }));
+
+      // Assert
+      expect(within(dialog).getByText('care').tagName).toBe('STRONG');
+    });
+
+    it('should save only the details that changed', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByText('First task'));
+      const dialog = await screen.findByRole('dialog');
+
+      // Act
+      await user.selectOptions(within(dialog).getByLabelText('Priority'), 'urgent');
+      await user.click(within(dialog).getByRole('button', { name: 'None' }));
+      await user.click(within(dialog).getByRole('button', { name: 'Save' }));
+
+      // Assert
+      expect(mockBoardStore.updateCardDetails).toHaveBeenCalledWith('card-1', {
+        priority: 'urgent',
+        coverColor: null,
+      });
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('should show checklist progress on the card', () => {
+      // Act
+      render(<Board boardId="test-id" />);
+
+      // Assert
+      const card = screen.getByTestId('card-card-1');
+      expect(within(card).getByTestId('card-checklist-progress')).toHaveTextContent('1/3');
+    });
+
+    it('should tick, reorder and add checklist items from the card details', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByText('First task'));
+      const checklist = within(await screen.findByRole('dialog')).getByRole('group', { name: 'Checklist Steps' });
+
+      // Act
+      await user.click(within(checklist).getByRole('checkbox', { name: 'Build' }));
+      await user.click(within(checklist).getByRole('button', { name: 'Move Ship up' }));
+      await user.type(within(checklist).getByLabelText('New item in Steps'), 'Announce{Enter}');
+
+      // Assert
+      expect(mockBoardStore.updateChecklistItem).toHaveBeenCalledWith('card-1', 'checklist-1', 'item-2', { done: true });
+      expect(mockBoardStore.moveChecklistItem).toHaveBeenCalledWith('card-1', 'checklist-1', 'item-3', 1);
+      expect(mockBoardStore.addChecklistItem).toHaveBeenCalledWith('card-1', 'checklist-1', 'Announce');
+      expect(mockBoardStore.updateCardDetails).not.toHaveBeenCalled();
+    });
+
+    it('should show the number of comments on the card', () => {
+      // Act
+      render(<Board boardId="test-id" />);
+
+      // Assert
+      expect(within(screen.getByTestId('card-card-1')).getByTestId('card-comment-count')).toHaveTextContent('2');
+    });
+
+    it('should show the cover image and the number of attachments on the card', () => {
+      // Act
+      render(<Board boardId="test-id" />);
+
+      // Assert
+      const card = screen.getByTestId('card-card-1');
+      expect(within(card).getByTestId('card-cover-image').getAttribute('src'))
+        .toMatch(/\/boards\/test-id\/cards\/card-1\/attachments\/attachment-1\/thumbnail$/);
+      expect(within(card).getByTestId('card-attachment-count')).toHaveTextContent('2');
+    });
+
+    it('should upload attachments and change the cover from the card details', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      mockBoardStore.uploadAttachment.mockResolvedValue(true);
+      const file = new File(['notes'], 'notes.txt', { type: 'text/plain' });
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByText('First task'));
+      const attachments = within(await screen.findByRole('dialog')).getByRole('region', { name: 'Attachments' });
+
+      // Act
+      await user.upload(within(attachments).getByLabelText('Upload attachment'), file);
+      await user.click(within(attachments).getByRole('button', { name: 'Remove cover mockup.png' }));
+
+      // Assert
+      expect(mockBoardStore.uploadAttachment).toHaveBeenCalledWith('card-1', file);
+      expect(mockBoardStore.setAttachmentCover).toHaveBeenCalledWith('card-1', 'attachment-1', false);
+      expect(within(attachments).getByRole('link', { name: 'spec.pdf' })).toHaveAttribute('target', '_blank');
+      expect(within(attachments).queryByRole('button', { name: /cover spec\.pdf/ })).not.toBeInTheDocument();
+    });
+
+    it('should load the comment thread of the opened card and post to it', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      mockBoardStore.addComment.mockResolvedValue(true);
+      mockBoardStore.comments = {
+        cardId: 'card-1',
+        entries: [
+          {
+            id: 'comment-1',
+            authorName: 'Ada',
+            body: 'Ship **Friday**?',
+            edited: true,
+            createdAt: '2025-09-09T10:00:00.000Z',
+            updatedAt: '2025-09-09T10:05:00.000Z',
+          },
+        ],
+        loading: false,
+        error: null,
+      };
+      render(<Board boardId="test-id" />);
+
+      // Act
+      await user.click(screen.getByText('First task'));
+      const thread = within(await screen.findByRole('dialog')).getByRole('region', { name: 'Comments' });
+      await user.type(within(thread).getByLabelText('New comment'), 'Monday is safer');
+      await user.click(within(thread).getByRole('button', { name: 'Comment' }));
+
+      // Assert
+      expect(mockBoardStore.loadComments).toHaveBeenLastCalledWith('test-id', 'card-1');
+      expect(within(thread).getByText('Friday').tagName).toBe('STRONG');
+      expect(within(thread).getByText('(edited)')).toBeInTheDocument();
+      expect(mockBoardStore.addComment).toHaveBeenCalledWith('card-1', 'Monday is safer');
+      expect(within(thread).getByLabelText('New comment')).toHaveValue('');
+    });
+
+    it('should not open the details when the card is double-clicked to edit', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      render(<Board boardId="test-id" />);
+
+      // Act
+      await user.dblClick(screen.getByText('First task'));
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      // Assert
+      expect(screen.getByDisplayValue('First task')).toBeInTheDocument();
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('should show the details read-only for view links', async () => {
+      // Arrange
+      mockBoardStore.access = 'view';
+      const user = userEvent.setup();
+      render(<Board boardId="test-id" />);
+
+      // Act
+      await user.click(screen.getByText('First task'));
+      const dialog = await screen.findByRole('dialog');
+
+      // Assert
+      expect(within(dialog).getByLabelText('Priority')).toBeDisabled();
+      expect(within(dialog).queryByRole('button', { name: 'Save' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Column Management', () => {
+    beforeEach(() => {
+      mockBoardStore.board = mockBoard;
+    });
+
+    it('should add a column from the empty state', async () => {
+      // Arrange
+      mockBoardStore.board = { ...mockBoard, columns: [] };
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: /add column/i }));
+      await user.type(screen.getByLabelText('New column title'), 'Backlog{Enter}');
+
+      // Assert
+      expect(mockBoardStore.addColumn).toHaveBeenCalledWith('Backlog');
+    });
+
+    it('should rename a column inline', async () => {
+      // Arrange
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.dblClick(screen.getByText('Todo (2)'));
+
+      const input = screen.getByLabelText('Column title');
+      await user.clear(input);
+      await user.type(input, 'Backlog{Enter}');
+
+      // Assert
+      expect(mockBoardStore.renameColumn).toHaveBeenCalledWith('col-1', 'Backlog');
+    });
+
+    it('should move a column with the arrow keys on its handle', async () => {
+      // Arrange
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      screen.getByRole('button', { name: 'Reorder Todo column' }).focus();
+      await user.keyboard('{ArrowRight}');
+
+      // Assert
+      expect(mockBoardStore.moveColumn).toHaveBeenCalledWith('col-1', 1);
+    });
+
+    it('should relocate cards when deleting a column', async () => {
+      // Arrange
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Delete Todo column' }));
+      await user.selectOptions(screen.getByLabelText('Target column'), 'col-3');
+      await user.click(screen.getByRole('button', { name: 'Delete column' }));
+
+      // Assert
+      expect(mockBoardStore.deleteColumn).toHaveBeenCalledWith('col-1', {
+        cards: 'move',
+        targetColumnId: 'col-3',
+      });
+    });
+
+    it('should delete an empty column without asking about cards', async () => {
+      // Arrange
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Delete Done column' }));
+
+      // Assert
+      expect(screen.queryByLabelText('Target column')).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Delete column' }));
+      expect(mockBoardStore.deleteColumn).toHaveBeenCalledWith('col-3', { cards: 'delete' });
+    });
+
+    it('should show the card count against the WIP limit and highlight full columns', () => {
+      // Arrange
+      mockBoardStore.board = {
+        ...mockBoard,
+        columns: mockBoard.columns.map(column => ({ ...column, wipLimit: 1 })),
+      };
+
+      // Act
+      render(<Board boardId="test-id" />);
+
+      // Assert
+      expect(screen.getByText('Todo (2/1)')).toBeInTheDocument();
+      expect(screen.getByText('In Progress (1/1)')).toBeInTheDocument();
+      expect(screen.getByRole('region', { name: /Todo column/ })).toHaveAttribute('data-over-limit', 'true');
+      expect(screen.getByRole('region', { name: /In Progress column/ })).not.toHaveAttribute('data-over-limit');
+    });
+
+    it('should set a WIP limit for a column', async () => {
+      // Arrange
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Set WIP limit for In Progress column' }));
+      await user.type(screen.getByLabelText('WIP limit'), '3');
+      await user.click(screen.getByRole('button', { name: 'Save' }));
+
+      // Assert
+      expect(mockBoardStore.setWipLimit).toHaveBeenCalledWith('col-2', 3);
+    });
+
+    it('should switch the board to blocking on WIP limits', async () => {
+      // Arrange
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.selectOptions(screen.getByLabelText('WIP limit mode'), 'block');
+
+      // Assert
+      expect(mockBoardStore.setWipMode).toHaveBeenCalledWith('block');
+    });
+  });
+
+  describe('Swimlanes', () => {
+    beforeEach(() => {
+      mockBoardStore.board = {
+        ...mockBoard,
+        swimlanes: [
+          { id: 'lane-1', title: 'Frontend', order: 0 },
+          { id: 'lane-2', title: 'Backend', order: 1 },
+        ],
+        columns: mockBoard.columns.map(column => ({
+          ...column,
+          cards: column.cards.map(card => (card.id === 'card-1' ? { ...card, swimlaneId: 'lane-1' } : card)),
+        })),
+      };
+    });
+
+    it('should show a row per lane across the columns on the grid layout', async () => {
+      // Arrange
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Swimlanes' }));
+
+      // Assert
+      expect(screen.getByRole('button', { name: 'Swimlanes' })).toHaveAttribute('aria-pressed', 'true');
+      const frontend = screen.getByRole('row', { name: 'Frontend lane' });
+      expect(within(frontend).getByText('First task')).toBeInTheDocument();
+      expect(within(frontend).getAllByRole('gridcell')).toHaveLength(3);
+      // Cards outside any lane share the last row
+      const noLane = screen.getByRole('row', { name: 'No lane' });
+      expect(within(noLane).getByText('Second task')).toBeInTheDocument();
+      expect(within(noLane).getByText('Work in progress')).toBeInTheDocument();
+    });
+
+    it('should add cards to the lane of the cell', async () => {
+      // Arrange
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Swimlanes' }));
+      await user.click(screen.getByRole('button', { name: 'Add card to In Progress column, Backend lane' }));
+
+      // Assert
+      expect(mockBoardStore.addCard).toHaveBeenCalledWith('col-2', undefined, 'lane-2');
+    });
+
+    it('should add, reorder and delete lanes', async () => {
+      // Arrange
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Swimlanes' }));
+      await user.click(screen.getByRole('button', { name: 'Add Lane' }));
+      await user.type(screen.getByLabelText('New lane title'), 'Design{Enter}');
+      await user.click(screen.getByRole('button', { name: 'Move Backend lane up' }));
+      await user.click(screen.getByRole('button', { name: 'Delete Frontend lane' }));
+
+      // Assert
+      expect(mockBoardStore.addSwimlane).toHaveBeenCalledWith('Design');
+      expect(mockBoardStore.moveSwimlane).toHaveBeenCalledWith('lane-2', 0);
+      expect(mockBoardStore.deleteSwimlane).toHaveBeenCalledWith('lane-1');
+      expect(screen.getByRole('button', { name: 'Move Frontend lane up' })).toBeDisabled();
+    });
+  });
+
   describe('Drag and Drop', () => {
     beforeEach(() => {
       mockBoardStore.board = mockBoard;
@@ -304,6 +1001,408 @@ describe('Board Component', () => {
     });
   });
 
+  describe('Export', () => {
+    it('should offer a download per format', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      mockBoardStore.board = mockBoard;
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Export' }));
+
+      // Assert
+      const items = within(screen.getByRole('menu', { name: 'Export board' })).getAllByRole('menuitem');
+      expect(items.map(item => item.getAttribute('href'))).toEqual([
+        expect.stringMatching(/\/boards\/test-id\/export\?format=json/),
+        expect.stringMatching(/\/boards\/test-id\/export\?format=csv/),
+        expect.stringMatching(/\/boards\/test-id\/export\?format=markdown/),
+      ]);
+    });
+  });
+
+  describe('Save as template', () => {
+    it('should save the board under the given name', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      mockBoardStore.board = mockBoard;
+      mockBoardStore.saveBoardAsTemplate.mockResolvedValue({
+        id: 'tpl-1',
+        name: 'Sprint',
+        description: '',
+        builtIn: false,
+        columns: ['To Do'],
+      });
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Save as template' }));
+      const name = screen.getByRole('textbox', { name: 'Template name' });
+      await user.clear(name);
+      await user.type(name, 'Sprint');
+      await user.click(screen.getByRole('button', { name: 'Save template' }));
+
+      // Assert
+      expect(mockBoardStore.saveBoardAsTemplate).toHaveBeenCalledWith('test-id', 'Sprint', '');
+      expect(await screen.findByText(/Saved “Sprint”/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Duplicate board', () => {
+    it('should copy the chosen parts and open the copy', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      const onOpenBoard = vi.fn();
+      mockBoardStore.board = mockBoard;
+      mockBoardStore.cloneBoard.mockResolvedValue('copy-id');
+
+      // Act
+      render(<Board boardId="test-id" onOpenBoard={onOpenBoard} />);
+      await user.click(screen.getByRole('button', { name: 'Duplicate board' }));
+      await user.click(screen.getByRole('radio', { name: /columns only/i }));
+      await user.click(screen.getByRole('button', { name: 'Duplicate' }));
+
+      // Assert
+      expect(mockBoardStore.cloneBoard).toHaveBeenCalledWith('test-id', 'columns', `${mockBoard.title} (copy)`);
+      expect(onOpenBoard).toHaveBeenCalledWith('copy-id');
+      expect(screen.queryByRole('dialog', { name: 'Duplicate board' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Conflicts', () => {
+    it('should offer to reload or merge when the board changed elsewhere', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      mockBoardStore.board = mockBoard;
+      mockBoardStore.conflict = { board: mockBoard, version: 2 };
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: /merge my changes/i }));
+
+      // Assert
+      expect(screen.getByRole('alert')).toHaveTextContent(/changed by someone else/i);
+      expect(screen.getByRole('button', { name: /reload board/i })).toBeInTheDocument();
+      expect(mockBoardStore.resolveConflict).toHaveBeenCalledWith('merge');
+    });
+  });
+
+  describe('Presence', () => {
+    const member = (id: string, name: string, editingCardId: string | null = null) => ({
+      id,
+      name,
+      color: '#2563eb',
+      editingCardId,
+      draggingCardId: null,
+    });
+
+    beforeEach(() => {
+      mockBoardStore.board = mockBoard;
+    });
+
+    it('should show everyone on the board in the header', () => {
+      // Arrange
+      mockBoardStore.presence = {
+        selfId: 'me',
+        members: [member('other', 'Anonymous Fox'), member('me', 'Anonymous Otter')],
+      };
+
+      // Act
+      render(<Board boardId="test-id" />);
+
+      // Assert
+      const avatars = screen.getAllByRole('listitem');
+      expect(avatars.map(avatar => avatar.getAttribute('aria-label'))).toEqual([
+        'Anonymous Otter (you)',
+        'Anonymous Fox',
+      ]);
+    });
+
+    it('should lock cards someone else is editing', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      mockBoardStore.presence = {
+        selfId: 'me',
+        members: [member('me', 'Anonymous Otter'), member('other', 'Anonymous Fox', 'card-1')],
+      };
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.dblClick(screen.getByText('First task'));
+
+      // Assert
+      expect(screen.getByTestId('card-lock')).toHaveTextContent('Anonymous Fox is editing');
+      expect(screen.queryByRole('textbox', { name: /card content/i })).not.toBeInTheDocument();
+      expect(mockBoardStore.setEditingCard).not.toHaveBeenCalled();
+    });
+
+    it('should report the card this tab is editing', async () => {
+      // Arrange
+      const user = userEvent.setup();
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.dblClick(screen.getByText('First task'));
+      await user.keyboard('{Escape}');
+
+      // Assert
+      expect(mockBoardStore.setEditingCard).toHaveBeenNthCalledWith(1, 'card-1');
+      expect(mockBoardStore.setEditingCard).toHaveBeenNthCalledWith(2, null);
+    });
+  });
+
+  describe('Undo and Redo', () => {
+    beforeEach(() => {
+      mockBoardStore.board = mockBoard;
+    });
+
+    it('should undo with Ctrl+Z and redo with Ctrl+Shift+Z', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      render(<Board boardId="test-id" />);
+
+      // Act
+      await user.keyboard('{Control>}z{/Control}');
+      await user.keyboard('{Control>}{Shift>}z{/Shift}{/Control}');
+
+      // Assert
+      expect(mockBoardStore.undo).toHaveBeenCalledTimes(1);
+      expect(mockBoardStore.redo).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave Ctrl+Z to text fields while editing', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      render(<Board boardId="test-id" />);
+      await user.dblClick(screen.getByText('First task'));
+
+      // Act
+      await user.keyboard('{Control>}z{/Control}');
+
+      // Assert
+      expect(mockBoardStore.undo).not.toHaveBeenCalled();
+    });
+
+    it('should disable the buttons when there is nothing to undo or redo', () => {
+      // Arrange
+      mockBoardStore.history = { past: [{}], future: [], busy: false, notice: "Couldn't undo move card" };
+
+      // Act
+      render(<Board boardId="test-id" />);
+
+      // Assert
+      expect(screen.getByRole('button', { name: 'Undo' })).toBeEnabled();
+      expect(screen.getByRole('button', { name: 'Redo' })).toBeDisabled();
+      expect(screen.getByText("Couldn't undo move card")).toBeInTheDocument();
+    });
+  });
+
+  describe('Activity', () => {
+    beforeEach(() => {
+      mockBoardStore.board = mockBoard;
+    });
+
+    it('should load and show the activity log when opened', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      mockBoardStore.activity = {
+        entries: [
+          {
+            id: 2,
+            action: 'card.created',
+            actorName: 'Anonymous Fox',
+            ipHash: 'abc',
+            before: null,
+            after: { content: 'First task' },
+            createdAt: new Date().toISOString(),
+          },
+        ],
+        nextCursor: 1,
+        loading: false,
+        error: null,
+      };
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Activity' }));
+      await user.click(screen.getByRole('button', { name: /show older activity/i }));
+
+      // Assert
+      expect(mockBoardStore.loadActivity).toHaveBeenCalledWith('test-id');
+      expect(screen.getByRole('complementary', { name: /board activity/i })).toHaveTextContent(
+        'Anonymous Fox added card "First task"'
+      );
+      expect(mockBoardStore.loadMoreActivity).toHaveBeenCalledWith('test-id');
+    });
+  });
+
+  describe('History', () => {
+    const snapshot: MockSnapshot = {
+      id: 'snap-1',
+      version: 4,
+      reason: 'manual',
+      createdAt: new Date().toISOString(),
+    };
+
+    beforeEach(() => {
+      mockBoardStore.board = mockBoard;
+    });
+
+    it('should load saved versions when opened', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      mockBoardStore.snapshots = { ...mockBoardStore.snapshots, entries: [snapshot] };
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'History' }));
+      await user.click(screen.getByRole('button', { name: /version 4/i }));
+
+      // Assert
+      expect(mockBoardStore.loadSnapshots).toHaveBeenCalledWith('test-id');
+      expect(mockBoardStore.selectSnapshot).toHaveBeenCalledWith('test-id', 'snap-1');
+    });
+
+    it('should preview the selected version read-only and restore it', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      const diff = emptyDiff();
+      diff.cards.added = [{ id: 'card-3', content: 'Work in progress', columnId: 'col-2' }];
+      mockBoardStore.snapshots = {
+        ...mockBoardStore.snapshots,
+        entries: [snapshot],
+        selected: {
+          ...snapshot,
+          board: {
+            ...mockBoard,
+            version: 4,
+            columns: [{ id: 'col-1', title: 'Todo', order: 0, cards: [{ id: 'old', content: 'Old task', order: 0 }] }],
+          },
+        },
+        diff,
+      };
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'History' }));
+
+      // Assert
+      const preview = screen.getByRole('region', { name: 'Board preview' });
+      expect(within(preview).getByRole('button', { name: 'Card: Old task' })).toBeInTheDocument();
+      expect(within(preview).queryByRole('button', { name: 'Add Card' })).not.toBeInTheDocument();
+      expect(within(preview).queryByRole('button', { name: /reorder/i })).not.toBeInTheDocument();
+      expect(within(preview).queryByRole('button', { name: 'Undo' })).not.toBeInTheDocument();
+      expect(screen.getByRole('list', { name: /changes since this version/i })).toHaveTextContent(
+        'Added card "Work in progress"'
+      );
+
+      // The preview does not load or subscribe to anything itself
+      expect(mockBoardStore.loadBoard).toHaveBeenCalledTimes(1);
+      expect(mockBoardStore.connectPresence).toHaveBeenCalledTimes(1);
+
+      // Act
+      await user.click(screen.getByRole('button', { name: 'Restore this version' }));
+
+      // Assert
+      expect(mockBoardStore.restoreSnapshot).toHaveBeenCalledWith('test-id', 'snap-1');
+    });
+  });
+
+  describe('Sharing', () => {
+    beforeEach(() => {
+      mockBoardStore.board = mockBoard;
+    });
+
+    it('should list share links and create and revoke them', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      const createdAt = new Date().toISOString();
+      mockBoardStore.sharing = {
+        ...mockBoardStore.sharing,
+        tokens: [
+          { id: 'tok-1', token: 'edit-secret', role: 'edit', createdAt },
+          { id: 'tok-2', token: 'view-secret', role: 'view', createdAt },
+        ],
+      };
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Share' }));
+
+      // Assert
+      const panel = screen.getByRole('complementary', { name: 'Share board' });
+      expect(mockBoardStore.loadTokens).toHaveBeenCalledWith('test-id');
+      expect(within(panel).getByRole('textbox', { name: 'Can view link' })).toHaveValue(
+        `${window.location.origin}/board/test-id?token=view-secret`
+      );
+
+      // The only edit link cannot be revoked
+      const [revokeEdit, revokeView] = within(panel).getAllByRole('button', { name: 'Revoke' });
+      expect(revokeEdit).toBeDisabled();
+
+      // Act
+      await user.click(revokeView!);
+      await user.click(within(panel).getByRole('button', { name: 'New view link' }));
+
+      // Assert
+      expect(mockBoardStore.revokeToken).toHaveBeenCalledWith('test-id', 'tok-2');
+      expect(mockBoardStore.createToken).toHaveBeenCalledWith('test-id', 'view');
+    });
+
+    it('should set a board password from the share panel', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      mockBoardStore.setBoardPassword.mockResolvedValue(true);
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.click(screen.getByRole('button', { name: 'Share' }));
+      await user.type(screen.getByLabelText('New board password'), 'correct horse');
+      await user.click(screen.getByRole('button', { name: 'Set password' }));
+
+      // Assert
+      expect(mockBoardStore.setBoardPassword).toHaveBeenCalledWith('test-id', 'correct horse');
+      expect(screen.getByLabelText('New board password')).toHaveValue('');
+    });
+
+    it('should show an unlock screen for password protected boards', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      mockBoardStore.lock = { locked: true, unlocking: false, error: 'Wrong password' };
+
+      // Act
+      render(<Board boardId="test-id" />);
+      await user.type(screen.getByLabelText('Board password'), 'correct horse');
+      await user.click(screen.getByRole('button', { name: 'Unlock' }));
+
+      // Assert
+      expect(screen.getByTestId('unlock-screen')).toBeInTheDocument();
+      expect(screen.queryByTestId('error-message')).not.toBeInTheDocument();
+      expect(screen.getByRole('alert')).toHaveTextContent('Wrong password');
+      expect(mockBoardStore.unlockBoard).toHaveBeenCalledWith('test-id', 'correct horse');
+      expect(mockBoardStore.subscribeToBoard).not.toHaveBeenCalled();
+      expect(mockBoardStore.connectPresence).not.toHaveBeenCalled();
+    });
+
+    it('should show the live board without editing controls to view links', () => {
+      // Arrange
+      mockBoardStore.access = 'view';
+
+      // Act
+      render(<Board boardId="test-id" />);
+
+      // Assert
+      expect(screen.getByRole('main', { name: 'Kanban board' })).toBeInTheDocument();
+      expect(screen.getByText('View only')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Card: First task' })).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Add Card' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /add column/i })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Undo' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Share' })).not.toBeInTheDocument();
+      expect(mockBoardStore.subscribeToBoard).toHaveBeenCalledWith('test-id');
+    });
+  });
+
   describe('Empty States', () => {
     it('should show empty state when board has no columns', () => {
       // Arrange
@@ -0,0 +1,1311 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useBoardStore, type Swimlane } from '../../store/board.store';
+import { getBoardSession, getBoardToken } from '../../utils/access';
+import apiClient from '../../utils/api';
+
+vi.mock('../../utils/api', () => ({
+  default: {
+    getBoard: vi.fn(),
+    getAccess: vi.fn(),
+    createSession: vi.fn(),
+    createBoard: vi.fn(),
+    importTrelloBoard: vi.fn(),
+    getTemplates: vi.fn(),
+    saveBoardAsTemplate: vi.fn(),
+    cloneBoard: vi.fn(),
+    updateBoard: vi.fn(),
+    addCard: vi.fn(),
+    updateCard: vi.fn(),
+    deleteCard: vi.fn(),
+    moveCard: vi.fn(),
+    updateColumn: vi.fn(),
+    updateBoardSettings: vi.fn(),
+    addSwimlane: vi.fn(),
+    moveSwimlane: vi.fn(),
+    deleteSwimlane: vi.fn(),
+    createLabel: vi.fn(),
+    deleteLabel: vi.fn(),
+    mergeLabel: vi.fn(),
+    createChecklist: vi.fn(),
+    addChecklistItem: vi.fn(),
+    updateChecklistItem: vi.fn(),
+    moveChecklistItem: vi.fn(),
+    deleteChecklistItem: vi.fn(),
+    getComments: vi.fn(),
+    addComment: vi.fn(),
+    updateComment: vi.fn(),
+    deleteComment: vi.fn(),
+    uploadAttachment: vi.fn(),
+    setAttachmentCover: vi.fn(),
+    deleteAttachment: vi.fn(),
+    getActivity: vi.fn(),
+    getSnapshots: vi.fn(),
+    restoreSnapshot: vi.fn(),
+    clientId: 'this-tab',
+    boardEventsUrl: vi.fn(
+      (boardId: string, lastEventId: string | null) =>
+        `/boards/${boardId}/events${lastEventId ? `?lastEventId=${lastEventId}` : ''}`
+    ),
+    presenceUrl: vi.fn((boardId: string) => `ws://api/boards/${boardId}/presence`),
+  },
+}));
+
+const mockApi = vi.mocked(apiClient);
+
+// Minimal stand-in for the browser's EventSource
+class FakeEventSource {
+  static readonly CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+
+  readyState = 1;
+  onopen: (() => void) | null = null;
+  onmessage: ((message: MessageEvent<string>) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+
+  emit(data: unknown, lastEventId = '') {
+    this.onmessage?.({ data: JSON.stringify(data), lastEventId } as MessageEvent<string>);
+  }
+}
+
+// Minimal stand-in for the browser's WebSocket
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((message: MessageEvent<string>) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code = 1000) {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code } as CloseEvent);
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  emit(data: unknown) {
+    this.onmessage?.({ data: JSON.stringify(data) } as MessageEvent<string>);
+  }
+}
+
+const boardFixture = () => ({
+  id: 'board-1',
+  title: 'Test Board',
+  createdAt: new Date(),
+  wipMode: 'warn' as const,
+  columns: [
+    {
+      id: 'col-1',
+      title: 'Todo',
+      order: 0,
+      cards: [
+        { id: 'card-1', content: 'First task', order: 0 },
+        { id: 'card-2', content: 'Second task', order: 1 },
+      ],
+    },
+    { id: 'col-2', title: 'Done', order: 1, cards: [] },
+  ],
+  labels: [
+    { id: 'label-1', name: 'Bug', color: '#ef4444' },
+    { id: 'label-2', name: 'Feature', color: '#3b82f6' },
+  ],
+  swimlanes: [] as Swimlane[],
+});
+
+describe('Board Store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useBoardStore.setState({
+      board: boardFixture(),
+      version: 1,
+      conflict: null,
+      history: { past: [], future: [], aliases: {}, busy: false, notice: null },
+      loading: false,
+      error: null,
+    });
+  });
+
+  describe('createBoard', () => {
+    it('should keep the edit link of the new board', async () => {
+      // Arrange
+      localStorage.clear();
+      mockApi.createBoard.mockResolvedValue({
+        data: { ...boardFixture(), id: 'board-2', version: 1, editToken: 'edit-secret' },
+      });
+
+      // Act
+      const boardId = await useBoardStore.getState().createBoard();
+
+      // Assert
+      expect(boardId).toBe('board-2');
+      expect(getBoardToken('board-2')).toBe('edit-secret');
+    });
+
+    it('should leave naming boards from a template to the API', async () => {
+      // Arrange
+      mockApi.createBoard.mockResolvedValue({
+        data: { ...boardFixture(), id: 'board-2', version: 1, editToken: 'edit-secret' },
+      });
+
+      // Act
+      await useBoardStore.getState().createBoard('scrum');
+
+      // Assert
+      expect(mockApi.createBoard).toHaveBeenCalledWith(undefined, 'scrum');
+    });
+  });
+
+  describe('cloneBoard', () => {
+    it('should keep the edit link of the copy', async () => {
+      // Arrange
+      localStorage.clear();
+      mockApi.cloneBoard.mockResolvedValue({
+        data: { ...boardFixture(), id: 'board-copy', version: 1, editToken: 'copy-secret' },
+      });
+
+      // Act
+      const boardId = await useBoardStore.getState().cloneBoard('board-1', 'cards', 'Sprint 13');
+
+      // Assert
+      expect(mockApi.cloneBoard).toHaveBeenCalledWith('board-1', 'cards', 'Sprint 13');
+      expect(boardId).toBe('board-copy');
+      expect(getBoardToken('board-copy')).toBe('copy-secret');
+    });
+  });
+
+  describe('templates', () => {
+    const template = (id: string, builtIn: boolean) => ({
+      id,
+      name: id,
+      description: '',
+      builtIn,
+      columns: ['Todo'],
+    });
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should list saved templates after the built-in ones', async () => {
+      // Arrange
+      mockApi.getTemplates.mockResolvedValue({ data: [template('scrum', true)] });
+      mockApi.saveBoardAsTemplate.mockResolvedValue({ data: template('ours', false) });
+      await useBoardStore.getState().saveBoardAsTemplate('board-1', 'ours', '');
+
+      // Act
+      const templates = await useBoardStore.getState().loadTemplates();
+
+      // Assert
+      expect(mockApi.saveBoardAsTemplate).toHaveBeenCalledWith('board-1', 'ours', '');
+      expect(templates.map(({ id }) => id)).toEqual(['scrum', 'ours']);
+    });
+
+    it('should keep the error when a template cannot be saved', async () => {
+      // Arrange
+      mockApi.saveBoardAsTemplate.mockResolvedValue({ error: 'HTTP 403: Forbidden' });
+
+      // Act
+      const saved = await useBoardStore.getState().saveBoardAsTemplate('board-1', 'ours', '');
+
+      // Assert
+      expect(saved).toBeNull();
+      expect(useBoardStore.getState().error).toBe('HTTP 403: Forbidden');
+      mockApi.getTemplates.mockResolvedValue({ data: [] });
+      expect(await useBoardStore.getState().loadTemplates()).toEqual([]);
+    });
+  });
+
+  describe('importTrelloBoard', () => {
+    it('should keep the edit link and report what was left out', async () => {
+      // Arrange
+      localStorage.clear();
+      const skipped = [{ field: 'cards.due', count: 2, reason: 'Due dates are not supported' }];
+      mockApi.importTrelloBoard.mockResolvedValue({
+        data: { ...boardFixture(), id: 'board-3', version: 1, editToken: 'edit-secret', skipped },
+      });
+
+      // Act
+      const result = await useBoardStore.getState().importTrelloBoard({ name: 'Launch', lists: [], cards: [] });
+
+      // Assert
+      expect(result).toEqual({ boardId: 'board-3', skipped });
+      expect(getBoardToken('board-3')).toBe('edit-secret');
+    });
+
+    it('should keep the error when the export is rejected', async () => {
+      // Arrange
+      mockApi.importTrelloBoard.mockResolvedValue({ error: 'HTTP 400: Bad Request' });
+
+      // Act
+      const result = await useBoardStore.getState().importTrelloBoard({});
+
+      // Assert
+      expect(result).toBeNull();
+      expect(useBoardStore.getState()).toMatchObject({ error: 'HTTP 400: Bad Request', loading: false });
+    });
+  });
+
+  describe('unlockBoard', () => {
+    beforeEach(() => {
+      sessionStorage.clear();
+    });
+
+    it('should lock instead of failing when the board needs a password', async () => {
+      // Arrange
+      mockApi.getBoard.mockResolvedValue({ error: 'This board is password protected', locked: true });
+      mockApi.getAccess.mockResolvedValue({ error: 'This board is password protected', locked: true });
+
+      // Act
+      await useBoardStore.getState().loadBoard('board-1');
+
+      // Assert
+      expect(useBoardStore.getState().lock.locked).toBe(true);
+      expect(useBoardStore.getState().error).toBeNull();
+    });
+
+    it('should keep the session and load the board once unlocked', async () => {
+      // Arrange
+      useBoardStore.setState({ lock: { locked: true, unlocking: false, error: null } });
+      mockApi.createSession.mockResolvedValue({ data: { token: 'session-1', expiresAt: new Date().toISOString() } });
+      mockApi.getBoard.mockResolvedValue({ data: { ...boardFixture(), version: 3 }, version: 3 });
+      mockApi.getAccess.mockResolvedValue({ data: { role: 'edit', passwordProtected: true } });
+
+      // Act
+      await useBoardStore.getState().unlockBoard('board-1', 'correct horse');
+
+      // Assert
+      expect(mockApi.createSession).toHaveBeenCalledWith('board-1', 'correct horse');
+      expect(getBoardSession('board-1')).toBe('session-1');
+      expect(useBoardStore.getState()).toMatchObject({
+        lock: { locked: false },
+        passwordProtected: true,
+        version: 3,
+      });
+    });
+
+    it('should report a wrong password and stay locked', async () => {
+      // Arrange
+      useBoardStore.setState({ lock: { locked: true, unlocking: false, error: null } });
+      mockApi.createSession.mockResolvedValue({ error: 'Wrong password', locked: true });
+
+      // Act
+      await useBoardStore.getState().unlockBoard('board-1', 'wrong horse');
+
+      // Assert
+      expect(useBoardStore.getState().lock).toEqual({ locked: true, unlocking: false, error: 'Wrong password' });
+      expect(mockApi.getBoard).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateBoard', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should apply updates locally and send one debounced PUT', async () => {
+      // Arrange
+      mockApi.updateBoard.mockResolvedValue({});
+
+      // Act
+      const first = useBoardStore.getState().updateBoard('board-1', { title: 'Draft' });
+      const second = useBoardStore.getState().updateBoard('board-1', { title: 'Final' });
+
+      // Assert - local state changes immediately, the request waits
+      expect(useBoardStore.getState().board?.title).toBe('Final');
+      expect(mockApi.updateBoard).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(400);
+      await Promise.all([first, second]);
+
+      expect(mockApi.updateBoard).toHaveBeenCalledTimes(1);
+      expect(mockApi.updateBoard).toHaveBeenCalledWith(
+        'board-1',
+        expect.objectContaining({ title: 'Final' }),
+        1
+      );
+    });
+  });
+
+  describe('addCard', () => {
+    it('should replace the pending card with the server-issued card', async () => {
+      // Arrange
+      mockApi.addCard.mockResolvedValue({
+        data: { id: 'server-id', columnId: 'col-2', content: 'New task', order: 0 },
+      });
+
+      // Act
+      await useBoardStore.getState().addCard('col-2', 'New task');
+
+      // Assert
+      const column = useBoardStore.getState().board?.columns[1];
+      expect(column?.cards).toEqual([{ id: 'server-id', content: 'New task', order: 0 }]);
+    });
+
+    it('should roll back the pending card when the API fails', async () => {
+      // Arrange
+      mockApi.addCard.mockResolvedValue({ error: 'HTTP 500: Internal Server Error' });
+
+      // Act
+      await useBoardStore.getState().addCard('col-2', 'New task');
+
+      // Assert
+      const state = useBoardStore.getState();
+      expect(state.board?.columns[1]?.cards).toEqual([]);
+      expect(state.error).toBe('HTTP 500: Internal Server Error');
+    });
+  });
+
+  describe('moveCard', () => {
+    it('should reorder optimistically and roll back on failure', async () => {
+      // Arrange
+      let rejectMove: (error: Error) => void = () => {};
+      mockApi.moveCard.mockReturnValue(
+        new Promise((_, reject) => {
+          rejectMove = reject;
+        })
+      );
+
+      // Act
+      const move = useBoardStore.getState().moveCard('card-1', 'col-1', 'col-2', 0);
+
+      // Assert - optimistic state
+      let columns = useBoardStore.getState().board!.columns;
+      expect(columns[0]!.cards).toEqual([{ id: 'card-2', content: 'Second task', order: 0 }]);
+      expect(columns[1]!.cards).toEqual([{ id: 'card-1', content: 'First task', order: 0 }]);
+
+      rejectMove(new Error('Network error'));
+      await move;
+
+      // Assert - rolled back
+      columns = useBoardStore.getState().board!.columns;
+      expect(columns[0]!.cards.map(card => card.id)).toEqual(['card-1', 'card-2']);
+      expect(columns[1]!.cards).toEqual([]);
+    });
+  });
+
+  describe('WIP limits', () => {
+    it('should set a column limit optimistically and roll back on failure', async () => {
+      // Arrange
+      mockApi.updateColumn.mockResolvedValue({ error: 'HTTP 400: Bad Request' });
+
+      // Act
+      const saving = useBoardStore.getState().setWipLimit('col-2', 2);
+
+      // Assert - optimistic state
+      expect(useBoardStore.getState().board?.columns[1]?.wipLimit).toBe(2);
+
+      expect(await saving).toBe(false);
+      expect(mockApi.updateColumn).toHaveBeenCalledWith('board-1', 'col-2', { wipLimit: 2 }, 1);
+      expect(useBoardStore.getState().board?.columns[1]?.wipLimit).toBeUndefined();
+    });
+
+    it('should switch the board mode', async () => {
+      // Arrange
+      mockApi.updateBoardSettings.mockResolvedValue({ data: { wipMode: 'block' }, version: 2 });
+
+      // Act
+      const saved = await useBoardStore.getState().setWipMode('block');
+
+      // Assert
+      expect(saved).toBe(true);
+      expect(mockApi.updateBoardSettings).toHaveBeenCalledWith('board-1', { wipMode: 'block' }, 1);
+      expect(useBoardStore.getState().board?.wipMode).toBe('block');
+    });
+
+    it('should refuse cards for a full column when the board blocks', async () => {
+      // Arrange
+      const board = boardFixture();
+      useBoardStore.setState({
+        board: {
+          ...board,
+          wipMode: 'block',
+          columns: board.columns.map(column => ({ ...column, wipLimit: 2 })),
+        },
+      });
+
+      // Act
+      const added = await useBoardStore.getState().addCard('col-1', 'One more');
+
+      // Assert
+      expect(added).toBeNull();
+      expect(mockApi.addCard).not.toHaveBeenCalled();
+      expect(useBoardStore.getState().board?.columns[0]?.cards).toHaveLength(2);
+      expect(useBoardStore.getState().error).toBe('Column "Todo" is at its WIP limit of 2');
+    });
+
+    it('should refuse moves into a full column when the board blocks', async () => {
+      // Arrange
+      const board = boardFixture();
+      useBoardStore.setState({
+        board: {
+          ...board,
+          wipMode: 'block',
+          columns: [
+            board.columns[0]!,
+            { ...board.columns[1]!, wipLimit: 1, cards: [{ id: 'card-3', content: 'Shipped', order: 0 }] },
+          ],
+        },
+      });
+
+      // Act
+      const moved = await useBoardStore.getState().moveCard('card-1', 'col-1', 'col-2', 0);
+
+      // Assert
+      expect(moved).toBe(false);
+      expect(mockApi.moveCard).not.toHaveBeenCalled();
+      expect(useBoardStore.getState().board?.columns[0]?.cards).toHaveLength(2);
+    });
+  });
+
+  describe('swimlanes', () => {
+    const lane = { id: 'lane-1', title: 'Frontend', order: 0 };
+
+    it('should add a lane once the server has created it', async () => {
+      // Arrange
+      mockApi.addSwimlane.mockResolvedValue({ data: lane, version: 2 });
+
+      // Act
+      const added = await useBoardStore.getState().addSwimlane('Frontend');
+
+      // Assert
+      expect(added).toBe(true);
+      expect(mockApi.addSwimlane).toHaveBeenCalledWith('board-1', 'Frontend', 1);
+      expect(useBoardStore.getState().board?.swimlanes).toEqual([lane]);
+    });
+
+    it('should move a card into a lane and undo back out of it', async () => {
+      // Arrange
+      useBoardStore.setState({ board: { ...boardFixture(), swimlanes: [lane] } });
+      mockApi.moveCard
+        .mockResolvedValueOnce({
+          data: {
+            columns: [
+              { id: 'col-1', title: 'Todo', order: 0, cards: [{ id: 'card-2', content: 'Second task', order: 0 }] },
+              {
+                id: 'col-2',
+                title: 'Done',
+                order: 1,
+                cards: [{ id: 'card-1', content: 'First task', order: 0, swimlaneId: 'lane-1' }],
+              },
+            ],
+          },
+          version: 2,
+        })
+        .mockResolvedValueOnce({ error: 'HTTP 500: Internal Server Error' });
+
+      // Act
+      const moving = useBoardStore.getState().moveCard('card-1', 'col-1', 'col-2', 0, 'lane-1');
+
+      // Assert - optimistic state
+      expect(useBoardStore.getState().board?.columns[1]?.cards[0]?.swimlaneId).toBe('lane-1');
+
+      expect(await moving).toBe(true);
+      expect(mockApi.moveCard).toHaveBeenCalledWith('board-1', 'card-1', 'col-1', 'col-2', 0, 1, 'lane-1');
+
+      await useBoardStore.getState().undo();
+      expect(mockApi.moveCard).toHaveBeenLastCalledWith('board-1', 'card-1', 'col-2', 'col-1', 0, 2, null);
+    });
+
+    it('should take the cards of a deleted lane out of it', async () => {
+      // Arrange
+      const board = boardFixture();
+      useBoardStore.setState({
+        board: {
+          ...board,
+          swimlanes: [lane, { id: 'lane-2', title: 'Backend', order: 1 }],
+          columns: board.columns.map(column => ({
+            ...column,
+            cards: column.cards.map(card => ({ ...card, swimlaneId: 'lane-1' })),
+          })),
+        },
+      });
+      mockApi.deleteSwimlane.mockResolvedValue({ version: 2 });
+
+      // Act
+      const deleted = await useBoardStore.getState().deleteSwimlane('lane-1');
+
+      // Assert
+      const state = useBoardStore.getState();
+      expect(deleted).toBe(true);
+      expect(state.board?.swimlanes).toEqual([{ id: 'lane-2', title: 'Backend', order: 0 }]);
+      expect(state.board?.columns[0]?.cards.map(card => card.swimlaneId)).toEqual([null, null]);
+    });
+
+    it('should put lanes back in order when the server refuses a move', async () => {
+      // Arrange
+      const lanes = [lane, { id: 'lane-2', title: 'Backend', order: 1 }];
+      useBoardStore.setState({ board: { ...boardFixture(), swimlanes: lanes } });
+      mockApi.moveSwimlane.mockResolvedValue({ error: 'HTTP 404: Not Found' });
+
+      // Act
+      const moved = await useBoardStore.getState().moveSwimlane('lane-2', 0);
+
+      // Assert
+      expect(moved).toBe(false);
+      expect(useBoardStore.getState().board?.swimlanes).toEqual(lanes);
+    });
+  });
+
+  describe('updateCardDetails', () => {
+    it('should apply the details optimistically and undo back to the previous values', async () => {
+      // Arrange
+      mockApi.updateCard.mockResolvedValue({ version: 2 });
+
+      // Act
+      const saved = await useBoardStore.getState().updateCardDetails('card-1', { priority: 'high', estimate: 3 });
+      await useBoardStore.getState().undo();
+
+      // Assert
+      expect(saved).toBe(true);
+      expect(mockApi.updateCard).toHaveBeenNthCalledWith(1, 'board-1', 'card-1', { priority: 'high', estimate: 3 }, 1);
+      expect(mockApi.updateCard).toHaveBeenNthCalledWith(2, 'board-1', 'card-1', { priority: null, estimate: null }, 2);
+      expect(useBoardStore.getState().board?.columns[0]?.cards[0]).toMatchObject({ priority: null, estimate: null });
+    });
+
+    it('should roll back when the API fails', async () => {
+      // Arrange
+      mockApi.updateCard.mockResolvedValue({ error: 'HTTP 400: Bad Request' });
+
+      // Act
+      const saved = await useBoardStore.getState().updateCardDetails('card-1', { description: 'Notes' });
+
+      // Assert
+      const state = useBoardStore.getState();
+      expect(saved).toBe(false);
+      expect(state.board?.columns[0]?.cards[0]).toEqual({ id: 'card-1', content: 'First task', order: 0 });
+      expect(state.error).toBe('HTTP 400: Bad Request');
+    });
+  });
+
+  describe('labels', () => {
+    it('should put labels on a card and undo back to none', async () => {
+      // Arrange
+      mockApi.updateCard.mockResolvedValue({ version: 2 });
+
+      // Act
+      const saved = await useBoardStore.getState().setCardLabels('card-1', ['label-1']);
+      await useBoardStore.getState().undo();
+
+      // Assert
+      expect(saved).toBe(true);
+      expect(mockApi.updateCard).toHaveBeenNthCalledWith(1, 'board-1', 'card-1', { labelIds: ['label-1'] }, 1);
+      expect(mockApi.updateCard).toHaveBeenNthCalledWith(2, 'board-1', 'card-1', { labelIds: [] }, 2);
+    });
+
+    it('should add a created label in name order', async () => {
+      // Arrange
+      mockApi.createLabel.mockResolvedValue({ data: { id: 'label-3', name: 'Chore', color: '#6b7280' }, version: 2 });
+
+      // Act
+      const created = await useBoardStore.getState().createLabel('Chore', '#6b7280');
+
+      // Assert
+      expect(created).toBe(true);
+      expect(useBoardStore.getState().board?.labels.map(label => label.name)).toEqual(['Bug', 'Chore', 'Feature']);
+    });
+
+    it('should take a deleted label off its cards', async () => {
+      // Arrange
+      mockApi.updateCard.mockResolvedValue({ version: 2 });
+      mockApi.deleteLabel.mockResolvedValue({ version: 3 });
+      await useBoardStore.getState().setCardLabels('card-1', ['label-1', 'label-2']);
+
+      // Act
+      await useBoardStore.getState().deleteLabel('label-1');
+
+      // Assert
+      const board = useBoardStore.getState().board;
+      expect(board?.labels.map(label => label.id)).toEqual(['label-2']);
+      expect(board?.columns[0]?.cards[0]?.labelIds).toEqual(['label-2']);
+    });
+
+    it('should give the cards of a merged label the target label', async () => {
+      // Arrange
+      mockApi.updateCard.mockResolvedValue({ version: 2 });
+      mockApi.mergeLabel.mockResolvedValue({ data: { id: 'label-2', name: 'Feature', color: '#3b82f6' }, version: 3 });
+      await useBoardStore.getState().setCardLabels('card-1', ['label-1']);
+
+      // Act
+      const merged = await useBoardStore.getState().mergeLabels('label-1', 'label-2');
+
+      // Assert
+      const board = useBoardStore.getState().board;
+      expect(merged).toBe(true);
+      expect(mockApi.mergeLabel).toHaveBeenCalledWith('board-1', 'label-1', 'label-2', 2);
+      expect(board?.labels.map(label => label.id)).toEqual(['label-2']);
+      expect(board?.columns[0]?.cards[0]?.labelIds).toEqual(['label-2']);
+    });
+
+    it('should roll back a failed merge', async () => {
+      // Arrange
+      mockApi.mergeLabel.mockResolvedValue({ error: 'HTTP 404: Not Found' });
+
+      // Act
+      const merged = await useBoardStore.getState().mergeLabels('label-1', 'label-2');
+
+      // Assert
+      const state = useBoardStore.getState();
+      expect(merged).toBe(false);
+      expect(state.board?.labels).toHaveLength(2);
+      expect(state.error).toBe('HTTP 404: Not Found');
+    });
+  });
+
+  describe('checklists', () => {
+    const checklist = {
+      id: 'checklist-1',
+      title: 'Steps',
+      order: 0,
+      items: [
+        { id: 'item-1', text: 'Tag', done: false, order: 0 },
+        { id: 'item-2', text: 'Build', done: false, order: 1 },
+      ],
+    };
+
+    const cardChecklists = () => useBoardStore.getState().board?.columns[0]?.cards[0]?.checklists;
+
+    beforeEach(() => {
+      useBoardStore.setState(state => ({
+        board: state.board && {
+          ...state.board,
+          columns: state.board.columns.map(column => ({
+            ...column,
+            cards: column.cards.map(card => (card.id === 'card-1' ? { ...card, checklists: [checklist] } : card))
+          }))
+        }
+      }));
+    });
+
+    it('should add a checklist from the server response', async () => {
+      // Arrange
+      const created = { id: 'checklist-2', title: 'Docs', order: 1, items: [] };
+      mockApi.createChecklist.mockResolvedValue({ data: created, version: 2 });
+
+      // Act
+      const id = await useBoardStore.getState().addChecklist('card-1', 'Docs');
+
+      // Assert
+      expect(id).toBe('checklist-2');
+      expect(mockApi.createChecklist).toHaveBeenCalledWith('board-1', 'card-1', 'Docs', 1);
+      expect(cardChecklists()).toEqual([checklist, created]);
+    });
+
+    it('should return the ID of an added item', async () => {
+      // Arrange
+      const item = { id: 'item-3', text: 'Ship', done: false, order: 2 };
+      mockApi.addChecklistItem.mockResolvedValue({ data: { ...checklist, items: [...checklist.items, item] }, version: 3 });
+
+      // Act
+      const id = await useBoardStore.getState().addChecklistItem('card-1', 'checklist-1', 'Ship');
+
+      // Assert
+      expect(id).toBe('item-3');
+      expect(cardChecklists()?.[0]?.items).toHaveLength(3);
+    });
+
+    it('should tick an item right away and roll back when the server refuses', async () => {
+      // Arrange
+      let respond: (value: { error: string }) => void = () => undefined;
+      mockApi.updateChecklistItem.mockReturnValue(new Promise(resolve => (respond = resolve)));
+
+      // Act
+      const saving = useBoardStore.getState().updateChecklistItem('card-1', 'checklist-1', 'item-1', { done: true });
+
+      // Assert
+      await vi.waitFor(() => expect(cardChecklists()?.[0]?.items[0]?.done).toBe(true));
+      respond({ error: 'HTTP 404: Not Found' });
+      expect(await saving).toBe(false);
+      expect(cardChecklists()?.[0]?.items[0]?.done).toBe(false);
+      expect(useBoardStore.getState().error).toBe('HTTP 404: Not Found');
+    });
+
+    it('should reorder items locally', async () => {
+      // Arrange
+      mockApi.moveChecklistItem.mockResolvedValue({ version: 3 });
+
+      // Act
+      await useBoardStore.getState().moveChecklistItem('card-1', 'checklist-1', 'item-2', 0);
+
+      // Assert
+      expect(mockApi.moveChecklistItem).toHaveBeenCalledWith('board-1', 'card-1', 'checklist-1', 'item-2', 0, 1);
+      expect(cardChecklists()?.[0]?.items.map(item => [item.id, item.order])).toEqual([
+        ['item-2', 0],
+        ['item-1', 1],
+      ]);
+    });
+  });
+
+  describe('comments', () => {
+    const comment = {
+      id: 'comment-1',
+      authorName: 'Ada',
+      body: 'Ship Friday?',
+      edited: false,
+      createdAt: '2025-09-09T10:00:00.000Z',
+      updatedAt: '2025-09-09T10:00:00.000Z',
+    };
+
+    it('should add a posted comment to the open thread and count it on the card', async () => {
+      // Arrange
+      mockApi.getComments.mockResolvedValue({ data: [] });
+      mockApi.addComment.mockResolvedValue({ data: comment, version: 2 });
+      await useBoardStore.getState().loadComments('board-1', 'card-1');
+
+      // Act
+      const posted = await useBoardStore.getState().addComment('card-1', 'Ship Friday?');
+
+      // Assert
+      const state = useBoardStore.getState();
+      expect(posted).toBe(true);
+      expect(mockApi.addComment).toHaveBeenCalledWith('board-1', 'card-1', 'Ship Friday?', 1);
+      expect(state.comments.entries).toEqual([comment]);
+      expect(state.board?.columns[0]?.cards[0]?.commentCount).toBe(1);
+    });
+
+    it('should ignore a thread that loads after another card was opened', async () => {
+      // Arrange
+      let respond: (value: { data: typeof comment[] }) => void = () => undefined;
+      mockApi.getComments
+        .mockReturnValueOnce(new Promise(resolve => (respond = resolve)))
+        .mockResolvedValueOnce({ data: [] });
+
+      // Act
+      const first = useBoardStore.getState().loadComments('board-1', 'card-1');
+      await useBoardStore.getState().loadComments('board-1', 'card-2');
+      respond({ data: [comment] });
+      await first;
+
+      // Assert
+      expect(useBoardStore.getState().comments).toMatchObject({ cardId: 'card-2', entries: [] });
+    });
+
+    it('should put back a comment the server refused to delete', async () => {
+      // Arrange
+      mockApi.getComments.mockResolvedValue({ data: [comment] });
+      mockApi.deleteComment.mockResolvedValue({ error: 'HTTP 404: Not Found' });
+      await useBoardStore.getState().loadComments('board-1', 'card-1');
+
+      // Act
+      const deleted = await useBoardStore.getState().deleteComment('card-1', 'comment-1');
+
+      // Assert
+      expect(deleted).toBe(false);
+      expect(useBoardStore.getState().comments.entries).toEqual([comment]);
+    });
+  });
+
+  describe('attachments', () => {
+    const attachment = (id: string, cover: boolean) => ({
+      id,
+      fileName: `${id}.png`,
+      contentType: 'image/png',
+      size: 2048,
+      hasThumbnail: true,
+      cover,
+      createdAt: '2025-09-16T10:00:00.000Z',
+    });
+
+    const cardAttachments = () => useBoardStore.getState().board?.columns[0]?.cards[0]?.attachments;
+
+    it('should take the uploaded attachments from the server', async () => {
+      // Arrange
+      const file = new File(['png'], 'mockup.png', { type: 'image/png' });
+      mockApi.uploadAttachment.mockResolvedValue({
+        data: { id: 'card-1', columnId: 'col-1', content: 'Card', order: 0, attachments: [attachment('mockup', true)] },
+        version: 2,
+      });
+
+      // Act
+      const uploaded = await useBoardStore.getState().uploadAttachment('card-1', file);
+
+      // Assert
+      expect(uploaded).toBe(true);
+      expect(mockApi.uploadAttachment).toHaveBeenCalledWith('board-1', 'card-1', file, null, 1);
+      expect(cardAttachments()).toEqual([attachment('mockup', true)]);
+    });
+
+    it('should refuse files over the size limit without uploading them', async () => {
+      // Arrange
+      const file = new File(['x'], 'huge.zip');
+      Object.defineProperty(file, 'size', { value: 11 * 1024 * 1024 });
+
+      // Act
+      const uploaded = await useBoardStore.getState().uploadAttachment('card-1', file);
+
+      // Assert
+      expect(uploaded).toBe(false);
+      expect(mockApi.uploadAttachment).not.toHaveBeenCalled();
+      expect(useBoardStore.getState().error).toBe('Files can be at most 10.0 MB');
+    });
+
+    it('should put the previous cover back when the server refuses the change', async () => {
+      // Arrange
+      useBoardStore.setState(state => ({
+        board: state.board && {
+          ...state.board,
+          columns: state.board.columns.map(column => ({
+            ...column,
+            cards: column.cards.map(card =>
+              card.id === 'card-1' ? { ...card, attachments: [attachment('first', true), attachment('second', false)] } : card
+            )
+          }))
+        }
+      }));
+      mockApi.setAttachmentCover.mockResolvedValue({ error: 'HTTP 404: Not Found' });
+
+      // Act
+      const changed = await useBoardStore.getState().setAttachmentCover('card-1', 'second', true);
+
+      // Assert
+      expect(changed).toBe(false);
+      expect(cardAttachments()?.map(({ cover }) => cover)).toEqual([true, false]);
+    });
+  });
+
+  describe('undo and redo', () => {
+    it('should restore a deleted card in place and delete it again on redo', async () => {
+      // Arrange
+      mockApi.deleteCard.mockResolvedValue({ version: 2 });
+      mockApi.addCard.mockResolvedValue({
+        data: { id: 'restored', columnId: 'col-1', content: 'First task', order: 1 },
+        version: 3,
+      });
+      mockApi.moveCard.mockResolvedValue({
+        data: {
+          columns: [{
+            id: 'col-1',
+            title: 'Todo',
+            order: 0,
+            cards: [
+              { id: 'restored', content: 'First task', order: 0 },
+              { id: 'card-2', content: 'Second task', order: 1 },
+            ],
+          }],
+        },
+        version: 4,
+      });
+      await useBoardStore.getState().deleteCard('card-1');
+
+      // Act
+      await useBoardStore.getState().undo();
+
+      // Assert
+      let state = useBoardStore.getState();
+      expect(mockApi.addCard).toHaveBeenCalledWith('board-1', 'col-1', 'First task', 2, undefined);
+      expect(mockApi.moveCard).toHaveBeenCalledWith('board-1', 'restored', 'col-1', 'col-1', 0, 3, null);
+      expect(state.board?.columns[0]?.cards.map(card => card.id)).toEqual(['restored', 'card-2']);
+      expect(state.history.past).toHaveLength(0);
+      expect(state.history.future).toHaveLength(1);
+
+      await useBoardStore.getState().redo();
+
+      // Assert - redo targets the card under its new ID
+      state = useBoardStore.getState();
+      expect(mockApi.deleteCard).toHaveBeenLastCalledWith('board-1', 'restored', 4);
+      expect(state.history.past).toHaveLength(1);
+      expect(state.history.future).toHaveLength(0);
+    });
+
+    it('should refuse to undo an edit someone else has changed since', async () => {
+      // Arrange
+      mockApi.updateCard.mockResolvedValue({ version: 2 });
+      await useBoardStore.getState().editCard('card-1', 'Mine');
+      const board = useBoardStore.getState().board!;
+      useBoardStore.setState({
+        board: {
+          ...board,
+          columns: board.columns.map(column => ({
+            ...column,
+            cards: column.cards.map(card => (card.id === 'card-1' ? { ...card, content: 'Theirs' } : card)),
+          })),
+        },
+      });
+
+      // Act
+      await useBoardStore.getState().undo();
+
+      // Assert
+      const state = useBoardStore.getState();
+      expect(mockApi.updateCard).toHaveBeenCalledTimes(1);
+      expect(state.board?.columns[0]?.cards[0]?.content).toBe('Theirs');
+      expect(state.history.past).toHaveLength(0);
+      expect(state.history.notice).toBe("Can't undo edit card: it was changed by someone else");
+    });
+
+    it('should keep the entry when the API rejects the undo', async () => {
+      // Arrange
+      mockApi.moveCard
+        .mockResolvedValueOnce({
+          data: {
+            columns: [
+              { id: 'col-1', title: 'Todo', order: 0, cards: [{ id: 'card-2', content: 'Second task', order: 0 }] },
+              { id: 'col-2', title: 'Done', order: 1, cards: [{ id: 'card-1', content: 'First task', order: 0 }] },
+            ],
+          },
+          version: 2,
+        })
+        .mockResolvedValueOnce({ error: 'HTTP 500: Internal Server Error' });
+      await useBoardStore.getState().moveCard('card-1', 'col-1', 'col-2', 0);
+
+      // Act
+      await useBoardStore.getState().undo();
+
+      // Assert
+      const state = useBoardStore.getState();
+      expect(mockApi.moveCard).toHaveBeenLastCalledWith('board-1', 'card-1', 'col-2', 'col-1', 0, 2, null);
+      expect(state.history.past).toHaveLength(1);
+      expect(state.history.notice).toBe("Couldn't undo move card");
+    });
+  });
+
+  describe('versions and conflicts', () => {
+    it('should send each write with the version produced by the previous one', async () => {
+      // Arrange
+      mockApi.updateCard.mockResolvedValueOnce({ version: 2 }).mockResolvedValueOnce({ version: 3 });
+
+      // Act
+      await Promise.all([
+        useBoardStore.getState().editCard('card-1', 'Edited once'),
+        useBoardStore.getState().editCard('card-2', 'Edited twice'),
+      ]);
+
+      // Assert
+      expect(mockApi.updateCard).toHaveBeenNthCalledWith(1, 'board-1', 'card-1', { content: 'Edited once' }, 1);
+      expect(mockApi.updateCard).toHaveBeenNthCalledWith(2, 'board-1', 'card-2', { content: 'Edited twice' }, 2);
+      expect(useBoardStore.getState().version).toBe(3);
+    });
+
+    it('should record a conflict instead of an error and merge by replaying the edit', async () => {
+      // Arrange
+      const serverBoard = { ...boardFixture(), title: 'Renamed elsewhere', version: 5 };
+      mockApi.updateCard
+        .mockResolvedValueOnce({ error: 'Board has been changed by someone else', conflict: serverBoard })
+        .mockResolvedValueOnce({ version: 6 });
+
+      // Act
+      await useBoardStore.getState().editCard('card-1', 'Mine');
+
+      // Assert - rolled back and waiting for the user
+      let state = useBoardStore.getState();
+      expect(state.error).toBeNull();
+      expect(state.conflict?.version).toBe(5);
+      expect(state.board?.columns[0]?.cards[0]?.content).toBe('First task');
+
+      await useBoardStore.getState().resolveConflict('merge');
+
+      // Assert - server copy with the edit re-applied
+      state = useBoardStore.getState();
+      expect(state.conflict).toBeNull();
+      expect(state.board?.title).toBe('Renamed elsewhere');
+      expect(state.board?.columns[0]?.cards[0]?.content).toBe('Mine');
+      expect(mockApi.updateCard).toHaveBeenLastCalledWith('board-1', 'card-1', { content: 'Mine' }, 5);
+      expect(state.version).toBe(6);
+    });
+  });
+
+  describe('subscribeToBoard', () => {
+    beforeEach(() => {
+      FakeEventSource.instances = [];
+      vi.stubGlobal('EventSource', FakeEventSource);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    });
+
+    const cardCreated = (clientId: string, version: number) => ({
+      type: 'card.created',
+      card: { id: `card-${version}`, columnId: 'col-2', content: 'Remote task', order: 0 },
+      id: `epoch-${version}`,
+      version,
+      clientId,
+    });
+
+    it('should apply changes from other clients and skip its own', () => {
+      // Arrange
+      const unsubscribe = useBoardStore.getState().subscribeToBoard('board-1');
+      const [source] = FakeEventSource.instances;
+
+      // Act
+      source!.emit(cardCreated('this-tab', 2), 'epoch-2');
+      source!.emit(cardCreated('other-tab', 3), 'epoch-3');
+
+      // Assert
+      const state = useBoardStore.getState();
+      expect(state.board?.columns[1]?.cards.map(card => card.id)).toEqual(['card-3']);
+      expect(state.version).toBe(3);
+
+      unsubscribe();
+      expect(source!.readyState).toBe(FakeEventSource.CLOSED);
+    });
+
+    it('should reconnect from the last event once the stream closes', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      useBoardStore.getState().subscribeToBoard('board-1');
+      const [source] = FakeEventSource.instances;
+      source!.emit(cardCreated('other-tab', 2), 'epoch-2');
+
+      // Act
+      source!.close();
+      source!.onerror?.();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      // Assert
+      expect(FakeEventSource.instances).toHaveLength(2);
+      expect(FakeEventSource.instances[1]!.url).toBe('/boards/board-1/events?lastEventId=epoch-2');
+    });
+
+    it('should reload the board when the stream asks for a resync', async () => {
+      // Arrange
+      mockApi.getBoard.mockResolvedValue({
+        data: { ...boardFixture(), title: 'Fresh copy', version: 9 },
+      });
+      useBoardStore.getState().subscribeToBoard('board-1');
+
+      // Act
+      FakeEventSource.instances[0]!.emit({ type: 'resync' });
+      await vi.waitFor(() => expect(useBoardStore.getState().version).toBe(9));
+
+      // Assert
+      expect(useBoardStore.getState().board?.title).toBe('Fresh copy');
+      expect(useBoardStore.getState().loading).toBe(false);
+    });
+  });
+
+  describe('connectPresence', () => {
+    const member = (id: string, editingCardId: string | null = null) => ({
+      id,
+      name: `Anonymous ${id}`,
+      color: '#2563eb',
+      editingCardId,
+      draggingCardId: null,
+    });
+
+    beforeEach(() => {
+      FakeWebSocket.instances = [];
+      vi.stubGlobal('WebSocket', FakeWebSocket);
+      localStorage.clear();
+      useBoardStore.setState({ presence: { selfId: null, members: [] } });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    });
+
+    it('should introduce itself and track the members on the board', () => {
+      // Arrange
+      const disconnect = useBoardStore.getState().connectPresence('board-1');
+      const [socket] = FakeWebSocket.instances;
+
+      // Act
+      socket!.open();
+      socket!.emit({ type: 'welcome', id: 'me', members: [] });
+      socket!.emit({ type: 'presence', members: [member('me'), member('other', 'card-1')] });
+
+      // Assert
+      expect(socket!.url).toBe('ws://api/boards/board-1/presence');
+      expect(socket!.sent[0]).toMatchObject({ type: 'hello', name: expect.stringMatching(/^Anonymous /) });
+      expect(useBoardStore.getState().presence).toEqual({
+        selfId: 'me',
+        members: [member('me'), member('other', 'card-1')],
+      });
+
+      disconnect();
+      expect(useBoardStore.getState().presence.members).toEqual([]);
+    });
+
+    it('should report the card being edited and repeat it after reconnecting', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      const disconnect = useBoardStore.getState().connectPresence('board-1');
+      const [first] = FakeWebSocket.instances;
+      first!.open();
+
+      // Act
+      useBoardStore.getState().setEditingCard('card-1');
+      first!.close(1006);
+      await vi.advanceTimersByTimeAsync(1000);
+      const second = FakeWebSocket.instances[1];
+      second!.open();
+
+      // Assert
+      expect(first!.sent).toContainEqual({ type: 'editing', cardId: 'card-1' });
+      expect(second!.sent.map(message => (message as { type: string }).type)).toEqual(['hello', 'editing']);
+
+      useBoardStore.getState().setEditingCard(null);
+      disconnect();
+    });
+
+    it('should stop reconnecting when the board does not exist', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      useBoardStore.getState().connectPresence('missing');
+
+      // Act
+      FakeWebSocket.instances[0]!.close(4404);
+      await vi.advanceTimersByTimeAsync(30000);
+
+      // Assert
+      expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+
+    it('should stop reconnecting when the link does not grant access', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      useBoardStore.getState().connectPresence('board-1');
+
+      // Act
+      FakeWebSocket.instances[0]!.close(4403);
+      await vi.advanceTimersByTimeAsync(30000);
+
+      // Assert
+      expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+  });
+
+  describe('activity', () => {
+    const entry = (id: number) => ({
+      id,
+      action: 'card.created' as const,
+      actorName: null,
+      ipHash: null,
+      before: null,
+      after: { content: `Card ${id}` },
+      createdAt: '2025-07-22T09:00:00.000Z',
+    });
+
+    beforeEach(() => {
+      useBoardStore.setState({
+        activity: { entries: [], nextCursor: null, loading: false, error: null },
+      });
+    });
+
+    it('should append older pages after the first one', async () => {
+      // Arrange
+      mockApi.getActivity
+        .mockResolvedValueOnce({ data: { activities: [entry(3), entry(2)], nextCursor: 2 } })
+        .mockResolvedValueOnce({ data: { activities: [entry(1)], nextCursor: null } });
+
+      // Act
+      await useBoardStore.getState().loadActivity('board-1');
+      await useBoardStore.getState().loadMoreActivity('board-1');
+
+      // Assert
+      expect(mockApi.getActivity).toHaveBeenNthCalledWith(1, 'board-1', null);
+      expect(mockApi.getActivity).toHaveBeenNthCalledWith(2, 'board-1', 2);
+      const { activity } = useBoardStore.getState();
+      expect(activity.entries.map(item => item.id)).toEqual([3, 2, 1]);
+      expect(activity.nextCursor).toBeNull();
+    });
+
+    it('should keep loaded entries when a page fails', async () => {
+      // Arrange
+      useBoardStore.setState({
+        activity: { entries: [entry(3)], nextCursor: 3, loading: false, error: null },
+      });
+      mockApi.getActivity.mockResolvedValue({ error: 'HTTP 500: Internal Server Error' });
+
+      // Act
+      await useBoardStore.getState().loadMoreActivity('board-1');
+
+      // Assert
+      const { activity } = useBoardStore.getState();
+      expect(activity.entries).toHaveLength(1);
+      expect(activity.error).toBe('HTTP 500: Internal Server Error');
+      expect(activity.loading).toBe(false);
+    });
+  });
+
+  describe('restoreSnapshot', () => {
+    const snapshot = {
+      id: 'snap-1',
+      version: 1,
+      reason: 'manual' as const,
+      createdAt: '2025-07-29T09:00:00.000Z',
+    };
+
+    beforeEach(() => {
+      useBoardStore.setState({
+        snapshots: { entries: [snapshot], selected: { ...snapshot, board: { ...boardFixture(), version: 1 } }, diff: null, loading: false, error: null },
+      });
+    });
+
+    it('should replace the board, clear undo history and reload the versions', async () => {
+      // Arrange
+      const restored = { ...boardFixture(), title: 'Restored', version: 4 };
+      mockApi.restoreSnapshot.mockResolvedValue({ data: restored, version: 4 });
+      mockApi.getSnapshots.mockResolvedValue({
+        data: [{ ...snapshot, id: 'snap-2', reason: 'restore', version: 3 }, snapshot],
+      });
+      useBoardStore.setState({
+        version: 3,
+        history: {
+          past: [{ label: 'add card', undo: vi.fn(), redo: vi.fn() }],
+          future: [],
+          aliases: {},
+          busy: false,
+          notice: null,
+        },
+      });
+
+      // Act
+      const restoredOk = await useBoardStore.getState().restoreSnapshot('board-1', 'snap-1');
+
+      // Assert
+      expect(restoredOk).toBe(true);
+      expect(mockApi.restoreSnapshot).toHaveBeenCalledWith('board-1', 'snap-1', 3);
+
+      const state = useBoardStore.getState();
+      expect(state.board?.title).toBe('Restored');
+      expect(state.version).toBe(4);
+      expect(state.history.past).toEqual([]);
+      expect(state.snapshots.selected).toBeNull();
+      expect(state.snapshots.entries.map(entry => entry.id)).toEqual(['snap-2', 'snap-1']);
+    });
+
+    it('should keep the board and report the error when the restore fails', async () => {
+      // Arrange
+      mockApi.restoreSnapshot.mockResolvedValue({ error: 'HTTP 404: Not Found' });
+
+      // Act
+      const restoredOk = await useBoardStore.getState().restoreSnapshot('board-1', 'snap-1');
+
+      // Assert
+      expect(restoredOk).toBe(false);
+
+      const state = useBoardStore.getState();
+      expect(state.board?.title).toBe('Test Board');
+      expect(state.snapshots.error).toBe('HTTP 404: Not Found');
+      expect(state.snapshots.selected?.id).toBe('snap-1');
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getBoardToken, getShareUrl, saveBoardToken } from '../../utils/access';
+
+describe('access', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep one token per board', () => {
+    // Act
+    saveBoardToken('board-1', 'first');
+    saveBoardToken('board-2', 'second');
+    saveBoardToken('board-1', 'replaced');
+
+    // Assert
+    expect(getBoardToken('board-1')).toBe('replaced');
+    expect(getBoardToken('board-2')).toBe('second');
+    expect(getBoardToken('board-3')).toBeNull();
+  });
+
+  it('should ignore stored tokens that cannot be read', () => {
+    // Arrange
+    localStorage.setItem('kanban.tokens', 'not json');
+
+    // Act
+    saveBoardToken('board-1', 'token');
+
+    // Assert
+    expect(getBoardToken('board-1')).toBe('token');
+  });
+
+  it('should build share links that carry the token', () => {
+    expect(getShareUrl('board-1', 'a+b', 'https://kanban.example')).toBe(
+      'https://kanban.example/board/board-1?token=a%2Bb'
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { describeActivity, type ActivityEntry } from '../../utils/activity';
+
+const entry = (action: ActivityEntry['action'], before: unknown, after: unknown): ActivityEntry => ({
+  id: 1,
+  action,
+  actorName: 'Anonymous Otter',
+  ipHash: null,
+  before,
+  after,
+  createdAt: '2025-07-22T09:00:00.000Z',
+});
+
+describe('describeActivity', () => {
+  it('should name cards after the change', () => {
+    expect(describeActivity(entry('card.created', null, { content: 'Fix bug' })))
+      .toBe('added card "Fix bug"');
+    expect(describeActivity(entry('card.updated', { content: 'Draft' }, { content: 'Final' })))
+      .toBe('edited card "Draft" to "Final"');
+  });
+
+  it('should name deleted items from the state before the change', () => {
+    expect(describeActivity(entry('card.deleted', { content: 'Old' }, null))).toBe('deleted card "Old"');
+    expect(describeActivity(entry('column.deleted', { title: 'Later' }, null))).toBe('deleted column "Later"');
+  });
+
+  it('should tell board renames apart from other full-board saves', () => {
+    expect(describeActivity(entry('board.replaced', { title: 'A' }, { title: 'B' })))
+      .toBe('renamed the board to "B"');
+    expect(describeActivity(entry('board.replaced', { title: 'A' }, { title: 'A' })))
+      .toBe('updated the board');
+  });
+
+  it('should report column moves as one-based positions', () => {
+    expect(describeActivity(entry('column.moved', { title: 'Done', order: 2 }, { title: 'Done', order: 0 })))
+      .toBe('moved column "Done" to position 1');
+  });
+
+  it('should describe WIP limit changes', () => {
+    expect(describeActivity(entry('column.updated', { title: 'Doing', wipLimit: null }, { title: 'Doing', wipLimit: 3 })))
+      .toBe('set the WIP limit of column "Doing" to 3');
+    expect(describeActivity(entry('board.updated', { wipMode: 'warn' }, { wipMode: 'block' })))
+      .toBe('made WIP limits block cards');
+  });
+
+  it('should describe swimlane changes by title', () => {
+    expect(describeActivity(entry('swimlane.updated', { title: 'Web' }, { title: 'Frontend' })))
+      .toBe('renamed swimlane "Web" to "Frontend"');
+    expect(describeActivity(entry('swimlane.moved', { title: 'Backend', order: 1 }, { title: 'Backend', order: 0 })))
+      .toBe('moved swimlane "Backend" to position 1');
+  });
+
+  it('should describe label changes by name', () => {
+    expect(describeActivity(entry('label.updated', { name: 'Bug' }, { name: 'Defect' })))
+      .toBe('renamed label "Bug" to "Defect"');
+    expect(describeActivity(entry('label.merged', { name: 'Bugs' }, { name: 'Bug', cardIds: [] })))
+      .toBe('merged label "Bugs" into "Bug"');
+  });
+
+  it('should describe checklist item changes as updates', () => {
+    expect(describeActivity(entry('checklist.updated', { title: 'Steps', items: [] }, { title: 'Steps', items: [{}] })))
+      .toBe('updated checklist "Steps"');
+  });
+
+  it('should describe comment changes without the comment text', () => {
+    expect(describeActivity(entry('comment.created', null, { cardId: 'card-1', body: 'Secret plan' })))
+      .toBe('added a comment');
+  });
+
+  it('should describe attachment changes by file name', () => {
+    expect(describeActivity(entry('attachment.created', null, { cardId: 'card-1', fileName: 'mockup.png' })))
+      .toBe('attached "mockup.png"');
+    expect(describeActivity(entry('attachment.updated', { fileName: 'mockup.png', cover: false }, { fileName: 'mockup.png', cover: true })))
+      .toBe('made "mockup.png" the card cover');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { apiClient } from '../../utils/api';
+
+const respond = (status: number, statusText: string, body?: unknown) => {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+    new Response(body === undefined ? null : JSON.stringify(body), { status, statusText })
+  ));
+};
+
+describe('apiClient errors', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should pass on the error the server gives', async () => {
+    // Arrange
+    respond(422, 'Unprocessable Entity', { error: 'Column "Doing" is at its WIP limit of 2' });
+
+    // Act
+    const response = await apiClient.addCard('board-1', 'column-1', 'Ship it', 3);
+
+    // Assert
+    expect(response.error).toBe('Column "Doing" is at its WIP limit of 2');
+  });
+
+  it('should prefer the message of errors Fastify answers itself', async () => {
+    // Arrange
+    respond(429, 'Too Many Requests', {
+      statusCode: 429,
+      error: 'Too Many Requests',
+      message: 'Rate limit exceeded, retry in 1 minute',
+    });
+
+    // Act
+    const response = await apiClient.getBoard('board-1');
+
+    // Assert
+    expect(response.error).toBe('Rate limit exceeded, retry in 1 minute');
+  });
+
+  it('should fall back to the status without an error in the body', async () => {
+    // Arrange
+    respond(502, 'Bad Gateway');
+
+    // Act
+    const response = await apiClient.getBoard('board-1');
+
+    // Assert
+    expect(response.error).toBe('HTTP 502: Bad Gateway');
+  });
+});
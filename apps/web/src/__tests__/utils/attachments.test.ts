@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import type { Attachment } from '../../store/board.store';
+import { coverAttachment, createThumbnail, formatFileSize, withCover } from '../../utils/attachments';
+
+const attachment = (id: string, cover = false): Attachment => ({
+  id,
+  fileName: `${id}.png`,
+  contentType: 'image/png',
+  size: 1024,
+  hasThumbnail: true,
+  cover,
+  createdAt: '2025-09-16T10:00:00.000Z',
+});
+
+describe('formatFileSize', () => {
+  it('should use the largest unit the size fills', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(2048)).toBe('2 KB');
+    expect(formatFileSize(3.5 * 1024 * 1024)).toBe('3.5 MB');
+  });
+});
+
+describe('withCover', () => {
+  it('should keep at most one cover', () => {
+    const attachments = withCover([attachment('a', true), attachment('b')], 'b', true);
+
+    expect(attachments.map(({ cover }) => cover)).toEqual([false, true]);
+    expect(coverAttachment({ attachments })?.id).toBe('b');
+  });
+
+  it('should take a cover down without picking another', () => {
+    const attachments = withCover([attachment('a', true), attachment('b')], 'a', false);
+
+    expect(coverAttachment({ attachments })).toBeNull();
+  });
+});
+
+describe('createThumbnail', () => {
+  it('should leave files that are not images without one', async () => {
+    expect(await createThumbnail(new File(['notes'], 'notes.txt', { type: 'text/plain' }))).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import type { Swimlane } from '../../store/board.store';
+import { applyBoardChange } from '../../utils/board-events';
+
+const board = {
+  id: 'board-1',
+  title: 'Team Board',
+  createdAt: new Date(),
+  wipMode: 'warn' as const,
+  columns: [
+    {
+      id: 'col-1',
+      title: 'Todo',
+      order: 0,
+      cards: [
+        { id: 'card-1', content: 'First task', order: 0 },
+        { id: 'card-2', content: 'Second task', order: 1 },
+      ],
+    },
+    { id: 'col-2', title: 'Done', order: 1, cards: [] },
+  ],
+  labels: [{ id: 'label-1', name: 'Bug', color: '#ef4444' }],
+  swimlanes: [] as Swimlane[],
+};
+
+describe('applyBoardChange', () => {
+  it('should add a created card once, even when applied twice', () => {
+    // Arrange
+    const change = {
+      type: 'card.created',
+      card: { id: 'card-3', columnId: 'col-2', content: 'Remote task', order: 0 },
+    } as const;
+
+    // Act
+    const updated = applyBoardChange(applyBoardChange(board, change), change);
+
+    // Assert
+    expect(updated.columns[1]?.cards).toEqual([{ id: 'card-3', content: 'Remote task', order: 0 }]);
+  });
+
+  it('should keep the details of an updated card', () => {
+    // Act
+    const updated = applyBoardChange(board, {
+      type: 'card.updated',
+      card: { id: 'card-1', columnId: 'col-1', content: 'First task', order: 0, priority: 'high', estimate: 5 },
+    });
+
+    // Assert
+    expect(updated.columns[0]?.cards).toContainEqual({
+      id: 'card-1',
+      content: 'First task',
+      order: 0,
+      priority: 'high',
+      estimate: 5,
+    });
+  });
+
+  it('should remove a deleted card and close the gap', () => {
+    // Act
+    const updated = applyBoardChange(board, { type: 'card.deleted', cardId: 'card-1' });
+
+    // Assert
+    expect(updated.columns[0]?.cards).toEqual([{ id: 'card-2', content: 'Second task', order: 0 }]);
+  });
+
+  it('should take the server contents of columns affected by a move', () => {
+    // Act
+    const updated = applyBoardChange(board, {
+      type: 'card.moved',
+      columns: [
+        { id: 'col-1', title: 'Todo', order: 0, cards: [{ id: 'card-2', content: 'Second task', order: 0 }] },
+        { id: 'col-2', title: 'Done', order: 1, cards: [{ id: 'card-1', content: 'First task', order: 0 }] },
+      ],
+    });
+
+    // Assert
+    expect(updated.columns.map(column => column.cards.map(card => card.id))).toEqual([
+      ['card-2'],
+      ['card-1'],
+    ]);
+  });
+
+  it('should reorder columns without touching their cards', () => {
+    // Act
+    const updated = applyBoardChange(board, {
+      type: 'column.moved',
+      columns: [
+        { id: 'col-2', title: 'Done', order: 0 },
+        { id: 'col-1', title: 'Todo', order: 1 },
+      ],
+    });
+
+    // Assert
+    expect(updated.columns.map(column => [column.id, column.order])).toEqual([
+      ['col-1', 1],
+      ['col-2', 0],
+    ]);
+    expect(updated.columns[0]?.cards).toHaveLength(2);
+  });
+
+  it('should take WIP limits and the board mode from their events', () => {
+    // Act
+    const updated = applyBoardChange(
+      applyBoardChange(board, { type: 'column.updated', column: { id: 'col-1', title: 'Todo', order: 0, wipLimit: 3 } }),
+      { type: 'board.updated', settings: { wipMode: 'block' } }
+    );
+
+    // Assert
+    expect(updated.wipMode).toBe('block');
+    expect(updated.columns[0]).toMatchObject({ title: 'Todo', wipLimit: 3 });
+    expect(updated.columns[0]?.cards).toHaveLength(2);
+  });
+
+  it('should keep labels sorted by name as they are created and renamed', () => {
+    // Act
+    const created = applyBoardChange(board, {
+      type: 'label.created',
+      label: { id: 'label-2', name: 'Feature', color: '#3b82f6' },
+    });
+    const renamed = applyBoardChange(created, {
+      type: 'label.updated',
+      label: { id: 'label-1', name: 'Regression', color: '#ef4444' },
+    });
+
+    // Assert
+    expect(created.labels.map(label => label.name)).toEqual(['Bug', 'Feature']);
+    expect(renamed.labels.map(label => label.name)).toEqual(['Feature', 'Regression']);
+  });
+
+  it('should replace and remove checklists on the card', () => {
+    // Arrange
+    const checklist = {
+      id: 'checklist-1',
+      title: 'Steps',
+      order: 0,
+      items: [{ id: 'item-1', text: 'Tag', done: false, order: 0 }],
+    };
+    const created = applyBoardChange(board, { type: 'checklist.created', cardId: 'card-2', checklist });
+
+    // Act
+    const ticked = applyBoardChange(created, {
+      type: 'checklist.updated',
+      cardId: 'card-2',
+      checklist: { ...checklist, items: [{ id: 'item-1', text: 'Tag', done: true, order: 0 }] },
+    });
+    const deleted = applyBoardChange(ticked, { type: 'checklist.deleted', cardId: 'card-2', checklistId: 'checklist-1' });
+
+    // Assert
+    expect(ticked.columns[0]?.cards[1]?.checklists).toHaveLength(1);
+    expect(ticked.columns[0]?.cards[1]?.checklists?.[0]?.items[0]?.done).toBe(true);
+    expect(deleted.columns[0]?.cards[1]?.checklists).toEqual([]);
+  });
+
+  it('should take the comment count from comment events', () => {
+    // Act
+    const updated = applyBoardChange(board, {
+      type: 'comment.deleted',
+      cardId: 'card-1',
+      commentId: 'comment-1',
+      commentCount: 3,
+    });
+
+    // Assert
+    expect(updated.columns[0]?.cards[0]?.commentCount).toBe(3);
+  });
+
+  it('should take the cards of a deleted lane out of it', () => {
+    // Arrange
+    const laned = {
+      ...board,
+      swimlanes: [
+        { id: 'lane-1', title: 'Frontend', order: 0 },
+        { id: 'lane-2', title: 'Backend', order: 1 },
+      ],
+      columns: board.columns.map(column => ({
+        ...column,
+        cards: column.cards.map(card => ({ ...card, swimlaneId: 'lane-1' })),
+      })),
+    };
+
+    // Act
+    const updated = applyBoardChange(laned, { type: 'swimlane.deleted', swimlaneId: 'lane-1' });
+
+    // Assert
+    expect(updated.swimlanes).toEqual([{ id: 'lane-2', title: 'Backend', order: 0 }]);
+    expect(updated.columns[0]?.cards.map(card => card.swimlaneId)).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { checklistProgress, moveItem, withoutChecklist } from '../../utils/checklists';
+
+const items = [
+  { id: 'item-1', text: 'Tag', done: true, order: 0 },
+  { id: 'item-2', text: 'Build', done: false, order: 1 },
+  { id: 'item-3', text: 'Ship', done: false, order: 2 },
+];
+
+describe('checklistProgress', () => {
+  it('should count ticked items across all checklists', () => {
+    const card = {
+      id: 'card-1',
+      content: 'Release',
+      order: 0,
+      checklists: [
+        { id: 'checklist-1', title: 'Steps', order: 0, items },
+        { id: 'checklist-2', title: 'Docs', order: 1, items: [{ id: 'item-4', text: 'Notes', done: true, order: 0 }] },
+      ],
+    };
+
+    expect(checklistProgress(card)).toEqual({ done: 2, total: 4 });
+  });
+
+  it('should report nothing for cards without checklists', () => {
+    expect(checklistProgress({ id: 'card-1', content: 'Task', order: 0 })).toEqual({ done: 0, total: 0 });
+  });
+});
+
+describe('moveItem', () => {
+  it('should move an item up and renumber the others', () => {
+    const moved = moveItem(items, 'item-3', 0);
+
+    expect(moved.map(item => item.id)).toEqual(['item-3', 'item-1', 'item-2']);
+    expect(moved.map(item => item.order)).toEqual([0, 1, 2]);
+  });
+
+  it('should clamp targets past the end', () => {
+    expect(moveItem(items, 'item-1', 10).map(item => item.id)).toEqual(['item-2', 'item-3', 'item-1']);
+  });
+});
+
+describe('withoutChecklist', () => {
+  it('should close the gap a removed checklist leaves', () => {
+    const checklists = [
+      { id: 'checklist-1', title: 'A', order: 0, items: [] },
+      { id: 'checklist-2', title: 'B', order: 1, items: [] },
+      { id: 'checklist-3', title: 'C', order: 2, items: [] },
+    ];
+
+    expect(withoutChecklist(checklists, 'checklist-2').map(checklist => [checklist.id, checklist.order])).toEqual([
+      ['checklist-1', 0],
+      ['checklist-3', 1],
+    ]);
+  });
+});
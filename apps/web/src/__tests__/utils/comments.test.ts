@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { applyCommentChange } from '../../utils/comments';
+
+const comment = {
+  id: 'comment-1',
+  authorName: 'Ada',
+  body: 'Ship Friday?',
+  edited: false,
+  createdAt: '2025-09-09T10:00:00.000Z',
+  updatedAt: '2025-09-09T10:00:00.000Z',
+};
+
+const thread = { cardId: 'card-1', entries: [comment], loading: false, error: null };
+
+describe('applyCommentChange', () => {
+  it('should add a new comment once, even when applied twice', () => {
+    // Arrange
+    const change = {
+      type: 'comment.created',
+      cardId: 'card-1',
+      comment: { ...comment, id: 'comment-2', authorName: 'Grace' },
+      commentCount: 2,
+    } as const;
+
+    // Act
+    const updated = applyCommentChange(applyCommentChange(thread, change), change);
+
+    // Assert
+    expect(updated.entries.map(entry => entry.id)).toEqual(['comment-1', 'comment-2']);
+  });
+
+  it('should replace edited comments and drop deleted ones', () => {
+    // Act
+    const edited = applyCommentChange(thread, {
+      type: 'comment.updated',
+      cardId: 'card-1',
+      comment: { ...comment, body: 'Ship Monday?', edited: true },
+    });
+    const deleted = applyCommentChange(edited, { type: 'comment.deleted', cardId: 'card-1', commentId: 'comment-1', commentCount: 0 });
+
+    // Assert
+    expect(edited.entries[0]).toMatchObject({ body: 'Ship Monday?', edited: true });
+    expect(deleted.entries).toEqual([]);
+  });
+
+  it('should leave the thread alone for comments on other cards', () => {
+    // Act
+    const updated = applyCommentChange(thread, { type: 'comment.deleted', cardId: 'card-2', commentId: 'comment-1', commentCount: 0 });
+
+    // Assert
+    expect(updated).toBe(thread);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { getCardDropTarget, getColumnDropOrder, getLaneDropTarget } from '../../utils/drag-and-drop';
+
+const columns = [
+  {
+    id: 'col-1',
+    title: 'Todo',
+    order: 0,
+    cards: [
+      { id: 'card-1', content: 'First task', order: 0 },
+      { id: 'card-2', content: 'Second task', order: 1 },
+      { id: 'card-3', content: 'Third task', order: 2 },
+    ],
+  },
+  {
+    id: 'col-2',
+    title: 'Done',
+    order: 1,
+    cards: [{ id: 'card-4', content: 'Finished task', order: 0 }],
+  },
+  { id: 'col-3', title: 'Archive', order: 2, cards: [] },
+];
+
+describe('drag-and-drop helpers', () => {
+  describe('getCardDropTarget', () => {
+    it('should take the slot of a card in the same column', () => {
+      // Act
+      const target = getCardDropTarget(columns, 'card-1', {
+        id: 'card-3',
+        data: { type: 'card', columnId: 'col-1' },
+      });
+
+      // Assert
+      expect(target).toEqual({ sourceColumnId: 'col-1', targetColumnId: 'col-1', targetOrder: 2 });
+    });
+
+    it('should place the card above or below a card in another column', () => {
+      // Arrange
+      const over = { id: 'card-4', data: { type: 'card', columnId: 'col-2' } } as const;
+
+      // Act & Assert
+      expect(getCardDropTarget(columns, 'card-2', over)?.targetOrder).toBe(0);
+      expect(getCardDropTarget(columns, 'card-2', over, true)?.targetOrder).toBe(1);
+    });
+
+    it('should append the card when dropped on a column', () => {
+      // Act
+      const target = getCardDropTarget(columns, 'card-1', { id: 'col-3', data: { type: 'column' } });
+
+      // Assert
+      expect(target).toEqual({ sourceColumnId: 'col-1', targetColumnId: 'col-3', targetOrder: 0 });
+    });
+
+    it('should return null when the card stays where it is', () => {
+      // Act & Assert
+      expect(
+        getCardDropTarget(columns, 'card-3', { id: 'col-1', data: { type: 'column' } })
+      ).toBeNull();
+      expect(
+        getCardDropTarget(columns, 'card-2', { id: 'card-2', data: { type: 'card', columnId: 'col-1' } })
+      ).toBeNull();
+    });
+  });
+
+  describe('getLaneDropTarget', () => {
+    // card-1 and card-3 sit in the lane, card-2 and card-4 outside any lane
+    const laned = columns.map(column => ({
+      ...column,
+      cards: column.cards.map(card =>
+        card.id === 'card-1' || card.id === 'card-3' ? { ...card, swimlaneId: 'lane-1' } : card
+      ),
+    }));
+
+    it('should take the lane of the card it is dropped on', () => {
+      // Act
+      const target = getLaneDropTarget(laned, 'card-2', {
+        id: 'card-3',
+        data: { type: 'card', columnId: 'col-1' },
+      });
+
+      // Assert
+      expect(target).toEqual({
+        sourceColumnId: 'col-1',
+        targetColumnId: 'col-1',
+        targetOrder: 1,
+        targetSwimlaneId: 'lane-1',
+      });
+    });
+
+    it('should take the slot of a card in the same cell', () => {
+      // Act
+      const target = getLaneDropTarget(laned, 'card-1', {
+        id: 'card-3',
+        data: { type: 'card', columnId: 'col-1' },
+      });
+
+      // Assert
+      expect(target?.targetOrder).toBe(2);
+      expect(target?.targetSwimlaneId).toBe('lane-1');
+    });
+
+    it('should move the card to the bottom of the column and into the lane of a cell', () => {
+      // Act
+      const target = getLaneDropTarget(laned, 'card-4', {
+        id: 'cell-col-1-lane-1',
+        data: { type: 'cell', columnId: 'col-1', swimlaneId: 'lane-1' },
+      });
+
+      // Assert
+      expect(target).toEqual({
+        sourceColumnId: 'col-2',
+        targetColumnId: 'col-1',
+        targetOrder: 3,
+        targetSwimlaneId: 'lane-1',
+      });
+    });
+
+    it('should take the card out of its lane when dropped on a cell outside any lane', () => {
+      // Act
+      const target = getLaneDropTarget(laned, 'card-3', {
+        id: 'cell-col-1-none',
+        data: { type: 'cell', columnId: 'col-1', swimlaneId: null },
+      });
+
+      // Assert
+      expect(target).toEqual({
+        sourceColumnId: 'col-1',
+        targetColumnId: 'col-1',
+        targetOrder: 2,
+        targetSwimlaneId: null,
+      });
+    });
+
+    it('should return null when the card stays in its cell and slot', () => {
+      // Act & Assert
+      expect(
+        getLaneDropTarget(laned, 'card-3', {
+          id: 'cell-col-1-lane-1',
+          data: { type: 'cell', columnId: 'col-1', swimlaneId: 'lane-1' },
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('getColumnDropOrder', () => {
+    it('should use the position of the hovered column or of the column owning the hovered card', () => {
+      // Act & Assert
+      expect(getColumnDropOrder(columns, { id: 'col-3', data: { type: 'column' } })).toBe(2);
+      expect(
+        getColumnDropOrder(columns, { id: 'card-4', data: { type: 'card', columnId: 'col-2' } })
+      ).toBe(1);
+    });
+  });
+});
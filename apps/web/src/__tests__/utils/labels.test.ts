@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { cardLabels, matchesLabelFilter } from '../../utils/labels';
+
+const labels = [
+  { id: 'label-1', name: 'Bug', color: '#ef4444' },
+  { id: 'label-2', name: 'Feature', color: '#3b82f6' },
+];
+
+describe('matchesLabelFilter', () => {
+  it('should match every card when no labels are selected', () => {
+    expect(matchesLabelFilter({ id: 'card-1', content: 'Task', order: 0 }, [])).toBe(true);
+  });
+
+  it('should match cards with any of the selected labels', () => {
+    const card = { id: 'card-1', content: 'Task', order: 0, labelIds: ['label-2'] };
+
+    expect(matchesLabelFilter(card, ['label-1', 'label-2'])).toBe(true);
+    expect(matchesLabelFilter(card, ['label-1'])).toBe(false);
+    expect(matchesLabelFilter({ id: 'card-2', content: 'Plain', order: 1 }, ['label-1'])).toBe(false);
+  });
+});
+
+describe('cardLabels', () => {
+  it('should list the card labels in board order, skipping unknown IDs', () => {
+    const card = { id: 'card-1', content: 'Task', order: 0, labelIds: ['label-2', 'deleted', 'label-1'] };
+
+    expect(cardLabels(card, labels).map(label => label.name)).toEqual(['Bug', 'Feature']);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown } from '../../utils/markdown';
+
+describe('parseMarkdown', () => {
+  it('should split paragraphs on blank lines', () => {
+    expect(parseMarkdown('First line\nstill first\n\nSecond')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'First line\nstill first' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'Second' }] },
+    ]);
+  });
+
+  it('should parse headings, lists, quotes and code blocks', () => {
+    const source = [
+      '## Steps',
+      '- Write it',
+      '- Ship it',
+      '1. First',
+      '2. Second',
+      '> Quoted',
+      '```',
+      'const a = 1;',
+      '```',
+    ].join('\n');
+
+    expect(parseMarkdown(source)).toEqual([
+      { type: 'heading', level: 2, children: [{ type: 'text', text: 'Steps' }] },
+      {
+        type: 'list',
+        ordered: false,
+        items: [[{ type: 'text', text: 'Write it' }], [{ type: 'text', text: 'Ship it' }]],
+      },
+      {
+        type: 'list',
+        ordered: true,
+        items: [[{ type: 'text', text: 'First' }], [{ type: 'text', text: 'Second' }]],
+      },
+      { type: 'quote', children: [{ type: 'text', text: 'Quoted' }] },
+      { type: 'code', text: 'const a = 1;' },
+    ]);
+  });
+
+  it('should keep markup inside code blocks as text', () => {
+    expect(parseMarkdown('```\n# not a heading\n**not bold**')).toEqual([
+      { type: 'code', text: '# not a heading\n**not bold**' },
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  it('should parse bold, italic and code', () => {
+    expect(parseInline('**Bold** and *italic* or _this_ with `code`')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'Bold' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'italic' }] },
+      { type: 'text', text: ' or ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'this' }] },
+      { type: 'text', text: ' with ' },
+      { type: 'code', text: 'code' },
+    ]);
+  });
+
+  it('should parse links with safe schemes only', () => {
+    expect(parseInline('[Docs](https://example.com) [bad](javascript:alert(1))')).toEqual([
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'Docs' }] },
+      { type: 'text', text: ' [bad](javascript:alert(1))' },
+    ]);
+  });
+
+  it('should leave unmatched markers as text', () => {
+    expect(parseInline('2 * 3 = 6 and **open')).toEqual([{ type: 'text', text: '2 * 3 = 6 and **open' }]);
+  });
+});
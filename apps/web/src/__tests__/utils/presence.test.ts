@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getCardActivity, getInitials, getPresenceIdentity } from '../../utils/presence';
+
+const member = (id: string, editingCardId: string | null, draggingCardId: string | null = null) => ({
+  id,
+  name: `Member ${id}`,
+  color: '#2563eb',
+  editingCardId,
+  draggingCardId,
+});
+
+describe('presence', () => {
+  describe('getPresenceIdentity', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should create an anonymous identity once and reuse it', () => {
+      // Act
+      const first = getPresenceIdentity();
+      const second = getPresenceIdentity();
+
+      // Assert
+      expect(first.name).toMatch(/^Anonymous /);
+      expect(first.color).toMatch(/^#[0-9a-f]{6}$/);
+      expect(second).toEqual(first);
+    });
+
+    it('should replace a stored identity that is not valid', () => {
+      // Arrange
+      localStorage.setItem('kanban.presence', '{"name":""}');
+
+      // Act
+      const identity = getPresenceIdentity();
+
+      // Assert
+      expect(identity.name).toMatch(/^Anonymous /);
+      expect(JSON.parse(localStorage.getItem('kanban.presence')!)).toEqual(identity);
+    });
+  });
+
+  describe('getCardActivity', () => {
+    it('should index what other members are doing by card', () => {
+      // Arrange
+      const editor = member('a', 'card-1');
+      const dragger = member('b', null, 'card-1');
+      const self = member('me', 'card-2');
+
+      // Act
+      const activity = getCardActivity([editor, dragger, self], 'me');
+
+      // Assert
+      expect(activity).toEqual({ 'card-1': { editingBy: editor, draggingBy: dragger } });
+    });
+  });
+
+  describe('getInitials', () => {
+    it('should use the first letters of the first two words', () => {
+      expect(getInitials('Anonymous Otter')).toBe('AO');
+      expect(getInitials('  ada  ')).toBe('A');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { describeDiff, type BoardDiff } from '../../utils/snapshots';
+
+const emptyDiff = (): BoardDiff => ({
+  title: null,
+  columns: { added: [], removed: [], changed: [] },
+  cards: { added: [], removed: [], changed: [] },
+});
+
+describe('describeDiff', () => {
+  it('should describe nothing for an unchanged board', () => {
+    expect(describeDiff(emptyDiff())).toEqual([]);
+  });
+
+  it('should list renames, additions and deletions', () => {
+    const diff = emptyDiff();
+    diff.title = { from: 'Sprint 1', to: 'Sprint 2' };
+    diff.columns.added = [{ id: 'c1', title: 'Review' }];
+    diff.cards.removed = [{ id: 'k1', content: 'Old task', columnId: 'c0' }];
+
+    expect(describeDiff(diff)).toEqual([
+      'Renamed the board from "Sprint 1" to "Sprint 2"',
+      'Added column "Review"',
+      'Deleted card "Old task"',
+    ]);
+  });
+
+  it('should leave out changes to position alone', () => {
+    const diff = emptyDiff();
+    diff.columns.changed = [{ id: 'c1', title: 'Done', fields: ['order'] }];
+    diff.cards.changed = [
+      { id: 'k1', content: 'Shuffled', columnId: 'c1', fields: ['order'] },
+      { id: 'k2', content: 'Moved', columnId: 'c2', fields: ['column', 'order'] },
+    ];
+
+    expect(describeDiff(diff)).toEqual(['Moved card "Moved" to another column']);
+  });
+
+  it('should describe edited card details', () => {
+    const diff = emptyDiff();
+    diff.cards.changed = [{ id: 'k1', content: 'Spec', columnId: 'c1', fields: ['details'] }];
+
+    expect(describeDiff(diff)).toEqual(['Edited the details of card "Spec"']);
+  });
+
+  it('should describe cards moved between lanes', () => {
+    const diff = emptyDiff();
+    diff.cards.changed = [{ id: 'k1', content: 'Spec', columnId: 'c1', fields: ['swimlane'] }];
+
+    expect(describeDiff(diff)).toEqual(['Moved card "Spec" to another lane']);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getSavedTemplates, rememberTemplate } from '../../utils/templates';
+
+const template = (id: string, name = id) => ({ id, name, description: '', builtIn: false, columns: ['Todo'] });
+
+describe('templates', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should list saved templates newest first', () => {
+    // Act
+    rememberTemplate(template('first'));
+    rememberTemplate(template('second'));
+    rememberTemplate(template('first', 'renamed'));
+
+    // Assert
+    expect(getSavedTemplates().map(({ id, name }) => [id, name])).toEqual([
+      ['first', 'renamed'],
+      ['second', 'second'],
+    ]);
+  });
+
+  it('should ignore stored templates that cannot be read', () => {
+    // Arrange
+    localStorage.setItem('kanban.templates', JSON.stringify([{ id: 1 }, template('kept')]));
+
+    // Act
+    const templates = getSavedTemplates();
+
+    // Assert
+    expect(templates.map(({ id }) => id)).toEqual(['kept']);
+  });
+});
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { ActivityState } from '../store/board.store';
+import { describeActivity } from '../utils/activity';
+
+interface ActivitySidebarProps {
+  activity: ActivityState;
+  onLoadMore: () => void;
+  onClose: () => void;
+}
+
+// Audit trail of the board: who changed what, newest first
+export const ActivitySidebar: React.FC<ActivitySidebarProps> = ({ activity, onLoadMore, onClose }) => {
+  const { entries, nextCursor, loading, error } = activity;
+
+  return (
+    <aside
+      aria-label="Board activity"
+      className="fixed inset-y-0 right-0 z-20 w-80 bg-white border-l border-gray-200 shadow-lg flex flex-col"
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Activity</h2>
+        <button
+          onClick={onClose}
+          aria-label="Close activity"
+          className="text-gray-500 hover:text-gray-700 px-2 py-1 rounded text-sm"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {entries.length === 0 && !loading && !error && (
+          <p className="text-sm text-gray-500">No activity yet</p>
+        )}
+
+        <ol className="space-y-3">
+          {entries.map(entry => (
+            <li key={entry.id} className="text-sm">
+              <p className="text-gray-900">
+                <span className="font-medium">{entry.actorName ?? 'Someone'}</span>{' '}
+                {describeActivity(entry)}
+              </p>
+              <time dateTime={entry.createdAt} className="text-xs text-gray-500">
+                {new Date(entry.createdAt).toLocaleString()}
+              </time>
+            </li>
+          ))}
+        </ol>
+
+        {error && (
+          <p role="alert" className="mt-3 text-sm text-red-700">
+            {error}
+          </p>
+        )}
+
+        {loading && <p className="mt-3 text-sm text-gray-500">Loading activity...</p>}
+
+        {nextCursor !== null && !loading && (
+          <button
+            onClick={onLoadMore}
+            className="mt-4 w-full bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-2 rounded text-sm font-medium"
+          >
+            Show older activity
+          </button>
+        )}
+      </div>
+    </aside>
+  );
+};
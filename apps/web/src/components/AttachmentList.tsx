@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import type { Attachment } from '../store/board.store';
+import { formatFileSize, isImage } from '../utils/attachments';
+
+// Store actions for the open card's attachments
+export interface AttachmentActions {
+  onUpload: (file: File) => Promise<boolean>;
+  onSetCover: (attachmentId: string, cover: boolean) => void;
+  onDelete: (attachmentId: string) => void;
+}
+
+// Where an attachment's file or thumbnail is loaded from
+export type AttachmentUrl = (attachment: Attachment, variant: 'file' | 'thumbnail') => string;
+
+interface AttachmentListProps extends AttachmentActions {
+  attachments: Attachment[];
+  urlOf: AttachmentUrl;
+  readOnly: boolean;
+}
+
+// The card's files, oldest first. Images can be made the card's cover.
+export const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  urlOf,
+  readOnly,
+  onUpload,
+  onSetCover,
+  onDelete,
+}) => {
+  const input = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const upload = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+
+    setUploading(true);
+    await onUpload(file);
+    setUploading(false);
+
+    // Lets the same file be picked again
+    if (input.current) input.current.value = '';
+  };
+
+  return (
+    <section aria-label="Attachments" className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">
+          Attachments{attachments.length > 0 && ` (${attachments.length})`}
+        </h3>
+        {!readOnly && (
+          <label className="text-xs text-blue-600 hover:text-blue-800 cursor-pointer">
+            {uploading ? 'Uploading...' : 'Upload file'}
+            <input
+              ref={input}
+              type="file"
+              onChange={event => upload(event.target.files)}
+              disabled={uploading}
+              aria-label="Upload attachment"
+              className="sr-only"
+            />
+          </label>
+        )}
+      </div>
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">No attachments</p>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-center gap-3 text-sm">
+              {isImage(attachment) ? (
+                <img
+                  src={urlOf(attachment, 'thumbnail')}
+                  alt=""
+                  className="h-10 w-14 flex-shrink-0 rounded object-cover bg-gray-100"
+                />
+              ) : (
+                <span
+                  aria-hidden="true"
+                  className="h-10 w-14 flex-shrink-0 rounded bg-gray-100 text-gray-500 flex items-center justify-center"
+                >
+                  📄
+                </span>
+              )}
+              <span className="flex-1 min-w-0">
+                <a
+                  href={urlOf(attachment, 'file')}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block truncate text-blue-700 hover:underline"
+                >
+                  {attachment.fileName}
+                </a>
+                <span className="text-xs text-gray-500">
+                  {formatFileSize(attachment.size)}
+                  {attachment.cover && ' · Cover'}
+                </span>
+              </span>
+              {!readOnly && (
+                <span className="flex gap-2 text-xs">
+                  {isImage(attachment) && (
+                    <button
+                      type="button"
+                      onClick={() => onSetCover(attachment.id, !attachment.cover)}
+                      aria-label={`${attachment.cover ? 'Remove cover' : 'Make cover'} ${attachment.fileName}`}
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      {attachment.cover ? 'Remove cover' : 'Make cover'}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onDelete(attachment.id)}
+                    aria-label={`Delete ${attachment.fileName}`}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
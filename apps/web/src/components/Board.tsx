@@ -1,25 +1,226 @@
-import React, { useEffect } from 'react';
-import { useBoardStore } from '../store/board.store';
+import React, { useEffect, useState } from 'react';
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  closestCorners,
+  useSensor,
+  useSensors,
+  type Active,
+  type CollisionDetection,
+  type DragEndEvent,
+  type DragOverEvent,
+  type DragStartEvent,
+  type Over,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  horizontalListSortingStrategy,
+  sortableKeyboardCoordinates,
+} from '@dnd-kit/sortable';
+import {
+  useBoardStore,
+  type Board as BoardModel,
+  type WipMode,
+} from '../store/board.store';
+import apiClient from '../utils/api';
+import { attachmentUrl, coverUrl } from '../utils/attachments';
+import {
+  getCardDropTarget,
+  getColumnDropOrder,
+  getLaneDropTarget,
+  type DragItemData,
+  type DropOver,
+} from '../utils/drag-and-drop';
+import { emptyLabelFilter, type LabelFilter } from '../utils/labels';
+import { getCardActivity, getInitials, getPresenceIdentity, type PresenceMember } from '../utils/presence';
+import { ActivitySidebar } from './ActivitySidebar';
+import { CardDetailModal } from './CardDetailModal';
+import { Column } from './Column';
+import { DuplicateBoardDialog } from './DuplicateBoardDialog';
+import { ExportMenu } from './ExportMenu';
+import { HistoryBrowser } from './HistoryBrowser';
+import { LabelFilterBar } from './LabelFilterBar';
+import { LabelManager } from './LabelManager';
+import { SaveTemplateDialog } from './SaveTemplateDialog';
+import { SharePanel } from './SharePanel';
+import { SwimlaneGrid } from './SwimlaneGrid';
+import { UnlockScreen } from './UnlockScreen';
 
 interface BoardProps {
   boardId: string;
+  // Renders this copy of the board read-only instead of the live board, e.g.
+  // to preview a snapshot
+  snapshot?: BoardModel | undefined;
+  // Opens another board, e.g. a copy of this one; without it the board
+  // cannot be duplicated
+  onOpenBoard?: ((boardId: string) => void) | undefined;
 }
 
-export const Board: React.FC<BoardProps> = ({ boardId }) => {
+export const Board: React.FC<BoardProps> = ({ boardId, snapshot, onOpenBoard }) => {
   const { 
-    board, 
+    board: liveBoard, 
     loading, 
     error, 
     loadBoard, 
-    addCard 
+    moveCard,
+    addCard,
+    editCard,
+    updateCardDetails,
+    setCardLabels,
+    deleteCard,
+    addColumn,
+    renameColumn,
+    setWipLimit,
+    setWipMode,
+    moveColumn,
+    deleteColumn,
+    addSwimlane,
+    renameSwimlane,
+    moveSwimlane,
+    deleteSwimlane,
+    createLabel,
+    updateLabel,
+    deleteLabel,
+    mergeLabels,
+    addChecklist,
+    renameChecklist,
+    deleteChecklist,
+    addChecklistItem,
+    updateChecklistItem,
+    moveChecklistItem,
+    deleteChecklistItem,
+    comments,
+    loadComments,
+    addComment,
+    editComment,
+    deleteComment,
+    uploadAttachment,
+    setAttachmentCover,
+    deleteAttachment,
+    conflict,
+    resolveConflict,
+    subscribeToBoard,
+    presence,
+    connectPresence,
+    setEditingCard,
+    setDraggingCard,
+    version,
+    activity,
+    loadActivity,
+    loadMoreActivity,
+    history,
+    undo,
+    redo,
+    snapshots,
+    loadSnapshots,
+    createSnapshot,
+    selectSnapshot,
+    restoreSnapshot,
+    access,
+    sharing,
+    loadTokens,
+    createToken,
+    revokeToken,
+    saveBoardAsTemplate,
+    cloneBoard,
+    passwordProtected,
+    setBoardPassword,
+    lock,
+    unlockBoard
   } = useBoardStore();
 
+  const [announcement, setAnnouncement] = useState('');
+  const [showActivity, setShowActivity] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSharing, setShowSharing] = useState(false);
+  const [showLabels, setShowLabels] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [showDuplicate, setShowDuplicate] = useState(false);
+  const [labelFilter, setLabelFilter] = useState<LabelFilter>(emptyLabelFilter);
+  // Swimlanes show as rows across the columns on the grid layout
+  const [gridLayout, setGridLayout] = useState(false);
+  const [openCardId, setOpenCardId] = useState<string | null>(null);
+
+  const board = snapshot ?? liveBoard;
+  const preview = snapshot !== undefined;
+  // View links see the live board but cannot change it
+  const readOnly = preview || access === 'view';
+
+  const sensors = useSensors(
+    // A small distance keeps clicks and double-clicks on cards working
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  // A preview shows the board it was given and nothing live
   useEffect(() => {
+    if (preview) return;
     loadBoard(boardId);
-  }, [boardId, loadBoard]);
+  }, [preview, boardId, loadBoard]);
+
+  // Keep the board in sync with changes made by other clients. Locked boards
+  // connect once they have been unlocked.
+  useEffect(() => {
+    if (preview || lock.locked) return;
+    return subscribeToBoard(boardId);
+  }, [preview, lock.locked, boardId, subscribeToBoard]);
+
+  // Show who else is here and what they are working on
+  useEffect(() => {
+    if (preview || lock.locked) return;
+    return connectPresence(boardId);
+  }, [preview, lock.locked, boardId, connectPresence]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo board changes
+  useEffect(() => {
+    if (readOnly) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      // Text fields keep their own undo
+      if (isTextField(event.target)) return;
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [readOnly, undo, redo]);
+
+  // The open activity log follows every new board version
+  useEffect(() => {
+    if (showActivity) {
+      loadActivity(boardId);
+    }
+  }, [showActivity, boardId, version, loadActivity]);
+
+  // The open card's comment thread; previews leave comments out
+  useEffect(() => {
+    if (preview) return;
+    loadComments(boardId, openCardId);
+  }, [preview, boardId, openCardId, loadComments]);
+
+  useEffect(() => {
+    if (showHistory) {
+      loadSnapshots(boardId);
+    }
+  }, [showHistory, boardId, loadSnapshots]);
+
+  useEffect(() => {
+    if (showSharing) {
+      loadTokens(boardId);
+    }
+  }, [showSharing, boardId, loadTokens]);
 
   // Loading state
-  if (loading) {
+  if (loading && !preview) {
     return (
       <div className="flex items-center justify-center p-8">
         <div 
@@ -31,8 +232,12 @@ export const Board: React.FC<BoardProps> = ({ boardId }) => {
     );
   }
 
+  if (lock.locked && !preview) {
+    return <UnlockScreen lock={lock} onUnlock={password => unlockBoard(boardId, password)} />;
+  }
+
   // Error state
-  if (error) {
+  if (error && !preview) {
     return (
       <div data-testid="error-message" className="bg-red-50 border border-red-200 rounded-md p-4 m-4">
         <div className="flex items-center justify-between">
@@ -66,80 +271,577 @@ export const Board: React.FC<BoardProps> = ({ boardId }) => {
     );
   }
 
+  const columns = [...board.columns].sort((a, b) => a.order - b.order);
+  const cardActivity = preview ? {} : getCardActivity(presence.members, presence.selfId);
+  // Closes by itself if the card is deleted while open
+  const openCard = columns.flatMap(column => column.cards).find(card => card.id === openCardId);
+  // Labels deleted since they were picked no longer filter anything
+  const activeFilter = {
+    ...labelFilter,
+    labelIds: labelFilter.labelIds.filter(id => board.labels.some(label => label.id === id)),
+  };
+
+  const closeHistory = () => {
+    setShowHistory(false);
+    selectSnapshot(boardId, null);
+  };
+
+  const handleRestore = async (snapshotId: string) => {
+    if (await restoreSnapshot(boardId, snapshotId)) {
+      setShowHistory(false);
+    }
+  };
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    if ((active.data.current as DragItemData | undefined)?.type === 'card') {
+      setDraggingCard(String(active.id));
+    }
+    setAnnouncement(`Picked up ${describe(board, active)}.`);
+  };
+
+  const handleDragOver = ({ active, over }: DragOverEvent) => {
+    if (!over) {
+      setAnnouncement(`${capitalize(describe(board, active))} is no longer over a drop target.`);
+      return;
+    }
+    setAnnouncement(`${capitalize(describe(board, active))} is over ${describe(board, over)}.`);
+  };
+
+  const handleDragCancel = ({ active }: { active: Active }) => {
+    setDraggingCard(null);
+    setAnnouncement(`Dragging was cancelled. ${capitalize(describe(board, active))} was dropped.`);
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setDraggingCard(null);
+    const label = capitalize(describe(board, active));
+    if (!over) {
+      setAnnouncement(`${label} was dropped outside of a drop target.`);
+      return;
+    }
+
+    const activeId = String(active.id);
+    const dropOver = toDropOver(over);
+    const data = active.data.current as DragItemData | undefined;
+
+    if (data?.type === 'column') {
+      const targetOrder = getColumnDropOrder(columns, dropOver);
+      if (targetOrder !== null && targetOrder !== columns.findIndex(c => c.id === activeId)) {
+        moveColumn(activeId, targetOrder);
+        setAnnouncement(`${label} was moved to position ${targetOrder + 1} of ${columns.length}.`);
+        return;
+      }
+    } else if (data?.type === 'card') {
+      // Cards dropped on the lower half of a card in another column go below it
+      const translated = active.rect.current.translated;
+      const placeBelow =
+        translated !== null && translated.top + translated.height / 2 > over.rect.top + over.rect.height / 2;
+
+      if (gridLayout) {
+        const target = getLaneDropTarget(columns, activeId, dropOver, placeBelow);
+        if (target) {
+          moveCard(activeId, target.sourceColumnId, target.targetColumnId, target.targetOrder, target.targetSwimlaneId);
+          const column = columns.find(c => c.id === target.targetColumnId);
+          const lane = board.swimlanes.find(l => l.id === target.targetSwimlaneId);
+          setAnnouncement(
+            `${label} was moved to ${column?.title ?? 'a'} column, ${lane ? `lane "${lane.title}"` : 'no lane'}.`
+          );
+          return;
+        }
+      } else {
+        const target = getCardDropTarget(columns, activeId, dropOver, placeBelow);
+        if (target) {
+          moveCard(activeId, target.sourceColumnId, target.targetColumnId, target.targetOrder);
+          const column = columns.find(c => c.id === target.targetColumnId);
+          setAnnouncement(
+            `${label} was moved to ${column?.title ?? 'a'} column, position ${target.targetOrder + 1}.`
+          );
+          return;
+        }
+      }
+    }
+
+    setAnnouncement(`${label} was dropped in its original position.`);
+  };
+
   // Board content
   return (
-    <main role="main" aria-label="Kanban board" className="p-6">
+    <main
+      role={preview ? 'region' : 'main'}
+      aria-label={preview ? 'Board preview' : 'Kanban board'}
+      className="p-6"
+    >
       {/* Board Title */}
-      <div className="mb-6">
+      <div className="mb-6 flex items-center justify-between gap-4">
         <h1 className="text-3xl font-bold text-gray-900">{board.title}</h1>
+        {!preview && (
+          <div className="flex items-center gap-4">
+            <PresenceAvatars members={presence.members} selfId={presence.selfId} />
+            {readOnly ? (
+              <span className="bg-gray-100 text-gray-700 px-2 py-1 rounded text-xs font-medium">
+                View only
+              </span>
+            ) : (
+              <div className="flex gap-1">
+                <button
+                  onClick={() => undo()}
+                  disabled={history.past.length === 0 || history.busy}
+                  aria-keyshortcuts="Control+Z"
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1.5 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Undo
+                </button>
+                <button
+                  onClick={() => redo()}
+                  disabled={history.future.length === 0 || history.busy}
+                  aria-keyshortcuts="Control+Shift+Z"
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1.5 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Redo
+                </button>
+              </div>
+            )}
+            <button
+              onClick={() => setShowActivity(open => !open)}
+              aria-expanded={showActivity}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1.5 rounded text-sm font-medium"
+            >
+              Activity
+            </button>
+            <button
+              onClick={() => setGridLayout(grid => !grid)}
+              aria-pressed={gridLayout}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1.5 rounded text-sm font-medium"
+            >
+              Swimlanes
+            </button>
+            <ExportMenu exportUrl={format => apiClient.exportUrl(boardId, format)} />
+            {onOpenBoard && (
+              <button
+                onClick={() => setShowDuplicate(true)}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1.5 rounded text-sm font-medium"
+              >
+                Duplicate board
+              </button>
+            )}
+            {!readOnly && (
+              <>
+                <select
+                  value={board.wipMode}
+                  onChange={event => setWipMode(event.target.value as WipMode)}
+                  aria-label="WIP limit mode"
+                  title="What happens when a column reaches its WIP limit"
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-2 py-1.5 rounded text-sm font-medium"
+                >
+                  <option value="warn">WIP: warn</option>
+                  <option value="block">WIP: block</option>
+                </select>
+                <button
+                  onClick={() => setShowLabels(open => !open)}
+                  aria-expanded={showLabels}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1.5 rounded text-sm font-medium"
+                >
+                  Labels
+                </button>
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1.5 rounded text-sm font-medium"
+                >
+                  History
+                </button>
+                <button
+                  onClick={() => setShowSaveTemplate(true)}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1.5 rounded text-sm font-medium"
+                >
+                  Save as template
+                </button>
+                <button
+                  onClick={() => setShowSharing(open => !open)}
+                  aria-expanded={showSharing}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded text-sm font-medium"
+                >
+                  Share
+                </button>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
+      {showHistory && !readOnly && (
+        <HistoryBrowser
+          snapshots={snapshots}
+          onSelect={snapshotId => selectSnapshot(boardId, snapshotId)}
+          onCreate={() => createSnapshot(boardId)}
+          onRestore={handleRestore}
+          onClose={closeHistory}
+        >
+          {snapshots.selected && <Board boardId={boardId} snapshot={snapshots.selected.board} />}
+        </HistoryBrowser>
+      )}
+
+      {showSharing && !readOnly && (
+        <SharePanel
+          boardId={boardId}
+          sharing={sharing}
+          passwordProtected={passwordProtected}
+          onSetPassword={password => setBoardPassword(boardId, password)}
+          onCreate={role => createToken(boardId, role)}
+          onRevoke={tokenId => revokeToken(boardId, tokenId)}
+          onClose={() => setShowSharing(false)}
+        />
+      )}
+
+      {showDuplicate && onOpenBoard && (
+        <DuplicateBoardDialog
+          boardTitle={board.title}
+          onDuplicate={(scope, title) => cloneBoard(boardId, scope, title)}
+          onOpenBoard={onOpenBoard}
+          onClose={() => setShowDuplicate(false)}
+        />
+      )}
+
+      {showSaveTemplate && !readOnly && (
+        <SaveTemplateDialog
+          boardTitle={board.title}
+          onSave={(name, description) => saveBoardAsTemplate(boardId, name, description)}
+          onClose={() => setShowSaveTemplate(false)}
+        />
+      )}
+
+      {showLabels && !readOnly && (
+        <LabelManager
+          labels={board.labels}
+          onCreate={createLabel}
+          onUpdate={updateLabel}
+          onDelete={deleteLabel}
+          onMerge={mergeLabels}
+          onClose={() => setShowLabels(false)}
+        />
+      )}
+
+      {showActivity && !preview && (
+        <ActivitySidebar
+          activity={activity}
+          onLoadMore={() => loadMoreActivity(boardId)}
+          onClose={() => setShowActivity(false)}
+        />
+      )}
+
+      {openCard && (
+        <CardDetailModal
+          key={openCard.id}
+          card={openCard}
+          readOnly={readOnly}
+          onSave={details => updateCardDetails(openCard.id, details)}
+          labels={board.labels}
+          onSetLabels={labelIds => setCardLabels(openCard.id, labelIds)}
+          checklistActions={{
+            onAddChecklist: title => addChecklist(openCard.id, title),
+            onRenameChecklist: (checklistId, title) => renameChecklist(openCard.id, checklistId, title),
+            onDeleteChecklist: checklistId => deleteChecklist(openCard.id, checklistId),
+            onAddItem: (checklistId, text) => addChecklistItem(openCard.id, checklistId, text),
+            onToggleItem: (checklistId, itemId, done) =>
+              updateChecklistItem(openCard.id, checklistId, itemId, { done }),
+            onMoveItem: (checklistId, itemId, targetOrder) =>
+              moveChecklistItem(openCard.id, checklistId, itemId, targetOrder),
+            onDeleteItem: (checklistId, itemId) => deleteChecklistItem(openCard.id, checklistId, itemId),
+          }}
+          attachmentActions={{
+            onUpload: file => uploadAttachment(openCard.id, file),
+            onSetCover: (attachmentId, cover) => setAttachmentCover(openCard.id, attachmentId, cover),
+            onDelete: attachmentId => deleteAttachment(openCard.id, attachmentId),
+          }}
+          attachmentUrl={(attachment, variant) => attachmentUrl(boardId, openCard.id, attachment, variant)}
+          comments={
+            preview
+              ? undefined
+              : {
+                  thread: comments,
+                  authorName: getPresenceIdentity().name,
+                  onAdd: body => addComment(openCard.id, body),
+                  onEdit: (commentId, body) => editComment(openCard.id, commentId, body),
+                  onDelete: commentId => deleteComment(openCard.id, commentId),
+                }
+          }
+          onClose={() => setOpenCardId(null)}
+        />
+      )}
+
+      {history.notice && !readOnly && (
+        <p role="status" className="mb-4 text-sm text-amber-800">
+          {history.notice}
+        </p>
+      )}
+
+      {conflict && !readOnly && (
+        <ConflictPrompt
+          onReload={() => resolveConflict('reload')}
+          onMerge={() => resolveConflict('merge')}
+        />
+      )}
+
+      {board.labels.length > 0 && (
+        <LabelFilterBar labels={board.labels} filter={activeFilter} onChange={setLabelFilter} />
+      )}
+
       {/* Empty state for board with no columns */}
       {board.columns.length === 0 ? (
         <div className="text-center py-12">
           <p className="text-gray-500 mb-4">No columns yet</p>
-          <button className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded font-medium">
-            Add Column
-          </button>
+          {!readOnly && <AddColumnForm onAdd={addColumn} />}
         </div>
       ) : (
         /* Board Columns */
-        <div className="flex gap-6 overflow-x-auto pb-4">
-          {board.columns
-            .sort((a, b) => a.order - b.order)
-            .map(column => (
-              <div
-                key={column.id}
-                data-testid="board-column"
-                role="region"
-                aria-label={`${column.title} column with ${column.cards.length} cards`}
-                data-droppable="true"
-                className="flex-shrink-0 w-80 bg-gray-50 rounded-lg p-4"
-              >
-                {/* Column Header */}
-                <div className="flex items-center justify-between mb-4">
-                  <h2 className="font-semibold text-gray-900">
-                    {column.title} ({column.cards.length})
-                  </h2>
-                  <button
-                    onClick={() => addCard(column.id)}
-                    className="text-gray-500 hover:text-gray-700 text-sm font-medium px-2 py-1 rounded hover:bg-gray-200 transition-colors"
-                  >
-                    Add Card
-                  </button>
-                </div>
-
-                {/* Cards */}
-                <div className="space-y-3">
-                  {column.cards
-                    .sort((a, b) => a.order - b.order)
-                    .map(card => (
-                      <button
-                        key={card.id}
-                        data-testid={`card-${card.id}`}
-                        draggable="true"
-                        tabIndex={0}
-                        aria-label={`Card: ${card.content}`}
-                        className="w-full text-left bg-white rounded-md p-3 shadow-sm border border-gray-200 hover:shadow-md transition-shadow cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      >
-                        <p className="text-gray-900 text-sm">{card.content}</p>
-                      </button>
-                    ))}
-                  
-                  {/* Empty state for column */}
-                  {column.cards.length === 0 && (
-                    <div className="text-center py-8 text-gray-400">
-                      <p className="text-sm">No cards yet</p>
+        <div data-testid="dnd-context">
+          <DndContext
+            sensors={sensors}
+            collisionDetection={collisionDetection}
+            // Announcements go to the live region below instead of dnd-kit's own
+            accessibility={{ announcements: silentAnnouncements }}
+            onDragStart={handleDragStart}
+            onDragOver={handleDragOver}
+            onDragEnd={handleDragEnd}
+            onDragCancel={handleDragCancel}
+          >
+            {gridLayout ? (
+              <SwimlaneGrid
+                columns={columns}
+                swimlanes={board.swimlanes}
+                onAddCard={(columnId, swimlaneId) => addCard(columnId, undefined, swimlaneId ?? undefined)}
+                onEditCard={editCard}
+                onDeleteCard={deleteCard}
+                onEditingCard={setEditingCard}
+                onOpenCard={setOpenCardId}
+                cardActivity={cardActivity}
+                labels={board.labels}
+                labelFilter={activeFilter}
+                coverUrl={card => coverUrl(boardId, card)}
+                onAddSwimlane={addSwimlane}
+                onRenameSwimlane={renameSwimlane}
+                onMoveSwimlane={moveSwimlane}
+                onDeleteSwimlane={deleteSwimlane}
+                readOnly={readOnly}
+              />
+            ) : (
+              <SortableContext items={columns.map(column => column.id)} strategy={horizontalListSortingStrategy}>
+                <div className="flex gap-6 overflow-x-auto pb-4">
+                  {columns.map(column => (
+                    <Column
+                      key={column.id}
+                      column={column}
+                      columns={board.columns}
+                      onAddCard={() => addCard(column.id)}
+                      onEditCard={editCard}
+                      onDeleteCard={deleteCard}
+                      onEditingCard={setEditingCard}
+                      onOpenCard={setOpenCardId}
+                      cardActivity={cardActivity}
+                      labels={board.labels}
+                      labelFilter={activeFilter}
+                      coverUrl={card => coverUrl(boardId, card)}
+                      readOnly={readOnly}
+                      onRename={title => renameColumn(column.id, title)}
+                      onSetWipLimit={wipLimit => setWipLimit(column.id, wipLimit)}
+                      onMove={targetOrder => moveColumn(column.id, targetOrder)}
+                      onDelete={options => deleteColumn(column.id, options)}
+                    />
+                  ))}
+                  {!readOnly && (
+                    <div className="flex-shrink-0 w-80">
+                      <AddColumnForm onAdd={addColumn} />
                     </div>
                   )}
                 </div>
-              </div>
-            ))}
+              </SortableContext>
+            )}
+          </DndContext>
         </div>
       )}
 
       {/* Screen reader announcements for drag and drop */}
-      <div role="status" aria-label="Drag and drop status" aria-live="polite" className="sr-only"></div>
+      <div role="status" aria-label="Drag and drop status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
     </main>
   );
-}; 
\ No newline at end of file
+};
+
+// Columns only collide with other columns; cards use the closest corners so
+// that empty columns and the ends of lists are easy to hit
+const collisionDetection: CollisionDetection = args => {
+  const data = args.active.data.current as DragItemData | undefined;
+  if (data?.type === 'column') {
+    return closestCenter({
+      ...args,
+      droppableContainers: args.droppableContainers.filter(
+        container => (container.data.current as DragItemData | undefined)?.type === 'column'
+      ),
+    });
+  }
+  return closestCorners(args);
+};
+
+const silentAnnouncements = {
+  onDragStart: () => undefined,
+  onDragOver: () => undefined,
+  onDragEnd: () => undefined,
+  onDragCancel: () => undefined,
+};
+
+function toDropOver(over: Over): DropOver {
+  return { id: String(over.id), data: over.data.current as DragItemData | undefined };
+}
+
+// Human-readable name of a dragged or hovered item, e.g. `card "Fix bug"`
+function describe(board: Pick<BoardModel, 'columns' | 'swimlanes'>, item: Active | Over): string {
+  const data = item.data.current as DragItemData | undefined;
+  const id = String(item.id);
+
+  if (data?.type === 'column') {
+    const column = board.columns.find(c => c.id === id);
+    return `column "${column?.title ?? id}"`;
+  }
+
+  if (data?.type === 'cell') {
+    const column = board.columns.find(c => c.id === data.columnId);
+    const lane = board.swimlanes.find(l => l.id === data.swimlaneId);
+    return `column "${column?.title ?? data.columnId}" in ${lane ? `lane "${lane.title}"` : 'no lane'}`;
+  }
+
+  const card = board.columns.flatMap(c => c.cards).find(c => c.id === id);
+  return `card "${card?.content ?? id}"`;
+}
+
+function isTextField(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+interface ConflictPromptProps {
+  onReload: () => void;
+  onMerge: () => void;
+}
+
+// Shown when a save was rejected because someone else changed the board
+const ConflictPrompt: React.FC<ConflictPromptProps> = ({ onReload, onMerge }) => (
+  <div
+    role="alert"
+    className="mb-6 flex items-center justify-between gap-4 bg-amber-50 border border-amber-200 rounded-md p-4"
+  >
+    <p className="text-sm text-amber-900">
+      This board was changed by someone else, so your last change was not saved.
+    </p>
+    <div className="flex gap-2 flex-shrink-0">
+      <button
+        onClick={onReload}
+        className="bg-amber-100 hover:bg-amber-200 text-amber-900 px-3 py-1 rounded text-sm font-medium transition-colors"
+      >
+        Reload board
+      </button>
+      <button
+        onClick={onMerge}
+        className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm font-medium transition-colors"
+      >
+        Merge my changes
+      </button>
+    </div>
+  </div>
+);
+
+interface PresenceAvatarsProps {
+  members: PresenceMember[];
+  selfId: string | null;
+}
+
+// Everyone viewing the board, this tab first
+const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ members, selfId }) => {
+  if (members.length === 0) return null;
+
+  const ordered = [...members].sort((a, b) => Number(b.id === selfId) - Number(a.id === selfId));
+
+  return (
+    <ul aria-label="People on this board" className="flex -space-x-2">
+      {ordered.map(member => {
+        const name = member.id === selfId ? `${member.name} (you)` : member.name;
+        return (
+          <li
+            key={member.id}
+            title={name}
+            aria-label={name}
+            style={{ backgroundColor: member.color }}
+            className="h-8 w-8 rounded-full ring-2 ring-white flex items-center justify-center text-xs font-semibold text-white"
+          >
+            <span aria-hidden="true">{getInitials(member.name)}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+interface AddColumnFormProps {
+  onAdd: (title: string) => void;
+}
+
+// "Add Column" button that expands into an inline title input
+const AddColumnForm: React.FC<AddColumnFormProps> = ({ onAdd }) => {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+
+  const submit = () => {
+    const trimmed = title.trim();
+    if (trimmed) {
+      onAdd(trimmed);
+    }
+    setTitle('');
+    setOpen(false);
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded font-medium"
+      >
+        Add Column
+      </button>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={event => {
+        event.preventDefault();
+        submit();
+      }}
+      className="flex gap-2"
+    >
+      <input
+        type="text"
+        value={title}
+        onChange={event => setTitle(event.target.value)}
+        onKeyDown={event => {
+          if (event.key === 'Escape') setOpen(false);
+        }}
+        placeholder="Column title"
+        aria-label="New column title"
+        autoFocus
+        className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button
+        type="submit"
+        className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded text-sm font-medium"
+      >
+        Add
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,284 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import type { Card as CardModel, CardPriority, Label } from '../store/board.store';
+import type { DragItemData } from '../utils/drag-and-drop';
+import { PRIORITY_LABELS } from '../utils/card-details';
+import { checklistProgress } from '../utils/checklists';
+import type { LabelFilterMode } from '../utils/labels';
+import type { CardActivity } from '../utils/presence';
+
+interface CardProps {
+  card: CardModel;
+  columnId: string;
+  onEdit: (content: string) => void;
+  onDelete: () => void;
+  onEditingChange: (editing: boolean) => void;
+  // Opens the card's details
+  onOpen: () => void;
+  // What other people on the board are doing with this card
+  activity?: CardActivity | undefined;
+  // The card's labels
+  labels?: Label[] | undefined;
+  // Set when the card does not match the label filter
+  filteredOut?: LabelFilterMode | undefined;
+  // The cover image, if the card has one
+  coverUrl?: string | null | undefined;
+  readOnly?: boolean;
+}
+
+const PRIORITY_CLASSES: Record<CardPriority, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-blue-100 text-blue-800',
+  high: 'bg-amber-100 text-amber-800',
+  urgent: 'bg-red-100 text-red-800',
+};
+
+// How long a click waits for a second one before opening the card
+const DOUBLE_CLICK_MS = 250;
+
+export const Card: React.FC<CardProps> = ({
+  card,
+  columnId,
+  onEdit,
+  onDelete,
+  onEditingChange,
+  onOpen,
+  activity,
+  labels = [],
+  filteredOut,
+  coverUrl,
+  readOnly = false,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(card.content);
+  const [showActions, setShowActions] = useState(false);
+  // Covers whose file is gone, e.g. in an old snapshot, are left out
+  const [brokenCover, setBrokenCover] = useState<string | null>(null);
+  const openTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // Someone else editing the card holds a soft lock on it
+  const lockedBy = activity?.editingBy;
+  const draggedBy = activity?.draggingBy;
+  const busyWith = lockedBy ?? draggedBy;
+
+  const progress = checklistProgress(card);
+  const commentCount = card.commentCount ?? 0;
+  const attachmentCount = card.attachments?.length ?? 0;
+
+  const data: DragItemData = { type: 'card', columnId };
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    setActivatorNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: card.id, data, disabled: readOnly || editing || !!lockedBy });
+
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  // Two people can start editing at the same moment; whoever the server
+  // gave the lock to wins and the other edit is abandoned
+  useEffect(() => {
+    if (editing && lockedBy) {
+      setEditing(false);
+    }
+  }, [editing, lockedBy]);
+
+  useEffect(() => () => clearTimeout(openTimer.current), []);
+
+  // A click opens the details, unless it turns out to be the first half of
+  // the double-click that edits the content
+  const handleClick = (event: React.MouseEvent) => {
+    clearTimeout(openTimer.current);
+    if (event.detail > 1) return;
+    openTimer.current = setTimeout(onOpen, DOUBLE_CLICK_MS);
+  };
+
+  const startEditing = () => {
+    clearTimeout(openTimer.current);
+    if (readOnly || lockedBy) return;
+    setDraft(card.content);
+    setEditing(true);
+    onEditingChange(true);
+  };
+
+  const stopEditing = () => {
+    setEditing(false);
+    onEditingChange(false);
+  };
+
+  const saveDraft = () => {
+    stopEditing();
+    const content = draft.trim();
+    if (content && content !== card.content) {
+      onEdit(content);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      saveDraft();
+    } else if (event.key === 'Escape') {
+      stopEditing();
+    }
+  };
+
+  // Keep the delete action visible while focus moves between the card and
+  // its own buttons, so it stays reachable from the keyboard
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setShowActions(false);
+    }
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      data-testid={`card-${card.id}`}
+      draggable="true"
+      // dnd-kit drives dragging through pointer and keyboard events; a native
+      // HTML5 drag would cancel the pointer stream, so it is suppressed
+      onDragStart={event => event.preventDefault()}
+      // Hidden cards stay in the list so drop positions keep matching orders
+      hidden={filteredOut === 'hide'}
+      className={`relative ${isDragging ? 'opacity-50' : filteredOut === 'dim' ? 'opacity-30' : ''}`}
+      onMouseEnter={() => setShowActions(true)}
+      onMouseLeave={() => setShowActions(false)}
+      onFocus={() => setShowActions(true)}
+      onBlur={handleBlur}
+    >
+      {editing ? (
+        <input
+          type="text"
+          value={draft}
+          onChange={event => setDraft(event.target.value)}
+          onBlur={saveDraft}
+          onKeyDown={handleKeyDown}
+          placeholder="Enter card content"
+          aria-label="Card content"
+          autoFocus
+          className="w-full bg-white rounded-md p-3 shadow-sm border border-blue-500 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      ) : (
+        <button
+          ref={setActivatorNodeRef}
+          {...attributes}
+          {...listeners}
+          tabIndex={0}
+          aria-label={`Card: ${card.content}${lockedBy ? `, being edited by ${lockedBy.name}` : ''}`}
+          onClick={handleClick}
+          onDoubleClick={startEditing}
+          style={busyWith ? { borderColor: busyWith.color } : undefined}
+          className="w-full text-left bg-white rounded-md shadow-sm border border-gray-200 hover:shadow-md transition-shadow cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 overflow-hidden"
+        >
+          {coverUrl && coverUrl !== brokenCover && (
+            <img
+              data-testid="card-cover-image"
+              src={coverUrl}
+              alt=""
+              onError={() => setBrokenCover(coverUrl)}
+              className="block w-full h-32 object-cover bg-gray-100"
+            />
+          )}
+          {card.coverColor && (
+            <span
+              data-testid="card-cover"
+              className="block h-2"
+              style={{ backgroundColor: card.coverColor }}
+            />
+          )}
+          <span className="block p-3">
+            {labels.length > 0 && (
+              <span className="mb-2 flex flex-wrap gap-1">
+                {labels.map(label => (
+                  <span
+                    key={label.id}
+                    className="px-1.5 py-0.5 rounded text-xs font-medium text-white"
+                    style={{ backgroundColor: label.color }}
+                  >
+                    {label.name}
+                  </span>
+                ))}
+              </span>
+            )}
+            <p className="text-gray-900 text-sm">{card.content}</p>
+            {(card.priority || card.estimate != null || card.description || progress.total > 0 || commentCount > 0 || attachmentCount > 0) && (
+              <span className="mt-2 flex flex-wrap items-center gap-1.5 text-xs">
+                {card.priority && (
+                  <span className={`px-1.5 py-0.5 rounded font-medium ${PRIORITY_CLASSES[card.priority]}`}>
+                    {PRIORITY_LABELS[card.priority]}
+                  </span>
+                )}
+                {card.estimate != null && (
+                  <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700" title="Estimate">
+                    {card.estimate} pt{card.estimate === 1 ? '' : 's'}
+                  </span>
+                )}
+                {progress.total > 0 && (
+                  <span
+                    data-testid="card-checklist-progress"
+                    className={`px-1.5 py-0.5 rounded ${
+                      progress.done === progress.total ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                    }`}
+                    title="Checklist"
+                  >
+                    ☑ {progress.done}/{progress.total}
+                  </span>
+                )}
+                {card.description && (
+                  <span className="text-gray-500" title="Has a description">
+                    ≡
+                  </span>
+                )}
+                {commentCount > 0 && (
+                  <span data-testid="card-comment-count" className="text-gray-500" title="Comments">
+                    💬 {commentCount}
+                  </span>
+                )}
+                {attachmentCount > 0 && (
+                  <span data-testid="card-attachment-count" className="text-gray-500" title="Attachments">
+                    📎 {attachmentCount}
+                  </span>
+                )}
+              </span>
+            )}
+            {lockedBy && (
+              <span
+                data-testid="card-lock"
+                className="mt-2 inline-flex items-center gap-1 text-xs font-medium"
+                style={{ color: lockedBy.color }}
+              >
+                <span aria-hidden="true">🔒</span>
+                {lockedBy.name} is editing
+              </span>
+            )}
+            {!lockedBy && draggedBy && (
+              <span className="mt-2 inline-block text-xs font-medium" style={{ color: draggedBy.color }}>
+                {draggedBy.name} is moving this card
+              </span>
+            )}
+          </span>
+        </button>
+      )}
+
+      {!editing && !lockedBy && !readOnly && (
+        <button
+          hidden={!showActions}
+          onClick={onDelete}
+          aria-label="Delete card"
+          className="absolute top-2 right-2 text-gray-400 hover:text-red-600 text-xs font-medium px-1.5 py-0.5 rounded hover:bg-red-50 transition-colors"
+        >
+          Delete
+        </button>
+      )}
+    </div>
+  );
+};
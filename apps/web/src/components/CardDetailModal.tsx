@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import type { Card, CardDetails, CardPriority, Label } from '../store/board.store';
+import { COVER_COLORS, PRIORITY_LABELS } from '../utils/card-details';
+import { AttachmentList, type AttachmentActions, type AttachmentUrl } from './AttachmentList';
+import { ChecklistEditor, type ChecklistActions } from './ChecklistEditor';
+import { CommentPanel, type CommentPanelProps } from './CommentPanel';
+import { Markdown } from './Markdown';
+
+interface CardDetailModalProps {
+  card: Card;
+  // Shows the details without any way to change them
+  readOnly: boolean;
+  // Receives only the fields that changed; resolves to whether they were saved
+  onSave: (details: Partial<CardDetails>) => Promise<boolean>;
+  // The board's labels
+  labels: Label[];
+  // Label changes are saved right away rather than with the other details
+  onSetLabels: (labelIds: string[]) => void;
+  // Checklist changes are saved right away as well
+  checklistActions: ChecklistActions;
+  // So are attachments, which are uploaded as soon as they are picked
+  attachmentActions: AttachmentActions;
+  attachmentUrl: AttachmentUrl;
+  // The card's comment thread; left out when previewing a snapshot
+  comments?: Omit<CommentPanelProps, 'readOnly'> | undefined;
+  onClose: () => void;
+}
+
+const toDetails = (card: Card): CardDetails => ({
+  description: card.description ?? '',
+  priority: card.priority ?? null,
+  estimate: card.estimate ?? null,
+  coverColor: card.coverColor ?? null,
+});
+
+// Description, priority, estimate, cover color, labels, checklists and
+// attachments of a card, with its comment thread below
+export const CardDetailModal: React.FC<CardDetailModalProps> = ({
+  card,
+  readOnly,
+  onSave,
+  labels,
+  onSetLabels,
+  checklistActions,
+  attachmentActions,
+  attachmentUrl,
+  comments,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<CardDetails>(() => toDetails(card));
+  const [previewing, setPreviewing] = useState(readOnly);
+  const [saving, setSaving] = useState(false);
+
+  const current = toDetails(card);
+  const changes = Object.fromEntries(
+    (Object.keys(draft) as Array<keyof CardDetails>)
+      .filter(field => draft[field] !== current[field])
+      .map(field => [field, draft[field]])
+  ) as Partial<CardDetails>;
+  const changed = Object.keys(changes).length > 0;
+  const labelIds = card.labelIds ?? [];
+
+  const toggleLabel = (labelId: string) => {
+    onSetLabels(labelIds.includes(labelId) ? labelIds.filter(id => id !== labelId) : [...labelIds, labelId]);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const save = async () => {
+    setSaving(true);
+    const ok = await onSave(changes);
+    setSaving(false);
+    if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-start justify-center bg-black/40 p-8 overflow-y-auto" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="card-detail-title"
+        onClick={event => event.stopPropagation()}
+        className="w-full max-w-xl bg-white rounded-lg shadow-xl overflow-hidden"
+      >
+        {draft.coverColor && (
+          <div data-testid="card-detail-cover" className="h-10" style={{ backgroundColor: draft.coverColor }} />
+        )}
+
+        <form
+          onSubmit={event => {
+            event.preventDefault();
+            save();
+          }}
+          className="p-6 space-y-5"
+        >
+          <div className="flex items-start justify-between gap-4">
+            <h2 id="card-detail-title" className="text-lg font-semibold text-gray-900 break-words">
+              {card.content}
+            </h2>
+            <button
+              type="button"
+              onClick={onClose}
+              aria-label="Close card details"
+              className="text-gray-500 hover:text-gray-700 px-2 py-1 rounded text-sm"
+            >
+              Close
+            </button>
+          </div>
+
+          {labels.length > 0 && (
+            <fieldset disabled={readOnly}>
+              <legend className="text-sm font-medium text-gray-900 mb-2">Labels</legend>
+              <div className="flex flex-wrap gap-1.5">
+                {labels.map(label => {
+                  const selected = labelIds.includes(label.id);
+                  return (
+                    <button
+                      key={label.id}
+                      type="button"
+                      onClick={() => toggleLabel(label.id)}
+                      aria-pressed={selected}
+                      style={selected ? { backgroundColor: label.color, borderColor: label.color } : { borderColor: label.color }}
+                      className={`px-2 py-0.5 rounded-full border-2 text-xs font-medium ${selected ? 'text-white' : 'text-gray-800 bg-white'}`}
+                    >
+                      {label.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </fieldset>
+          )}
+
+          {(!readOnly || (card.checklists ?? []).length > 0) && (
+            <ChecklistEditor checklists={card.checklists ?? []} readOnly={readOnly} {...checklistActions} />
+          )}
+
+          {(!readOnly || (card.attachments ?? []).length > 0) && (
+            <AttachmentList
+              attachments={card.attachments ?? []}
+              urlOf={attachmentUrl}
+              readOnly={readOnly}
+              {...attachmentActions}
+            />
+          )}
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-900">Description</h3>
+              {!readOnly && (
+                <div className="flex gap-1 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setPreviewing(false)}
+                    aria-pressed={!previewing}
+                    className={`px-2 py-1 rounded ${previewing ? 'text-gray-600 hover:bg-gray-100' : 'bg-gray-200 text-gray-900'}`}
+                  >
+                    Write
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPreviewing(true)}
+                    aria-pressed={previewing}
+                    className={`px-2 py-1 rounded ${previewing ? 'bg-gray-200 text-gray-900' : 'text-gray-600 hover:bg-gray-100'}`}
+                  >
+                    Preview
+                  </button>
+                </div>
+              )}
+            </div>
+            {previewing ? (
+              draft.description ? (
+                <Markdown source={draft.description} />
+              ) : (
+                <p className="text-sm text-gray-500">No description</p>
+              )
+            ) : (
+              <textarea
+                value={draft.description}
+                onChange={event => setDraft({ ...draft, description: event.target.value })}
+                rows={8}
+                maxLength={10000}
+                placeholder="Add a description. Markdown is supported."
+                aria-label="Description"
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            )}
+          </section>
+
+          <div className="flex gap-4">
+            <label className="flex-1 text-sm font-medium text-gray-900">
+              Priority
+              <select
+                value={draft.priority ?? ''}
+                disabled={readOnly}
+                onChange={event =>
+                  setDraft({ ...draft, priority: (event.target.value || null) as CardPriority | null })
+                }
+                className="mt-1 block w-full border border-gray-300 rounded px-2 py-1.5 text-sm font-normal"
+              >
+                <option value="">None</option>
+                {(Object.keys(PRIORITY_LABELS) as CardPriority[]).map(priority => (
+                  <option key={priority} value={priority}>
+                    {PRIORITY_LABELS[priority]}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex-1 text-sm font-medium text-gray-900">
+              Estimate (points)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={1}
+                value={draft.estimate ?? ''}
+                disabled={readOnly}
+                onChange={event =>
+                  setDraft({ ...draft, estimate: event.target.value === '' ? null : Number(event.target.value) })
+                }
+                className="mt-1 block w-full border border-gray-300 rounded px-2 py-1.5 text-sm font-normal"
+              />
+            </label>
+          </div>
+
+          <fieldset disabled={readOnly}>
+            <legend className="text-sm font-medium text-gray-900 mb-2">Cover</legend>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, coverColor: null })}
+                aria-pressed={draft.coverColor === null}
+                className="h-8 px-2 rounded border border-gray-300 text-xs text-gray-700 aria-pressed:ring-2 aria-pressed:ring-blue-500"
+              >
+                None
+              </button>
+              {COVER_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, coverColor: color })}
+                  aria-label={`Cover ${color}`}
+                  aria-pressed={draft.coverColor === color}
+                  style={{ backgroundColor: color }}
+                  className="h-8 w-8 rounded aria-pressed:ring-2 aria-pressed:ring-offset-2 aria-pressed:ring-blue-500"
+                />
+              ))}
+            </div>
+          </fieldset>
+
+          {!readOnly && (
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!changed || saving}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          )}
+        </form>
+
+        {comments && (
+          <div className="border-t border-gray-200 p-6">
+            <CommentPanel {...comments} readOnly={readOnly} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import type { Checklist, ChecklistItem } from '../store/board.store';
+
+// Store actions for the open card's checklists
+export interface ChecklistActions {
+  onAddChecklist: (title: string) => Promise<unknown>;
+  onRenameChecklist: (checklistId: string, title: string) => void;
+  onDeleteChecklist: (checklistId: string) => void;
+  onAddItem: (checklistId: string, text: string) => Promise<unknown>;
+  onToggleItem: (checklistId: string, itemId: string, done: boolean) => void;
+  onMoveItem: (checklistId: string, itemId: string, targetOrder: number) => void;
+  onDeleteItem: (checklistId: string, itemId: string) => void;
+}
+
+interface ChecklistEditorProps extends ChecklistActions {
+  checklists: Checklist[];
+  readOnly: boolean;
+}
+
+const TITLE_MAX_LENGTH = 100;
+const ITEM_MAX_LENGTH = 500;
+
+// Enter in these fields adds or saves instead of submitting the card details form
+const onEnter = (action: () => void) => (event: React.KeyboardEvent<HTMLInputElement>) => {
+  if (event.key === 'Enter') {
+    event.preventDefault();
+    action();
+  }
+};
+
+// The card's checklists: items are ticked, reordered and deleted in place
+export const ChecklistEditor: React.FC<ChecklistEditorProps> = ({ checklists, readOnly, ...actions }) => {
+  const [title, setTitle] = useState('');
+
+  const addChecklist = async () => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    setTitle('');
+    await actions.onAddChecklist(trimmed);
+  };
+
+  return (
+    <section aria-label="Checklists" className="space-y-4">
+      {checklists.map(checklist => (
+        <ChecklistSection
+          // Starts the title field over when the checklist is renamed elsewhere
+          key={`${checklist.id}:${checklist.title}`}
+          checklist={checklist}
+          readOnly={readOnly}
+          actions={actions}
+        />
+      ))}
+
+      {!readOnly && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={title}
+            onChange={event => setTitle(event.target.value)}
+            onKeyDown={onEnter(addChecklist)}
+            maxLength={TITLE_MAX_LENGTH}
+            placeholder="Checklist title"
+            aria-label="New checklist title"
+            className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          <button
+            type="button"
+            onClick={addChecklist}
+            disabled={!title.trim()}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add checklist
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+interface ChecklistSectionProps {
+  checklist: Checklist;
+  readOnly: boolean;
+  actions: ChecklistActions;
+}
+
+const ChecklistSection: React.FC<ChecklistSectionProps> = ({ checklist, readOnly, actions }) => {
+  const [title, setTitle] = useState(checklist.title);
+  const [text, setText] = useState('');
+
+  const items = [...checklist.items].sort((a, b) => a.order - b.order);
+  const done = items.filter(item => item.done).length;
+
+  // Empty titles fall back to the current one
+  const saveTitle = () => {
+    const trimmed = title.trim();
+    if (!trimmed || trimmed === checklist.title) {
+      setTitle(checklist.title);
+      return;
+    }
+    actions.onRenameChecklist(checklist.id, trimmed);
+  };
+
+  const addItem = async () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    setText('');
+    await actions.onAddItem(checklist.id, trimmed);
+  };
+
+  return (
+    <div role="group" aria-label={`Checklist ${checklist.title}`} className="space-y-2">
+      <div className="flex items-center gap-2">
+        {readOnly ? (
+          <h3 className="flex-1 text-sm font-medium text-gray-900">{checklist.title}</h3>
+        ) : (
+          <input
+            type="text"
+            value={title}
+            onChange={event => setTitle(event.target.value)}
+            onBlur={saveTitle}
+            onKeyDown={event => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                event.currentTarget.blur();
+              }
+            }}
+            maxLength={TITLE_MAX_LENGTH}
+            aria-label={`Title of checklist ${checklist.title}`}
+            className="flex-1 min-w-0 border border-transparent hover:border-gray-300 rounded px-1 py-0.5 text-sm font-medium text-gray-900"
+          />
+        )}
+        <span className="text-xs text-gray-500">
+          {done}/{items.length}
+        </span>
+        {!readOnly && (
+          <button
+            type="button"
+            onClick={() => actions.onDeleteChecklist(checklist.id)}
+            aria-label={`Delete checklist ${checklist.title}`}
+            className="text-red-600 hover:text-red-800 text-xs"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <ul className="space-y-1">
+          {items.map((item, index) => (
+            <ChecklistItemRow
+              key={item.id}
+              item={item}
+              readOnly={readOnly}
+              isFirst={index === 0}
+              isLast={index === items.length - 1}
+              onToggle={() => actions.onToggleItem(checklist.id, item.id, !item.done)}
+              onMove={targetOrder => actions.onMoveItem(checklist.id, item.id, targetOrder)}
+              onDelete={() => actions.onDeleteItem(checklist.id, item.id)}
+            />
+          ))}
+        </ul>
+      )}
+
+      {!readOnly && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={text}
+            onChange={event => setText(event.target.value)}
+            onKeyDown={onEnter(addItem)}
+            maxLength={ITEM_MAX_LENGTH}
+            placeholder="Add an item"
+            aria-label={`New item in ${checklist.title}`}
+            className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          <button
+            type="button"
+            onClick={addItem}
+            disabled={!text.trim()}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ChecklistItemRowProps {
+  item: ChecklistItem;
+  readOnly: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onToggle: () => void;
+  onMove: (targetOrder: number) => void;
+  onDelete: () => void;
+}
+
+const ChecklistItemRow: React.FC<ChecklistItemRowProps> = ({
+  item,
+  readOnly,
+  isFirst,
+  isLast,
+  onToggle,
+  onMove,
+  onDelete,
+}) => (
+  <li className="flex items-center gap-2 text-sm">
+    <label className="flex-1 min-w-0 flex items-center gap-2">
+      <input type="checkbox" checked={item.done} disabled={readOnly} onChange={onToggle} />
+      <span className={`break-words ${item.done ? 'line-through text-gray-500' : 'text-gray-900'}`}>{item.text}</span>
+    </label>
+    {!readOnly && (
+      <span className="flex gap-1 text-xs">
+        <button
+          type="button"
+          onClick={() => onMove(item.order - 1)}
+          disabled={isFirst}
+          aria-label={`Move ${item.text} up`}
+          className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+        >
+          ↑
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(item.order + 1)}
+          disabled={isLast}
+          aria-label={`Move ${item.text} down`}
+          className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+        >
+          ↓
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
+          aria-label={`Delete ${item.text}`}
+          className="px-1 text-red-600 hover:text-red-800"
+        >
+          Delete
+        </button>
+      </span>
+    )}
+  </li>
+);
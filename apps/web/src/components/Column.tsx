@@ -0,0 +1,419 @@
+import React, { useState } from 'react';
+import { SortableContext, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import type { Card as CardModel, Column as ColumnModel, Label } from '../store/board.store';
+import type { DeleteColumnOptions } from '../utils/api';
+import type { DragItemData } from '../utils/drag-and-drop';
+import { cardLabels, matchesLabelFilter, type LabelFilter } from '../utils/labels';
+import type { CardActivity } from '../utils/presence';
+import { isOverWipLimit } from '../utils/wip-limits';
+import { Card } from './Card';
+
+interface ColumnProps {
+  column: ColumnModel;
+  columns: ColumnModel[];
+  onAddCard: () => void;
+  onEditCard: (cardId: string, content: string) => void;
+  onDeleteCard: (cardId: string) => void;
+  // Reports when this tab starts or stops editing one of the column's cards
+  onEditingCard: (cardId: string | null) => void;
+  onOpenCard: (cardId: string) => void;
+  cardActivity: Record<string, CardActivity>;
+  // The board's labels
+  labels: Label[];
+  labelFilter: LabelFilter;
+  // Where a card's cover image is loaded from
+  coverUrl?: ((card: CardModel) => string | null) | undefined;
+  onRename: (title: string) => void;
+  onSetWipLimit: (wipLimit: number | null) => void;
+  onMove: (targetOrder: number) => void;
+  onDelete: (options: DeleteColumnOptions) => void;
+  // Shows the column and its cards without any way to change them
+  readOnly?: boolean;
+}
+
+export const Column: React.FC<ColumnProps> = ({
+  column,
+  columns,
+  onAddCard,
+  onEditCard,
+  onDeleteCard,
+  onEditingCard,
+  onOpenCard,
+  cardActivity,
+  labels,
+  labelFilter,
+  coverUrl,
+  onRename,
+  onSetWipLimit,
+  onMove,
+  onDelete,
+  readOnly = false,
+}) => {
+  const [renaming, setRenaming] = useState(false);
+  const [titleDraft, setTitleDraft] = useState(column.title);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [editingWipLimit, setEditingWipLimit] = useState(false);
+
+  const data: DragItemData = { type: 'column' };
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    setActivatorNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: column.id, data, disabled: readOnly });
+
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  const cards = [...column.cards].sort((a, b) => a.order - b.order);
+
+  // Card count, against the WIP limit when the column has one
+  const count = column.wipLimit != null ? `${column.cards.length}/${column.wipLimit}` : `${column.cards.length}`;
+  const overLimit = isOverWipLimit(column);
+
+  const startRenaming = () => {
+    setTitleDraft(column.title);
+    setRenaming(true);
+  };
+
+  const saveTitle = () => {
+    setRenaming(false);
+    const title = titleDraft.trim();
+    if (title && title !== column.title) {
+      onRename(title);
+    }
+  };
+
+  const handleTitleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      saveTitle();
+    } else if (event.key === 'Escape') {
+      setRenaming(false);
+    }
+  };
+
+  // Space/Enter on the handle starts a keyboard drag; outside of one, arrow
+  // keys move the column a single slot left or right
+  const handleHandleKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+    listeners?.['onKeyDown']?.(event);
+    if (event.defaultPrevented || isDragging) return;
+
+    if (event.key === 'ArrowLeft' && column.order > 0) {
+      event.preventDefault();
+      onMove(column.order - 1);
+    } else if (event.key === 'ArrowRight' && column.order < columns.length - 1) {
+      event.preventDefault();
+      onMove(column.order + 1);
+    }
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      data-testid="board-column"
+      role="region"
+      aria-label={`${column.title} column with ${column.cards.length} cards`}
+      data-droppable="true"
+      data-over-limit={overLimit || undefined}
+      className={`flex-shrink-0 w-80 rounded-lg p-4 ${
+        overLimit ? 'bg-red-50 ring-2 ring-red-300' : 'bg-gray-50'
+      } ${isDragging ? 'opacity-50' : ''}`}
+    >
+      {/* Column Header */}
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <div className="flex items-center gap-1 min-w-0">
+          {!readOnly && (
+            <button
+              ref={setActivatorNodeRef}
+              {...attributes}
+              {...listeners}
+              aria-label={`Reorder ${column.title} column`}
+              title="Drag or use arrow keys to reorder"
+              onKeyDown={handleHandleKeyDown}
+              className="cursor-grab text-gray-400 hover:text-gray-600 px-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              ⠿
+            </button>
+          )}
+          {renaming ? (
+            <input
+              type="text"
+              value={titleDraft}
+              onChange={event => setTitleDraft(event.target.value)}
+              onBlur={saveTitle}
+              onKeyDown={handleTitleKeyDown}
+              aria-label="Column title"
+              autoFocus
+              className="font-semibold text-gray-900 bg-white border border-blue-500 rounded px-2 py-0.5 w-full focus:outline-none"
+            />
+          ) : readOnly ? (
+            <h2 className={`font-semibold truncate ${overLimit ? 'text-red-700' : 'text-gray-900'}`}>
+              {column.title} ({count})
+            </h2>
+          ) : (
+            <h2
+              className={`font-semibold truncate cursor-text ${overLimit ? 'text-red-700' : 'text-gray-900'}`}
+              title="Double-click to rename"
+              onDoubleClick={startRenaming}
+            >
+              {column.title} ({count})
+            </h2>
+          )}
+        </div>
+        {!readOnly && (
+          <div className="flex items-center flex-shrink-0">
+            <button
+              onClick={onAddCard}
+              className="text-gray-500 hover:text-gray-700 text-sm font-medium px-2 py-1 rounded hover:bg-gray-200 transition-colors"
+            >
+              Add Card
+            </button>
+            <button
+              onClick={() => setEditingWipLimit(true)}
+              aria-label={`Set WIP limit for ${column.title} column`}
+              title="WIP limit"
+              className="text-gray-400 hover:text-gray-700 text-xs font-medium px-2 py-1 rounded hover:bg-gray-200 transition-colors"
+            >
+              WIP
+            </button>
+            <button
+              onClick={() => setConfirmingDelete(true)}
+              aria-label={`Delete ${column.title} column`}
+              className="text-gray-400 hover:text-red-600 text-sm px-2 py-1 rounded hover:bg-red-50 transition-colors"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+      </div>
+
+      {editingWipLimit && (
+        <WipLimitPanel
+          column={column}
+          onCancel={() => setEditingWipLimit(false)}
+          onSave={wipLimit => {
+            setEditingWipLimit(false);
+            if (wipLimit !== (column.wipLimit ?? null)) {
+              onSetWipLimit(wipLimit);
+            }
+          }}
+        />
+      )}
+
+      {confirmingDelete && (
+        <DeleteColumnPanel
+          column={column}
+          columns={columns}
+          onCancel={() => setConfirmingDelete(false)}
+          onConfirm={options => {
+            setConfirmingDelete(false);
+            onDelete(options);
+          }}
+        />
+      )}
+
+      {/* Cards */}
+      <SortableContext items={cards.map(card => card.id)} strategy={verticalListSortingStrategy}>
+        <div className="space-y-3 min-h-[2rem]">
+          {cards.map(card => (
+            <Card
+              key={card.id}
+              card={card}
+              columnId={column.id}
+              onEdit={content => onEditCard(card.id, content)}
+              onDelete={() => onDeleteCard(card.id)}
+              onEditingChange={editing => onEditingCard(editing ? card.id : null)}
+              onOpen={() => onOpenCard(card.id)}
+              activity={cardActivity[card.id]}
+              labels={cardLabels(card, labels)}
+              coverUrl={coverUrl?.(card)}
+              filteredOut={matchesLabelFilter(card, labelFilter.labelIds) ? undefined : labelFilter.mode}
+              readOnly={readOnly}
+            />
+          ))}
+
+          {/* Empty state for column */}
+          {column.cards.length === 0 && (
+            <div className="text-center py-8 text-gray-400">
+              <p className="text-sm">No cards yet</p>
+            </div>
+          )}
+        </div>
+      </SortableContext>
+    </div>
+  );
+};
+
+interface WipLimitPanelProps {
+  column: ColumnModel;
+  onCancel: () => void;
+  onSave: (wipLimit: number | null) => void;
+}
+
+// Sets or removes the most cards the column should hold
+const WipLimitPanel: React.FC<WipLimitPanelProps> = ({ column, onCancel, onSave }) => {
+  const [draft, setDraft] = useState(column.wipLimit != null ? String(column.wipLimit) : '');
+
+  const limit = Number(draft);
+  const valid = draft === '' || (Number.isInteger(limit) && limit >= 1 && limit <= 999);
+
+  const save = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (valid) onSave(draft === '' ? null : limit);
+  };
+
+  return (
+    <form
+      onSubmit={save}
+      aria-label={`WIP limit for ${column.title} column`}
+      className="mb-4 p-3 bg-white border border-gray-200 rounded-md text-sm space-y-2"
+    >
+      <label className="flex items-center gap-2 text-gray-700">
+        At most
+        <input
+          type="number"
+          min={1}
+          max={999}
+          value={draft}
+          onChange={event => setDraft(event.target.value)}
+          aria-label="WIP limit"
+          placeholder="No limit"
+          autoFocus
+          className="w-24 border border-gray-300 rounded px-2 py-0.5"
+        />
+        cards
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!valid}
+          className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded font-medium"
+        >
+          Save
+        </button>
+        {column.wipLimit != null && (
+          <button
+            type="button"
+            onClick={() => onSave(null)}
+            className="text-red-600 hover:text-red-800 px-3 py-1 rounded"
+          >
+            Remove limit
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-gray-600 hover:text-gray-800 px-3 py-1 rounded"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface DeleteColumnPanelProps {
+  column: ColumnModel;
+  columns: ColumnModel[];
+  onCancel: () => void;
+  onConfirm: (options: DeleteColumnOptions) => void;
+}
+
+// Asks what to do with the cards before a column is deleted
+const DeleteColumnPanel: React.FC<DeleteColumnPanelProps> = ({
+  column,
+  columns,
+  onCancel,
+  onConfirm,
+}) => {
+  const targets = columns.filter(other => other.id !== column.id);
+  const [cardAction, setCardAction] = useState<'delete' | 'move'>('delete');
+  const [targetColumnId, setTargetColumnId] = useState(targets[0]?.id ?? '');
+
+  const hasCards = column.cards.length > 0;
+
+  const confirm = () => {
+    if (hasCards && cardAction === 'move' && targetColumnId) {
+      onConfirm({ cards: 'move', targetColumnId });
+    } else {
+      onConfirm({ cards: 'delete' });
+    }
+  };
+
+  return (
+    <div
+      role="group"
+      aria-label={`Delete ${column.title} column`}
+      className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm space-y-2"
+    >
+      <p className="text-red-800 font-medium">Delete “{column.title}”?</p>
+
+      {hasCards && (
+        <fieldset className="space-y-1">
+          <legend className="text-gray-700">
+            What should happen to its {column.cards.length} cards?
+          </legend>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name={`delete-${column.id}`}
+              checked={cardAction === 'delete'}
+              onChange={() => setCardAction('delete')}
+            />
+            Delete them
+          </label>
+          {targets.length > 0 && (
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name={`delete-${column.id}`}
+                checked={cardAction === 'move'}
+                onChange={() => setCardAction('move')}
+              />
+              Move them to
+              <select
+                value={targetColumnId}
+                onChange={event => {
+                  setTargetColumnId(event.target.value);
+                  setCardAction('move');
+                }}
+                aria-label="Target column"
+                className="border border-gray-300 rounded px-1 py-0.5 bg-white"
+              >
+                {targets.map(target => (
+                  <option key={target.id} value={target.id}>
+                    {target.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </fieldset>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={confirm}
+          className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded font-medium"
+        >
+          Delete column
+        </button>
+        <button
+          onClick={onCancel}
+          className="text-gray-600 hover:text-gray-800 px-3 py-1 rounded"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
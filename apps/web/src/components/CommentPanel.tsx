@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import type { CommentThread } from '../store/board.store';
+import type { CardComment } from '../utils/comments';
+import { Markdown } from './Markdown';
+
+// Store actions for the open card's comments
+export interface CommentActions {
+  onAdd: (body: string) => Promise<boolean>;
+  onEdit: (commentId: string, body: string) => Promise<boolean>;
+  onDelete: (commentId: string) => void;
+}
+
+export interface CommentPanelProps extends CommentActions {
+  thread: CommentThread;
+  // Display name this browser posts under; only its own comments can be edited
+  authorName: string;
+  readOnly: boolean;
+}
+
+const BODY_MAX_LENGTH = 5000;
+
+// The card's comment thread, oldest first, with a box for a new comment
+export const CommentPanel: React.FC<CommentPanelProps> = ({ thread, authorName, readOnly, onAdd, onEdit, onDelete }) => {
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const post = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    setPosting(true);
+    if (await onAdd(body)) {
+      setDraft('');
+    }
+    setPosting(false);
+  };
+
+  return (
+    <section aria-label="Comments" className="space-y-3">
+      <h3 className="text-sm font-medium text-gray-900">
+        Comments{thread.entries.length > 0 && ` (${thread.entries.length})`}
+      </h3>
+
+      {thread.error && (
+        <p role="alert" className="text-sm text-red-700">
+          {thread.error}
+        </p>
+      )}
+      {thread.loading ? (
+        <p className="text-sm text-gray-500">Loading comments...</p>
+      ) : thread.entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet</p>
+      ) : (
+        <ol className="space-y-3">
+          {thread.entries.map(comment => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              editable={!readOnly && comment.authorName === authorName}
+              deletable={!readOnly}
+              onEdit={body => onEdit(comment.id, body)}
+              onDelete={() => onDelete(comment.id)}
+            />
+          ))}
+        </ol>
+      )}
+
+      {!readOnly && (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            rows={3}
+            maxLength={BODY_MAX_LENGTH}
+            placeholder={`Comment as ${authorName}. Markdown is supported.`}
+            aria-label="New comment"
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={post}
+              disabled={!draft.trim() || posting}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {posting ? 'Posting...' : 'Comment'}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+interface CommentItemProps {
+  comment: CardComment;
+  editable: boolean;
+  deletable: boolean;
+  onEdit: (body: string) => Promise<boolean>;
+  onDelete: () => void;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({ comment, editable, deletable, onEdit, onDelete }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.body);
+
+  const save = async () => {
+    const body = draft.trim();
+    if (!body) return;
+    if (body === comment.body || (await onEdit(body))) {
+      setEditing(false);
+    }
+  };
+
+  return (
+    <li className="text-sm">
+      <div className="flex items-baseline gap-2">
+        <span className="font-medium text-gray-900">{comment.authorName}</span>
+        <time dateTime={comment.createdAt} className="text-xs text-gray-500">
+          {new Date(comment.createdAt).toLocaleString()}
+        </time>
+        {comment.edited && <span className="text-xs text-gray-500">(edited)</span>}
+        {!editing && (
+          <span className="ml-auto flex gap-2 text-xs">
+            {editable && (
+              <button
+                type="button"
+                onClick={() => {
+                  setDraft(comment.body);
+                  setEditing(true);
+                }}
+                aria-label={`Edit comment by ${comment.authorName}`}
+                className="text-gray-600 hover:text-gray-900"
+              >
+                Edit
+              </button>
+            )}
+            {deletable && (
+              <button
+                type="button"
+                onClick={onDelete}
+                aria-label={`Delete comment by ${comment.authorName}`}
+                className="text-red-600 hover:text-red-800"
+              >
+                Delete
+              </button>
+            )}
+          </span>
+        )}
+      </div>
+      {editing ? (
+        <div className="mt-1 space-y-2">
+          <textarea
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            rows={3}
+            maxLength={BODY_MAX_LENGTH}
+            aria-label="Edit comment"
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end gap-2 text-xs">
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-2 py-1 rounded font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              disabled={!draft.trim()}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save comment
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-1">
+          <Markdown source={comment.body} />
+        </div>
+      )}
+    </li>
+  );
+};
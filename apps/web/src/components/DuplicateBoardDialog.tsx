@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import type { CloneScope } from '../utils/api';
+
+interface DuplicateBoardDialogProps {
+  boardTitle: string;
+  // Resolves to the copy's ID, or null if it failed
+  onDuplicate: (scope: CloneScope, title: string) => Promise<string | null>;
+  onOpenBoard: (boardId: string) => void;
+  onClose: () => void;
+}
+
+const SCOPES: Array<{ value: CloneScope; label: string; hint: string }> = [
+  { value: 'everything', label: 'Everything', hint: 'Cards with their descriptions, labels and checklists' },
+  { value: 'cards', label: 'Columns and cards', hint: 'Card titles only, ready to fill in again' },
+  { value: 'columns', label: 'Columns only', hint: 'An empty board with the same columns, labels and lanes' },
+];
+
+// Copies the board under a new title and opens the copy. Comments and
+// attachments stay with the original.
+export const DuplicateBoardDialog: React.FC<DuplicateBoardDialogProps> = ({
+  boardTitle,
+  onDuplicate,
+  onOpenBoard,
+  onClose,
+}) => {
+  const [title, setTitle] = useState(`${boardTitle} (copy)`.slice(0, 100));
+  const [scope, setScope] = useState<CloneScope>('everything');
+  const [duplicating, setDuplicating] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!title.trim()) return;
+
+    setDuplicating(true);
+    const boardId = await onDuplicate(scope, title.trim());
+    setDuplicating(false);
+
+    if (boardId) {
+      onClose();
+      onOpenBoard(boardId);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-start justify-center bg-black/40 p-8 overflow-y-auto" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="duplicate-board-title"
+        onClick={event => event.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-lg shadow-xl p-6 space-y-4 text-left"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <h2 id="duplicate-board-title" className="text-lg font-semibold text-gray-900">
+            Duplicate board
+          </h2>
+          <button
+            onClick={onClose}
+            aria-label="Close duplicate board"
+            className="text-gray-500 hover:text-gray-700 px-2 py-1 rounded text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            value={title}
+            onChange={event => setTitle(event.target.value)}
+            maxLength={100}
+            aria-label="New board title"
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+          />
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-gray-700">Copy</legend>
+            {SCOPES.map(option => (
+              <label key={option.value} className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="clone-scope"
+                  value={option.value}
+                  checked={scope === option.value}
+                  onChange={() => setScope(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block font-medium">{option.label}</span>
+                  <span className="block text-gray-500">{option.hint}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+          <button
+            type="submit"
+            disabled={duplicating || !title.trim()}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {duplicating ? 'Duplicating…' : 'Duplicate'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
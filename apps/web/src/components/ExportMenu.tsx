@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import type { ExportFormat } from '../utils/api';
+
+interface ExportMenuProps {
+  // Download link for each format
+  exportUrl: (format: ExportFormat) => string;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'json', label: 'JSON (can be imported again)' },
+  { format: 'csv', label: 'CSV (one row per card)' },
+  { format: 'markdown', label: 'Markdown' },
+];
+
+// "Export" button that opens a list of download links
+export const ExportMenu: React.FC<ExportMenuProps> = ({ exportUrl }) => {
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(current => !current)}
+        aria-expanded={open}
+        aria-haspopup="menu"
+        className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1.5 rounded text-sm font-medium"
+      >
+        Export
+      </button>
+      {open && (
+        <div
+          role="menu"
+          aria-label="Export board"
+          className="absolute right-0 z-20 mt-1 w-60 bg-white border border-gray-200 rounded shadow-lg py-1"
+        >
+          {FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              role="menuitem"
+              href={exportUrl(format)}
+              download
+              onClick={() => setOpen(false)}
+              className="block px-3 py-2 text-sm text-gray-800 hover:bg-gray-100"
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
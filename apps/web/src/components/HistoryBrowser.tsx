@@ -0,0 +1,133 @@
+import React from 'react';
+import type { SnapshotState } from '../store/board.store';
+import { describeDiff, describeSnapshotReason } from '../utils/snapshots';
+
+interface HistoryBrowserProps {
+  snapshots: SnapshotState;
+  onSelect: (snapshotId: string | null) => void;
+  onCreate: () => void;
+  onRestore: (snapshotId: string) => void;
+  onClose: () => void;
+  // Read-only render of the selected snapshot
+  children?: React.ReactNode;
+}
+
+// Saved versions of the board, with a preview of the selected one and what
+// has changed since
+export const HistoryBrowser: React.FC<HistoryBrowserProps> = ({
+  snapshots,
+  onSelect,
+  onCreate,
+  onRestore,
+  onClose,
+  children,
+}) => {
+  const { entries, selected, diff, loading, error } = snapshots;
+  const changes = diff ? describeDiff(diff) : [];
+
+  return (
+    <section
+      role="dialog"
+      aria-modal="true"
+      aria-label="Board history"
+      className="fixed inset-0 z-30 bg-white flex"
+    >
+      <nav aria-label="Saved versions" className="w-72 flex-shrink-0 border-r border-gray-200 flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">History</h2>
+          <button
+            onClick={onClose}
+            aria-label="Close history"
+            className="text-gray-500 hover:text-gray-700 px-2 py-1 rounded text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="px-4 py-3 border-b border-gray-200">
+          <button
+            onClick={onCreate}
+            disabled={loading}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save current version
+          </button>
+        </div>
+
+        <ol className="flex-1 overflow-y-auto">
+          {entries.map(snapshot => (
+            <li key={snapshot.id}>
+              <button
+                onClick={() => onSelect(snapshot.id)}
+                aria-current={selected?.id === snapshot.id ? 'true' : undefined}
+                className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 ${
+                  selected?.id === snapshot.id ? 'bg-blue-50' : ''
+                }`}
+              >
+                <time dateTime={snapshot.createdAt} className="block text-gray-900">
+                  {new Date(snapshot.createdAt).toLocaleString()}
+                </time>
+                <span className="text-xs text-gray-500">
+                  Version {snapshot.version} · {describeSnapshotReason(snapshot.reason)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        {entries.length === 0 && !loading && (
+          <p className="px-4 py-3 text-sm text-gray-500">No saved versions yet</p>
+        )}
+      </nav>
+
+      <div className="flex-1 overflow-auto">
+        {error && (
+          <p role="alert" className="m-4 text-sm text-red-700">
+            {error}
+          </p>
+        )}
+
+        {loading && <p className="m-4 text-sm text-gray-500">Loading history...</p>}
+
+        {selected ? (
+          <>
+            <div className="flex items-start justify-between gap-4 px-6 pt-6">
+              <div>
+                <h3 className="font-semibold text-gray-900">
+                  Version {selected.version} from {new Date(selected.createdAt).toLocaleString()}
+                </h3>
+                {changes.length === 0 ? (
+                  <p className="mt-1 text-sm text-gray-500">No changes since this version</p>
+                ) : (
+                  <ul aria-label="Changes since this version" className="mt-1 text-sm text-gray-700 list-disc pl-5">
+                    {changes.map((change, index) => (
+                      <li key={index}>{change}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => onSelect(null)}
+                  className="text-gray-600 hover:text-gray-800 px-3 py-1.5 rounded text-sm"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={() => onRestore(selected.id)}
+                  disabled={loading}
+                  className="bg-amber-600 hover:bg-amber-700 text-white px-3 py-1.5 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Restore this version
+                </button>
+              </div>
+            </div>
+            {children}
+          </>
+        ) : (
+          !loading && <p className="m-6 text-sm text-gray-500">Select a version to preview it</p>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import type { SkippedField } from '../utils/api';
+
+interface ImportTrelloDialogProps {
+  // Resolves to what was left out of the new board, or null if it failed
+  onImport: (trello: unknown) => Promise<{ boardId: string; skipped: SkippedField[] } | null>;
+  onOpenBoard: (boardId: string) => void;
+  onClose: () => void;
+  // Set while the import runs, and to why it failed afterwards
+  importing: boolean;
+  error: string | null;
+}
+
+// Picks a Trello JSON export and imports it as a new board. Anything left out
+// is listed before the board is opened.
+export const ImportTrelloDialog: React.FC<ImportTrelloDialogProps> = ({
+  onImport,
+  onOpenBoard,
+  onClose,
+  importing,
+  error,
+}) => {
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ boardId: string; skipped: SkippedField[] } | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const importFile = async (file: File) => {
+    setFileError(null);
+
+    let trello: unknown;
+    try {
+      trello = JSON.parse(await file.text());
+    } catch {
+      setFileError(`${file.name} is not a JSON file`);
+      return;
+    }
+
+    const imported = await onImport(trello);
+    if (!imported) return;
+
+    if (imported.skipped.length === 0) {
+      onOpenBoard(imported.boardId);
+    } else {
+      setResult(imported);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-start justify-center bg-black/40 p-8 overflow-y-auto" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-trello-title"
+        onClick={event => event.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-lg shadow-xl p-6 space-y-4 text-left"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <h2 id="import-trello-title" className="text-lg font-semibold text-gray-900">
+            Import from Trello
+          </h2>
+          <button
+            onClick={onClose}
+            aria-label="Close import"
+            className="text-gray-500 hover:text-gray-700 px-2 py-1 rounded text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {result ? (
+          <>
+            <p className="text-sm text-gray-700">The board was imported, except for:</p>
+            <ul aria-label="Left out" className="text-sm text-gray-700 list-disc pl-5 space-y-1">
+              {result.skipped.map(entry => (
+                <li key={entry.field}>
+                  {entry.reason} ({entry.count} × <code>{entry.field}</code>)
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={() => onOpenBoard(result.boardId)}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded text-sm font-medium"
+            >
+              Open board
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              In Trello, open the board menu and choose Print, export and share → Export as JSON, then pick the
+              downloaded file.
+            </p>
+            <input
+              type="file"
+              accept="application/json,.json"
+              aria-label="Trello export"
+              disabled={importing}
+              onChange={event => {
+                const file = event.target.files?.[0];
+                if (file) importFile(file);
+              }}
+              className="block w-full text-sm text-gray-700"
+            />
+            {importing && <p className="text-sm text-gray-500">Importing…</p>}
+            {(fileError ?? error) && (
+              <p role="alert" className="text-sm text-red-700">
+                {fileError ?? error}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
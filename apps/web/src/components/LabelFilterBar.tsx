@@ -0,0 +1,66 @@
+import React from 'react';
+import type { Label } from '../store/board.store';
+import type { LabelFilter, LabelFilterMode } from '../utils/labels';
+
+interface LabelFilterBarProps {
+  labels: Label[];
+  filter: LabelFilter;
+  onChange: (filter: LabelFilter) => void;
+}
+
+const MODE_LABELS: Record<LabelFilterMode, string> = {
+  dim: 'Dim others',
+  hide: 'Hide others',
+};
+
+// Picks the labels cards are filtered by and what happens to the rest
+export const LabelFilterBar: React.FC<LabelFilterBarProps> = ({ labels, filter, onChange }) => {
+  const toggle = (labelId: string) => {
+    const labelIds = filter.labelIds.includes(labelId)
+      ? filter.labelIds.filter(id => id !== labelId)
+      : [...filter.labelIds, labelId];
+    onChange({ ...filter, labelIds });
+  };
+
+  return (
+    <div role="group" aria-label="Filter by label" className="mb-4 flex flex-wrap items-center gap-2">
+      <span className="text-sm text-gray-600">Filter:</span>
+      {labels.map(label => {
+        const selected = filter.labelIds.includes(label.id);
+        return (
+          <button
+            key={label.id}
+            onClick={() => toggle(label.id)}
+            aria-pressed={selected}
+            style={selected ? { backgroundColor: label.color, borderColor: label.color } : { borderColor: label.color }}
+            className={`px-2 py-0.5 rounded-full border-2 text-xs font-medium ${selected ? 'text-white' : 'text-gray-800 bg-white'}`}
+          >
+            {label.name}
+          </button>
+        );
+      })}
+      {filter.labelIds.length > 0 && (
+        <>
+          <select
+            value={filter.mode}
+            onChange={event => onChange({ ...filter, mode: event.target.value as LabelFilterMode })}
+            aria-label="Cards without these labels"
+            className="border border-gray-300 rounded px-2 py-0.5 text-xs"
+          >
+            {(Object.keys(MODE_LABELS) as LabelFilterMode[]).map(mode => (
+              <option key={mode} value={mode}>
+                {MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange({ ...filter, labelIds: [] })}
+            className="text-xs text-gray-600 hover:text-gray-900 underline"
+          >
+            Clear filter
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import type { Label } from '../store/board.store';
+import { LABEL_COLORS } from '../utils/labels';
+
+interface LabelManagerProps {
+  labels: Label[];
+  onCreate: (name: string, color: string) => Promise<boolean>;
+  onUpdate: (labelId: string, updates: Partial<Omit<Label, 'id'>>) => void;
+  onDelete: (labelId: string) => void;
+  // Moves the label's cards over to the target label and deletes it
+  onMerge: (labelId: string, targetLabelId: string) => void;
+  onClose: () => void;
+}
+
+const NAME_MAX_LENGTH = 30;
+
+// Creates, renames, recolors, deletes and merges the board's labels
+export const LabelManager: React.FC<LabelManagerProps> = ({
+  labels,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onMerge,
+  onClose,
+}) => {
+  // Label names are unique per board
+  const nameTaken = (name: string, exceptId?: string) =>
+    labels.some(label => label.name === name && label.id !== exceptId);
+
+  return (
+    <aside
+      aria-label="Labels"
+      className="fixed inset-y-0 right-0 z-20 w-96 bg-white border-l border-gray-200 shadow-lg flex flex-col"
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Labels</h2>
+        <button
+          onClick={onClose}
+          aria-label="Close labels"
+          className="text-gray-500 hover:text-gray-700 px-2 py-1 rounded text-sm"
+        >
+          Close
+        </button>
+      </div>
+
+      <NewLabelForm nameTaken={name => nameTaken(name)} onCreate={onCreate} />
+
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {labels.length === 0 ? (
+          <p className="text-sm text-gray-500">No labels yet</p>
+        ) : (
+          <ul className="space-y-4">
+            {labels.map(label => (
+              <LabelRow
+                // Starts the name field over when the label is renamed elsewhere
+                key={`${label.id}:${label.name}`}
+                label={label}
+                others={labels.filter(other => other.id !== label.id)}
+                nameTaken={name => nameTaken(name, label.id)}
+                onUpdate={updates => onUpdate(label.id, updates)}
+                onDelete={() => onDelete(label.id)}
+                onMerge={targetLabelId => onMerge(label.id, targetLabelId)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+interface ColorPickerProps {
+  value: string;
+  onChange: (color: string) => void;
+}
+
+const ColorPicker: React.FC<ColorPickerProps> = ({ value, onChange }) => (
+  <div className="flex gap-1.5">
+    {LABEL_COLORS.map(color => (
+      <button
+        key={color}
+        type="button"
+        onClick={() => onChange(color)}
+        aria-label={`Color ${color}`}
+        aria-pressed={value === color}
+        style={{ backgroundColor: color }}
+        className="h-5 w-5 rounded-full aria-pressed:ring-2 aria-pressed:ring-offset-1 aria-pressed:ring-blue-500"
+      />
+    ))}
+  </div>
+);
+
+interface NewLabelFormProps {
+  nameTaken: (name: string) => boolean;
+  onCreate: (name: string, color: string) => Promise<boolean>;
+}
+
+const NewLabelForm: React.FC<NewLabelFormProps> = ({ nameTaken, onCreate }) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(LABEL_COLORS[0] ?? '#6b7280');
+
+  const trimmed = name.trim();
+  const taken = nameTaken(trimmed);
+
+  const submit = async () => {
+    if (await onCreate(trimmed, color)) {
+      setName('');
+    }
+  };
+
+  return (
+    <form
+      aria-label="New label"
+      onSubmit={event => {
+        event.preventDefault();
+        submit();
+      }}
+      className="px-4 py-3 border-b border-gray-200 space-y-2"
+    >
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={event => setName(event.target.value)}
+          maxLength={NAME_MAX_LENGTH}
+          placeholder="Label name"
+          aria-label="New label name"
+          className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={!trimmed || taken}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add label
+        </button>
+      </div>
+      <ColorPicker value={color} onChange={setColor} />
+      {taken && <p className="text-xs text-red-700">A label with this name already exists</p>}
+    </form>
+  );
+};
+
+interface LabelRowProps {
+  label: Label;
+  // Labels this one can be merged into
+  others: Label[];
+  nameTaken: (name: string) => boolean;
+  onUpdate: (updates: Partial<Omit<Label, 'id'>>) => void;
+  onDelete: () => void;
+  onMerge: (targetLabelId: string) => void;
+}
+
+const LabelRow: React.FC<LabelRowProps> = ({ label, others, nameTaken, onUpdate, onDelete, onMerge }) => {
+  const [name, setName] = useState(label.name);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  // Invalid or taken names fall back to the current one
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === label.name || nameTaken(trimmed)) {
+      setName(label.name);
+      return;
+    }
+    onUpdate({ name: trimmed });
+  };
+
+  return (
+    <li className="text-sm space-y-2">
+      <div className="flex items-center gap-2">
+        <span aria-hidden="true" className="h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: label.color }} />
+        <input
+          type="text"
+          value={name}
+          onChange={event => setName(event.target.value)}
+          onBlur={saveName}
+          onKeyDown={event => {
+            if (event.key === 'Enter') event.currentTarget.blur();
+          }}
+          maxLength={NAME_MAX_LENGTH}
+          aria-label={`Name of label ${label.name}`}
+          className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm"
+        />
+        <button
+          onClick={onDelete}
+          aria-label={`Delete label ${label.name}`}
+          className="text-red-600 hover:text-red-800 text-xs"
+        >
+          Delete
+        </button>
+      </div>
+      <ColorPicker value={label.color} onChange={color => onUpdate({ color })} />
+      {others.length > 0 && (
+        <div className="flex gap-2">
+          <select
+            value={mergeTarget}
+            onChange={event => setMergeTarget(event.target.value)}
+            aria-label={`Merge ${label.name} into`}
+            className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-xs"
+          >
+            <option value="">Merge into...</option>
+            {others.map(other => (
+              <option key={other.id} value={other.id}>
+                {other.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onMerge(mergeTarget)}
+            disabled={!mergeTarget}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-2 py-1 rounded text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Merge
+          </button>
+        </div>
+      )}
+    </li>
+  );
+};
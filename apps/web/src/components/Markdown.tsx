@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../utils/markdown';
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+// Renders user-written Markdown; see utils/markdown for what is supported
+export const Markdown: React.FC<MarkdownProps> = ({ source, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={`space-y-2 text-sm text-gray-800 ${className}`}>
+      {blocks.map((block, index) => (
+        <Block key={index} block={block} />
+      ))}
+    </div>
+  );
+};
+
+const HEADING_CLASSES = {
+  1: 'text-lg font-semibold',
+  2: 'text-base font-semibold',
+  3: 'text-sm font-semibold',
+};
+
+const Block: React.FC<{ block: MarkdownBlock }> = ({ block }) => {
+  switch (block.type) {
+    case 'paragraph':
+      return <p className="whitespace-pre-wrap">{renderInline(block.children)}</p>;
+    case 'heading': {
+      const Heading = `h${block.level + 2}` as 'h3' | 'h4' | 'h5';
+      return <Heading className={HEADING_CLASSES[block.level]}>{renderInline(block.children)}</Heading>;
+    }
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List className={`pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, index) => (
+            <li key={index}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote className="border-l-4 border-gray-200 pl-3 text-gray-600 whitespace-pre-wrap">
+          {renderInline(block.children)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre className="bg-gray-100 rounded p-2 overflow-x-auto text-xs">
+          <code>{block.text}</code>
+        </pre>
+      );
+  }
+};
+
+function renderInline(nodes: MarkdownInline[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return (
+          <code key={index} className="bg-gray-100 rounded px-1 text-xs">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:underline"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
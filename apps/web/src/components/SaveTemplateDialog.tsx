@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import type { BoardTemplate } from '../utils/templates';
+
+interface SaveTemplateDialogProps {
+  boardTitle: string;
+  // Resolves to the saved template, or null if it failed
+  onSave: (name: string, description: string) => Promise<BoardTemplate | null>;
+  onClose: () => void;
+}
+
+// Names a copy of the board's columns, cards and labels that new boards can
+// then be created from on the home page
+export const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({ boardTitle, onSave, onClose }) => {
+  const [name, setName] = useState(boardTitle);
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState<BoardTemplate | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    const template = await onSave(name.trim(), description.trim());
+    setSaving(false);
+    setSaved(template);
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-start justify-center bg-black/40 p-8 overflow-y-auto" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="save-template-title"
+        onClick={event => event.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-lg shadow-xl p-6 space-y-4 text-left"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <h2 id="save-template-title" className="text-lg font-semibold text-gray-900">
+            Save as template
+          </h2>
+          <button
+            onClick={onClose}
+            aria-label="Close save as template"
+            className="text-gray-500 hover:text-gray-700 px-2 py-1 rounded text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {saved ? (
+          <p role="status" className="text-sm text-gray-700">
+            Saved “{saved.name}”. It is offered on the home page when you create a new board.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Columns, cards, labels, checklists and swimlanes are copied. Comments and attachments are not.
+            </p>
+            <input
+              value={name}
+              onChange={event => setName(event.target.value)}
+              maxLength={100}
+              aria-label="Template name"
+              className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+            />
+            <textarea
+              value={description}
+              onChange={event => setDescription(event.target.value)}
+              maxLength={500}
+              rows={3}
+              aria-label="Template description"
+              placeholder="What the template is for (optional)"
+              className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={saving || !name.trim()}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving…' : 'Save template'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
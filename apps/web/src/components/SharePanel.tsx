@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import type { SharingState } from '../store/board.store';
+import { getShareUrl, type BoardRole, type BoardToken } from '../utils/access';
+
+interface SharePanelProps {
+  boardId: string;
+  sharing: SharingState;
+  passwordProtected: boolean;
+  // null removes the password
+  onSetPassword: (password: string | null) => Promise<boolean>;
+  onCreate: (role: BoardRole) => void;
+  onRevoke: (tokenId: string) => void;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<BoardRole, string> = {
+  view: 'Can view',
+  edit: 'Can edit',
+};
+
+// Links that open the board, each either view-only or with edit rights, and
+// the board password
+export const SharePanel: React.FC<SharePanelProps> = ({
+  boardId,
+  sharing,
+  passwordProtected,
+  onSetPassword,
+  onCreate,
+  onRevoke,
+  onClose,
+}) => {
+  const { tokens, loading, error } = sharing;
+  const editLinks = tokens.filter(token => token.role === 'edit').length;
+
+  return (
+    <aside
+      aria-label="Share board"
+      className="fixed inset-y-0 right-0 z-20 w-96 bg-white border-l border-gray-200 shadow-lg flex flex-col"
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Share</h2>
+        <button
+          onClick={onClose}
+          aria-label="Close sharing"
+          className="text-gray-500 hover:text-gray-700 px-2 py-1 rounded text-sm"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex gap-2 px-4 py-3 border-b border-gray-200">
+        <button
+          onClick={() => onCreate('view')}
+          disabled={loading}
+          className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-2 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          New view link
+        </button>
+        <button
+          onClick={() => onCreate('edit')}
+          disabled={loading}
+          className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-2 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          New edit link
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        <ul className="space-y-4">
+          {tokens.map(token => (
+            <ShareLink
+              key={token.id}
+              url={getShareUrl(boardId, token.token)}
+              token={token}
+              // Without an edit link nobody could manage the board's links
+              canRevoke={token.role === 'view' || editLinks > 1}
+              onRevoke={() => onRevoke(token.id)}
+            />
+          ))}
+        </ul>
+
+        {error && (
+          <p role="alert" className="mt-3 text-sm text-red-700">
+            {error}
+          </p>
+        )}
+
+        {loading && <p className="mt-3 text-sm text-gray-500">Loading links...</p>}
+      </div>
+
+      <PasswordForm passwordProtected={passwordProtected} disabled={loading} onSetPassword={onSetPassword} />
+    </aside>
+  );
+};
+
+interface PasswordFormProps {
+  passwordProtected: boolean;
+  disabled: boolean;
+  onSetPassword: (password: string | null) => Promise<boolean>;
+}
+
+// Anyone opening a link must also enter the password while one is set
+const PasswordForm: React.FC<PasswordFormProps> = ({ passwordProtected, disabled, onSetPassword }) => {
+  const [password, setPassword] = useState('');
+
+  const submit = async () => {
+    if (await onSetPassword(password)) {
+      setPassword('');
+    }
+  };
+
+  return (
+    <form
+      aria-label="Board password"
+      onSubmit={event => {
+        event.preventDefault();
+        submit();
+      }}
+      className="px-4 py-3 border-t border-gray-200"
+    >
+      <p className="text-sm font-medium text-gray-900">
+        {passwordProtected ? 'Password protected' : 'No password'}
+      </p>
+      <div className="mt-2 flex gap-2">
+        <input
+          type="password"
+          value={password}
+          onChange={event => setPassword(event.target.value)}
+          placeholder="At least 8 characters"
+          aria-label="New board password"
+          className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={disabled || password.length < 8}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {passwordProtected ? 'Change password' : 'Set password'}
+        </button>
+      </div>
+      {passwordProtected && (
+        <button
+          type="button"
+          onClick={() => onSetPassword(null)}
+          disabled={disabled}
+          className="mt-2 text-red-600 hover:text-red-800 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Remove password
+        </button>
+      )}
+    </form>
+  );
+};
+
+interface ShareLinkProps {
+  url: string;
+  token: BoardToken;
+  canRevoke: boolean;
+  onRevoke: () => void;
+}
+
+const ShareLink: React.FC<ShareLinkProps> = ({ url, token, canRevoke, onRevoke }) => (
+  <li className="text-sm">
+    <div className="flex items-center justify-between mb-1">
+      <span className="font-medium text-gray-900">{ROLE_LABELS[token.role]}</span>
+      <button
+        onClick={onRevoke}
+        disabled={!canRevoke}
+        className="text-red-600 hover:text-red-800 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Revoke
+      </button>
+    </div>
+    <div className="flex gap-2">
+      <input
+        type="text"
+        readOnly
+        value={url}
+        aria-label={`${ROLE_LABELS[token.role]} link`}
+        onFocus={event => event.target.select()}
+        className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-xs text-gray-700"
+      />
+      <button
+        onClick={() => navigator.clipboard?.writeText(url)}
+        className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-2 py-1 rounded text-xs font-medium"
+      >
+        Copy
+      </button>
+    </div>
+  </li>
+);
@@ -0,0 +1,344 @@
+import React, { useState } from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import type { Card as CardModel, Column as ColumnModel, Label, Swimlane } from '../store/board.store';
+import type { DragItemData } from '../utils/drag-and-drop';
+import { cardLabels, matchesLabelFilter, type LabelFilter } from '../utils/labels';
+import type { CardActivity } from '../utils/presence';
+import { isOverWipLimit } from '../utils/wip-limits';
+import { Card } from './Card';
+
+interface SwimlaneGridProps {
+  // In board order
+  columns: ColumnModel[];
+  swimlanes: Swimlane[];
+  onAddCard: (columnId: string, swimlaneId: string | null) => void;
+  onEditCard: (cardId: string, content: string) => void;
+  onDeleteCard: (cardId: string) => void;
+  onEditingCard: (cardId: string | null) => void;
+  onOpenCard: (cardId: string) => void;
+  cardActivity: Record<string, CardActivity>;
+  labels: Label[];
+  labelFilter: LabelFilter;
+  coverUrl?: ((card: CardModel) => string | null) | undefined;
+  onAddSwimlane: (title: string) => void;
+  onRenameSwimlane: (swimlaneId: string, title: string) => void;
+  onMoveSwimlane: (swimlaneId: string, targetOrder: number) => void;
+  onDeleteSwimlane: (swimlaneId: string) => void;
+  readOnly?: boolean;
+}
+
+type CardHandlers = Pick<
+  SwimlaneGridProps,
+  'onEditCard' | 'onDeleteCard' | 'onEditingCard' | 'onOpenCard' | 'cardActivity' | 'labels' | 'labelFilter' | 'coverUrl'
+>;
+
+// The column's cards in the lane; the last row (null) also takes cards of
+// lanes the board no longer has
+function cellCards(column: ColumnModel, swimlaneId: string | null, swimlanes: Swimlane[]): CardModel[] {
+  return [...column.cards]
+    .sort((a, b) => a.order - b.order)
+    .filter(card => {
+      const laneId = swimlanes.some(lane => lane.id === card.swimlaneId) ? card.swimlaneId : null;
+      return laneId === swimlaneId;
+    });
+}
+
+/**
+ * Grid layout of the board: one row per lane across all columns, plus a row
+ * for cards outside any lane. Cards can be dragged between cells to change
+ * their column and lane at once; columns are managed in the column layout.
+ */
+export const SwimlaneGrid: React.FC<SwimlaneGridProps> = ({
+  columns,
+  swimlanes,
+  onAddCard,
+  onAddSwimlane,
+  onRenameSwimlane,
+  onMoveSwimlane,
+  onDeleteSwimlane,
+  readOnly = false,
+  ...cardHandlers
+}) => {
+  const lanes = [...swimlanes].sort((a, b) => a.order - b.order);
+  const gridTemplateColumns = `12rem repeat(${columns.length}, 18rem)`;
+
+  const renderRow = (lane: Swimlane | null) => (
+    <div
+      key={lane?.id ?? 'no-lane'}
+      role="row"
+      aria-label={lane ? `${lane.title} lane` : 'No lane'}
+      className="grid gap-3"
+      style={{ gridTemplateColumns }}
+    >
+      {lane ? (
+        <LaneHeader
+          lane={lane}
+          laneCount={lanes.length}
+          readOnly={readOnly}
+          onRename={title => onRenameSwimlane(lane.id, title)}
+          onMove={targetOrder => onMoveSwimlane(lane.id, targetOrder)}
+          onDelete={() => onDeleteSwimlane(lane.id)}
+        />
+      ) : (
+        <div role="rowheader" className="p-2 text-sm font-medium text-gray-500 italic">
+          No lane
+        </div>
+      )}
+      {columns.map(column => (
+        <Cell
+          key={column.id}
+          column={column}
+          lane={lane}
+          cards={cellCards(column, lane?.id ?? null, lanes)}
+          onAddCard={() => onAddCard(column.id, lane?.id ?? null)}
+          readOnly={readOnly}
+          {...cardHandlers}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div role="grid" aria-label="Swimlanes" className="overflow-x-auto pb-4 space-y-3">
+      <div role="row" className="grid gap-3" style={{ gridTemplateColumns }}>
+        <div />
+        {columns.map(column => {
+          const overLimit = isOverWipLimit(column);
+          const count = column.wipLimit != null ? `${column.cards.length}/${column.wipLimit}` : `${column.cards.length}`;
+          return (
+            <div
+              key={column.id}
+              role="columnheader"
+              data-over-limit={overLimit || undefined}
+              className={`px-2 font-semibold truncate ${overLimit ? 'text-red-700' : 'text-gray-900'}`}
+            >
+              {column.title} ({count})
+            </div>
+          );
+        })}
+      </div>
+
+      {lanes.map(renderRow)}
+      {renderRow(null)}
+
+      {!readOnly && <AddSwimlaneForm onAdd={onAddSwimlane} />}
+    </div>
+  );
+};
+
+interface CellProps extends CardHandlers {
+  column: ColumnModel;
+  lane: Swimlane | null;
+  cards: CardModel[];
+  onAddCard: () => void;
+  readOnly: boolean;
+}
+
+// Where a column crosses a lane; cards dropped on it join both
+const Cell: React.FC<CellProps> = ({
+  column,
+  lane,
+  cards,
+  onAddCard,
+  readOnly,
+  onEditCard,
+  onDeleteCard,
+  onEditingCard,
+  onOpenCard,
+  cardActivity,
+  labels,
+  labelFilter,
+  coverUrl,
+}) => {
+  const data: DragItemData = { type: 'cell', columnId: column.id, swimlaneId: lane?.id ?? null };
+  const { setNodeRef, isOver } = useDroppable({ id: `cell:${column.id}:${lane?.id ?? 'none'}`, data });
+  const name = `${column.title} column, ${lane ? `${lane.title} lane` : 'no lane'}`;
+
+  return (
+    <div
+      ref={setNodeRef}
+      role="gridcell"
+      aria-label={name}
+      className={`rounded-lg p-2 min-h-[4rem] space-y-2 ${isOver ? 'bg-blue-50' : 'bg-gray-50'}`}
+    >
+      <SortableContext items={cards.map(card => card.id)} strategy={verticalListSortingStrategy}>
+        {cards.map(card => (
+          <Card
+            key={card.id}
+            card={card}
+            columnId={column.id}
+            onEdit={content => onEditCard(card.id, content)}
+            onDelete={() => onDeleteCard(card.id)}
+            onEditingChange={editing => onEditingCard(editing ? card.id : null)}
+            onOpen={() => onOpenCard(card.id)}
+            activity={cardActivity[card.id]}
+            labels={cardLabels(card, labels)}
+            coverUrl={coverUrl?.(card)}
+            filteredOut={matchesLabelFilter(card, labelFilter.labelIds) ? undefined : labelFilter.mode}
+            readOnly={readOnly}
+          />
+        ))}
+      </SortableContext>
+      {!readOnly && (
+        <button
+          onClick={onAddCard}
+          aria-label={`Add card to ${name}`}
+          className="w-full text-gray-400 hover:text-gray-700 text-sm py-1 rounded hover:bg-gray-200 transition-colors"
+        >
+          +
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface LaneHeaderProps {
+  lane: Swimlane;
+  laneCount: number;
+  readOnly: boolean;
+  onRename: (title: string) => void;
+  onMove: (targetOrder: number) => void;
+  onDelete: () => void;
+}
+
+// Lane title, double-click to rename, with buttons to reorder or delete the
+// lane. Deleting a lane keeps its cards.
+const LaneHeader: React.FC<LaneHeaderProps> = ({ lane, laneCount, readOnly, onRename, onMove, onDelete }) => {
+  const [renaming, setRenaming] = useState(false);
+  const [draft, setDraft] = useState(lane.title);
+
+  const save = () => {
+    setRenaming(false);
+    const title = draft.trim();
+    if (title && title !== lane.title) {
+      onRename(title);
+    }
+  };
+
+  if (renaming) {
+    return (
+      <div role="rowheader" className="p-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={event => setDraft(event.target.value)}
+          onBlur={save}
+          onKeyDown={event => {
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              save();
+            } else if (event.key === 'Escape') {
+              setRenaming(false);
+            }
+          }}
+          aria-label="Swimlane title"
+          autoFocus
+          className="w-full font-semibold text-gray-900 bg-white border border-blue-500 rounded px-2 py-0.5 focus:outline-none"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div role="rowheader" className="p-2 space-y-1">
+      <h3
+        className={`font-semibold text-gray-900 truncate ${readOnly ? '' : 'cursor-text'}`}
+        title={readOnly ? undefined : 'Double-click to rename'}
+        onDoubleClick={() => {
+          if (readOnly) return;
+          setDraft(lane.title);
+          setRenaming(true);
+        }}
+      >
+        {lane.title}
+      </h3>
+      {!readOnly && (
+        <div className="flex gap-1 text-xs">
+          <button
+            onClick={() => onMove(lane.order - 1)}
+            disabled={lane.order === 0}
+            aria-label={`Move ${lane.title} lane up`}
+            className="text-gray-400 hover:text-gray-700 px-1.5 py-0.5 rounded hover:bg-gray-200 disabled:opacity-30"
+          >
+            ↑
+          </button>
+          <button
+            onClick={() => onMove(lane.order + 1)}
+            disabled={lane.order >= laneCount - 1}
+            aria-label={`Move ${lane.title} lane down`}
+            className="text-gray-400 hover:text-gray-700 px-1.5 py-0.5 rounded hover:bg-gray-200 disabled:opacity-30"
+          >
+            ↓
+          </button>
+          <button
+            onClick={onDelete}
+            aria-label={`Delete ${lane.title} lane`}
+            className="text-gray-400 hover:text-red-600 px-1.5 py-0.5 rounded hover:bg-red-50"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface AddSwimlaneFormProps {
+  onAdd: (title: string) => void;
+}
+
+// "Add Lane" button that expands into an inline title input
+const AddSwimlaneForm: React.FC<AddSwimlaneFormProps> = ({ onAdd }) => {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+
+  const submit = () => {
+    const trimmed = title.trim();
+    if (trimmed) {
+      onAdd(trimmed);
+    }
+    setTitle('');
+    setOpen(false);
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded font-medium"
+      >
+        Add Lane
+      </button>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={event => {
+        event.preventDefault();
+        submit();
+      }}
+      className="flex gap-2 w-80"
+    >
+      <input
+        type="text"
+        value={title}
+        onChange={event => setTitle(event.target.value)}
+        onKeyDown={event => {
+          if (event.key === 'Escape') setOpen(false);
+        }}
+        placeholder="Lane title"
+        aria-label="New lane title"
+        autoFocus
+        className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button
+        type="submit"
+        className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded text-sm font-medium"
+      >
+        Add
+      </button>
+    </form>
+  );
+};
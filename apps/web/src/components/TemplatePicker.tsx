@@ -0,0 +1,58 @@
+import React from 'react';
+import type { BoardTemplate } from '../utils/templates';
+
+interface TemplatePickerProps {
+  templates: BoardTemplate[];
+  // null picks the blank board
+  onPick: (templateId: string | null) => void;
+  disabled: boolean;
+}
+
+// What a new board starts from: a blank board or one of the templates, each
+// previewed by its columns
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, onPick, disabled }) => {
+  const option = (
+    key: string,
+    label: string,
+    name: string,
+    description: string,
+    columns: string[],
+    templateId: string | null
+  ) => (
+    <li key={key}>
+      <button
+        type="button"
+        onClick={() => onPick(templateId)}
+        disabled={disabled}
+        aria-label={label}
+        className="w-full h-full text-left p-4 bg-white border border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <span className="block font-semibold text-gray-900">{name}</span>
+        <span className="block mt-1 text-sm text-gray-600">{description}</span>
+        <span className="flex flex-wrap gap-1 mt-3">
+          {columns.map((column, index) => (
+            <span key={index} className="px-2 py-0.5 text-xs text-gray-700 bg-gray-100 rounded">
+              {column}
+            </span>
+          ))}
+        </span>
+      </button>
+    </li>
+  );
+
+  return (
+    <ul aria-label="Start a new board" className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 text-left">
+      {option('blank', 'Create blank board', 'Blank board', 'Start from scratch.', ['Todo', 'In Progress', 'Done'], null)}
+      {templates.map(template =>
+        option(
+          template.id,
+          `Create board from ${template.name} template`,
+          template.name,
+          template.description || (template.builtIn ? '' : 'Saved from one of your boards.'),
+          template.columns,
+          template.id
+        )
+      )}
+    </ul>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import type { LockState } from '../store/board.store';
+
+interface UnlockScreenProps {
+  lock: LockState;
+  onUnlock: (password: string) => void;
+}
+
+// Shown instead of a password protected board until the password is entered
+export const UnlockScreen: React.FC<UnlockScreenProps> = ({ lock, onUnlock }) => {
+  const [password, setPassword] = useState('');
+
+  return (
+    <div data-testid="unlock-screen" className="flex justify-center p-8">
+      <form
+        onSubmit={event => {
+          event.preventDefault();
+          if (password) onUnlock(password);
+        }}
+        className="w-full max-w-sm bg-white border border-gray-200 rounded-lg p-6 shadow-sm"
+      >
+        <h2 className="text-lg font-semibold text-gray-900">This board is password protected</h2>
+        <p className="mt-1 mb-4 text-sm text-gray-600">Enter the board password to open it.</p>
+
+        <input
+          type="password"
+          value={password}
+          onChange={event => setPassword(event.target.value)}
+          aria-label="Board password"
+          autoFocus
+          className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        {lock.error && (
+          <p role="alert" className="mt-2 text-sm text-red-700">
+            {lock.error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={!password || lock.unlocking}
+          className="mt-4 w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {lock.unlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -1,50 +1,833 @@
 import { create } from 'zustand';
-import apiClient from '../utils/api';
+import { nanoid } from 'nanoid';
+import { saveBoardSession, saveBoardToken, type BoardRole, type BoardToken } from '../utils/access';
+import apiClient, { type ApiResponse, type CloneScope, type DeleteColumnOptions, type SkippedField } from '../utils/api';
+import type { ActivityEntry } from '../utils/activity';
+import { createThumbnail, formatFileSize, MAX_ATTACHMENT_SIZE, withCover } from '../utils/attachments';
+import { applyBoardChange, type BoardEvent, type ResyncMessage } from '../utils/board-events';
+import { moveItem, withChecklist, withoutChecklist } from '../utils/checklists';
+import { applyCommentChange, type CardComment } from '../utils/comments';
+import { sortLabels } from '../utils/labels';
+import { getPresenceIdentity, type PresenceMember, type PresenceMessage } from '../utils/presence';
+import type { BoardDiff, SnapshotDetail, SnapshotSummary } from '../utils/snapshots';
+import { getSavedTemplates, rememberTemplate, type BoardTemplate } from '../utils/templates';
+import { wipLimitViolation } from '../utils/wip-limits';
 
 // Define types based on our backend schema
-interface Card {
+export type CardPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// Everything about a card besides its text and position
+export interface CardDetails {
+  // Markdown
+  description: string;
+  priority: CardPriority | null;
+  // Story points
+  estimate: number | null;
+  // Hex color shown across the top of the card
+  coverColor: string | null;
+}
+
+// Details are left out of cards the client has only just created
+export interface Card extends Partial<CardDetails> {
   id: string;
   content: string;
   order: number;
+  labelIds?: string[];
+  checklists?: Checklist[];
+  commentCount?: number;
+  attachments?: Attachment[];
+  // Lane the card sits in on the grid layout; null or left out for none
+  swimlaneId?: string | null;
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  order: number;
+}
+
+// A card can have several checklists, each with its own ordered items
+export interface Checklist {
+  id: string;
+  title: string;
+  order: number;
+  items: ChecklistItem[];
 }
 
-interface Column {
+// A file on a card; the bytes are fetched from the attachment's URL
+export interface Attachment {
+  id: string;
+  fileName: string;
+  // Sniffed by the server from the file's contents
+  contentType: string;
+  // Bytes
+  size: number;
+  hasThumbnail: boolean;
+  // Shown across the top of the card; at most one per card
+  cover: boolean;
+  createdAt: string;
+}
+
+export interface Column {
   id: string;
   title: string;
   order: number;
+  // Most cards the column should hold; left out or null for no limit
+  wipLimit?: number | null;
   cards: Card[];
 }
 
-interface Board {
+// Labels belong to a board and can be put on any of its cards
+export interface Label {
+  id: string;
+  name: string;
+  // Hex color
+  color: string;
+}
+
+// Horizontal row across all columns. A card's order is still its position
+// in its column; lanes only group cards.
+export interface Swimlane {
+  id: string;
+  title: string;
+  order: number;
+}
+
+// 'warn' highlights columns over their WIP limit; 'block' also refuses
+// cards that would take a column past it
+export type WipMode = 'warn' | 'block';
+
+export interface Board {
   id: string;
   title: string;
   createdAt: Date;
+  wipMode: WipMode;
   columns: Column[];
+  // By name
+  labels: Label[];
+  swimlanes: Swimlane[];
+}
+
+// A write the server rejected because the board changed underneath it.
+// `replays` re-run the rejected edits on top of the server's copy.
+export interface BoardConflict {
+  board: Board;
+  version: number;
+  replays: Array<() => Promise<unknown>>;
+}
+
+// Everyone connected to the board, this tab included once it has an ID
+export interface PresenceState {
+  selfId: string | null;
+  members: PresenceMember[];
+}
+
+// Loaded pages of the board's activity log, newest first
+export interface ActivityState {
+  entries: ActivityEntry[];
+  nextCursor: number | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Comments of the card whose details are open, oldest first
+export interface CommentThread {
+  cardId: string | null;
+  entries: CardComment[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Saved versions of the board and the one being previewed, if any
+export interface SnapshotState {
+  entries: SnapshotSummary[];
+  selected: SnapshotDetail | null;
+  // What changed on the board since the selected snapshot
+  diff: BoardDiff | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Password protected boards stay locked until the password is entered
+export interface LockState {
+  locked: boolean;
+  unlocking: boolean;
+  error: string | null;
+}
+
+// Share links of the board, listed for holders of an edit link
+export interface SharingState {
+  tokens: BoardToken[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Undo history. Each entry reverses or re-applies one change through the
+// regular store actions, so both directions go through the API.
+export type ReplayResult =
+  | 'applied'
+  | 'stale' // The board moved on since the change; the entry is dropped
+  | 'failed'; // The API rejected the write; the entry is kept
+
+export interface HistoryEntry {
+  label: string;
+  undo: () => Promise<ReplayResult>;
+  redo: () => Promise<ReplayResult>;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  // Restoring a deleted card or column gives it a new server ID. Entries
+  // keep the ID they were recorded with and look up the current one here.
+  aliases: Record<string, string>;
+  busy: boolean;
+  // Why the last undo or redo did not happen
+  notice: string | null;
 }
 
 interface BoardState {
   board: Board | null;
+  // Server version the local board is based on, sent with every write
+  version: number | null;
+  conflict: BoardConflict | null;
+  // What this browser's link allows; null until the board has loaded
+  access: BoardRole | null;
+  passwordProtected: boolean;
+  lock: LockState;
+  sharing: SharingState;
+  presence: PresenceState;
+  activity: ActivityState;
+  comments: CommentThread;
+  snapshots: SnapshotState;
+  history: HistoryState;
   loading: boolean;
   error: string | null;
 }
 
 interface BoardActions {
   loadBoard: (boardId: string) => Promise<void>;
-  createBoard: () => Promise<string | null>; // Returns board ID for navigation
+  createBoard: (templateId?: string) => Promise<string | null>; // Returns board ID for navigation
+  // Built-in templates followed by the ones saved in this browser
+  loadTemplates: () => Promise<BoardTemplate[]>;
+  saveBoardAsTemplate: (boardId: string, name: string, description: string) => Promise<BoardTemplate | null>;
+  cloneBoard: (boardId: string, scope: CloneScope, title?: string) => Promise<string | null>; // Returns the copy's ID
+  // Resolves to the new board's ID and what the import left out
+  importTrelloBoard: (trello: unknown) => Promise<{ boardId: string; skipped: SkippedField[] } | null>;
   updateBoard: (boardId: string, updates: Partial<Board>) => Promise<void>;
-  moveCard: (cardId: string, sourceColumnId: string, targetColumnId: string, targetOrder: number) => Promise<void>;
-  addCard: (columnId: string, content?: string) => Promise<void>;
-  editCard: (cardId: string, content: string) => Promise<void>;
-  deleteCard: (cardId: string) => Promise<void>;
+  // Card and column actions resolve to whether the change was saved, or to
+  // the new item's ID for creates
+  // Left out, `targetSwimlaneId` keeps the card in its lane; null takes it out of any lane
+  moveCard: (
+    cardId: string,
+    sourceColumnId: string,
+    targetColumnId: string,
+    targetOrder: number,
+    targetSwimlaneId?: string | null
+  ) => Promise<boolean>;
+  addCard: (columnId: string, content?: string, swimlaneId?: string) => Promise<string | null>;
+  editCard: (cardId: string, content: string) => Promise<boolean>;
+  updateCardDetails: (cardId: string, details: Partial<CardDetails>) => Promise<boolean>;
+  setCardLabels: (cardId: string, labelIds: string[]) => Promise<boolean>;
+  deleteCard: (cardId: string) => Promise<boolean>;
+  addColumn: (title: string) => Promise<string | null>;
+  renameColumn: (columnId: string, title: string) => Promise<boolean>;
+  setWipLimit: (columnId: string, wipLimit: number | null) => Promise<boolean>; // null removes the limit
+  setWipMode: (wipMode: WipMode) => Promise<boolean>;
+  moveColumn: (columnId: string, targetOrder: number) => Promise<boolean>;
+  deleteColumn: (columnId: string, options: DeleteColumnOptions) => Promise<boolean>;
+  addSwimlane: (title: string) => Promise<boolean>;
+  renameSwimlane: (swimlaneId: string, title: string) => Promise<boolean>;
+  moveSwimlane: (swimlaneId: string, targetOrder: number) => Promise<boolean>;
+  deleteSwimlane: (swimlaneId: string) => Promise<boolean>;
+  createLabel: (name: string, color: string) => Promise<boolean>;
+  updateLabel: (labelId: string, updates: Partial<Omit<Label, 'id'>>) => Promise<boolean>;
+  deleteLabel: (labelId: string) => Promise<boolean>;
+  mergeLabels: (labelId: string, targetLabelId: string) => Promise<boolean>;
+  addChecklist: (cardId: string, title: string) => Promise<string | null>;
+  renameChecklist: (cardId: string, checklistId: string, title: string) => Promise<boolean>;
+  deleteChecklist: (cardId: string, checklistId: string) => Promise<boolean>;
+  addChecklistItem: (cardId: string, checklistId: string, text: string) => Promise<string | null>;
+  updateChecklistItem: (
+    cardId: string,
+    checklistId: string,
+    itemId: string,
+    updates: Partial<Pick<ChecklistItem, 'text' | 'done'>>
+  ) => Promise<boolean>;
+  moveChecklistItem: (cardId: string, checklistId: string, itemId: string, targetOrder: number) => Promise<boolean>;
+  deleteChecklistItem: (cardId: string, checklistId: string, itemId: string) => Promise<boolean>;
+  loadComments: (boardId: string, cardId: string | null) => Promise<void>; // null closes the thread
+  addComment: (cardId: string, body: string) => Promise<boolean>;
+  editComment: (cardId: string, commentId: string, body: string) => Promise<boolean>;
+  deleteComment: (cardId: string, commentId: string) => Promise<boolean>;
+  uploadAttachment: (cardId: string, file: File) => Promise<boolean>;
+  setAttachmentCover: (cardId: string, attachmentId: string, cover: boolean) => Promise<boolean>;
+  deleteAttachment: (cardId: string, attachmentId: string) => Promise<boolean>;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  resolveConflict: (resolution: 'reload' | 'merge') => Promise<void>;
+  subscribeToBoard: (boardId: string) => () => void; // Returns an unsubscribe function
+  connectPresence: (boardId: string) => () => void; // Returns a disconnect function
+  setEditingCard: (cardId: string | null) => void;
+  setDraggingCard: (cardId: string | null) => void;
+  loadActivity: (boardId: string) => Promise<void>; // Reloads the newest page
+  loadMoreActivity: (boardId: string) => Promise<void>;
+  loadSnapshots: (boardId: string) => Promise<void>;
+  createSnapshot: (boardId: string) => Promise<void>;
+  selectSnapshot: (boardId: string, snapshotId: string | null) => Promise<void>; // null closes the preview
+  restoreSnapshot: (boardId: string, snapshotId: string) => Promise<boolean>;
+  loadTokens: (boardId: string) => Promise<void>;
+  createToken: (boardId: string, role: BoardRole) => Promise<void>;
+  revokeToken: (boardId: string, tokenId: string) => Promise<void>;
+  unlockBoard: (boardId: string, password: string) => Promise<void>;
+  setBoardPassword: (boardId: string, password: string | null) => Promise<boolean>;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
 }
 
 type BoardStore = BoardState & BoardActions;
 
+// Full-board saves are debounced so a burst of edits results in one PUT
+const SAVE_DEBOUNCE_MS = 400;
+let saveTimer: ReturnType<typeof setTimeout> | undefined;
+let saveWaiters: Array<() => void> = [];
+
+// Every caller within the debounce window shares the same save
+function scheduleSave(save: () => Promise<void>): Promise<void> {
+  clearTimeout(saveTimer);
+
+  return new Promise(resolve => {
+    saveWaiters.push(resolve);
+    saveTimer = setTimeout(async () => {
+      const waiters = saveWaiters;
+      saveWaiters = [];
+      await save();
+      waiters.forEach(done => done());
+    }, SAVE_DEBOUNCE_MS);
+  });
+}
+
+// Backoff for reconnecting the event stream after the browser gives up, and
+// for reconnecting the presence socket
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+const PRESENCE_BOARD_NOT_FOUND = 4404;
+const PRESENCE_ACCESS_DENIED = 4403;
+const PRESENCE_BOARD_LOCKED = 4401;
+
+// The presence socket is shared by the actions that report what this tab is
+// doing; the last report is kept so it can be repeated after a reconnect
+let presenceSocket: WebSocket | null = null;
+const presenceActivity: { editing: string | null; dragging: string | null } = {
+  editing: null,
+  dragging: null
+};
+
+function sendPresence(message: object) {
+  if (presenceSocket?.readyState === WebSocket.OPEN) {
+    presenceSocket.send(JSON.stringify(message));
+  }
+}
+
+// Thrown by sendMutation once a 409 has been recorded in `conflict`
+class BoardConflictError extends Error {
+  constructor() {
+    super('Board has been changed by someone else');
+    this.name = 'BoardConflictError';
+  }
+}
+
+// Writes go out one at a time so each carries the version produced by the
+// previous one
+let mutationQueue: Promise<unknown> = Promise.resolve();
+
+function sendMutation<T>(
+  request: (version: number) => Promise<ApiResponse<T>>,
+  replay: () => Promise<unknown>
+): Promise<ApiResponse<T>> {
+  const run = mutationQueue.then(async (): Promise<ApiResponse<T>> => {
+    const { version } = useBoardStore.getState();
+    if (version === null) {
+      return { error: 'Board is not loaded' };
+    }
+
+    const result = await request(version);
+
+    if (result.conflict) {
+      const { version: serverVersion, ...board } = result.conflict;
+      const previous = useBoardStore.getState().conflict;
+      useBoardStore.setState({
+        conflict: {
+          board,
+          version: serverVersion,
+          replays: [...(previous?.replays ?? []), replay]
+        }
+      });
+      throw new BoardConflictError();
+    }
+
+    if (result.version !== undefined) {
+      useBoardStore.setState({ version: result.version });
+    }
+
+    return result;
+  });
+
+  mutationQueue = run.catch(() => undefined);
+  return run;
+}
+
+// Conflicts surface through `conflict` rather than as a board error
+function errorState(error: unknown, fallback: string): Partial<BoardState> {
+  if (error instanceof BoardConflictError) return {};
+  return { error: error instanceof Error ? error.message : fallback };
+}
+
+// Returns a copy of the board with one column's cards replaced
+function updateCards(board: Board, columnId: string, update: (cards: Card[]) => Card[]): Board {
+  return {
+    ...board,
+    columns: board.columns.map(column =>
+      column.id === columnId ? { ...column, cards: update(column.cards) } : column
+    )
+  };
+}
+
+// Returns a copy of the board with one card's checklists replaced
+function updateChecklists(board: Board, cardId: string, update: (checklists: Checklist[]) => Checklist[]): Board {
+  return {
+    ...board,
+    columns: board.columns.map(column => ({
+      ...column,
+      cards: column.cards.map(card =>
+        card.id === cardId ? { ...card, checklists: update(card.checklists ?? []) } : card
+      )
+    }))
+  };
+}
+
+// Returns a copy of the board with one checklist's items replaced
+function updateChecklistItems(
+  board: Board,
+  cardId: string,
+  checklistId: string,
+  update: (items: ChecklistItem[]) => ChecklistItem[]
+): Board {
+  return updateChecklists(board, cardId, checklists =>
+    checklists.map(checklist =>
+      checklist.id === checklistId ? { ...checklist, items: update(checklist.items) } : checklist
+    )
+  );
+}
+
+// Returns a copy of the board with one card's comment count changed by `delta`
+function adjustCommentCount(board: Board, cardId: string, delta: number): Board {
+  return {
+    ...board,
+    columns: board.columns.map(column => ({
+      ...column,
+      cards: column.cards.map(card =>
+        card.id === cardId ? { ...card, commentCount: Math.max((card.commentCount ?? 0) + delta, 0) } : card
+      )
+    }))
+  };
+}
+
+// Returns a copy of the board with one card's attachments replaced
+function updateAttachments(board: Board, cardId: string, update: (attachments: Attachment[]) => Attachment[]): Board {
+  return {
+    ...board,
+    columns: board.columns.map(column => ({
+      ...column,
+      cards: column.cards.map(card =>
+        card.id === cardId ? { ...card, attachments: update(card.attachments ?? []) } : card
+      )
+    }))
+  };
+}
+
+// Returns the card with the given ID and the column holding it
+function locateCard(board: Board | null, cardId: string): { card: Card; columnId: string } | null {
+  for (const column of board?.columns ?? []) {
+    const card = column.cards.find(existing => existing.id === cardId);
+    if (card) return { card, columnId: column.id };
+  }
+  return null;
+}
+
+const HISTORY_LIMIT = 50;
+
+const unlocked = (): LockState => ({ locked: false, unlocking: false, error: null });
+
+const emptySharing = (): SharingState => ({ tokens: [], loading: false, error: null });
+
+const emptySnapshots = (): SnapshotState => ({ entries: [], selected: null, diff: null, loading: false, error: null });
+
+const emptyComments = (): CommentThread => ({ cardId: null, entries: [], loading: false, error: null });
+
+const emptyHistory = (): HistoryState => ({ past: [], future: [], aliases: {}, busy: false, notice: null });
+
+// Undo and redo run store actions without recording them. Actions read the
+// flag synchronously on entry, before their first await.
+let untrackedDepth = 0;
+
+const isTracked = () => untrackedDepth === 0;
+
+function untracked<T>(action: () => T): T {
+  untrackedDepth += 1;
+  try {
+    return action();
+  } finally {
+    untrackedDepth -= 1;
+  }
+}
+
+const store = () => useBoardStore.getState();
+
+function resolveId(id: string): string {
+  const { aliases } = store().history;
+  let current = id;
+  for (let next = aliases[current]; next !== undefined; next = aliases[current]) {
+    current = next;
+  }
+  return current;
+}
+
+function addAlias(previousId: string, id: string) {
+  useBoardStore.setState(state => ({
+    history: { ...state.history, aliases: { ...state.history.aliases, [resolveId(previousId)]: id } }
+  }));
+}
+
+function recordHistory(entry: HistoryEntry) {
+  useBoardStore.setState(state => ({
+    history: {
+      ...state.history,
+      past: [...state.history.past, entry].slice(-HISTORY_LIMIT),
+      future: [],
+      notice: null
+    }
+  }));
+}
+
+function historyNotice(direction: 'undo' | 'redo', entry: HistoryEntry, result: ReplayResult): string | null {
+  switch (result) {
+    case 'applied':
+      return null;
+    case 'stale':
+      return `Can't ${direction} ${entry.label}: it was changed by someone else`;
+    case 'failed':
+      return `Couldn't ${direction} ${entry.label}`;
+  }
+}
+
+const saved = (ok: boolean): ReplayResult => (ok ? 'applied' : 'failed');
+
+const EMPTY_CARD_DETAILS: CardDetails = { description: '', priority: null, estimate: null, coverColor: null };
+
+const DETAIL_FIELDS = Object.keys(EMPTY_CARD_DETAILS) as Array<keyof CardDetails>;
+
+// The card's current values of the given detail fields
+function pickDetails(card: Card, fields: Array<keyof CardDetails>): Partial<CardDetails> {
+  return Object.fromEntries(fields.map(field => [field, card[field] ?? EMPTY_CARD_DETAILS[field]]));
+}
+
+// The details a new card would have to be given to match this one
+function customDetails(card: Card): Partial<CardDetails> {
+  const fields = DETAIL_FIELDS.filter(field => (card[field] ?? EMPTY_CARD_DETAILS[field]) !== EMPTY_CARD_DETAILS[field]);
+  return pickDetails(card, fields);
+}
+
+function detailsMatch(card: Card, details: Partial<CardDetails>): boolean {
+  const fields = Object.keys(details) as Array<keyof CardDetails>;
+  return fields.every(field => (card[field] ?? EMPTY_CARD_DETAILS[field]) === details[field]);
+}
+
+// Re-creates a card and points its old ID at the new one
+async function restoreCard(
+  cardId: string,
+  columnId: string,
+  content: string,
+  details: Partial<CardDetails> = {},
+  labelIds: string[] = [],
+  checklists: Checklist[] = []
+): Promise<string | null> {
+  const id = await untracked(() => store().addCard(columnId, content));
+  if (!id) return null;
+  addAlias(cardId, id);
+
+  // New cards start without details or labels
+  if (Object.keys(details).length > 0 && !(await untracked(() => store().updateCardDetails(id, details)))) {
+    return null;
+  }
+  const labels = existingLabelIds(labelIds);
+  if (labels.length > 0 && !(await untracked(() => store().setCardLabels(id, labels)))) {
+    return null;
+  }
+  if (!(await restoreChecklists(id, checklists))) {
+    return null;
+  }
+  return id;
+}
+
+// Re-creates the checklists of a restored card, item by item
+async function restoreChecklists(cardId: string, checklists: Checklist[]): Promise<boolean> {
+  for (const checklist of checklists) {
+    const checklistId = await store().addChecklist(cardId, checklist.title);
+    if (!checklistId) return false;
+
+    for (const item of checklist.items) {
+      const itemId = await store().addChecklistItem(cardId, checklistId, item.text);
+      if (!itemId) return false;
+      if (item.done && !(await store().updateChecklistItem(cardId, checklistId, itemId, { done: true }))) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Labels deleted since are dropped
+function existingLabelIds(labelIds: string[]): string[] {
+  const labels = store().board?.labels ?? [];
+  return labelIds.filter(id => labels.some(label => label.id === id));
+}
+
+const sameLabels = (card: Card, labelIds: string[]) => (card.labelIds ?? []).join() === labelIds.join();
+
+// Before undoing or redoing, each entry checks that the item is still in the
+// state the change left it in. Someone else may have edited, moved or
+// deleted it since, and overwriting that would lose their work.
+
+function cardAddedEntry(cardId: string, columnId: string, content: string): HistoryEntry {
+  return {
+    label: 'add card',
+    undo: async () => {
+      const id = resolveId(cardId);
+      if (locateCard(store().board, id)?.card.content !== content) return 'stale';
+      return saved(await untracked(() => store().deleteCard(id)));
+    },
+    redo: async () => {
+      const column = resolveId(columnId);
+      if (!store().board?.columns.some(existing => existing.id === column)) return 'stale';
+      return saved((await restoreCard(cardId, column, content)) !== null);
+    }
+  };
+}
+
+function cardEditedEntry(cardId: string, before: string, after: string): HistoryEntry {
+  const replace = async (expected: string, content: string): Promise<ReplayResult> => {
+    const id = resolveId(cardId);
+    if (locateCard(store().board, id)?.card.content !== expected) return 'stale';
+    return saved(await untracked(() => store().editCard(id, content)));
+  };
+
+  return {
+    label: 'edit card',
+    undo: () => replace(after, before),
+    redo: () => replace(before, after)
+  };
+}
+
+function cardDeletedEntry(card: Card, columnId: string): HistoryEntry {
+  return {
+    label: 'delete card',
+    undo: async () => {
+      const column = resolveId(columnId);
+      if (!store().board?.columns.some(existing => existing.id === column)) return 'stale';
+
+      const id = await restoreCard(
+        card.id,
+        column,
+        card.content,
+        customDetails(card),
+        card.labelIds,
+        card.checklists
+      );
+      if (!id) return 'failed';
+
+      // New cards go to the bottom and outside any lane; put it back where it was
+      return saved(await untracked(() =>
+        store().moveCard(id, column, column, card.order, existingSwimlaneId(card.swimlaneId))
+      ));
+    },
+    redo: async () => {
+      const id = resolveId(card.id);
+      if (locateCard(store().board, id)?.card.content !== card.content) return 'stale';
+      return saved(await untracked(() => store().deleteCard(id)));
+    }
+  };
+}
+
+function cardDetailsEntry(cardId: string, before: Partial<CardDetails>, after: Partial<CardDetails>): HistoryEntry {
+  const replace = async (expected: Partial<CardDetails>, details: Partial<CardDetails>): Promise<ReplayResult> => {
+    const id = resolveId(cardId);
+    const card = locateCard(store().board, id)?.card;
+    if (!card || !detailsMatch(card, expected)) return 'stale';
+    return saved(await untracked(() => store().updateCardDetails(id, details)));
+  };
+
+  return {
+    label: 'edit card details',
+    undo: () => replace(after, before),
+    redo: () => replace(before, after)
+  };
+}
+
+function cardLabelsEntry(cardId: string, before: string[], after: string[]): HistoryEntry {
+  const replace = async (expected: string[], labelIds: string[]): Promise<ReplayResult> => {
+    const id = resolveId(cardId);
+    const card = locateCard(store().board, id)?.card;
+    if (!card || !sameLabels(card, expected)) return 'stale';
+    return saved(await untracked(() => store().setCardLabels(id, existingLabelIds(labelIds))));
+  };
+
+  return {
+    label: 'edit card labels',
+    undo: () => replace(after, before),
+    redo: () => replace(before, after)
+  };
+}
+
+interface CardPosition {
+  columnId: string;
+  order: number;
+  swimlaneId: string | null;
+}
+
+// Lanes deleted since are dropped
+const existingSwimlaneId = (swimlaneId: string | null | undefined): string | null =>
+  store().board?.swimlanes.some(lane => lane.id === swimlaneId) ? swimlaneId ?? null : null;
+
+function cardMovedEntry(cardId: string, from: CardPosition, to: CardPosition): HistoryEntry {
+  const move = async (source: CardPosition, target: CardPosition): Promise<ReplayResult> => {
+    const id = resolveId(cardId);
+    const sourceColumn = resolveId(source.columnId);
+    const targetColumn = resolveId(target.columnId);
+    const { board } = store();
+
+    if (locateCard(board, id)?.columnId !== sourceColumn) return 'stale';
+    if (!board?.columns.some(column => column.id === targetColumn)) return 'stale';
+
+    return saved(await untracked(() =>
+      store().moveCard(id, sourceColumn, targetColumn, target.order, existingSwimlaneId(target.swimlaneId))
+    ));
+  };
+
+  return {
+    label: 'move card',
+    undo: () => move(to, from),
+    redo: () => move(from, to)
+  };
+}
+
+function columnAddedEntry(columnId: string, title: string): HistoryEntry {
+  return {
+    label: 'add column',
+    undo: async () => {
+      const id = resolveId(columnId);
+      const column = store().board?.columns.find(existing => existing.id === id);
+      // Cards added to it since would be deleted along with it
+      if (!column || column.cards.length > 0) return 'stale';
+      return saved(await untracked(() => store().deleteColumn(id, { cards: 'delete' })));
+    },
+    redo: async () => {
+      const id = await untracked(() => store().addColumn(title));
+      if (id) addAlias(columnId, id);
+      return saved(id !== null);
+    }
+  };
+}
+
+function columnRenamedEntry(columnId: string, before: string, after: string): HistoryEntry {
+  const rename = async (expected: string, title: string): Promise<ReplayResult> => {
+    const id = resolveId(columnId);
+    if (store().board?.columns.find(column => column.id === id)?.title !== expected) return 'stale';
+    return saved(await untracked(() => store().renameColumn(id, title)));
+  };
+
+  return {
+    label: 'rename column',
+    undo: () => rename(after, before),
+    redo: () => rename(before, after)
+  };
+}
+
+function columnMovedEntry(columnId: string, fromOrder: number, toOrder: number): HistoryEntry {
+  const move = async (targetOrder: number): Promise<ReplayResult> => {
+    const id = resolveId(columnId);
+    if (!store().board?.columns.some(column => column.id === id)) return 'stale';
+    return saved(await untracked(() => store().moveColumn(id, targetOrder)));
+  };
+
+  return {
+    label: 'move column',
+    undo: () => move(fromOrder),
+    redo: () => move(toOrder)
+  };
+}
+
+function columnDeletedEntry(column: Column, options: DeleteColumnOptions): HistoryEntry {
+  const cards = [...column.cards].sort((a, b) => a.order - b.order);
+
+  return {
+    label: 'delete column',
+    undo: async () => {
+      const id = await untracked(() => store().addColumn(column.title));
+      if (!id) return 'failed';
+      addAlias(column.id, id);
+
+      if (!(await untracked(() => store().moveColumn(id, column.order)))) return 'failed';
+
+      if (options.cards === 'delete') {
+        for (const card of cards) {
+          if (!(await restoreCard(card.id, id, card.content, customDetails(card), card.labelIds, card.checklists))) {
+            return 'failed';
+          }
+        }
+        return 'applied';
+      }
+
+      // Moved cards come back unless they have been moved on since
+      const target = resolveId(options.targetColumnId);
+      let order = 0;
+      for (const card of cards) {
+        const cardId = resolveId(card.id);
+        if (locateCard(store().board, cardId)?.columnId !== target) continue;
+        if (!(await untracked(() => store().moveCard(cardId, target, id, order)))) return 'failed';
+        order += 1;
+      }
+      return 'applied';
+    },
+    redo: async () => {
+      const id = resolveId(column.id);
+      if (!store().board?.columns.some(existing => existing.id === id)) return 'stale';
+
+      const redoOptions: DeleteColumnOptions =
+        options.cards === 'move'
+          ? { cards: 'move', targetColumnId: resolveId(options.targetColumnId) }
+          : options;
+      return saved(await untracked(() => store().deleteColumn(id, redoOptions)));
+    }
+  };
+}
+
 export const useBoardStore = create<BoardStore>((set, get) => ({
   // Initial state
   board: null,
+  version: null,
+  conflict: null,
+  access: null,
+  passwordProtected: false,
+  lock: unlocked(),
+  sharing: emptySharing(),
+  presence: { selfId: null, members: [] },
+  activity: { entries: [], nextCursor: null, loading: false, error: null },
+  comments: emptyComments(),
+  snapshots: emptySnapshots(),
+  history: emptyHistory(),
   loading: false,
   error: null,
 
@@ -56,24 +839,58 @@ export const useBoardStore = create<BoardStore>((set, get) => ({
     try {
       set({ loading: true, error: null });
       
-      const result = await apiClient.getBoard(boardId);
+      const [result, access] = await Promise.all([
+        apiClient.getBoard(boardId),
+        apiClient.getAccess(boardId)
+      ]);
       
+      // Shows the unlock screen rather than an error
+      if (result.locked) {
+        set({ lock: { locked: true, unlocking: false, error: null }, loading: false });
+        return;
+      }
+
       if (result.error) {
         throw new Error(result.error);
       }
       
-      set({ board: result.data || null, loading: false });
+      if (!result.data) {
+        set({ board: null, version: null, conflict: null, access: null, loading: false });
+        return;
+      }
+
+      const { version, ...board } = result.data;
+      if (get().board?.id !== board.id) {
+        set({
+          history: emptyHistory(),
+          snapshots: emptySnapshots(),
+          sharing: emptySharing(),
+          comments: emptyComments()
+        });
+      }
+      set({
+        board,
+        version,
+        conflict: null,
+        access: access.data?.role ?? null,
+        passwordProtected: access.data?.passwordProtected ?? false,
+        lock: unlocked(),
+        loading: false
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to load board';
       set({ error: errorMessage, loading: false });
     }
   },
 
-  createBoard: async () => {
+  createBoard: async (templateId?: string) => {
     try {
       set({ loading: true, error: null });
       
-      const result = await apiClient.createBoard('New Board'); // Will use board ID as title
+      // Boards from a template are named after it
+      const result = templateId
+        ? await apiClient.createBoard(undefined, templateId)
+        : await apiClient.createBoard('New Board'); // Will use board ID as title
       
       if (result.error) {
         throw new Error(result.error);
@@ -82,6 +899,9 @@ export const useBoardStore = create<BoardStore>((set, get) => ({
       // The API returns just basic board info { id, title, createdAt }
       // We need the id for navigation
       const newBoardData = result.data;
+      if (newBoardData) {
+        saveBoardToken(newBoardData.id, newBoardData.editToken);
+      }
       set({ loading: false });
       
       return newBoardData?.id || null;
@@ -92,134 +912,1715 @@ export const useBoardStore = create<BoardStore>((set, get) => ({
     }
   },
 
-  updateBoard: async (boardId: string, updates: Partial<Board>) => {
-    try {
-      set({ loading: true, error: null });
-      
-      const result = await apiClient.updateBoard(boardId, updates);
-      
-      if (result.error) {
-        throw new Error(result.error);
-      }
-      
-      set({ board: result.data || null, loading: false });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to update board';
-      set({ error: errorMessage, loading: false });
+  loadTemplates: async () => {
+    const result = await apiClient.getTemplates();
+    if (result.error || !result.data) {
+      set({ error: result.error || 'Failed to load templates' });
     }
+
+    return [...(result.data ?? []), ...getSavedTemplates()];
   },
 
-  moveCard: async (cardId: string, sourceColumnId: string, targetColumnId: string, targetOrder: number) => {
-    try {
-      set({ error: null });
-      
-      // TODO: Implement card move API call
-      // For now, just update local state optimistically
-      const { board } = get();
-      if (!board) return;
-      
-      // Optimistic update - move card locally
-      const updatedColumns = board.columns.map(column => {
-        if (column.id === sourceColumnId) {
-          return {
-            ...column,
-            cards: column.cards.filter(card => card.id !== cardId)
-          };
-        }
-        if (column.id === targetColumnId) {
-          const cardToMove = board.columns
-            .find(col => col.id === sourceColumnId)
-            ?.cards.find(card => card.id === cardId);
-          
-          if (cardToMove) {
-            const newCards = [...column.cards];
-            newCards.splice(targetOrder, 0, { ...cardToMove, order: targetOrder });
-            return { ...column, cards: newCards };
-          }
-        }
-        return column;
-      });
-      
-      set({ board: { ...board, columns: updatedColumns } });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to move card';
-      set({ error: errorMessage });
+  saveBoardAsTemplate: async (boardId: string, name: string, description: string) => {
+    set({ error: null });
+
+    const result = await apiClient.saveBoardAsTemplate(boardId, name, description);
+    if (result.error || !result.data) {
+      set({ error: result.error || 'Failed to save template' });
+      return null;
     }
+
+    rememberTemplate(result.data);
+    return result.data;
   },
 
-  addCard: async (columnId: string, content = 'New card') => {
-    try {
-      set({ error: null });
-      
-      // TODO: Implement add card API call
-      // For now, just update local state optimistically
-      const { board } = get();
-      if (!board) return;
-      
-      const newCard: Card = {
-        id: `card-${Date.now()}`, // Temporary ID
-        content,
-        order: board.columns.find(col => col.id === columnId)?.cards.length || 0
-      };
-      
-      const updatedColumns = board.columns.map(column => {
-        if (column.id === columnId) {
-          return {
-            ...column,
-            cards: [...column.cards, newCard]
-          };
-        }
-        return column;
-      });
-      
-      set({ board: { ...board, columns: updatedColumns } });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to add card';
-      set({ error: errorMessage });
+  cloneBoard: async (boardId: string, scope: CloneScope, title?: string) => {
+    set({ error: null });
+
+    const result = await apiClient.cloneBoard(boardId, scope, title);
+    if (result.error || !result.data) {
+      set({ error: result.error || 'Failed to duplicate board' });
+      return null;
     }
+
+    saveBoardToken(result.data.id, result.data.editToken);
+    return result.data.id;
   },
 
-  editCard: async (cardId: string, content: string) => {
-    try {
-      set({ error: null });
-      
-      // TODO: Implement edit card API call
-      // For now, just update local state optimistically
-      const { board } = get();
-      if (!board) return;
-      
-      const updatedColumns = board.columns.map(column => ({
-        ...column,
-        cards: column.cards.map(card => 
-          card.id === cardId ? { ...card, content } : card
-        )
-      }));
-      
-      set({ board: { ...board, columns: updatedColumns } });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to edit card';
-      set({ error: errorMessage });
+  importTrelloBoard: async (trello: unknown) => {
+    set({ loading: true, error: null });
+
+    const result = await apiClient.importTrelloBoard(trello);
+    if (result.error || !result.data) {
+      set({ error: result.error || 'Failed to import board', loading: false });
+      return null;
     }
+
+    saveBoardToken(result.data.id, result.data.editToken);
+    set({ loading: false });
+
+    return { boardId: result.data.id, skipped: result.data.skipped };
   },
 
-  deleteCard: async (cardId: string) => {
-    try {
-      set({ error: null });
-      
-      // TODO: Implement delete card API call
-      // For now, just update local state optimistically
-      const { board } = get();
-      if (!board) return;
-      
-      const updatedColumns = board.columns.map(column => ({
-        ...column,
-        cards: column.cards.filter(card => card.id !== cardId)
-      }));
-      
-      set({ board: { ...board, columns: updatedColumns } });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to delete card';
-      set({ error: errorMessage });
+  updateBoard: (boardId: string, updates: Partial<Board>) => {
+    const { board } = get();
+    if (!board || board.id !== boardId) return Promise.resolve();
+
+    // Apply locally right away; the server copy catches up once edits settle
+    set({ board: { ...board, ...updates }, error: null });
+
+    return scheduleSave(async () => {
+      const current = get().board;
+      if (!current || current.id !== boardId) return;
+
+      try {
+        const result = await sendMutation(
+          version => apiClient.updateBoard(boardId, {
+            title: current.title,
+            columns: current.columns
+          }, version),
+          () => get().updateBoard(boardId, updates)
+        );
+
+        if (result.error) {
+          throw new Error(result.error);
+        }
+      } catch (error) {
+        set(errorState(error, 'Failed to update board'));
+      }
+    });
+  },
+
+  moveCard: async (
+    cardId: string,
+    sourceColumnId: string,
+    targetColumnId: string,
+    targetOrder: number,
+    targetSwimlaneId?: string | null
+  ) => {
+    const tracked = isTracked();
+    const { board } = get();
+    if (!board) return false;
+
+    const cardToMove = board.columns
+      .find(col => col.id === sourceColumnId)
+      ?.cards.find(card => card.id === cardId);
+    if (!cardToMove) return false;
+
+    // Boards that block on WIP limits refuse the move here as the server would
+    const targetColumn = board.columns.find(col => col.id === targetColumnId);
+    const violation = targetColumn && sourceColumnId !== targetColumnId && wipLimitViolation(board, targetColumn);
+    if (violation) {
+      set({ error: violation });
+      return false;
     }
+
+    set({ error: null });
+
+    // Optimistic update - move card locally, renumbering both columns the
+    // same way the server does
+    const previousBoard = board;
+    const previousSwimlaneId = cardToMove.swimlaneId ?? null;
+    const movedCard = targetSwimlaneId === undefined ? cardToMove : { ...cardToMove, swimlaneId: targetSwimlaneId };
+    const updatedColumns = board.columns.map(column => {
+      if (column.id !== sourceColumnId && column.id !== targetColumnId) {
+        return column;
+      }
+
+      const cards = [...column.cards]
+        .sort((a, b) => a.order - b.order)
+        .filter(card => card.id !== cardId);
+      if (column.id === targetColumnId) {
+        cards.splice(Math.min(targetOrder, cards.length), 0, movedCard);
+      }
+
+      return { ...column, cards: cards.map((card, order) => ({ ...card, order })) };
+    });
+
+    set({ board: { ...board, columns: updatedColumns } });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.moveCard(
+          board.id, cardId, sourceColumnId, targetColumnId, targetOrder, version, targetSwimlaneId
+        ),
+        () => get().moveCard(cardId, sourceColumnId, targetColumnId, targetOrder, targetSwimlaneId)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to move card');
+      }
+
+      // Reconcile with the authoritative column contents from the server
+      const serverColumns = result.data.columns;
+      const current = get().board;
+      if (!current) return true;
+
+      set({
+        board: {
+          ...current,
+          columns: current.columns.map(column => {
+            const serverColumn = serverColumns.find(col => col.id === column.id);
+            return serverColumn ? { ...column, cards: serverColumn.cards } : column;
+          })
+        }
+      });
+
+      if (tracked) {
+        // The server may have clamped the position
+        const movedOrder = serverColumns
+          .find(col => col.id === targetColumnId)
+          ?.cards.find(card => card.id === cardId)?.order ?? targetOrder;
+        recordHistory(cardMovedEntry(
+          cardId,
+          { columnId: sourceColumnId, order: cardToMove.order, swimlaneId: previousSwimlaneId },
+          { columnId: targetColumnId, order: movedOrder, swimlaneId: movedCard.swimlaneId ?? null }
+        ));
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to move card'), board: previousBoard });
+      return false;
+    }
+  },
+
+  addCard: async (columnId: string, content = 'New card', swimlaneId?: string) => {
+    const tracked = isTracked();
+    const { board } = get();
+    if (!board) return null;
+
+    const column = board.columns.find(col => col.id === columnId);
+    const violation = column && wipLimitViolation(board, column);
+    if (violation) {
+      set({ error: violation });
+      return null;
+    }
+
+    set({ error: null });
+
+    // Show the card immediately under a pending ID, then swap in the
+    // server-issued ID once the API confirms the create
+    const pendingId = `pending-${nanoid()}`;
+    const newCard: Card = {
+      id: pendingId,
+      content,
+      order: column?.cards.length || 0,
+      ...(swimlaneId && { swimlaneId })
+    };
+
+    set({ board: updateCards(board, columnId, cards => [...cards, newCard]) });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.addCard(board.id, columnId, content, version, swimlaneId),
+        () => get().addCard(columnId, content, swimlaneId)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to add card');
+      }
+
+      const { id, order } = result.data;
+      const current = get().board;
+      if (!current) return id;
+
+      set({
+        board: updateCards(current, columnId, cards =>
+          cards.map(card => (card.id === pendingId ? { ...card, id, order } : card))
+        )
+      });
+
+      if (tracked) recordHistory(cardAddedEntry(id, columnId, content));
+      return id;
+    } catch (error) {
+      const current = get().board;
+      set({
+        ...errorState(error, 'Failed to add card'),
+        board: current && updateCards(current, columnId, cards =>
+          cards.filter(card => card.id !== pendingId)
+        )
+      });
+      return null;
+    }
+  },
+
+  editCard: async (cardId: string, content: string) => {
+    const tracked = isTracked();
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousContent = locateCard(board, cardId)?.card.content;
+    const previousBoard = board;
+    const updatedColumns = board.columns.map(column => ({
+      ...column,
+      cards: column.cards.map(card =>
+        card.id === cardId ? { ...card, content } : card
+      )
+    }));
+
+    set({ board: { ...board, columns: updatedColumns } });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.updateCard(board.id, cardId, { content }, version),
+        () => get().editCard(cardId, content)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      if (tracked && previousContent !== undefined) {
+        recordHistory(cardEditedEntry(cardId, previousContent, content));
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to edit card'), board: previousBoard });
+      return false;
+    }
+  },
+
+  updateCardDetails: async (cardId: string, details: Partial<CardDetails>) => {
+    const tracked = isTracked();
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previous = locateCard(board, cardId)?.card;
+    const previousBoard = board;
+    const updatedColumns = board.columns.map(column => ({
+      ...column,
+      cards: column.cards.map(card =>
+        card.id === cardId ? { ...card, ...details } : card
+      )
+    }));
+
+    set({ board: { ...board, columns: updatedColumns } });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.updateCard(board.id, cardId, details, version),
+        () => get().updateCardDetails(cardId, details)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      if (tracked && previous) {
+        const fields = Object.keys(details) as Array<keyof CardDetails>;
+        recordHistory(cardDetailsEntry(cardId, pickDetails(previous, fields), details));
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to update card'), board: previousBoard });
+      return false;
+    }
+  },
+
+  setCardLabels: async (cardId: string, labelIds: string[]) => {
+    const tracked = isTracked();
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previous = locateCard(board, cardId)?.card;
+    const previousBoard = board;
+    const updatedColumns = board.columns.map(column => ({
+      ...column,
+      cards: column.cards.map(card =>
+        card.id === cardId ? { ...card, labelIds } : card
+      )
+    }));
+
+    set({ board: { ...board, columns: updatedColumns } });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.updateCard(board.id, cardId, { labelIds }, version),
+        () => get().setCardLabels(cardId, labelIds)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      if (tracked && previous) {
+        recordHistory(cardLabelsEntry(cardId, previous.labelIds ?? [], labelIds));
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to update card labels'), board: previousBoard });
+      return false;
+    }
+  },
+
+  deleteCard: async (cardId: string) => {
+    const tracked = isTracked();
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const removedCard = locateCard(board, cardId);
+    const previousBoard = board;
+    const updatedColumns = board.columns.map(column => {
+      const removed = column.cards.find(card => card.id === cardId);
+      if (!removed) return column;
+
+      // Mirror the server, which keeps orders contiguous after a delete
+      return {
+        ...column,
+        cards: column.cards
+          .filter(card => card.id !== cardId)
+          .map(card => (card.order > removed.order ? { ...card, order: card.order - 1 } : card))
+      };
+    });
+
+    set({ board: { ...board, columns: updatedColumns } });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.deleteCard(board.id, cardId, version),
+        () => get().deleteCard(cardId)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      if (tracked && removedCard) {
+        recordHistory(cardDeletedEntry(removedCard.card, removedCard.columnId));
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to delete card'), board: previousBoard });
+      return false;
+    }
+  },
+
+  addColumn: async (title: string) => {
+    const tracked = isTracked();
+    const { board } = get();
+    if (!board) return null;
+
+    set({ error: null });
+
+    const pendingId = `pending-${nanoid()}`;
+    const newColumn: Column = {
+      id: pendingId,
+      title,
+      order: board.columns.length,
+      cards: []
+    };
+
+    set({ board: { ...board, columns: [...board.columns, newColumn] } });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.addColumn(board.id, title, version),
+        () => get().addColumn(title)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to add column');
+      }
+
+      const { id, order } = result.data;
+      const current = get().board;
+      if (!current) return id;
+
+      set({
+        board: {
+          ...current,
+          columns: current.columns.map(column =>
+            column.id === pendingId ? { ...column, id, order } : column
+          )
+        }
+      });
+
+      if (tracked) recordHistory(columnAddedEntry(id, title));
+      return id;
+    } catch (error) {
+      const current = get().board;
+      set({
+        ...errorState(error, 'Failed to add column'),
+        board: current && {
+          ...current,
+          columns: current.columns.filter(column => column.id !== pendingId)
+        }
+      });
+      return null;
+    }
+  },
+
+  renameColumn: async (columnId: string, title: string) => {
+    const tracked = isTracked();
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousTitle = board.columns.find(column => column.id === columnId)?.title;
+    const previousBoard = board;
+    set({
+      board: {
+        ...board,
+        columns: board.columns.map(column =>
+          column.id === columnId ? { ...column, title } : column
+        )
+      }
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.updateColumn(board.id, columnId, { title }, version),
+        () => get().renameColumn(columnId, title)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      if (tracked && previousTitle !== undefined) {
+        recordHistory(columnRenamedEntry(columnId, previousTitle, title));
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to rename column'), board: previousBoard });
+      return false;
+    }
+  },
+
+  setWipLimit: async (columnId: string, wipLimit: number | null) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    set({
+      board: {
+        ...board,
+        columns: board.columns.map(column =>
+          column.id === columnId ? { ...column, wipLimit } : column
+        )
+      }
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.updateColumn(board.id, columnId, { wipLimit }, version),
+        () => get().setWipLimit(columnId, wipLimit)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to set WIP limit'), board: previousBoard });
+      return false;
+    }
+  },
+
+  setWipMode: async (wipMode: WipMode) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    set({ board: { ...board, wipMode } });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.updateBoardSettings(board.id, { wipMode }, version),
+        () => get().setWipMode(wipMode)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to change WIP limit mode'), board: previousBoard });
+      return false;
+    }
+  },
+
+  moveColumn: async (columnId: string, targetOrder: number) => {
+    const tracked = isTracked();
+    const { board } = get();
+    if (!board) return false;
+
+    const columns = [...board.columns].sort((a, b) => a.order - b.order);
+    const fromIndex = columns.findIndex(column => column.id === columnId);
+    if (fromIndex === -1) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    const [moving] = columns.splice(fromIndex, 1);
+    if (!moving) return false;
+    columns.splice(Math.min(targetOrder, columns.length), 0, moving);
+
+    set({
+      board: { ...board, columns: columns.map((column, order) => ({ ...column, order })) }
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.moveColumn(board.id, columnId, targetOrder, version),
+        () => get().moveColumn(columnId, targetOrder)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to move column');
+      }
+
+      // Reconcile with the orders the server settled on
+      const serverColumns = result.data.columns;
+      const current = get().board;
+      if (!current) return true;
+
+      set({
+        board: {
+          ...current,
+          columns: current.columns.map(column => {
+            const serverColumn = serverColumns.find(col => col.id === column.id);
+            return serverColumn ? { ...column, order: serverColumn.order } : column;
+          })
+        }
+      });
+
+      if (tracked) {
+        const movedOrder = serverColumns.find(col => col.id === columnId)?.order ?? targetOrder;
+        recordHistory(columnMovedEntry(columnId, fromIndex, movedOrder));
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to move column'), board: previousBoard });
+      return false;
+    }
+  },
+
+  deleteColumn: async (columnId: string, options: DeleteColumnOptions) => {
+    const tracked = isTracked();
+    const { board } = get();
+    if (!board) return false;
+
+    const deleted = board.columns.find(column => column.id === columnId);
+    if (!deleted) return false;
+
+    set({ error: null });
+
+    // Mirror the server: relocated cards go to the bottom of the target
+    // column and the remaining columns close the gap
+    const previousBoard = board;
+    const relocated = [...deleted.cards].sort((a, b) => a.order - b.order);
+    const updatedColumns = board.columns
+      .filter(column => column.id !== columnId)
+      .map(column => ({
+        ...column,
+        order: column.order > deleted.order ? column.order - 1 : column.order,
+        cards:
+          options.cards === 'move' && column.id === options.targetColumnId
+            ? [
+                ...column.cards,
+                ...relocated.map((card, index) => ({ ...card, order: column.cards.length + index }))
+              ]
+            : column.cards
+      }));
+
+    set({ board: { ...board, columns: updatedColumns } });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.deleteColumn(board.id, columnId, options, version),
+        () => get().deleteColumn(columnId, options)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      if (tracked) recordHistory(columnDeletedEntry(deleted, options));
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to delete column'), board: previousBoard });
+      return false;
+    }
+  },
+
+  // Lane changes are not part of undo history, but undoing a card move puts
+  // the card back in its lane
+  addSwimlane: async (title: string) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.addSwimlane(board.id, title, version),
+        () => get().addSwimlane(title)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to add swimlane');
+      }
+
+      // The lane ID comes from the server, so the lane is added only now
+      const swimlane = result.data;
+      set(state => ({
+        board: state.board && { ...state.board, swimlanes: [...state.board.swimlanes, swimlane] }
+      }));
+      return true;
+    } catch (error) {
+      set(errorState(error, 'Failed to add swimlane'));
+      return false;
+    }
+  },
+
+  renameSwimlane: async (swimlaneId: string, title: string) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    set({
+      board: {
+        ...board,
+        swimlanes: board.swimlanes.map(lane => (lane.id === swimlaneId ? { ...lane, title } : lane))
+      }
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.updateSwimlane(board.id, swimlaneId, title, version),
+        () => get().renameSwimlane(swimlaneId, title)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to rename swimlane'), board: previousBoard });
+      return false;
+    }
+  },
+
+  moveSwimlane: async (swimlaneId: string, targetOrder: number) => {
+    const { board } = get();
+    if (!board) return false;
+
+    const swimlanes = [...board.swimlanes].sort((a, b) => a.order - b.order);
+    const fromIndex = swimlanes.findIndex(lane => lane.id === swimlaneId);
+    const [moving] = fromIndex === -1 ? [] : swimlanes.splice(fromIndex, 1);
+    if (!moving) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    swimlanes.splice(Math.min(targetOrder, swimlanes.length), 0, moving);
+    set({ board: { ...board, swimlanes: swimlanes.map((lane, order) => ({ ...lane, order })) } });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.moveSwimlane(board.id, swimlaneId, targetOrder, version),
+        () => get().moveSwimlane(swimlaneId, targetOrder)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to move swimlane');
+      }
+
+      // Reconcile with the orders the server settled on
+      const serverSwimlanes = result.data.swimlanes;
+      set(state => ({ board: state.board && { ...state.board, swimlanes: serverSwimlanes } }));
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to move swimlane'), board: previousBoard });
+      return false;
+    }
+  },
+
+  deleteSwimlane: async (swimlaneId: string) => {
+    const { board } = get();
+    if (!board) return false;
+
+    const deleted = board.swimlanes.find(lane => lane.id === swimlaneId);
+    if (!deleted) return false;
+
+    set({ error: null });
+
+    // Mirror the server: the lane's cards stay in their columns outside any
+    // lane and the remaining lanes close the gap
+    const previousBoard = board;
+    set({
+      board: {
+        ...board,
+        swimlanes: board.swimlanes
+          .filter(lane => lane.id !== swimlaneId)
+          .map(lane => (lane.order > deleted.order ? { ...lane, order: lane.order - 1 } : lane)),
+        columns: board.columns.map(column => ({
+          ...column,
+          cards: column.cards.map(card => (card.swimlaneId === swimlaneId ? { ...card, swimlaneId: null } : card))
+        }))
+      }
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.deleteSwimlane(board.id, swimlaneId, version),
+        () => get().deleteSwimlane(swimlaneId)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to delete swimlane'), board: previousBoard });
+      return false;
+    }
+  },
+
+  // Label changes are not part of undo history; deleting or merging a label
+  // cannot be reversed card by card
+  createLabel: async (name: string, color: string) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.createLabel(board.id, { name, color }, version),
+        () => get().createLabel(name, color)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to create label');
+      }
+
+      // The label ID comes from the server, so the label is added only now
+      const label = result.data;
+      set(state => ({
+        board: state.board && { ...state.board, labels: sortLabels([...state.board.labels, label]) }
+      }));
+      return true;
+    } catch (error) {
+      set(errorState(error, 'Failed to create label'));
+      return false;
+    }
+  },
+
+  updateLabel: async (labelId: string, updates: Partial<Omit<Label, 'id'>>) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    const labels = board.labels.map(label => (label.id === labelId ? { ...label, ...updates } : label));
+    set({ board: { ...board, labels: sortLabels(labels) } });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.updateLabel(board.id, labelId, updates, version),
+        () => get().updateLabel(labelId, updates)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to update label'), board: previousBoard });
+      return false;
+    }
+  },
+
+  deleteLabel: async (labelId: string) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    // Mirror the server, which takes the label off every card
+    const previousBoard = board;
+    const updatedColumns = board.columns.map(column => ({
+      ...column,
+      cards: column.cards.map(card =>
+        card.labelIds?.includes(labelId)
+          ? { ...card, labelIds: card.labelIds.filter(id => id !== labelId) }
+          : card
+      )
+    }));
+
+    set({
+      board: {
+        ...board,
+        columns: updatedColumns,
+        labels: board.labels.filter(label => label.id !== labelId)
+      }
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.deleteLabel(board.id, labelId, version),
+        () => get().deleteLabel(labelId)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to delete label'), board: previousBoard });
+      return false;
+    }
+  },
+
+  mergeLabels: async (labelId: string, targetLabelId: string) => {
+    const { board } = get();
+    if (!board || labelId === targetLabelId) return false;
+
+    set({ error: null });
+
+    // Cards with the merged label get the target label in its place
+    const previousBoard = board;
+    const updatedColumns = board.columns.map(column => ({
+      ...column,
+      cards: column.cards.map(card => {
+        if (!card.labelIds?.includes(labelId)) return card;
+
+        const labelIds = card.labelIds.filter(id => id !== labelId && id !== targetLabelId);
+        return { ...card, labelIds: [...labelIds, targetLabelId] };
+      })
+    }));
+
+    set({
+      board: {
+        ...board,
+        columns: updatedColumns,
+        labels: board.labels.filter(label => label.id !== labelId)
+      }
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.mergeLabel(board.id, labelId, targetLabelId, version),
+        () => get().mergeLabels(labelId, targetLabelId)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to merge labels'), board: previousBoard });
+      return false;
+    }
+  },
+
+  // Checklist changes are not part of undo history, but deleted cards come
+  // back with their checklists
+  addChecklist: async (cardId: string, title: string) => {
+    const { board } = get();
+    if (!board) return null;
+
+    set({ error: null });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.createChecklist(board.id, cardId, title, version),
+        () => get().addChecklist(cardId, title)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to add checklist');
+      }
+
+      // The checklist ID comes from the server, so the checklist is added only now
+      const checklist = result.data;
+      set(state => ({
+        board: state.board && updateChecklists(state.board, cardId, checklists => withChecklist(checklists, checklist))
+      }));
+      return checklist.id;
+    } catch (error) {
+      set(errorState(error, 'Failed to add checklist'));
+      return null;
+    }
+  },
+
+  renameChecklist: async (cardId: string, checklistId: string, title: string) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    set({
+      board: updateChecklists(board, cardId, checklists =>
+        checklists.map(checklist => (checklist.id === checklistId ? { ...checklist, title } : checklist))
+      )
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.renameChecklist(board.id, cardId, checklistId, title, version),
+        () => get().renameChecklist(cardId, checklistId, title)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to rename checklist'), board: previousBoard });
+      return false;
+    }
+  },
+
+  deleteChecklist: async (cardId: string, checklistId: string) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    set({ board: updateChecklists(board, cardId, checklists => withoutChecklist(checklists, checklistId)) });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.deleteChecklist(board.id, cardId, checklistId, version),
+        () => get().deleteChecklist(cardId, checklistId)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to delete checklist'), board: previousBoard });
+      return false;
+    }
+  },
+
+  addChecklistItem: async (cardId: string, checklistId: string, text: string) => {
+    const { board } = get();
+    if (!board) return null;
+
+    set({ error: null });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.addChecklistItem(board.id, cardId, checklistId, text, version),
+        () => get().addChecklistItem(cardId, checklistId, text)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to add checklist item');
+      }
+
+      // The server returns the whole checklist; the new item is the last one
+      const checklist = result.data;
+      set(state => ({
+        board: state.board && updateChecklists(state.board, cardId, checklists => withChecklist(checklists, checklist))
+      }));
+      return checklist.items[checklist.items.length - 1]?.id ?? null;
+    } catch (error) {
+      set(errorState(error, 'Failed to add checklist item'));
+      return null;
+    }
+  },
+
+  updateChecklistItem: async (
+    cardId: string,
+    checklistId: string,
+    itemId: string,
+    updates: Partial<Pick<ChecklistItem, 'text' | 'done'>>
+  ) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    set({
+      board: updateChecklistItems(board, cardId, checklistId, items =>
+        items.map(item => (item.id === itemId ? { ...item, ...updates } : item))
+      )
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.updateChecklistItem(board.id, cardId, checklistId, itemId, updates, version),
+        () => get().updateChecklistItem(cardId, checklistId, itemId, updates)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to update checklist item'), board: previousBoard });
+      return false;
+    }
+  },
+
+  moveChecklistItem: async (cardId: string, checklistId: string, itemId: string, targetOrder: number) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    set({ board: updateChecklistItems(board, cardId, checklistId, items => moveItem(items, itemId, targetOrder)) });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.moveChecklistItem(board.id, cardId, checklistId, itemId, targetOrder, version),
+        () => get().moveChecklistItem(cardId, checklistId, itemId, targetOrder)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to move checklist item'), board: previousBoard });
+      return false;
+    }
+  },
+
+  deleteChecklistItem: async (cardId: string, checklistId: string, itemId: string) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    set({
+      board: updateChecklistItems(board, cardId, checklistId, items =>
+        items.filter(item => item.id !== itemId).map((item, order) => ({ ...item, order }))
+      )
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.deleteChecklistItem(board.id, cardId, checklistId, itemId, version),
+        () => get().deleteChecklistItem(cardId, checklistId, itemId)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to delete checklist item'), board: previousBoard });
+      return false;
+    }
+  },
+
+  loadComments: async (boardId: string, cardId: string | null) => {
+    if (cardId === null) {
+      set({ comments: emptyComments() });
+      return;
+    }
+
+    set({ comments: { cardId, entries: [], loading: true, error: null } });
+
+    const result = await apiClient.getComments(boardId, cardId);
+    // Another card may have been opened in the meantime
+    if (get().comments.cardId !== cardId) return;
+
+    if (result.error || !result.data) {
+      const error = result.error || 'Failed to load comments';
+      set(state => ({ comments: { ...state.comments, loading: false, error } }));
+      return;
+    }
+
+    const entries = result.data;
+    set(state => ({ comments: { ...state.comments, entries, loading: false } }));
+  },
+
+  // Comments are not part of undo history
+  addComment: async (cardId: string, body: string) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.addComment(board.id, cardId, body, version),
+        () => get().addComment(cardId, body)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to add comment');
+      }
+
+      // The author and timestamps come from the server, so the comment is added only now
+      const comment = result.data;
+      set(state => ({
+        board: state.board && adjustCommentCount(state.board, cardId, 1),
+        comments:
+          state.comments.cardId === cardId
+            ? { ...state.comments, entries: [...state.comments.entries, comment] }
+            : state.comments
+      }));
+      return true;
+    } catch (error) {
+      set(errorState(error, 'Failed to add comment'));
+      return false;
+    }
+  },
+
+  editComment: async (cardId: string, commentId: string, body: string) => {
+    const { board, comments } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousComments = comments;
+    set({
+      comments: {
+        ...comments,
+        entries: comments.entries.map(comment => (comment.id === commentId ? { ...comment, body } : comment))
+      }
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.updateComment(board.id, cardId, commentId, body, version),
+        () => get().editComment(cardId, commentId, body)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to edit comment');
+      }
+
+      // Picks up the edited flag and new timestamp
+      const updated = result.data;
+      set(state => ({
+        comments: {
+          ...state.comments,
+          entries: state.comments.entries.map(comment => (comment.id === commentId ? updated : comment))
+        }
+      }));
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to edit comment'), comments: previousComments });
+      return false;
+    }
+  },
+
+  deleteComment: async (cardId: string, commentId: string) => {
+    const { board, comments } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    const previousComments = comments;
+    set({
+      board: adjustCommentCount(board, cardId, -1),
+      comments: { ...comments, entries: comments.entries.filter(comment => comment.id !== commentId) }
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.deleteComment(board.id, cardId, commentId, version),
+        () => get().deleteComment(cardId, commentId)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to delete comment'), board: previousBoard, comments: previousComments });
+      return false;
+    }
+  },
+
+  // Attachments are not part of undo history
+  uploadAttachment: async (cardId: string, file: File) => {
+    const { board } = get();
+    if (!board) return false;
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      set({ error: `Files can be at most ${formatFileSize(MAX_ATTACHMENT_SIZE)}` });
+      return false;
+    }
+
+    set({ error: null });
+
+    try {
+      const thumbnail = await createThumbnail(file);
+      const result = await sendMutation(
+        version => apiClient.uploadAttachment(board.id, cardId, file, thumbnail, version),
+        () => get().uploadAttachment(cardId, file)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to upload attachment');
+      }
+
+      // The server sniffs the type and may make the file the cover, so the
+      // card's attachments are taken from the response
+      const attachments = result.data.attachments ?? [];
+      set(state => ({ board: state.board && updateAttachments(state.board, cardId, () => attachments) }));
+      return true;
+    } catch (error) {
+      set(errorState(error, 'Failed to upload attachment'));
+      return false;
+    }
+  },
+
+  setAttachmentCover: async (cardId: string, attachmentId: string, cover: boolean) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    set({ board: updateAttachments(board, cardId, attachments => withCover(attachments, attachmentId, cover)) });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.setAttachmentCover(board.id, cardId, attachmentId, cover, version),
+        () => get().setAttachmentCover(cardId, attachmentId, cover)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to change card cover'), board: previousBoard });
+      return false;
+    }
+  },
+
+  deleteAttachment: async (cardId: string, attachmentId: string) => {
+    const { board } = get();
+    if (!board) return false;
+
+    set({ error: null });
+
+    const previousBoard = board;
+    set({
+      board: updateAttachments(board, cardId, attachments =>
+        attachments.filter(attachment => attachment.id !== attachmentId)
+      )
+    });
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.deleteAttachment(board.id, cardId, attachmentId, version),
+        () => get().deleteAttachment(cardId, attachmentId)
+      );
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return true;
+    } catch (error) {
+      set({ ...errorState(error, 'Failed to delete attachment'), board: previousBoard });
+      return false;
+    }
+  },
+
+  undo: async () => {
+    const { history } = get();
+    const entry = history.past[history.past.length - 1];
+    if (!entry || history.busy) return;
+
+    set({ history: { ...history, busy: true, notice: null } });
+    const result = await entry.undo();
+
+    set(state => {
+      const past = result === 'failed' ? state.history.past : state.history.past.filter(item => item !== entry);
+      const future = result === 'applied' ? [...state.history.future, entry] : state.history.future;
+      return { history: { ...state.history, past, future, busy: false, notice: historyNotice('undo', entry, result) } };
+    });
+  },
+
+  redo: async () => {
+    const { history } = get();
+    const entry = history.future[history.future.length - 1];
+    if (!entry || history.busy) return;
+
+    set({ history: { ...history, busy: true, notice: null } });
+    const result = await entry.redo();
+
+    set(state => {
+      const future = result === 'failed' ? state.history.future : state.history.future.filter(item => item !== entry);
+      const past = result === 'applied' ? [...state.history.past, entry] : state.history.past;
+      return { history: { ...state.history, past, future, busy: false, notice: historyNotice('redo', entry, result) } };
+    });
+  },
+
+  resolveConflict: async (resolution: 'reload' | 'merge') => {
+    const { conflict } = get();
+    if (!conflict) return;
+
+    // Either way the server's copy becomes the new base; merging then
+    // re-applies the rejected edits on top of it
+    set({ board: conflict.board, version: conflict.version, conflict: null, error: null });
+
+    if (resolution === 'merge') {
+      for (const replay of conflict.replays) {
+        await replay();
+      }
+    }
+  },
+
+  subscribeToBoard: (boardId: string) => {
+    let source: EventSource | null = null;
+    let lastEventId: string | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    // Quietly replaces the board when the stream cannot be resumed
+    const resync = async () => {
+      const result = await apiClient.getBoard(boardId);
+      if (closed || !result.data) return;
+
+      const { version, ...board } = result.data;
+      set({ board, version });
+    };
+
+    const handleMessage = (message: MessageEvent<string>) => {
+      if (message.lastEventId) {
+        lastEventId = message.lastEventId;
+      }
+
+      const event = JSON.parse(message.data) as BoardEvent | ResyncMessage;
+      if (event.type === 'resync') {
+        void resync();
+        return;
+      }
+
+      // This tab's own writes were applied optimistically already
+      if (event.clientId === apiClient.clientId) return;
+
+      const { board, version, comments } = get();
+      if (!board || board.id !== boardId) return;
+
+      set({
+        board: applyBoardChange(board, event),
+        comments: applyCommentChange(comments, event),
+        version: version === null ? event.version : Math.max(version, event.version)
+      });
+    };
+
+    const connect = () => {
+      source = new EventSource(apiClient.boardEventsUrl(boardId, lastEventId));
+      source.onopen = () => {
+        attempts = 0;
+      };
+      source.onmessage = handleMessage;
+      source.onerror = () => {
+        // While CONNECTING the browser retries by itself and resends
+        // Last-Event-ID; once it gives up, reconnect with the ID in the URL
+        if (closed || source?.readyState !== EventSource.CLOSED) return;
+
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+        attempts += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  },
+
+  connectPresence: (boardId: string) => {
+    const identity = getPresenceIdentity();
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const current = new WebSocket(apiClient.presenceUrl(boardId));
+      socket = current;
+      presenceSocket = current;
+
+      current.onopen = () => {
+        attempts = 0;
+        sendPresence({ type: 'hello', ...identity });
+        if (presenceActivity.editing) {
+          sendPresence({ type: 'editing', cardId: presenceActivity.editing });
+        }
+        if (presenceActivity.dragging) {
+          sendPresence({ type: 'dragging', cardId: presenceActivity.dragging });
+        }
+      };
+      current.onmessage = (message: MessageEvent<string>) => {
+        const data = JSON.parse(message.data) as PresenceMessage;
+        if (data.type === 'welcome') {
+          set({ presence: { selfId: data.id, members: data.members } });
+        } else if (data.type === 'presence') {
+          set(state => ({ presence: { ...state.presence, members: data.members } }));
+        }
+      };
+      current.onclose = event => {
+        if (presenceSocket === current) presenceSocket = null;
+        set({ presence: { selfId: null, members: [] } });
+        // The server closes with 4404 for boards that do not exist, with 4403
+        // when the link does not grant access and with 4401 for locked
+        // boards; retrying cannot help
+        const refused = [PRESENCE_BOARD_NOT_FOUND, PRESENCE_ACCESS_DENIED, PRESENCE_BOARD_LOCKED];
+        if (closed || refused.includes(event.code)) return;
+
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+        attempts += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  },
+
+  setEditingCard: (cardId: string | null) => {
+    presenceActivity.editing = cardId;
+    sendPresence({ type: 'editing', cardId });
+  },
+
+  setDraggingCard: (cardId: string | null) => {
+    presenceActivity.dragging = cardId;
+    sendPresence({ type: 'dragging', cardId });
+  },
+
+  loadActivity: async (boardId: string) => {
+    set(state => ({ activity: { ...state.activity, loading: true, error: null } }));
+
+    const result = await apiClient.getActivity(boardId, null);
+    if (result.error || !result.data) {
+      const error = result.error || 'Failed to load activity';
+      set(state => ({ activity: { ...state.activity, loading: false, error } }));
+      return;
+    }
+
+    set({
+      activity: {
+        entries: result.data.activities,
+        nextCursor: result.data.nextCursor,
+        loading: false,
+        error: null
+      }
+    });
+  },
+
+  loadMoreActivity: async (boardId: string) => {
+    const { activity } = get();
+    if (activity.nextCursor === null || activity.loading) return;
+
+    set({ activity: { ...activity, loading: true, error: null } });
+
+    const result = await apiClient.getActivity(boardId, activity.nextCursor);
+    if (result.error || !result.data) {
+      const error = result.error || 'Failed to load activity';
+      set(state => ({ activity: { ...state.activity, loading: false, error } }));
+      return;
+    }
+
+    const page = result.data;
+    set(state => ({
+      activity: {
+        entries: [...state.activity.entries, ...page.activities],
+        nextCursor: page.nextCursor,
+        loading: false,
+        error: null
+      }
+    }));
+  },
+
+  loadSnapshots: async (boardId: string) => {
+    set(state => ({ snapshots: { ...state.snapshots, loading: true, error: null } }));
+
+    const result = await apiClient.getSnapshots(boardId);
+    if (result.error || !result.data) {
+      const error = result.error || 'Failed to load history';
+      set(state => ({ snapshots: { ...state.snapshots, loading: false, error } }));
+      return;
+    }
+
+    const entries = result.data;
+    set(state => ({ snapshots: { ...state.snapshots, entries, loading: false } }));
+  },
+
+  createSnapshot: async (boardId: string) => {
+    set(state => ({ snapshots: { ...state.snapshots, loading: true, error: null } }));
+
+    const result = await apiClient.createSnapshot(boardId);
+    if (result.error || !result.data) {
+      const error = result.error || 'Failed to save version';
+      set(state => ({ snapshots: { ...state.snapshots, loading: false, error } }));
+      return;
+    }
+
+    const snapshot = result.data;
+    set(state => ({
+      snapshots: { ...state.snapshots, entries: [snapshot, ...state.snapshots.entries], loading: false }
+    }));
+  },
+
+  selectSnapshot: async (boardId: string, snapshotId: string | null) => {
+    if (snapshotId === null) {
+      set(state => ({ snapshots: { ...state.snapshots, selected: null, diff: null, error: null } }));
+      return;
+    }
+
+    set(state => ({ snapshots: { ...state.snapshots, loading: true, error: null } }));
+
+    const [detail, diff] = await Promise.all([
+      apiClient.getSnapshot(boardId, snapshotId),
+      apiClient.getSnapshotDiff(boardId, snapshotId)
+    ]);
+    if (!detail.data || !diff.data) {
+      const error = detail.error || diff.error || 'Failed to load version';
+      set(state => ({ snapshots: { ...state.snapshots, loading: false, error } }));
+      return;
+    }
+
+    const selected = detail.data;
+    const changes = diff.data;
+    set(state => ({ snapshots: { ...state.snapshots, selected, diff: changes, loading: false } }));
+  },
+
+  restoreSnapshot: async (boardId: string, snapshotId: string) => {
+    set(state => ({ snapshots: { ...state.snapshots, loading: true, error: null } }));
+
+    try {
+      const result = await sendMutation(
+        version => apiClient.restoreSnapshot(boardId, snapshotId, version),
+        () => get().restoreSnapshot(boardId, snapshotId)
+      );
+
+      if (result.error || !result.data) {
+        throw new Error(result.error || 'Failed to restore version');
+      }
+
+      // Undo entries were recorded against the state that was just replaced
+      const { version, ...board } = result.data;
+      set(state => ({
+        board,
+        version,
+        history: emptyHistory(),
+        snapshots: { ...state.snapshots, selected: null, diff: null }
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to restore version';
+      set(state => ({ snapshots: { ...state.snapshots, loading: false, error: message } }));
+      return false;
+    }
+
+    // The restore kept the replaced state as a new snapshot
+    await get().loadSnapshots(boardId);
+    return true;
+  },
+
+  loadTokens: async (boardId: string) => {
+    set(state => ({ sharing: { ...state.sharing, loading: true, error: null } }));
+
+    const result = await apiClient.getTokens(boardId);
+    if (result.error || !result.data) {
+      const error = result.error || 'Failed to load links';
+      set(state => ({ sharing: { ...state.sharing, loading: false, error } }));
+      return;
+    }
+
+    set({ sharing: { tokens: result.data, loading: false, error: null } });
+  },
+
+  createToken: async (boardId: string, role: BoardRole) => {
+    set(state => ({ sharing: { ...state.sharing, loading: true, error: null } }));
+
+    const result = await apiClient.createToken(boardId, role);
+    if (result.error || !result.data) {
+      const error = result.error || 'Failed to create link';
+      set(state => ({ sharing: { ...state.sharing, loading: false, error } }));
+      return;
+    }
+
+    const token = result.data;
+    set(state => ({
+      sharing: { ...state.sharing, tokens: [...state.sharing.tokens, token], loading: false }
+    }));
+  },
+
+  revokeToken: async (boardId: string, tokenId: string) => {
+    set(state => ({ sharing: { ...state.sharing, loading: true, error: null } }));
+
+    const result = await apiClient.revokeToken(boardId, tokenId);
+    if (result.error) {
+      set(state => ({ sharing: { ...state.sharing, loading: false, error: result.error ?? null } }));
+      return;
+    }
+
+    set(state => ({
+      sharing: {
+        ...state.sharing,
+        tokens: state.sharing.tokens.filter(token => token.id !== tokenId),
+        loading: false
+      }
+    }));
+  },
+
+  unlockBoard: async (boardId: string, password: string) => {
+    set(state => ({ lock: { ...state.lock, unlocking: true, error: null } }));
+
+    const result = await apiClient.createSession(boardId, password);
+    if (result.error || !result.data) {
+      const error = result.error || 'Failed to unlock board';
+      set(state => ({ lock: { ...state.lock, unlocking: false, error } }));
+      return;
+    }
+
+    saveBoardSession(boardId, result.data.token);
+    await get().loadBoard(boardId);
+  },
+
+  setBoardPassword: async (boardId: string, password: string | null) => {
+    set(state => ({ sharing: { ...state.sharing, loading: true, error: null } }));
+
+    const result = await apiClient.setPassword(boardId, password);
+    if (result.error || !result.data) {
+      const error = result.error || 'Failed to change password';
+      set(state => ({ sharing: { ...state.sharing, loading: false, error } }));
+      return false;
+    }
+
+    // Changing the password ended the previous session
+    saveBoardSession(boardId, result.data.session?.token ?? null);
+    set(state => ({ passwordProtected: password !== null, sharing: { ...state.sharing, loading: false } }));
+    return true;
   },
-})); 
\ No newline at end of file
+}));
@@ -0,0 +1,79 @@
+// Board access, mirroring the API's access service. View links can read a
+// board; edit links can also change it.
+export type BoardRole = 'view' | 'edit';
+
+export interface BoardAccess {
+  role: BoardRole;
+  passwordProtected: boolean;
+}
+
+// Short-lived proof that the board password was entered, mirroring the API's
+// BoardSession
+export interface BoardSession {
+  token: string;
+  expiresAt: string;
+}
+
+export interface BoardToken {
+  id: string;
+  token: string;
+  role: BoardRole;
+  createdAt: string;
+}
+
+const TOKENS_STORAGE_KEY = 'kanban.tokens';
+const SESSIONS_STORAGE_KEY = 'kanban.sessions';
+
+// Values stored per board ID under one storage key
+function readEntries(storage: Storage, key: string): Record<string, string> {
+  try {
+    const stored = JSON.parse(storage.getItem(key) ?? 'null') as unknown;
+    if (typeof stored === 'object' && stored !== null) return stored as Record<string, string>;
+  } catch {
+    // Fall through and start over
+  }
+  return {};
+}
+
+function readEntry(storage: Storage, key: string, boardId: string): string | null {
+  const value = readEntries(storage, key)[boardId];
+  return typeof value === 'string' ? value : null;
+}
+
+function writeEntry(storage: Storage, key: string, boardId: string, value: string | null) {
+  const entries = readEntries(storage, key);
+  if (value === null) {
+    delete entries[boardId];
+  } else {
+    entries[boardId] = value;
+  }
+  storage.setItem(key, JSON.stringify(entries));
+}
+
+/**
+ * Returns the link token this browser opened the board with. Tokens are kept
+ * in localStorage per board, so the link only has to be opened once.
+ */
+export function getBoardToken(boardId: string, storage: Storage = localStorage): string | null {
+  return readEntry(storage, TOKENS_STORAGE_KEY, boardId);
+}
+
+export function saveBoardToken(boardId: string, token: string, storage: Storage = localStorage) {
+  writeEntry(storage, TOKENS_STORAGE_KEY, boardId, token);
+}
+
+// Board sessions only last for the tab, so a password protected board locks
+// again once it is closed
+export function getBoardSession(boardId: string, storage: Storage = sessionStorage): string | null {
+  return readEntry(storage, SESSIONS_STORAGE_KEY, boardId);
+}
+
+// null forgets the session
+export function saveBoardSession(boardId: string, session: string | null, storage: Storage = sessionStorage) {
+  writeEntry(storage, SESSIONS_STORAGE_KEY, boardId, session);
+}
+
+// Link that opens the board with the token's role
+export function getShareUrl(boardId: string, token: string, origin: string = window.location.origin): string {
+  return `${origin}/board/${boardId}?${new URLSearchParams({ token })}`;
+}
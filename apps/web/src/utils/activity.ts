@@ -0,0 +1,153 @@
+// Entries of GET /boards/:id/activity, mirroring the API's ActivityData
+export type ActivityAction =
+  | 'board.created'
+  | 'board.updated'
+  | 'board.replaced'
+  | 'board.restored'
+  | 'card.created'
+  | 'card.updated'
+  | 'card.deleted'
+  | 'card.moved'
+  | 'column.created'
+  | 'column.updated'
+  | 'column.moved'
+  | 'column.deleted'
+  | 'swimlane.created'
+  | 'swimlane.updated'
+  | 'swimlane.moved'
+  | 'swimlane.deleted'
+  | 'label.created'
+  | 'label.updated'
+  | 'label.deleted'
+  | 'label.merged'
+  | 'checklist.created'
+  | 'checklist.updated'
+  | 'checklist.deleted'
+  | 'comment.created'
+  | 'comment.updated'
+  | 'comment.deleted'
+  | 'attachment.created'
+  | 'attachment.updated'
+  | 'attachment.deleted';
+
+export interface ActivityEntry {
+  id: number;
+  action: ActivityAction;
+  actorName: string | null;
+  ipHash: string | null;
+  // JSON snapshots of the changed card, column, swimlane, label, checklist,
+  // comment, attachment or board
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+}
+
+export interface ActivityPage {
+  activities: ActivityEntry[];
+  nextCursor: number | null;
+}
+
+type Snapshot = {
+  content?: string;
+  title?: string;
+  name?: string;
+  order?: number;
+  fileName?: string;
+  cover?: boolean;
+  wipLimit?: number | null;
+  wipMode?: string;
+};
+
+const snapshot = (value: unknown): Snapshot =>
+  typeof value === 'object' && value !== null ? (value as Snapshot) : {};
+
+/**
+ * One-line summary of an activity entry, e.g. `moved card "Fix bug"`.
+ * Names are taken from the state after the change, or before it for deletes.
+ */
+export function describeActivity({ action, before, after }: ActivityEntry): string {
+  const previous = snapshot(before);
+  const next = snapshot(after);
+
+  switch (action) {
+    case 'board.created':
+      return 'created the board';
+    case 'board.updated':
+      return next.wipMode === 'block'
+        ? 'made WIP limits block cards'
+        : 'made WIP limits only warn';
+    case 'board.replaced':
+      return previous.title !== next.title
+        ? `renamed the board to "${next.title ?? ''}"`
+        : 'updated the board';
+    case 'board.restored':
+      return 'restored an earlier version of the board';
+    case 'card.created':
+      return `added card "${next.content ?? ''}"`;
+    case 'card.updated':
+      // Details and labels change without touching the text
+      return previous.content !== next.content
+        ? `edited card "${previous.content ?? ''}" to "${next.content ?? ''}"`
+        : `updated card "${next.content ?? ''}"`;
+    case 'card.deleted':
+      return `deleted card "${previous.content ?? ''}"`;
+    case 'card.moved':
+      return `moved card "${next.content ?? ''}"`;
+    case 'column.created':
+      return `added column "${next.title ?? ''}"`;
+    case 'column.updated':
+      if (previous.title !== next.title) {
+        return `renamed column "${previous.title ?? ''}" to "${next.title ?? ''}"`;
+      }
+      return next.wipLimit
+        ? `set the WIP limit of column "${next.title ?? ''}" to ${next.wipLimit}`
+        : `removed the WIP limit of column "${next.title ?? ''}"`;
+    case 'column.moved':
+      return `moved column "${next.title ?? ''}" to position ${(next.order ?? 0) + 1}`;
+    case 'column.deleted':
+      return `deleted column "${previous.title ?? ''}"`;
+    case 'swimlane.created':
+      return `added swimlane "${next.title ?? ''}"`;
+    case 'swimlane.updated':
+      return `renamed swimlane "${previous.title ?? ''}" to "${next.title ?? ''}"`;
+    case 'swimlane.moved':
+      return `moved swimlane "${next.title ?? ''}" to position ${(next.order ?? 0) + 1}`;
+    case 'swimlane.deleted':
+      return `deleted swimlane "${previous.title ?? ''}"`;
+    case 'label.created':
+      return `added label "${next.name ?? ''}"`;
+    case 'label.updated':
+      return previous.name !== next.name
+        ? `renamed label "${previous.name ?? ''}" to "${next.name ?? ''}"`
+        : `changed the color of label "${next.name ?? ''}"`;
+    case 'label.deleted':
+      return `deleted label "${previous.name ?? ''}"`;
+    case 'label.merged':
+      return `merged label "${previous.name ?? ''}" into "${next.name ?? ''}"`;
+    case 'checklist.created':
+      return `added checklist "${next.title ?? ''}"`;
+    case 'checklist.updated':
+      // Item changes leave the title as it was
+      return previous.title !== next.title
+        ? `renamed checklist "${previous.title ?? ''}" to "${next.title ?? ''}"`
+        : `updated checklist "${next.title ?? ''}"`;
+    case 'checklist.deleted':
+      return `deleted checklist "${previous.title ?? ''}"`;
+    // Comment snapshots name the card only by ID
+    case 'comment.created':
+      return 'added a comment';
+    case 'comment.updated':
+      return 'edited a comment';
+    case 'comment.deleted':
+      return 'deleted a comment';
+    case 'attachment.created':
+      return `attached "${next.fileName ?? ''}"`;
+    case 'attachment.updated':
+      // Only the cover can change
+      return next.cover
+        ? `made "${next.fileName ?? ''}" the card cover`
+        : `removed "${next.fileName ?? ''}" as the card cover`;
+    case 'attachment.deleted':
+      return `deleted attachment "${previous.fileName ?? ''}"`;
+  }
+}
@@ -1,16 +1,38 @@
+import { nanoid } from 'nanoid';
+import type { Attachment, CardDetails, Checklist, ChecklistItem, Label, Swimlane, WipMode } from '../store/board.store';
+import {
+  getBoardSession,
+  getBoardToken,
+  type BoardAccess,
+  type BoardRole,
+  type BoardSession,
+  type BoardToken,
+} from './access';
+import type { ActivityPage } from './activity';
+import type { CardComment } from './comments';
+import { getPresenceIdentity } from './presence';
+import type { BoardDiff, SnapshotDetail, SnapshotSummary } from './snapshots';
+import type { BoardTemplate } from './templates';
+
 const API_BASE_URL = 'http://localhost:3000/api';
 
 // Define types based on our backend schema
-interface Card {
+interface Card extends Partial<CardDetails> {
   id: string;
   content: string;
   order: number;
+  labelIds?: string[];
+  checklists?: Checklist[];
+  commentCount?: number;
+  attachments?: Attachment[];
+  swimlaneId?: string | null;
 }
 
 interface Column {
   id: string;
   title: string;
   order: number;
+  wipLimit?: number | null;
   cards: Card[];
 }
 
@@ -18,35 +40,156 @@ interface Board {
   id: string;
   title: string;
   createdAt: Date;
+  version: number;
+  wipMode: WipMode;
+  columns: Column[];
+  labels: Label[];
+  swimlanes: Swimlane[];
+}
+
+// Full board state accepted by PUT /boards/:id
+interface BoardUpdate {
+  title: string;
   columns: Column[];
 }
 
-interface ApiResponse<T> {
+// Created boards come with the first edit link
+interface CreatedBoard extends Board {
+  editToken: string;
+}
+
+// Something the imported board had that could not be brought over
+export interface SkippedField {
+  field: string;
+  count: number;
+  reason: string;
+}
+
+interface ImportedBoard extends CreatedBoard {
+  skipped: SkippedField[];
+}
+
+// Card endpoints also report which column the card lives in
+interface CardResponse extends Card {
+  columnId: string;
+}
+
+// Column endpoints return the column without its cards
+type ColumnSummary = Omit<Column, 'cards'>;
+
+// A deleted column's cards are either deleted too or moved elsewhere
+export type DeleteColumnOptions =
+  | { cards: 'delete' }
+  | { cards: 'move'; targetColumnId: string };
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+// How much a copy of a board takes: its columns, also the cards' titles, or
+// the cards with all their details
+export type CloneScope = 'columns' | 'cards' | 'everything';
+
+export interface ApiResponse<T> {
   data?: T;
   error?: string;
+  // Board version from the ETag header, present on reads and successful writes
+  version?: number;
+  // Current board sent back when a write was based on a stale version
+  conflict?: Board;
+  // The board is password protected and needs a board session
+  locked?: boolean;
+}
+
+// The server explains failures in `error`, or in `message` where Fastify
+// itself answered and `error` is just the status text
+async function errorMessage(response: Response): Promise<string> {
+  const body = await response.json().catch(() => ({}));
+  for (const message of [body.message, body.error]) {
+    if (typeof message === 'string' && message) return message;
+  }
+  return `HTTP ${response.status}: ${response.statusText}`;
+}
+
+// Writes name the board version they are based on
+const ifMatch = (version: number) => ({ 'If-Match': `"${version}"` });
+
+// Link token and board session this browser holds for a board
+function boardCredentials(boardId: string): { token?: string; session?: string } {
+  const token = getBoardToken(boardId);
+  const session = getBoardSession(boardId);
+  return { ...(token && { token }), ...(session && { session }) };
+}
+
+// Credentials for requests to /boards/:id/...
+function boardCredentialHeaders(endpoint: string): Record<string, string> {
+  const boardId = /^\/boards\/([^/?]+)/.exec(endpoint)?.[1];
+  if (!boardId) return {};
+
+  const { token, session } = boardCredentials(boardId);
+  return { ...(token && { 'X-Board-Token': token }), ...(session && { 'X-Board-Session': session }) };
+}
+
+// EventSource and WebSocket cannot set headers, so credentials go in the URL
+function withBoardCredentials(url: string, boardId: string, params: Record<string, string> = {}): string {
+  const query = new URLSearchParams({ ...params, ...boardCredentials(boardId) }).toString();
+  return query ? `${url}?${query}` : url;
+}
+
+function parseETag(response: Response): number | undefined {
+  const match = /^(?:W\/)?"(\d+)"$/.exec(response.headers.get('ETag') ?? '');
+  return match ? Number(match[1]) : undefined;
 }
 
 class ApiClient {
+  // Sent with every request so the event stream can tell this tab's own
+  // changes apart from everyone else's
+  readonly clientId = nanoid();
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<ApiResponse<T>> {
     try {
       const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        ...options,
         headers: {
-          'Content-Type': 'application/json',
+          // Uploads let the browser set the multipart boundary
+          ...(!(options.body instanceof FormData) && { 'Content-Type': 'application/json' }),
+          'X-Client-Id': this.clientId,
+          // Names the author in the board's activity log
+          'X-Actor-Name': encodeURIComponent(getPresenceIdentity().name),
+          ...boardCredentialHeaders(endpoint),
           ...options.headers,
         },
-        ...options,
       });
 
+      if (response.status === 409) {
+        const responseData = await response.json().catch(() => ({}));
+        if (responseData.data) {
+          return { error: responseData.error, conflict: responseData.data };
+        }
+      }
+
+      if (response.status === 401) {
+        const responseData = await response.json().catch(() => ({}));
+        return { error: responseData.error ?? 'Board is locked', locked: true };
+      }
+
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw new Error(await errorMessage(response));
+      }
+
+      const version = parseETag(response);
+
+      // 204 No Content has no body to parse
+      if (response.status === 204) {
+        return version === undefined ? {} : { version };
       }
 
       const responseData = await response.json();
       // Backend returns { data: actualData }, so we extract it
-      return { data: responseData.data };
+      return version === undefined
+        ? { data: responseData.data }
+        : { data: responseData.data, version };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return { error: errorMessage };
@@ -57,38 +200,178 @@ class ApiClient {
     return this.request<Board>(`/boards/${boardId}`);
   }
 
-  async createBoard(title: string): Promise<ApiResponse<Board>> {
-    return this.request<Board>('/boards', {
+  // URL of the board's Server-Sent Events stream. `lastEventId` resumes a
+  // stream after a manual reconnect; browsers send it themselves otherwise.
+  boardEventsUrl(boardId: string, lastEventId: string | null): string {
+    const params = lastEventId ? { lastEventId } : {};
+    return withBoardCredentials(`${API_BASE_URL}/boards/${boardId}/events`, boardId, params);
+  }
+
+  // Newest first; pass the previous page's nextCursor to get older entries
+  async getActivity(boardId: string, cursor: number | null): Promise<ApiResponse<ActivityPage>> {
+    const query = cursor === null ? '' : `?${new URLSearchParams({ cursor: String(cursor) })}`;
+    return this.request<ActivityPage>(`/boards/${boardId}/activity${query}`);
+  }
+
+  // Snapshots, newest first
+  async getSnapshots(boardId: string): Promise<ApiResponse<SnapshotSummary[]>> {
+    return this.request<SnapshotSummary[]>(`/boards/${boardId}/snapshots`);
+  }
+
+  async createSnapshot(boardId: string): Promise<ApiResponse<SnapshotSummary>> {
+    return this.request<SnapshotSummary>(`/boards/${boardId}/snapshots`, {
       method: 'POST',
-      body: JSON.stringify({ title }),
+      body: JSON.stringify({}),
+    });
+  }
+
+  async getSnapshot(boardId: string, snapshotId: string): Promise<ApiResponse<SnapshotDetail>> {
+    return this.request<SnapshotDetail>(`/boards/${boardId}/snapshots/${snapshotId}`);
+  }
+
+  // What changed on the board since the snapshot was taken
+  async getSnapshotDiff(boardId: string, snapshotId: string): Promise<ApiResponse<BoardDiff>> {
+    return this.request<BoardDiff>(`/boards/${boardId}/snapshots/${snapshotId}/diff`);
+  }
+
+  // Responds with the restored board
+  async restoreSnapshot(boardId: string, snapshotId: string, version: number): Promise<ApiResponse<Board>> {
+    return this.request<Board>(`/boards/${boardId}/snapshots/${snapshotId}/restore`, {
+      method: 'POST',
+      headers: ifMatch(version),
+      body: JSON.stringify({}),
     });
   }
 
-  async updateBoard(boardId: string, updates: { title?: string }): Promise<ApiResponse<Board>> {
-    return this.request<Board>(`/boards/${boardId}`, {
+  presenceUrl(boardId: string): string {
+    return withBoardCredentials(`${API_BASE_URL.replace(/^http/, 'ws')}/boards/${boardId}/presence`, boardId);
+  }
+
+  // What the link this browser holds allows on the board
+  async getAccess(boardId: string): Promise<ApiResponse<BoardAccess>> {
+    return this.request<BoardAccess>(`/boards/${boardId}/access`);
+  }
+
+  // Sets or, with null, removes the board password. Responds with a new
+  // session for this browser while the board has a password.
+  async setPassword(boardId: string, password: string | null): Promise<ApiResponse<{ session: BoardSession | null }>> {
+    return this.request<{ session: BoardSession | null }>(`/boards/${boardId}/password`, {
+      method: 'PUT',
+      body: JSON.stringify({ password }),
+    });
+  }
+
+  // Exchanges the board password for a board session
+  async createSession(boardId: string, password: string): Promise<ApiResponse<BoardSession>> {
+    return this.request<BoardSession>(`/boards/${boardId}/session`, {
+      method: 'POST',
+      body: JSON.stringify({ password }),
+    });
+  }
+
+  // Share links; only edit links may list and manage them
+  async getTokens(boardId: string): Promise<ApiResponse<BoardToken[]>> {
+    return this.request<BoardToken[]>(`/boards/${boardId}/tokens`);
+  }
+
+  async createToken(boardId: string, role: BoardRole): Promise<ApiResponse<BoardToken>> {
+    return this.request<BoardToken>(`/boards/${boardId}/tokens`, {
+      method: 'POST',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async revokeToken(boardId: string, tokenId: string) {
+    return this.request(`/boards/${boardId}/tokens/${tokenId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Boards created from a template are named after it unless given a title
+  async createBoard(title?: string, templateId?: string): Promise<ApiResponse<CreatedBoard>> {
+    return this.request<CreatedBoard>('/boards', {
+      method: 'POST',
+      body: JSON.stringify({ title, templateId }),
+    });
+  }
+
+  // Only the built-in ones; see getSavedTemplates for the rest
+  async getTemplates(): Promise<ApiResponse<BoardTemplate[]>> {
+    return this.request<BoardTemplate[]>('/templates');
+  }
+
+  async saveBoardAsTemplate(boardId: string, name: string, description: string): Promise<ApiResponse<BoardTemplate>> {
+    return this.request<BoardTemplate>(`/boards/${boardId}/templates`, {
+      method: 'POST',
+      body: JSON.stringify({ name, description }),
+    });
+  }
+
+  // Without a title, the copy is named after the board
+  async cloneBoard(boardId: string, scope: CloneScope, title?: string): Promise<ApiResponse<CreatedBoard>> {
+    return this.request<CreatedBoard>(`/boards/${boardId}/clone`, {
+      method: 'POST',
+      body: JSON.stringify({ scope, title }),
+    });
+  }
+
+  // `trello` is the board's JSON export, as parsed
+  async importTrelloBoard(trello: unknown): Promise<ApiResponse<ImportedBoard>> {
+    return this.request<ImportedBoard>('/boards/import/trello', {
+      method: 'POST',
+      body: JSON.stringify(trello),
+    });
+  }
+
+  // Replaces the whole board state; the API answers 204 No Content
+  async updateBoard(boardId: string, board: BoardUpdate, version: number): Promise<ApiResponse<void>> {
+    return this.request<void>(`/boards/${boardId}`, {
+      method: 'PUT',
+      headers: ifMatch(version),
+      body: JSON.stringify(board),
+    });
+  }
+
+  async updateBoardSettings(boardId: string, settings: { wipMode: WipMode }, version: number): Promise<ApiResponse<{ wipMode: WipMode }>> {
+    return this.request<{ wipMode: WipMode }>(`/boards/${boardId}`, {
       method: 'PATCH',
-      body: JSON.stringify(updates),
+      headers: ifMatch(version),
+      body: JSON.stringify(settings),
     });
   }
 
-  // Future card operations
-  async addCard(boardId: string, columnId: string, content: string) {
-    return this.request(`/boards/${boardId}/cards`, {
+  // Card operations
+  async addCard(
+    boardId: string,
+    columnId: string,
+    content: string,
+    version: number,
+    swimlaneId?: string
+  ): Promise<ApiResponse<CardResponse>> {
+    return this.request<CardResponse>(`/boards/${boardId}/cards`, {
       method: 'POST',
-      body: JSON.stringify({ columnId, content }),
+      headers: ifMatch(version),
+      body: JSON.stringify({ columnId, content, swimlaneId }),
     });
   }
 
-  async updateCard(boardId: string, cardId: string, updates: { content?: string }) {
-    return this.request(`/boards/${boardId}/cards/${cardId}`, {
+  async updateCard(
+    boardId: string,
+    cardId: string,
+    updates: { content?: string; labelIds?: string[] } & Partial<CardDetails>,
+    version: number
+  ): Promise<ApiResponse<CardResponse>> {
+    return this.request<CardResponse>(`/boards/${boardId}/cards/${cardId}`, {
       method: 'PATCH',
+      headers: ifMatch(version),
       body: JSON.stringify(updates),
     });
   }
 
-  async deleteCard(boardId: string, cardId: string) {
+  async deleteCard(boardId: string, cardId: string, version: number) {
     return this.request(`/boards/${boardId}/cards/${cardId}`, {
       method: 'DELETE',
+      headers: ifMatch(version),
     });
   }
 
@@ -97,14 +380,296 @@ class ApiClient {
     cardId: string,
     sourceColumnId: string,
     targetColumnId: string,
-    targetOrder: number
-  ) {
-    return this.request(`/boards/${boardId}/cards/${cardId}/move`, {
+    targetOrder: number,
+    version: number,
+    // Left out, the card stays in its lane; null takes it out of any lane
+    targetSwimlaneId?: string | null
+  ): Promise<ApiResponse<{ columns: Column[] }>> {
+    return this.request<{ columns: Column[] }>(`/boards/${boardId}/cards/${cardId}/move`, {
+      method: 'PATCH',
+      headers: ifMatch(version),
+      body: JSON.stringify({ sourceColumnId, targetColumnId, targetOrder, targetSwimlaneId }),
+    });
+  }
+
+  // Column operations
+  async addColumn(boardId: string, title: string, version: number): Promise<ApiResponse<ColumnSummary>> {
+    return this.request<ColumnSummary>(`/boards/${boardId}/columns`, {
+      method: 'POST',
+      headers: ifMatch(version),
+      body: JSON.stringify({ title }),
+    });
+  }
+
+  async updateColumn(
+    boardId: string,
+    columnId: string,
+    updates: { title?: string; wipLimit?: number | null },
+    version: number
+  ): Promise<ApiResponse<ColumnSummary>> {
+    return this.request<ColumnSummary>(`/boards/${boardId}/columns/${columnId}`, {
+      method: 'PATCH',
+      headers: ifMatch(version),
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async moveColumn(boardId: string, columnId: string, targetOrder: number, version: number): Promise<ApiResponse<{ columns: ColumnSummary[] }>> {
+    return this.request<{ columns: ColumnSummary[] }>(`/boards/${boardId}/columns/${columnId}/move`, {
       method: 'PATCH',
-      body: JSON.stringify({ sourceColumnId, targetColumnId, targetOrder }),
+      headers: ifMatch(version),
+      body: JSON.stringify({ targetOrder }),
     });
   }
+
+  async deleteColumn(boardId: string, columnId: string, options: DeleteColumnOptions, version: number) {
+    const query = new URLSearchParams(options).toString();
+    return this.request(`/boards/${boardId}/columns/${columnId}?${query}`, {
+      method: 'DELETE',
+      headers: ifMatch(version),
+    });
+  }
+
+  // Label operations
+  async createLabel(boardId: string, label: Omit<Label, 'id'>, version: number): Promise<ApiResponse<Label>> {
+    return this.request<Label>(`/boards/${boardId}/labels`, {
+      method: 'POST',
+      headers: ifMatch(version),
+      body: JSON.stringify(label),
+    });
+  }
+
+  async updateLabel(
+    boardId: string,
+    labelId: string,
+    updates: Partial<Omit<Label, 'id'>>,
+    version: number
+  ): Promise<ApiResponse<Label>> {
+    return this.request<Label>(`/boards/${boardId}/labels/${labelId}`, {
+      method: 'PATCH',
+      headers: ifMatch(version),
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteLabel(boardId: string, labelId: string, version: number) {
+    return this.request(`/boards/${boardId}/labels/${labelId}`, {
+      method: 'DELETE',
+      headers: ifMatch(version),
+    });
+  }
+
+  // Moves the label's cards over to the target label and deletes it
+  async mergeLabel(boardId: string, labelId: string, targetLabelId: string, version: number): Promise<ApiResponse<Label>> {
+    return this.request<Label>(`/boards/${boardId}/labels/${labelId}/merge`, {
+      method: 'POST',
+      headers: ifMatch(version),
+      body: JSON.stringify({ targetLabelId }),
+    });
+  }
+
+  // Swimlane operations
+  async addSwimlane(boardId: string, title: string, version: number): Promise<ApiResponse<Swimlane>> {
+    return this.request<Swimlane>(`/boards/${boardId}/swimlanes`, {
+      method: 'POST',
+      headers: ifMatch(version),
+      body: JSON.stringify({ title }),
+    });
+  }
+
+  async updateSwimlane(boardId: string, swimlaneId: string, title: string, version: number): Promise<ApiResponse<Swimlane>> {
+    return this.request<Swimlane>(`/boards/${boardId}/swimlanes/${swimlaneId}`, {
+      method: 'PATCH',
+      headers: ifMatch(version),
+      body: JSON.stringify({ title }),
+    });
+  }
+
+  async moveSwimlane(boardId: string, swimlaneId: string, targetOrder: number, version: number): Promise<ApiResponse<{ swimlanes: Swimlane[] }>> {
+    return this.request<{ swimlanes: Swimlane[] }>(`/boards/${boardId}/swimlanes/${swimlaneId}/move`, {
+      method: 'PATCH',
+      headers: ifMatch(version),
+      body: JSON.stringify({ targetOrder }),
+    });
+  }
+
+  async deleteSwimlane(boardId: string, swimlaneId: string, version: number) {
+    return this.request(`/boards/${boardId}/swimlanes/${swimlaneId}`, {
+      method: 'DELETE',
+      headers: ifMatch(version),
+    });
+  }
+
+  // Checklist operations. Item endpoints return the whole checklist.
+  async createChecklist(boardId: string, cardId: string, title: string, version: number): Promise<ApiResponse<Checklist>> {
+    return this.request<Checklist>(`/boards/${boardId}/cards/${cardId}/checklists`, {
+      method: 'POST',
+      headers: ifMatch(version),
+      body: JSON.stringify({ title }),
+    });
+  }
+
+  async renameChecklist(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    title: string,
+    version: number
+  ): Promise<ApiResponse<Checklist>> {
+    return this.request<Checklist>(`/boards/${boardId}/cards/${cardId}/checklists/${checklistId}`, {
+      method: 'PATCH',
+      headers: ifMatch(version),
+      body: JSON.stringify({ title }),
+    });
+  }
+
+  async deleteChecklist(boardId: string, cardId: string, checklistId: string, version: number) {
+    return this.request(`/boards/${boardId}/cards/${cardId}/checklists/${checklistId}`, {
+      method: 'DELETE',
+      headers: ifMatch(version),
+    });
+  }
+
+  async addChecklistItem(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    text: string,
+    version: number
+  ): Promise<ApiResponse<Checklist>> {
+    return this.request<Checklist>(`/boards/${boardId}/cards/${cardId}/checklists/${checklistId}/items`, {
+      method: 'POST',
+      headers: ifMatch(version),
+      body: JSON.stringify({ text }),
+    });
+  }
+
+  async updateChecklistItem(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    itemId: string,
+    updates: Partial<Pick<ChecklistItem, 'text' | 'done'>>,
+    version: number
+  ): Promise<ApiResponse<Checklist>> {
+    return this.request<Checklist>(`/boards/${boardId}/cards/${cardId}/checklists/${checklistId}/items/${itemId}`, {
+      method: 'PATCH',
+      headers: ifMatch(version),
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async moveChecklistItem(
+    boardId: string,
+    cardId: string,
+    checklistId: string,
+    itemId: string,
+    targetOrder: number,
+    version: number
+  ): Promise<ApiResponse<Checklist>> {
+    return this.request<Checklist>(`/boards/${boardId}/cards/${cardId}/checklists/${checklistId}/items/${itemId}/move`, {
+      method: 'PATCH',
+      headers: ifMatch(version),
+      body: JSON.stringify({ targetOrder }),
+    });
+  }
+
+  async deleteChecklistItem(boardId: string, cardId: string, checklistId: string, itemId: string, version: number) {
+    return this.request(`/boards/${boardId}/cards/${cardId}/checklists/${checklistId}/items/${itemId}`, {
+      method: 'DELETE',
+      headers: ifMatch(version),
+    });
+  }
+
+  // Comment operations. Comments are signed with the X-Actor-Name display name.
+  async getComments(boardId: string, cardId: string): Promise<ApiResponse<CardComment[]>> {
+    return this.request<CardComment[]>(`/boards/${boardId}/cards/${cardId}/comments`);
+  }
+
+  async addComment(boardId: string, cardId: string, body: string, version: number): Promise<ApiResponse<CardComment>> {
+    return this.request<CardComment>(`/boards/${boardId}/cards/${cardId}/comments`, {
+      method: 'POST',
+      headers: ifMatch(version),
+      body: JSON.stringify({ body }),
+    });
+  }
+
+  async updateComment(
+    boardId: string,
+    cardId: string,
+    commentId: string,
+    body: string,
+    version: number
+  ): Promise<ApiResponse<CardComment>> {
+    return this.request<CardComment>(`/boards/${boardId}/cards/${cardId}/comments/${commentId}`, {
+      method: 'PATCH',
+      headers: ifMatch(version),
+      body: JSON.stringify({ body }),
+    });
+  }
+
+  async deleteComment(boardId: string, cardId: string, commentId: string, version: number) {
+    return this.request(`/boards/${boardId}/cards/${cardId}/comments/${commentId}`, {
+      method: 'DELETE',
+      headers: ifMatch(version),
+    });
+  }
+
+  // Attachment operations. Writes respond with the card and its attachments.
+  async uploadAttachment(
+    boardId: string,
+    cardId: string,
+    file: File,
+    thumbnail: Blob | null,
+    version: number
+  ): Promise<ApiResponse<CardResponse>> {
+    const body = new FormData();
+    body.append('file', file);
+    if (thumbnail) {
+      body.append('thumbnail', thumbnail, 'thumbnail.jpg');
+    }
+
+    return this.request<CardResponse>(`/boards/${boardId}/cards/${cardId}/attachments`, {
+      method: 'POST',
+      headers: ifMatch(version),
+      body,
+    });
+  }
+
+  async setAttachmentCover(
+    boardId: string,
+    cardId: string,
+    attachmentId: string,
+    cover: boolean,
+    version: number
+  ): Promise<ApiResponse<CardResponse>> {
+    return this.request<CardResponse>(`/boards/${boardId}/cards/${cardId}/attachments/${attachmentId}`, {
+      method: 'PATCH',
+      headers: ifMatch(version),
+      body: JSON.stringify({ cover }),
+    });
+  }
+
+  async deleteAttachment(boardId: string, cardId: string, attachmentId: string, version: number) {
+    return this.request(`/boards/${boardId}/cards/${cardId}/attachments/${attachmentId}`, {
+      method: 'DELETE',
+      headers: ifMatch(version),
+    });
+  }
+
+  // Images and links cannot set headers either
+  // Download link for the whole board; `json` can be imported again
+  exportUrl(boardId: string, format: ExportFormat): string {
+    return withBoardCredentials(`${API_BASE_URL}/boards/${boardId}/export`, boardId, { format });
+  }
+
+  attachmentUrl(boardId: string, cardId: string, attachmentId: string, variant: 'file' | 'thumbnail'): string {
+    return withBoardCredentials(
+      `${API_BASE_URL}/boards/${boardId}/cards/${cardId}/attachments/${attachmentId}/${variant}`,
+      boardId
+    );
+  }
 }
 
 export const apiClient = new ApiClient();
-export default apiClient; 
\ No newline at end of file
+export default apiClient;
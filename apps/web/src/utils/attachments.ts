@@ -0,0 +1,86 @@
+import type { Attachment, Card } from '../store/board.store';
+import apiClient from './api';
+
+// Limits enforced by the server; checked here to fail before uploading
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_THUMBNAIL_SIZE = 256 * 1024;
+
+// Longest side of generated thumbnails, in pixels
+const THUMBNAIL_SIZE = 320;
+
+export function isImage(attachment: Pick<Attachment, 'contentType'>): boolean {
+  return attachment.contentType.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// The image shown across the top of the card, if it has one
+export function coverAttachment(card: Pick<Card, 'attachments'>): Attachment | null {
+  return card.attachments?.find(attachment => attachment.cover) ?? null;
+}
+
+// Makes the attachment the only cover, or takes it down
+export function withCover(attachments: Attachment[], attachmentId: string, cover: boolean): Attachment[] {
+  return attachments.map(attachment => {
+    if (attachment.id === attachmentId) return { ...attachment, cover };
+    return cover && attachment.cover ? { ...attachment, cover: false } : attachment;
+  });
+}
+
+// Where to load an attachment from; covers use the thumbnail when there is one
+export function attachmentUrl(
+  boardId: string,
+  cardId: string,
+  attachment: Attachment,
+  variant: 'file' | 'thumbnail' = 'file'
+): string {
+  return apiClient.attachmentUrl(
+    boardId,
+    cardId,
+    attachment.id,
+    variant === 'thumbnail' && attachment.hasThumbnail ? 'thumbnail' : 'file'
+  );
+}
+
+// Where the card's cover image is loaded from, if it has one
+export function coverUrl(boardId: string, card: Card): string | null {
+  const cover = coverAttachment(card);
+  return cover && attachmentUrl(boardId, card.id, cover, 'thumbnail');
+}
+
+/**
+ * Scales an image down to a JPEG thumbnail in the browser. Resolves to null
+ * for files that are not images the browser can decode, in which case the
+ * attachment is uploaded without one.
+ */
+export async function createThumbnail(file: File): Promise<Blob | null> {
+  if (!file.type.startsWith('image/') || typeof createImageBitmap !== 'function') {
+    return null;
+  }
+
+  try {
+    const image = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    // JPEG has no transparency, so keep transparent areas white instead of black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    image.close();
+
+    const thumbnail = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+    return thumbnail && thumbnail.size <= MAX_THUMBNAIL_SIZE ? thumbnail : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,198 @@
+import type { Board, Card, Checklist, Column, Label, Swimlane } from '../store/board.store';
+import { withChecklist, withoutChecklist } from './checklists';
+import type { CardComment } from './comments';
+import { sortLabels } from './labels';
+
+type ColumnSummary = Omit<Column, 'cards'>;
+
+// Messages on GET /boards/:id/events, mirroring the API's BoardChange union
+export type BoardChange =
+  | { type: 'card.created'; card: Card & { columnId: string } }
+  | { type: 'card.updated'; card: Card & { columnId: string } }
+  | { type: 'card.deleted'; cardId: string }
+  | { type: 'card.moved'; columns: Column[] }
+  | { type: 'column.created'; column: ColumnSummary }
+  | { type: 'column.updated'; column: ColumnSummary }
+  | { type: 'column.moved'; columns: ColumnSummary[] }
+  | { type: 'swimlane.created'; swimlane: Swimlane }
+  | { type: 'swimlane.updated'; swimlane: Swimlane }
+  | { type: 'swimlane.moved'; swimlanes: Swimlane[] }
+  | { type: 'swimlane.deleted'; swimlaneId: string }
+  | { type: 'label.created'; label: Label }
+  | { type: 'label.updated'; label: Label }
+  | { type: 'checklist.created'; cardId: string; checklist: Checklist }
+  | { type: 'checklist.updated'; cardId: string; checklist: Checklist }
+  | { type: 'checklist.deleted'; cardId: string; checklistId: string }
+  | { type: 'comment.created'; cardId: string; comment: CardComment; commentCount: number }
+  | { type: 'comment.updated'; cardId: string; comment: CardComment }
+  | { type: 'comment.deleted'; cardId: string; commentId: string; commentCount: number }
+  | { type: 'board.updated'; settings: Pick<Board, 'wipMode'> }
+  | { type: 'board.replaced'; board: Board & { version: number } };
+
+export type BoardEvent = BoardChange & {
+  id: string;
+  version: number;
+  clientId: string | null;
+};
+
+// Sent instead of a replay when the stream cannot be resumed
+export interface ResyncMessage {
+  type: 'resync';
+}
+
+// Drops the column ID card events carry
+const toCard = (card: Card & { columnId?: string }): Card => {
+  const copy = { ...card };
+  delete copy.columnId;
+  return copy;
+};
+
+const updateCard = (board: Board, cardId: string, update: (card: Card) => Card): Board => ({
+  ...board,
+  columns: board.columns.map(column => ({
+    ...column,
+    cards: column.cards.map(card => (card.id === cardId ? update(card) : card))
+  }))
+});
+
+/**
+ * Applies a change made by another client to the local board. Card and
+ * column events carry the server's resulting state, so applying one twice
+ * leaves the board unchanged.
+ */
+export function applyBoardChange(board: Board, change: BoardChange): Board {
+  switch (change.type) {
+    case 'card.created':
+    case 'card.updated': {
+      const card = toCard(change.card);
+      return {
+        ...board,
+        columns: board.columns.map(column => {
+          const others = column.cards.filter(existing => existing.id !== card.id);
+          return column.id === change.card.columnId
+            ? { ...column, cards: [...others, card] }
+            : { ...column, cards: others };
+        })
+      };
+    }
+
+    case 'card.deleted':
+      return {
+        ...board,
+        columns: board.columns.map(column => {
+          const removed = column.cards.find(card => card.id === change.cardId);
+          if (!removed) return column;
+
+          return {
+            ...column,
+            cards: column.cards
+              .filter(card => card.id !== change.cardId)
+              .map(card => (card.order > removed.order ? { ...card, order: card.order - 1 } : card))
+          };
+        })
+      };
+
+    case 'card.moved':
+      return {
+        ...board,
+        columns: board.columns.map(column => {
+          const updated = change.columns.find(serverColumn => serverColumn.id === column.id);
+          if (updated) {
+            return { ...column, cards: updated.cards.map(toCard) };
+          }
+
+          // The moved card may still sit in a stale column locally
+          const movedIds = new Set(change.columns.flatMap(serverColumn => serverColumn.cards.map(card => card.id)));
+          return { ...column, cards: column.cards.filter(card => !movedIds.has(card.id)) };
+        })
+      };
+
+    case 'column.created':
+      if (board.columns.some(column => column.id === change.column.id)) {
+        return board;
+      }
+      return { ...board, columns: [...board.columns, { ...change.column, cards: [] }] };
+
+    case 'column.updated':
+      return {
+        ...board,
+        columns: board.columns.map(column =>
+          column.id === change.column.id
+            ? { ...column, title: change.column.title, wipLimit: change.column.wipLimit ?? null }
+            : column
+        )
+      };
+
+    case 'column.moved':
+      return {
+        ...board,
+        columns: board.columns.map(column => {
+          const updated = change.columns.find(serverColumn => serverColumn.id === column.id);
+          return updated ? { ...column, order: updated.order } : column;
+        })
+      };
+
+    case 'swimlane.created':
+    case 'swimlane.updated': {
+      const others = board.swimlanes.filter(lane => lane.id !== change.swimlane.id);
+      return { ...board, swimlanes: [...others, change.swimlane].sort((a, b) => a.order - b.order) };
+    }
+
+    case 'swimlane.moved':
+      return { ...board, swimlanes: change.swimlanes };
+
+    // The lane's cards stay in their columns, outside any lane
+    case 'swimlane.deleted': {
+      const removed = board.swimlanes.find(lane => lane.id === change.swimlaneId);
+      if (!removed) return board;
+
+      return {
+        ...board,
+        swimlanes: board.swimlanes
+          .filter(lane => lane.id !== change.swimlaneId)
+          .map(lane => (lane.order > removed.order ? { ...lane, order: lane.order - 1 } : lane)),
+        columns: board.columns.map(column => ({
+          ...column,
+          cards: column.cards.map(card =>
+            card.swimlaneId === change.swimlaneId ? { ...card, swimlaneId: null } : card
+          )
+        }))
+      };
+    }
+
+    case 'label.created':
+    case 'label.updated': {
+      const others = board.labels.filter(label => label.id !== change.label.id);
+      return { ...board, labels: sortLabels([...others, change.label]) };
+    }
+
+    case 'checklist.created':
+    case 'checklist.updated':
+      return updateCard(board, change.cardId, card => ({
+        ...card,
+        checklists: withChecklist(card.checklists ?? [], change.checklist)
+      }));
+
+    case 'checklist.deleted':
+      return updateCard(board, change.cardId, card => ({
+        ...card,
+        checklists: withoutChecklist(card.checklists ?? [], change.checklistId)
+      }));
+
+    // The open thread is patched separately; see applyCommentChange
+    case 'comment.created':
+    case 'comment.deleted':
+      return updateCard(board, change.cardId, card => ({ ...card, commentCount: change.commentCount }));
+
+    case 'comment.updated':
+      return board;
+
+    case 'board.updated':
+      return { ...board, ...change.settings };
+
+    case 'board.replaced': {
+      const { id, title, createdAt, wipMode, columns, labels, swimlanes } = change.board;
+      return { id, title, createdAt, wipMode, columns, labels, swimlanes };
+    }
+  }
+}
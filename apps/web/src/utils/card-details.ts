@@ -0,0 +1,11 @@
+import type { CardPriority } from '../store/board.store';
+
+export const PRIORITY_LABELS: Record<CardPriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+// Cover colors offered in the card detail modal
+export const COVER_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#a855f7'];
@@ -0,0 +1,38 @@
+import type { Card, Checklist, ChecklistItem } from '../store/board.store';
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+// Ticked items across all of the card's checklists
+export function checklistProgress(card: Card): ChecklistProgress {
+  const items = (card.checklists ?? []).flatMap(checklist => checklist.items);
+  return { done: items.filter(item => item.done).length, total: items.length };
+}
+
+// Puts the checklist in place of the card's copy, or adds it, keeping checklist order
+export function withChecklist(checklists: Checklist[], checklist: Checklist): Checklist[] {
+  const others = checklists.filter(existing => existing.id !== checklist.id);
+  return [...others, checklist].sort((a, b) => a.order - b.order);
+}
+
+// Takes the checklist off and closes the gap it leaves
+export function withoutChecklist(checklists: Checklist[], checklistId: string): Checklist[] {
+  return checklists
+    .filter(checklist => checklist.id !== checklistId)
+    .map((checklist, order) => ({ ...checklist, order }));
+}
+
+// Moves an item to the target position and renumbers the rest, as the server does
+export function moveItem(items: ChecklistItem[], itemId: string, targetOrder: number): ChecklistItem[] {
+  const item = items.find(existing => existing.id === itemId);
+  if (!item) return items;
+
+  const others = items.filter(existing => existing.id !== itemId);
+  const order = Math.min(Math.max(targetOrder, 0), others.length);
+  return [...others.slice(0, order), item, ...others.slice(order)].map((existing, index) => ({
+    ...existing,
+    order: index
+  }));
+}
@@ -0,0 +1,34 @@
+import type { CommentThread } from '../store/board.store';
+import type { BoardChange } from './board-events';
+
+// Entries of GET /boards/:id/cards/:cardId/comments, mirroring the API's CommentData
+export interface CardComment {
+  id: string;
+  // Display name the comment was posted under
+  authorName: string;
+  // Markdown
+  body: string;
+  edited: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Comments posted, edited or deleted by others, applied to the open thread
+export function applyCommentChange(thread: CommentThread, change: BoardChange): CommentThread {
+  if (!('cardId' in change) || change.cardId !== thread.cardId) return thread;
+
+  switch (change.type) {
+    case 'comment.created':
+      if (thread.entries.some(comment => comment.id === change.comment.id)) return thread;
+      return { ...thread, entries: [...thread.entries, change.comment] };
+    case 'comment.updated':
+      return {
+        ...thread,
+        entries: thread.entries.map(comment => (comment.id === change.comment.id ? change.comment : comment))
+      };
+    case 'comment.deleted':
+      return { ...thread, entries: thread.entries.filter(comment => comment.id !== change.commentId) };
+    default:
+      return thread;
+  }
+}
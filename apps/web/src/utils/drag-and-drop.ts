@@ -0,0 +1,130 @@
+import type { Column } from '../store/board.store';
+
+// Data attached to every sortable item so drop handlers know what they hit
+export type DragItemData =
+  | { type: 'card'; columnId: string }
+  | { type: 'column' }
+  // Where a column crosses a lane on the grid layout; null for cards outside any lane
+  | { type: 'cell'; columnId: string; swimlaneId: string | null };
+
+export interface DropOver {
+  id: string;
+  data: DragItemData | undefined;
+}
+
+export interface CardDropTarget {
+  sourceColumnId: string;
+  targetColumnId: string;
+  targetOrder: number;
+}
+
+export interface LaneDropTarget extends CardDropTarget {
+  targetSwimlaneId: string | null;
+}
+
+const byOrder = <T extends { order: number }>(items: T[]) =>
+  [...items].sort((a, b) => a.order - b.order);
+
+export function findCardColumn(columns: Column[], cardId: string): Column | undefined {
+  return columns.find(column => column.cards.some(card => card.id === cardId));
+}
+
+/**
+ * Works out where a dragged card lands. Dropping on a card takes its slot
+ * (below it when `placeBelow` is set and the card comes from another column);
+ * dropping on a column puts the card at the bottom. Returns null when the
+ * card would end up where it started.
+ */
+export function getCardDropTarget(
+  columns: Column[],
+  cardId: string,
+  over: DropOver,
+  placeBelow = false
+): CardDropTarget | null {
+  const source = findCardColumn(columns, cardId);
+  if (!source || !over.data || over.id === cardId) return null;
+
+  const targetColumnId = over.data.type === 'column' ? over.id : over.data.columnId;
+  const target = columns.find(column => column.id === targetColumnId);
+  if (!target) return null;
+
+  const sameColumn = source.id === target.id;
+  const targetCards = byOrder(target.cards);
+  const currentOrder = byOrder(source.cards).findIndex(card => card.id === cardId);
+
+  let targetOrder: number;
+  if (over.data.type !== 'card') {
+    targetOrder = sameColumn ? targetCards.length - 1 : targetCards.length;
+  } else {
+    const overIndex = targetCards.findIndex(card => card.id === over.id);
+    if (overIndex === -1) return null;
+    // Within a column the sortable strategy has already shifted the
+    // neighbours, so the hovered slot is the final position
+    targetOrder = sameColumn ? overIndex : overIndex + (placeBelow ? 1 : 0);
+  }
+
+  if (sameColumn && targetOrder === currentOrder) return null;
+
+  return { sourceColumnId: source.id, targetColumnId: target.id, targetOrder };
+}
+
+/**
+ * Works out where a dragged card lands on the grid layout, where it can
+ * change column and lane at once. Cards keep one order per column, so the
+ * position is worked out across the whole target column: dropping on a card
+ * takes its slot (below it when `placeBelow` is set and the card comes from
+ * another cell), dropping on a cell puts the card at the bottom of the
+ * column. Returns null when the card would end up where it started.
+ */
+export function getLaneDropTarget(
+  columns: Column[],
+  cardId: string,
+  over: DropOver,
+  placeBelow = false
+): LaneDropTarget | null {
+  const source = findCardColumn(columns, cardId);
+  const card = source?.cards.find(existing => existing.id === cardId);
+  if (!source || !card || !over.data || over.id === cardId) return null;
+
+  const targetColumnId = over.data.type === 'column' ? over.id : over.data.columnId;
+  const target = columns.find(column => column.id === targetColumnId);
+  if (!target) return null;
+
+  const targetCards = byOrder(target.cards);
+  const currentLane = card.swimlaneId ?? null;
+  const currentOrder = byOrder(source.cards).findIndex(existing => existing.id === cardId);
+
+  let targetSwimlaneId: string | null;
+  let targetOrder: number;
+  if (over.data.type === 'card') {
+    const overCard = targetCards.find(existing => existing.id === over.id);
+    if (!overCard) return null;
+    targetSwimlaneId = overCard.swimlaneId ?? null;
+
+    if (source.id === target.id && targetSwimlaneId === currentLane) {
+      // Within a cell the sortable strategy has already shifted the
+      // neighbours, so the hovered slot is the final position
+      targetOrder = targetCards.indexOf(overCard);
+    } else {
+      const others = targetCards.filter(existing => existing.id !== cardId);
+      targetOrder = others.indexOf(overCard) + (placeBelow ? 1 : 0);
+    }
+  } else {
+    targetSwimlaneId = over.data.type === 'cell' ? over.data.swimlaneId : currentLane;
+    targetOrder = targetCards.filter(existing => existing.id !== cardId).length;
+  }
+
+  if (source.id === target.id && targetSwimlaneId === currentLane && targetOrder === currentOrder) return null;
+
+  return { sourceColumnId: source.id, targetColumnId: target.id, targetOrder, targetSwimlaneId };
+}
+
+// A dragged column takes the slot of the column it is over, including when
+// it is over one of that column's cards or cells
+export function getColumnDropOrder(columns: Column[], over: DropOver): number | null {
+  if (!over.data) return null;
+
+  const columnId = over.data.type === 'column' ? over.id : over.data.columnId;
+  const index = byOrder(columns).findIndex(column => column.id === columnId);
+  return index === -1 ? null : index;
+}
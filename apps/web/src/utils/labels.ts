@@ -0,0 +1,31 @@
+import type { Card, Label } from '../store/board.store';
+
+// Colors offered for new labels
+export const LABEL_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#6b7280'];
+
+// Cards that do not match the label filter are either dimmed or hidden
+export type LabelFilterMode = 'dim' | 'hide';
+
+export interface LabelFilter {
+  labelIds: string[];
+  mode: LabelFilterMode;
+}
+
+export const emptyLabelFilter = (): LabelFilter => ({ labelIds: [], mode: 'dim' });
+
+// With no labels selected every card matches; otherwise a card matches when
+// it has any of the selected labels
+export function matchesLabelFilter(card: Card, labelIds: string[]): boolean {
+  if (labelIds.length === 0) return true;
+  return (card.labelIds ?? []).some(id => labelIds.includes(id));
+}
+
+export function sortLabels(labels: Label[]): Label[] {
+  return [...labels].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// The card's labels in board order, skipping any the board no longer has
+export function cardLabels(card: Card, labels: Label[]): Label[] {
+  const ids = card.labelIds ?? [];
+  return labels.filter(label => ids.includes(label.id));
+}
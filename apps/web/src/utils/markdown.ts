@@ -0,0 +1,172 @@
+// The Markdown subset card descriptions support, parsed into a tree that is
+// rendered as React elements, so user text is never injected as HTML.
+// Blocks: paragraphs, `#` to `###` headings, `-`/`*` and `1.` lists, `>`
+// quotes and ``` fenced code. Inline: **bold**, *italic* or _italic_,
+// `code` and [links](https://example.com).
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'code'; text: string };
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+
+// Other schemes, javascript: in particular, are shown as plain text
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  // Consecutive lines matching the pattern, with the pattern's capture
+  const takeWhile = (pattern: RegExp): string[] => {
+    const taken: string[] = [];
+    while (index < lines.length) {
+      const match = pattern.exec(lines[index] ?? '');
+      if (!match) break;
+      taken.push(match[1] ?? '');
+      index += 1;
+    }
+    return taken;
+  };
+
+  while (index < lines.length) {
+    const line = lines[index] ?? '';
+
+    if (line.trim() === '') {
+      index += 1;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !FENCE.test(lines[index] ?? '')) {
+        code.push(lines[index] ?? '');
+        index += 1;
+      }
+      // Skip the closing fence; an unclosed one runs to the end
+      index += 1;
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = (heading[1] ?? '#').length as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2] ?? '') });
+      index += 1;
+      continue;
+    }
+
+    if (UNORDERED_ITEM.test(line) || ORDERED_ITEM.test(line)) {
+      const ordered = ORDERED_ITEM.test(line);
+      const items = takeWhile(ordered ? ORDERED_ITEM : UNORDERED_ITEM);
+      blocks.push({ type: 'list', ordered, items: items.map(parseInline) });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      blocks.push({ type: 'quote', children: parseInline(takeWhile(QUOTE).join('\n')) });
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block
+    const paragraph: string[] = [];
+    while (index < lines.length) {
+      const next = lines[index] ?? '';
+      if (
+        next.trim() === '' ||
+        FENCE.test(next) ||
+        HEADING.test(next) ||
+        UNORDERED_ITEM.test(next) ||
+        ORDERED_ITEM.test(next) ||
+        QUOTE.test(next)
+      ) {
+        break;
+      }
+      paragraph.push(next);
+      index += 1;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+// Tried in order at each position; the earliest match wins
+const INLINE_PATTERNS: Array<{ pattern: RegExp; build: (match: RegExpExecArray) => MarkdownInline }> = [
+  { pattern: /`([^`]+)`/, build: match => ({ type: 'code', text: match[1] ?? '' }) },
+  {
+    pattern: /\*\*(.+?)\*\*/,
+    build: match => ({ type: 'strong', children: parseInline(match[1] ?? '') }),
+  },
+  {
+    pattern: /\*([^*\s][^*]*?)\*|_([^_\s][^_]*?)_/,
+    build: match => ({ type: 'emphasis', children: parseInline(match[1] ?? match[2] ?? '') }),
+  },
+  {
+    pattern: /\[([^\]]+)\]\(([^)\s]+)\)/,
+    build: match => {
+      const href = match[2] ?? '';
+      const children = parseInline(match[1] ?? '');
+      return SAFE_LINK.test(href) ? { type: 'link', href, children } : { type: 'text', text: match[0] };
+    },
+  },
+];
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    let earliest: { match: RegExpExecArray; build: (match: RegExpExecArray) => MarkdownInline } | null = null;
+    for (const { pattern, build } of INLINE_PATTERNS) {
+      const match = pattern.exec(rest);
+      if (match && (!earliest || match.index < earliest.match.index)) {
+        earliest = { match, build };
+      }
+    }
+
+    if (!earliest) {
+      pushText(nodes, rest);
+      break;
+    }
+
+    pushText(nodes, rest.slice(0, earliest.match.index));
+    const node = earliest.build(earliest.match);
+    if (node.type === 'text') {
+      pushText(nodes, node.text);
+    } else {
+      nodes.push(node);
+    }
+    rest = rest.slice(earliest.match.index + earliest.match[0].length);
+  }
+
+  return nodes;
+}
+
+// Adjacent text is merged into one node
+function pushText(nodes: MarkdownInline[], text: string) {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+}
@@ -0,0 +1,82 @@
+// Messages on the /boards/:id/presence WebSocket, mirroring the API's
+// PresenceMember
+export interface PresenceIdentity {
+  name: string;
+  color: string;
+}
+
+export interface PresenceMember extends PresenceIdentity {
+  id: string;
+  editingCardId: string | null;
+  draggingCardId: string | null;
+}
+
+export type PresenceMessage =
+  | { type: 'welcome'; id: string; members: PresenceMember[] }
+  | { type: 'presence'; members: PresenceMember[] }
+  | { type: 'error'; error: string };
+
+// What other people are doing with one card
+export interface CardActivity {
+  editingBy?: PresenceMember;
+  draggingBy?: PresenceMember;
+}
+
+const IDENTITY_STORAGE_KEY = 'kanban.presence';
+
+const ANIMALS = ['Otter', 'Fox', 'Heron', 'Lynx', 'Badger', 'Panda', 'Koala', 'Falcon', 'Moose', 'Gecko'];
+const COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#9333ea', '#db2777', '#0891b2', '#4f46e5'];
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)] as T;
+
+function isIdentity(value: unknown): value is PresenceIdentity {
+  if (typeof value !== 'object' || value === null) return false;
+  const { name, color } = value as Record<string, unknown>;
+  return typeof name === 'string' && name.length > 0 && typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color);
+}
+
+/**
+ * Returns the name and color this browser shows up as. A random anonymous
+ * identity is created on first use and kept in localStorage, so it stays the
+ * same across reloads and boards.
+ */
+export function getPresenceIdentity(storage: Storage = localStorage): PresenceIdentity {
+  try {
+    const stored = JSON.parse(storage.getItem(IDENTITY_STORAGE_KEY) ?? 'null') as unknown;
+    if (isIdentity(stored)) return stored;
+  } catch {
+    // Fall through and replace whatever was stored
+  }
+
+  const identity = { name: `Anonymous ${pick(ANIMALS)}`, color: pick(COLORS) };
+  storage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(identity));
+  return identity;
+}
+
+// Indexes what everyone but this tab is doing by card ID
+export function getCardActivity(members: PresenceMember[], selfId: string | null): Record<string, CardActivity> {
+  const activity: Record<string, CardActivity> = {};
+
+  for (const member of members) {
+    if (member.id === selfId) continue;
+
+    if (member.editingCardId) {
+      activity[member.editingCardId] = { ...activity[member.editingCardId], editingBy: member };
+    }
+    if (member.draggingCardId) {
+      activity[member.draggingCardId] = { ...activity[member.draggingCardId], draggingBy: member };
+    }
+  }
+
+  return activity;
+}
+
+// Initials shown in avatars, e.g. "AO" for "Anonymous Otter"
+export function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(word => word.charAt(0).toUpperCase())
+    .join('');
+}
@@ -0,0 +1,105 @@
+import type { Board } from '../store/board.store';
+
+// Responses of GET /boards/:id/snapshots and its sub-routes, mirroring the
+// API's SnapshotSummary, SnapshotData and BoardDiff
+export type SnapshotReason = 'auto' | 'manual' | 'restore';
+
+export interface SnapshotSummary {
+  id: string;
+  // Board version the snapshot was taken at
+  version: number;
+  reason: SnapshotReason;
+  createdAt: string;
+}
+
+export interface SnapshotDetail extends SnapshotSummary {
+  board: Board & { version: number };
+}
+
+interface DiffColumn {
+  id: string;
+  title: string;
+}
+
+interface DiffCard {
+  id: string;
+  content: string;
+  columnId: string;
+}
+
+export interface BoardDiff {
+  title: { from: string; to: string } | null;
+  columns: {
+    added: DiffColumn[];
+    removed: DiffColumn[];
+    changed: Array<DiffColumn & { fields: Array<'title' | 'order' | 'wipLimit'> }>;
+  };
+  cards: {
+    added: DiffCard[];
+    removed: DiffCard[];
+    changed: Array<
+      DiffCard & { fields: Array<'content' | 'details' | 'labels' | 'checklists' | 'column' | 'swimlane' | 'order'> }
+    >;
+  };
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  auto: 'Automatic',
+  manual: 'Saved by hand',
+  restore: 'Before a restore',
+};
+
+export function describeSnapshotReason(reason: SnapshotReason): string {
+  return REASON_LABELS[reason];
+}
+
+/**
+ * Lines describing what changed since a snapshot, e.g. `Added card "Fix bug"`.
+ * Changes to position alone are left out: every add or remove renumbers the
+ * neighbouring items, which would drown out the edits that matter.
+ */
+export function describeDiff(diff: BoardDiff): string[] {
+  const lines: string[] = [];
+
+  if (diff.title) {
+    lines.push(`Renamed the board from "${diff.title.from}" to "${diff.title.to}"`);
+  }
+
+  for (const column of diff.columns.added) {
+    lines.push(`Added column "${column.title}"`);
+  }
+  for (const column of diff.columns.removed) {
+    lines.push(`Deleted column "${column.title}"`);
+  }
+  for (const column of diff.columns.changed) {
+    if (column.fields.includes('title')) {
+      lines.push(`Renamed a column to "${column.title}"`);
+    } else if (column.fields.includes('wipLimit')) {
+      lines.push(`Changed the WIP limit of column "${column.title}"`);
+    }
+  }
+
+  for (const card of diff.cards.added) {
+    lines.push(`Added card "${card.content}"`);
+  }
+  for (const card of diff.cards.removed) {
+    lines.push(`Deleted card "${card.content}"`);
+  }
+  for (const card of diff.cards.changed) {
+    if (card.fields.includes('content')) {
+      lines.push(`Edited card "${card.content}"`);
+    } else if (card.fields.includes('details')) {
+      lines.push(`Edited the details of card "${card.content}"`);
+    } else if (card.fields.includes('labels')) {
+      lines.push(`Changed the labels of card "${card.content}"`);
+    } else if (card.fields.includes('checklists')) {
+      lines.push(`Changed the checklists of card "${card.content}"`);
+    } else if (card.fields.includes('column')) {
+      lines.push(`Moved card "${card.content}" to another column`);
+    } else if (card.fields.includes('swimlane')) {
+      lines.push(`Moved card "${card.content}" to another lane`);
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,36 @@
+// Board templates, mirroring the API's TemplateSummary
+export interface BoardTemplate {
+  id: string;
+  name: string;
+  description: string;
+  builtIn: boolean;
+  // Column titles in order
+  columns: string[];
+}
+
+const TEMPLATES_STORAGE_KEY = 'kanban.templates';
+
+/**
+ * Templates saved from boards in this browser, newest first. The API only
+ * lists the built-in ones, so saved templates are remembered here like board
+ * tokens.
+ */
+export function getSavedTemplates(storage: Storage = localStorage): BoardTemplate[] {
+  try {
+    const stored = JSON.parse(storage.getItem(TEMPLATES_STORAGE_KEY) ?? '[]') as unknown;
+    if (Array.isArray(stored)) {
+      return stored.filter(
+        (template): template is BoardTemplate =>
+          typeof template?.id === 'string' && typeof template?.name === 'string' && Array.isArray(template?.columns)
+      );
+    }
+  } catch {
+    // Fall through and start over
+  }
+  return [];
+}
+
+export function rememberTemplate(template: BoardTemplate, storage: Storage = localStorage) {
+  const others = getSavedTemplates(storage).filter(saved => saved.id !== template.id);
+  storage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify([template, ...others]));
+}
@@ -0,0 +1,20 @@
+import type { Board, Column } from '../store/board.store';
+
+type LimitedColumn = Pick<Column, 'title' | 'cards' | 'wipLimit'>;
+
+// Whether the column holds more cards than its WIP limit allows
+export function isOverWipLimit(column: LimitedColumn): boolean {
+  return column.wipLimit != null && column.cards.length > column.wipLimit;
+}
+
+/**
+ * Why the board refuses another card for the column, or null when it takes
+ * one. Only boards in block mode refuse cards; the message matches the one
+ * the server sends with its 422.
+ */
+export function wipLimitViolation(board: Pick<Board, 'wipMode'>, column: LimitedColumn): string | null {
+  if (board.wipMode !== 'block' || column.wipLimit == null || column.cards.length < column.wipLimit) {
+    return null;
+  }
+  return `Column "${column.title}" is at its WIP limit of ${column.wipLimit}`;
+}
@@ -14,7 +14,7 @@ test.describe('Kanban Board Management', () => {
     await expect(page.getByText('Welcome to Kanban Board')).toBeVisible();
 
     // Click create board button
-    await page.getByRole('button', { name: /create your first board/i }).click();
+    await page.getByRole('button', { name: /create blank board/i }).click();
 
     // Should redirect to new board with unique ID
     await expect(page).toHaveURL(/\/board\/[A-Za-z0-9_-]{21}$/);
@@ -29,7 +29,7 @@ test.describe('Kanban Board Management', () => {
   test('should access existing board via direct URL', async ({ page }) => {
     // First create a board
     await page.goto('/');
-    await page.getByRole('button', { name: /create your first board/i }).click();
+    await page.getByRole('button', { name: /create blank board/i }).click();
     
     // Get the board URL
     const boardUrl = page.url();
@@ -56,7 +56,7 @@ test.describe('Kanban Board Management', () => {
   test('complete card management workflow', async ({ page }) => {
     // Create a board
     await page.goto('/');
-    await page.getByRole('button', { name: /create your first board/i }).click();
+    await page.getByRole('button', { name: /create blank board/i }).click();
 
     // Add a card to Todo column
     await page.locator('[data-testid="board-column"]').first().getByRole('button', { name: /add card/i }).click();
@@ -92,7 +92,7 @@ test.describe('Kanban Board Management', () => {
   test('drag and drop cards between columns', async ({ page }) => {
     // Create a board
     await page.goto('/');
-    await page.getByRole('button', { name: /create your first board/i }).click();
+    await page.getByRole('button', { name: /create blank board/i }).click();
 
     // Add a card to Todo column
     await page.locator('[data-testid="board-column"]').first().getByRole('button', { name: /add card/i }).click();
@@ -118,7 +118,7 @@ test.describe('Kanban Board Management', () => {
   test('board persists after page reload', async ({ page }) => {
     // Create a board and add content
     await page.goto('/');
-    await page.getByRole('button', { name: /create your first board/i }).click();
+    await page.getByRole('button', { name: /create blank board/i }).click();
     
     // Change board title (if this functionality exists)
     await page.getByText('My Kanban Board').click();
@@ -144,7 +144,7 @@ test.describe('Kanban Board Management', () => {
 
     // Create a board
     await page.goto('/');
-    await page.getByRole('button', { name: /create your first board/i }).click();
+    await page.getByRole('button', { name: /create blank board/i }).click();
 
     // Verify mobile layout
     await expect(page.getByText('My Kanban Board')).toBeVisible();
@@ -168,7 +168,7 @@ test.describe('Kanban Board Management', () => {
 
     // Try to create a board
     await page.goto('/');
-    await page.getByRole('button', { name: /create your first board/i }).click();
+    await page.getByRole('button', { name: /create blank board/i }).click();
 
     // Should show error message
     await expect(page.getByText(/something went wrong/i)).toBeVisible();
@@ -185,7 +185,7 @@ test.describe('Kanban Board Management', () => {
   test('supports keyboard navigation', async ({ page }) => {
     // Create a board with some cards
     await page.goto('/');
-    await page.getByRole('button', { name: /create your first board/i }).click();
+    await page.getByRole('button', { name: /create blank board/i }).click();
 
     // Add cards
     for (let i = 1; i <= 3; i++) {
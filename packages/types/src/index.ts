@@ -1,29 +1,247 @@
 import { z } from 'zod';
 
+// Card schemas
+export const CardPrioritySchema = z.enum(['low', 'medium', 'high', 'urgent']);
+
+// Label schemas
+export const LabelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string(),
+});
+
+// Checklist schemas
+export const ChecklistItemSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  done: z.boolean(),
+  order: z.number(),
+});
+
+export const ChecklistSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  order: z.number(),
+  items: z.array(ChecklistItemSchema),
+});
+
+// Comment schemas
+export const CommentSchema = z.object({
+  id: z.string(),
+  authorName: z.string(),
+  // Markdown
+  body: z.string(),
+  edited: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Attachment schemas
+export const AttachmentSchema = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  // Sniffed from the file's contents
+  contentType: z.string(),
+  // Bytes
+  size: z.number().int(),
+  hasThumbnail: z.boolean(),
+  cover: z.boolean(),
+  createdAt: z.date(),
+});
+
+// Swimlane schemas
+export const SwimlaneSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  order: z.number(),
+});
+
 // Board schemas
 export const CreateBoardSchema = z.object({
   title: z.string().optional(),
+  // Built-in or saved template to start from instead of Todo / In Progress / Done
+  templateId: z.string().optional(),
+});
+
+export const CloneBoardSchema = z.object({
+  title: z.string().optional(),
+  // Columns only, also card titles, or cards with all their details
+  scope: z.enum(['columns', 'cards', 'everything']).default('everything'),
+});
+
+// Template schemas
+export const BoardTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  builtIn: z.boolean(),
+  // Column titles in order
+  columns: z.array(z.string()),
 });
 
 export const BoardSchema = z.object({
   id: z.string(),
   title: z.string(),
   createdAt: z.date(),
+  version: z.number().int(),
+  // 'block' refuses cards that would take a column past its WIP limit
+  wipMode: z.enum(['warn', 'block']),
+  labels: z.array(LabelSchema),
+  swimlanes: z.array(SwimlaneSchema),
   columns: z.array(z.object({
     id: z.string(),
     title: z.string(),
     order: z.number(),
+    wipLimit: z.number().int().nullable(),
     cards: z.array(z.object({
       id: z.string(),
       content: z.string(),
+      // Markdown
+      description: z.string(),
+      priority: CardPrioritySchema.nullable(),
+      // Story points
+      estimate: z.number().int().nullable(),
+      coverColor: z.string().nullable(),
+      labelIds: z.array(z.string()),
+      checklists: z.array(ChecklistSchema),
+      commentCount: z.number().int(),
+      attachments: z.array(AttachmentSchema),
+      // Null for cards outside any lane
+      swimlaneId: z.string().nullable(),
+      order: z.number(),
+    })),
+  })),
+});
+
+// Board export documents, as written by GET /api/boards/:id/export and read
+// back in by POST /api/boards/import. Older versions are migrated forward.
+export const BOARD_EXPORT_VERSION = 2;
+
+const HexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+const ExportedCardV1Schema = z.object({
+  id: z.string().min(1),
+  content: z.string().min(1).max(500),
+  description: z.string().max(10000),
+  priority: CardPrioritySchema.nullable(),
+  estimate: z.number().int().min(0).max(100).nullable(),
+  coverColor: HexColorSchema.nullable(),
+  labelIds: z.array(z.string()),
+  checklists: z.array(z.object({
+    title: z.string().min(1).max(100),
+    order: z.number(),
+    items: z.array(z.object({
+      text: z.string().min(1).max(500),
+      done: z.boolean(),
       order: z.number(),
     })),
   })),
+  swimlaneId: z.string().nullable(),
+  order: z.number(),
 });
 
+// Version 2 added the cards' comment threads
+const ExportedCardSchema = ExportedCardV1Schema.extend({
+  // Oldest first
+  comments: z.array(z.object({
+    authorName: z.string().min(1).max(40),
+    body: z.string().min(1).max(5000),
+    createdAt: z.coerce.date(),
+  })),
+});
+
+const exportedBoardSchema = <Card extends z.ZodTypeAny>(card: Card) =>
+  z.object({
+    title: z.string().min(1).max(100),
+    wipMode: z.enum(['warn', 'block']),
+    labels: z.array(z.object({
+      id: z.string().min(1),
+      name: z.string().trim().min(1).max(30),
+      color: HexColorSchema,
+    })),
+    swimlanes: z.array(z.object({
+      id: z.string().min(1),
+      title: z.string().min(1).max(100),
+      order: z.number(),
+    })),
+    columns: z.array(z.object({
+      id: z.string().min(1),
+      title: z.string().min(1).max(50),
+      order: z.number(),
+      wipLimit: z.number().int().min(1).max(999).nullable(),
+      cards: z.array(card),
+    })),
+  }).superRefine((board, context) => {
+    const names = board.labels.map(label => label.name);
+    if (new Set(names).size !== names.length) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['labels'], message: 'Label names must be unique' });
+    }
+
+    // Cards may only refer to the board's own labels and lanes
+    const labelIds = new Set(board.labels.map(label => label.id));
+    const swimlaneIds = new Set(board.swimlanes.map(lane => lane.id));
+    board.columns.forEach((column, columnIndex) => {
+      column.cards.forEach((card: z.infer<typeof ExportedCardV1Schema>, cardIndex) => {
+        const path = ['columns', columnIndex, 'cards', cardIndex];
+        if (card.labelIds.some(id => !labelIds.has(id))) {
+          context.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'labelIds'], message: 'Unknown label' });
+        }
+        if (card.swimlaneId !== null && !swimlaneIds.has(card.swimlaneId)) {
+          context.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'swimlaneId'], message: 'Unknown swimlane' });
+        }
+      });
+    });
+  });
+
+export const BoardExportV1Schema = z.object({
+  format: z.literal('kanban-board'),
+  version: z.literal(1),
+  exportedAt: z.coerce.date(),
+  board: exportedBoardSchema(ExportedCardV1Schema),
+});
+
+export const BoardExportSchema = z.object({
+  format: z.literal('kanban-board'),
+  version: z.literal(BOARD_EXPORT_VERSION),
+  exportedAt: z.coerce.date(),
+  board: exportedBoardSchema(ExportedCardSchema),
+});
+
+// Any version this release can read
+export const AnyBoardExportSchema = z.discriminatedUnion('version', [BoardExportV1Schema, BoardExportSchema]);
+
+// Brings a document of any version up to the current one
+export function migrateBoardExport(document: z.infer<typeof AnyBoardExportSchema>): BoardExport {
+  if (document.version === BOARD_EXPORT_VERSION) {
+    return document;
+  }
+
+  return {
+    ...document,
+    version: BOARD_EXPORT_VERSION,
+    board: {
+      ...document.board,
+      columns: document.board.columns.map(column => ({
+        ...column,
+        cards: column.cards.map(card => ({ ...card, comments: [] })),
+      })),
+    },
+  };
+}
+
 // Types
 export type CreateBoardRequest = z.infer<typeof CreateBoardSchema>;
+export type CloneBoardRequest = z.infer<typeof CloneBoardSchema>;
 export type Board = z.infer<typeof BoardSchema>;
+export type CardPriority = z.infer<typeof CardPrioritySchema>;
+export type Label = z.infer<typeof LabelSchema>;
+export type Checklist = z.infer<typeof ChecklistSchema>;
+export type ChecklistItem = z.infer<typeof ChecklistItemSchema>;
+export type Comment = z.infer<typeof CommentSchema>;
+export type Attachment = z.infer<typeof AttachmentSchema>;
+export type Swimlane = z.infer<typeof SwimlaneSchema>;
+export type BoardTemplate = z.infer<typeof BoardTemplateSchema>;
+export type BoardExport = z.infer<typeof BoardExportSchema>;
 
 // API Response types
 export interface ApiResponse<T = unknown> {
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "activities" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "boardId" TEXT NOT NULL,
+    "actorName" TEXT,
+    "ipHash" TEXT,
+    "action" TEXT NOT NULL,
+    "before" TEXT,
+    "after" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "activities_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "boards" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "activities_boardId_idx" ON "activities"("boardId");
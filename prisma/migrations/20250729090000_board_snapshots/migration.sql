@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "board_snapshots" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "boardId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "data" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "board_snapshots_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "boards" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "board_snapshots_boardId_createdAt_idx" ON "board_snapshots"("boardId", "createdAt");
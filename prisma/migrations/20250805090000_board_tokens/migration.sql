@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "board_tokens" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "boardId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "board_tokens_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "boards" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "board_tokens_token_key" ON "board_tokens"("token");
+
+-- CreateIndex
+CREATE INDEX "board_tokens_boardId_idx" ON "board_tokens"("boardId");
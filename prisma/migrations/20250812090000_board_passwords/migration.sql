@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "boards" ADD COLUMN "passwordHash" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "cards" ADD COLUMN "description" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "cards" ADD COLUMN "priority" TEXT;
+ALTER TABLE "cards" ADD COLUMN "estimate" INTEGER;
+ALTER TABLE "cards" ADD COLUMN "coverColor" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "boards" ADD COLUMN "wipMode" TEXT NOT NULL DEFAULT 'warn';
+
+-- AlterTable
+ALTER TABLE "columns" ADD COLUMN "wipLimit" INTEGER;
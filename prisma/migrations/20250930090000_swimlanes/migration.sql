@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "swimlanes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "boardId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "swimlanes_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "boards" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_cards" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "content" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "priority" TEXT,
+    "estimate" INTEGER,
+    "coverColor" TEXT,
+    "order" INTEGER NOT NULL,
+    "columnId" TEXT NOT NULL,
+    "swimlaneId" TEXT,
+    CONSTRAINT "cards_columnId_fkey" FOREIGN KEY ("columnId") REFERENCES "columns" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "cards_swimlaneId_fkey" FOREIGN KEY ("swimlaneId") REFERENCES "swimlanes" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_cards" ("columnId", "content", "coverColor", "description", "estimate", "id", "order", "priority") SELECT "columnId", "content", "coverColor", "description", "estimate", "id", "order", "priority" FROM "cards";
+DROP TABLE "cards";
+ALTER TABLE "new_cards" RENAME TO "cards";
+CREATE INDEX "cards_swimlaneId_idx" ON "cards"("swimlaneId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "swimlanes_boardId_idx" ON "swimlanes"("boardId");